@@ -0,0 +1,67 @@
+/**
+ * Ashby Adapter
+ * jobs.ashbyhq.com postings via the public job board API
+ */
+
+import { asString, toIsoDate } from '../structured-data-extractor';
+import {
+  buildPosting,
+  splitSections,
+  type AtsAdapter,
+  type AtsMatch,
+  type AtsPosting,
+} from './shared';
+
+function endpoint(match: AtsMatch): string {
+  return `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(match.company)}`;
+}
+
+export const ashbyAdapter: AtsAdapter = {
+  name: 'ashby',
+
+  detect(url: URL): AtsMatch | null {
+    if (url.hostname !== 'jobs.ashbyhq.com') return null;
+    const match = url.pathname.match(/^\/([^/]+)\/([0-9a-f-]{36})/i);
+    return match
+      ? { ats: 'ashby', company: decodeURIComponent(match[1]).toLowerCase(), jobId: match[2].toLowerCase(), url: url.toString() }
+      : null;
+  },
+
+  endpoint,
+
+  parse(payload: unknown, match: AtsMatch): AtsPosting | null {
+    if (!payload || typeof payload !== 'object') return null;
+
+    // The board endpoint lists every open job; pick ours
+    const jobs = (payload as Record<string, any>).jobs;
+    const job = Array.isArray(jobs)
+      ? jobs.find((item: any) => typeof item?.id === 'string' && item.id.toLowerCase() === match.jobId)
+      : null;
+    if (!job) return null;
+
+    const locations = [
+      asString(job.location),
+      ...(Array.isArray(job.secondaryLocations)
+        ? job.secondaryLocations.map((item: any) => asString(item?.location))
+        : []),
+    ].filter((location): location is string => !!location);
+
+    const description = asString(job.descriptionHtml);
+    const department = [asString(job.department), asString(job.team)]
+      .filter(Boolean)
+      .join(' · ');
+
+    return buildPosting({
+      match,
+      sourceUrl: endpoint(match),
+      title: asString(job.title),
+      company: null, // Not in the API; the URL slug is the best we have
+      sections: description ? splitSections(description) : [],
+      locations,
+      remote: typeof job.isRemote === 'boolean' ? job.isRemote : null,
+      department: department || null,
+      employmentType: asString(job.employmentType),
+      postedAt: toIsoDate(job.publishedAt),
+    });
+  },
+};
@@ -0,0 +1,212 @@
+/**
+ * ATS Adapters - Test Examples
+ *
+ * Checks URL detection and parsing against the saved responses in ./fixtures,
+ * so no network access is needed. Run from a script or API route.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { check } from '../test-examples';
+import { detectAts, fetchAtsPosting, toStructuredExtraction, type AtsName } from './index';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures');
+
+function loadFixture(name: string): string {
+  return readFileSync(join(FIXTURES_DIR, name), 'utf8');
+}
+
+/**
+ * Example 1: Detect the ATS (and the ids the endpoint needs) from posting URLs
+ */
+export function testDetectAts() {
+  const cases: Array<[string, AtsName | null, string | null]> = [
+    ['https://boards.greenhouse.io/acmerobotics/jobs/4012345006', 'greenhouse', '4012345006'],
+    ['https://job-boards.greenhouse.io/acmerobotics/jobs/4012345006?gh_src=abc', 'greenhouse', '4012345006'],
+    ['https://boards.greenhouse.io/embed/job_app?for=acmerobotics&token=4012345006', 'greenhouse', '4012345006'],
+    ['https://jobs.lever.co/northwind/5f7d2c1e-8a3b-4c6d-9e0f-1a2b3c4d5e6f/apply', 'lever', '5f7d2c1e-8a3b-4c6d-9e0f-1a2b3c4d5e6f'],
+    ['https://contoso.wd5.myworkdayjobs.com/en-US/Careers/job/Detroit-MI/Mechanical-Engineering-Co-op--Spring-2027-_R-10482', 'workday', 'R-10482'],
+    ['https://jobs.ashbyhq.com/fabrikam-labs/7e8f9a0b-1c2d-4e3f-8a9b-0c1d2e3f4a5b', 'ashby', '7e8f9a0b-1c2d-4e3f-8a9b-0c1d2e3f4a5b'],
+    ['https://jobs.smartrecruiters.com/WoodgroveBank/744000012345678-cybersecurity-analyst-intern', 'smartrecruiters', '744000012345678'],
+    ['https://boards.greenhouse.io/acmerobotics', null, null],
+    ['https://careers.example.com/jobs/123', null, null],
+  ];
+
+  const results = cases.map(([url, ats, jobId]) => {
+    const detected = detectAts(url);
+    return check(
+      `detect ${url}`,
+      [detected?.match.ats ?? null, detected?.match.jobId ?? null],
+      [ats, jobId]
+    );
+  });
+
+  const workday = detectAts(cases[4][0]);
+  results.push(
+    check(
+      'workday endpoint',
+      workday && workday.adapter.endpoint(workday.match),
+      'https://contoso.wd5.myworkdayjobs.com/wday/cxs/contoso/Careers/job/Detroit-MI/Mechanical-Engineering-Co-op--Spring-2027-_R-10482'
+    )
+  );
+
+  return results.every(Boolean);
+}
+
+/**
+ * Example 2: Parse each saved API response into ParsedJobData fields
+ */
+export function testParseFixtures() {
+  const expectations: Array<{
+    url: string;
+    fixture: string;
+    html?: boolean;
+    expected: Record<string, unknown>;
+  }> = [
+    {
+      url: 'https://boards.greenhouse.io/acmerobotics/jobs/4012345006',
+      fixture: 'greenhouse.json',
+      expected: {
+        company_name: 'Acme Robotics',
+        job_title: 'Software Engineering Intern, Summer 2027',
+        opportunity_type: 'internship',
+        role_type: 'Engineering',
+        location: 'Pittsburgh, PA; Remote - US',
+      },
+    },
+    {
+      url: 'https://boards.greenhouse.io/acmerobotics/jobs/4012345006',
+      fixture: 'greenhouse.html',
+      html: true,
+      expected: {
+        company_name: 'Acme Robotics',
+        job_title: 'Software Engineering Intern, Summer 2027',
+        location: 'Pittsburgh, PA',
+      },
+    },
+    {
+      url: 'https://jobs.lever.co/northwind/5f7d2c1e-8a3b-4c6d-9e0f-1a2b3c4d5e6f',
+      fixture: 'lever.json',
+      expected: {
+        company_name: 'Northwind',
+        job_title: 'Data Science Intern',
+        opportunity_type: 'internship',
+        location: 'New York, NY; Boston, MA',
+      },
+    },
+    {
+      url: 'https://jobs.lever.co/northwind/5f7d2c1e-8a3b-4c6d-9e0f-1a2b3c4d5e6f',
+      fixture: 'lever.html',
+      html: true,
+      expected: {
+        company_name: 'Northwind',
+        job_title: 'Data Science Intern',
+        location: 'New York, NY',
+      },
+    },
+    {
+      url: 'https://contoso.wd5.myworkdayjobs.com/Careers/job/Detroit-MI/Mechanical-Engineering-Co-op--Spring-2027-_R-10482',
+      fixture: 'workday.json',
+      expected: {
+        company_name: 'Contoso Motors',
+        job_title: 'Mechanical Engineering Co-op (Spring 2027)',
+        deadline: '2026-12-01',
+        location: 'Detroit, MI; Ann Arbor, MI',
+      },
+    },
+    {
+      url: 'https://jobs.ashbyhq.com/fabrikam-labs/7e8f9a0b-1c2d-4e3f-8a9b-0c1d2e3f4a5b',
+      fixture: 'ashby.json',
+      expected: {
+        company_name: 'Fabrikam Labs',
+        job_title: 'Product Design Intern',
+        opportunity_type: 'internship',
+        role_type: 'Design · Growth',
+        location: 'Remote (US); Austin, TX',
+      },
+    },
+    {
+      url: 'https://jobs.smartrecruiters.com/WoodgroveBank/744000012345678-cybersecurity-analyst-intern',
+      fixture: 'smartrecruiters.json',
+      expected: {
+        company_name: 'Woodgrove Bank',
+        job_title: 'Cybersecurity Analyst Intern',
+        opportunity_type: 'internship',
+        role_type: 'Information Security',
+        location: 'Charlotte, NC, US',
+      },
+    },
+  ];
+
+  const results = expectations.map(({ url, fixture, html, expected }) => {
+    const detected = detectAts(url);
+    if (!detected) {
+      console.error(`❌ ${fixture}: URL not detected`);
+      return false;
+    }
+
+    const { adapter, match } = detected;
+    const raw = loadFixture(fixture);
+    const posting = html ? adapter.parseHtml?.(raw, match) : adapter.parse(JSON.parse(raw), match);
+    if (!posting) {
+      console.error(`❌ ${fixture}: nothing parsed`);
+      return false;
+    }
+
+    const actual = Object.fromEntries(
+      Object.keys(expected).map(field => [field, posting.data[field as keyof typeof posting.data]])
+    );
+    const fieldsMatch = check(fixture, actual, expected);
+    const hasRequirements = !!posting.data.requirements && !!posting.data.description;
+    if (!hasRequirements) {
+      console.error(`❌ ${fixture}: missing requirements or description`);
+    }
+    return fieldsMatch && hasRequirements;
+  });
+
+  return results.every(Boolean);
+}
+
+/**
+ * Example 3: Fetch through a stubbed fetch that serves fixtures, including
+ * the page fallback when the API is down
+ */
+export async function testFetchAtsPosting() {
+  const url = 'https://jobs.lever.co/northwind/5f7d2c1e-8a3b-4c6d-9e0f-1a2b3c4d5e6f';
+
+  const fromApi = await fetchAtsPosting(url, {
+    fetchImpl: (async () => new Response(loadFixture('lever.json'), { status: 200 })) as typeof fetch,
+  });
+
+  const fromPage = await fetchAtsPosting(url, {
+    fetchImpl: (async (input: RequestInfo | URL) =>
+      String(input).startsWith('https://api.lever.co')
+        ? new Response('Not found', { status: 404 })
+        : new Response(loadFixture('lever.html'), { status: 200 })) as typeof fetch,
+  });
+
+  const extraction = fromApi.posting && toStructuredExtraction(fromApi.posting);
+
+  return [
+    check('fetch from API', fromApi.success && fromApi.posting?.sourceUrl, 'https://api.lever.co/v0/postings/northwind/5f7d2c1e-8a3b-4c6d-9e0f-1a2b3c4d5e6f'),
+    check('fetch falls back to page', fromPage.success && fromPage.posting?.data.job_title, 'Data Science Intern'),
+    check('structured extraction source', extraction?.sources.job_title, 'ats'),
+  ].every(Boolean);
+}
+
+/**
+ * Run all examples
+ */
+export async function runAllAtsTests() {
+  console.log('🧪 Running ATS adapter tests...\n');
+
+  const results = {
+    detect: testDetectAts(),
+    parse: testParseFixtures(),
+    fetch: await testFetchAtsPosting(),
+  };
+
+  const passed = Object.values(results).every(Boolean);
+  console.log(passed ? '\n✅ All ATS adapter tests passed' : '\n❌ Some ATS adapter tests failed');
+  return results;
+}
@@ -0,0 +1,98 @@
+/**
+ * Greenhouse Adapter
+ * boards.greenhouse.io / job-boards.greenhouse.io postings via the public Job Board API
+ */
+
+import * as cheerio from 'cheerio';
+import { asString, toIsoDate } from '../structured-data-extractor';
+import {
+  buildPosting,
+  decodeEntities,
+  splitSections,
+  type AtsAdapter,
+  type AtsMatch,
+  type AtsPosting,
+} from './shared';
+
+function endpoint(match: AtsMatch): string {
+  return `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(match.company)}/jobs/${match.jobId}`;
+}
+
+function isRemote(locations: string[]): boolean | null {
+  return locations.some(location => /remote/i.test(location)) ? true : null;
+}
+
+export const greenhouseAdapter: AtsAdapter = {
+  name: 'greenhouse',
+
+  detect(url: URL): AtsMatch | null {
+    if (!/(^|\.)greenhouse\.io$/.test(url.hostname)) return null;
+
+    // Embedded application form: /embed/job_app?for=<board>&token=<id>
+    if (url.pathname.startsWith('/embed/job_app')) {
+      const board = url.searchParams.get('for');
+      const jobId = url.searchParams.get('token');
+      return board && jobId && /^\d+$/.test(jobId)
+        ? { ats: 'greenhouse', company: board.toLowerCase(), jobId, url: url.toString() }
+        : null;
+    }
+
+    const match = url.pathname.match(/^\/([^/]+)\/jobs\/(\d+)/);
+    return match
+      ? { ats: 'greenhouse', company: match[1].toLowerCase(), jobId: match[2], url: url.toString() }
+      : null;
+  },
+
+  endpoint,
+
+  parse(payload: unknown, match: AtsMatch): AtsPosting | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const job = payload as Record<string, any>;
+
+    const locations = [
+      asString(job.location?.name),
+      ...(Array.isArray(job.offices) ? job.offices.map((office: any) => asString(office?.location) ?? asString(office?.name)) : []),
+    ].filter((location): location is string => !!location);
+    const uniqueLocations = Array.from(new Set(locations));
+
+    const content = asString(job.content);
+    const departments = Array.isArray(job.departments)
+      ? job.departments.map((department: any) => asString(department?.name)).filter(Boolean)
+      : [];
+
+    return buildPosting({
+      match,
+      sourceUrl: endpoint(match),
+      title: asString(job.title),
+      company: asString(job.company_name),
+      sections: content ? splitSections(decodeEntities(content)) : [],
+      locations: uniqueLocations,
+      remote: isRemote(uniqueLocations),
+      department: departments.length > 0 ? departments.join(', ') : null,
+      employmentType: null, // Greenhouse doesn't expose one; the title decides
+      postedAt: toIsoDate(job.first_published ?? job.updated_at),
+    });
+  },
+
+  parseHtml(html: string, match: AtsMatch): AtsPosting | null {
+    const $ = cheerio.load(html);
+    const title = asString($('.app-title').first().text()) ?? asString($('h1').first().text());
+    const company = asString($('.company-name').first().text().replace(/^\s*at\s+/i, ''));
+    const location = asString($('.location').first().text());
+    const content = $('#content').first().html();
+    const locations = location ? [location] : [];
+
+    return buildPosting({
+      match,
+      sourceUrl: match.url,
+      title,
+      company,
+      sections: content ? splitSections(content) : [],
+      locations,
+      remote: isRemote(locations),
+      department: null,
+      employmentType: null,
+      postedAt: null,
+    });
+  },
+};
@@ -0,0 +1,194 @@
+/**
+ * ATS Adapters
+ * Reads postings hosted on applicant tracking systems (Greenhouse, Lever,
+ * Workday, Ashby, SmartRecruiters) through their public endpoints instead of
+ * scraping the rendered page
+ */
+
+import {
+  STRUCTURED_JOB_FIELDS,
+  type StructuredExtractionResult,
+} from '../structured-data-extractor';
+import { DEFAULT_TIMEOUT, DEFAULT_USER_AGENT } from '../scraper-utils';
+import { withHostSlot, withPoliteness } from '../crawl-politeness';
+import { safeFetch } from '../url-safety';
+import { ashbyAdapter } from './ashby';
+import { greenhouseAdapter } from './greenhouse';
+import { leverAdapter } from './lever';
+import { smartRecruitersAdapter } from './smartrecruiters';
+import { workdayAdapter } from './workday';
+import { sectionsToText, type AtsAdapter, type AtsMatch, type AtsPosting } from './shared';
+
+export * from './shared';
+export { ashbyAdapter, greenhouseAdapter, leverAdapter, smartRecruitersAdapter, workdayAdapter };
+
+export const ATS_ADAPTERS: AtsAdapter[] = [
+  greenhouseAdapter,
+  leverAdapter,
+  workdayAdapter,
+  ashbyAdapter,
+  smartRecruitersAdapter,
+];
+
+/**
+ * Options for fetching an ATS posting
+ */
+export interface AtsFetchOptions {
+  timeout?: number;
+  userAgent?: string;
+  fetchImpl?: typeof fetch; // Swapped out in fixture tests
+}
+
+/**
+ * Result from fetching an ATS posting
+ */
+export interface AtsFetchResult {
+  success: boolean;
+  match?: AtsMatch;
+  posting?: AtsPosting;
+  error?: string;
+  httpStatus?: number; // Status from the ATS API (404 usually means the posting was taken down)
+}
+
+/**
+ * Finds the ATS hosting a posting URL
+ * @returns The adapter and what it read from the URL, or null for non-ATS URLs
+ */
+export function detectAts(url: string): { adapter: AtsAdapter; match: AtsMatch } | null {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return null;
+  }
+
+  for (const adapter of ATS_ADAPTERS) {
+    const match = adapter.detect(urlObj);
+    if (match) {
+      return { adapter, match };
+    }
+  }
+  return null;
+}
+
+async function request(
+  url: string,
+  accept: string,
+  options: AtsFetchOptions
+): Promise<Response> {
+  const fetchImpl = options.fetchImpl || safeFetch;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout || DEFAULT_TIMEOUT);
+
+  try {
+    return await fetchImpl(url, {
+      headers: {
+        'User-Agent': options.userAgent || DEFAULT_USER_AGENT,
+        Accept: accept,
+      },
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Fetches a posting from its ATS
+ *
+ * Calls the ATS's public JSON endpoint, and falls back to reading the posting
+ * page itself for adapters that can (Greenhouse, Lever). The page fallback
+ * respects robots.txt; the documented APIs skip it but share the same
+ * per-host rate limits as page fetches.
+ *
+ * @param url - Posting URL
+ * @param options - Fetch options
+ * @returns Fetch result; success is false for non-ATS URLs
+ */
+export async function fetchAtsPosting(
+  url: string,
+  options: AtsFetchOptions = {}
+): Promise<AtsFetchResult> {
+  const detected = detectAts(url);
+  if (!detected) {
+    return { success: false, error: 'Not a supported ATS URL' };
+  }
+
+  const { adapter, match } = detected;
+  let error = 'Posting not found';
+  let httpStatus: number | undefined;
+
+  try {
+    const endpoint = adapter.endpoint(match);
+    const response = await withHostSlot(endpoint, null, () => request(endpoint, 'application/json', options));
+    httpStatus = response.status;
+    if (response.ok) {
+      const posting = adapter.parse(await response.json(), match);
+      if (posting) {
+        return { success: true, match, posting, httpStatus };
+      }
+    } else {
+      error = `${adapter.name} API returned HTTP ${response.status}`;
+    }
+  } catch (apiError) {
+    error = apiError instanceof Error ? apiError.message : String(apiError);
+  }
+
+  if (adapter.parseHtml) {
+    try {
+      // A page fetch like any other, so robots.txt and the host limits apply
+      const response = await withPoliteness(
+        match.url,
+        () => request(match.url, 'text/html', options),
+        options
+      );
+      if (response.ok) {
+        const posting = adapter.parseHtml(await response.text(), match);
+        if (posting) {
+          return { success: true, match, posting, httpStatus };
+        }
+      }
+    } catch (htmlError) {
+      console.warn(`[ATS] ${adapter.name} page fallback failed:`, htmlError);
+    }
+  }
+
+  return { success: false, match, error, httpStatus };
+}
+
+/**
+ * Converts an ATS posting into the structured extraction the parser merges with AI output
+ */
+export function toStructuredExtraction(posting: AtsPosting): StructuredExtractionResult {
+  const sources: StructuredExtractionResult['sources'] = {};
+  for (const field of STRUCTURED_JOB_FIELDS) {
+    if (posting.confidence[field] !== undefined) {
+      sources[field] = 'ats';
+    }
+  }
+
+  return {
+    data: posting.data,
+    confidence: posting.confidence,
+    sources,
+    hasJobPosting: true,
+  };
+}
+
+/**
+ * Formats an ATS posting as page text for the AI parser
+ */
+export function formatAtsContent(posting: AtsPosting): string {
+  const { data } = posting;
+  const lines = [
+    data.job_title,
+    data.company_name,
+    data.location && `Location: ${data.location}`,
+    posting.employmentType && `Employment type: ${posting.employmentType}`,
+    posting.department && `Department: ${posting.department}`,
+    posting.postedAt && `Posted: ${posting.postedAt}`,
+    data.deadline && `Apply by: ${data.deadline}`,
+  ].filter(Boolean);
+
+  return `${lines.join('\n')}\n\n${sectionsToText(posting.sections)}`.trim();
+}
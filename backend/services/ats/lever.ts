@@ -0,0 +1,131 @@
+/**
+ * Lever Adapter
+ * jobs.lever.co postings via the public Postings API
+ */
+
+import * as cheerio from 'cheerio';
+import { asString, htmlToText, toIsoDate } from '../structured-data-extractor';
+import {
+  buildPosting,
+  classifySection,
+  splitSections,
+  type AtsAdapter,
+  type AtsMatch,
+  type AtsPosting,
+  type AtsSection,
+} from './shared';
+
+function endpoint(match: AtsMatch): string {
+  const apiHost = new URL(match.url).hostname === 'jobs.eu.lever.co' ? 'api.eu.lever.co' : 'api.lever.co';
+  return `https://${apiHost}/v0/postings/${encodeURIComponent(match.company)}/${match.jobId}`;
+}
+
+function listSection(heading: string | null, html: string): AtsSection | null {
+  const text = htmlToText(/<li[\s>]/i.test(html) && !/<ul[\s>]/i.test(html) ? `<ul>${html}</ul>` : html);
+  return text ? { heading, kind: classifySection(heading), text } : null;
+}
+
+function workplaceRemote(value: unknown, locations: string[]): boolean | null {
+  const workplace = asString(value)?.toLowerCase();
+  if (workplace === 'remote') return true;
+  if (workplace === 'on-site' || workplace === 'onsite') return false;
+  return locations.some(location => /remote/i.test(location)) ? true : null;
+}
+
+export const leverAdapter: AtsAdapter = {
+  name: 'lever',
+
+  detect(url: URL): AtsMatch | null {
+    if (url.hostname !== 'jobs.lever.co' && url.hostname !== 'jobs.eu.lever.co') return null;
+    const match = url.pathname.match(/^\/([^/]+)\/([0-9a-f-]{36})/i);
+    return match
+      ? { ats: 'lever', company: match[1].toLowerCase(), jobId: match[2].toLowerCase(), url: url.toString() }
+      : null;
+  },
+
+  endpoint,
+
+  parse(payload: unknown, match: AtsMatch): AtsPosting | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const posting = payload as Record<string, any>;
+    const categories = posting.categories ?? {};
+
+    const sections: AtsSection[] = [];
+    const description = asString(posting.description);
+    if (description) sections.push(...splitSections(description));
+    for (const list of Array.isArray(posting.lists) ? posting.lists : []) {
+      const section = listSection(asString(list?.text), asString(list?.content) ?? '');
+      if (section) sections.push(section);
+    }
+    const additional = asString(posting.additional);
+    if (additional) sections.push(...splitSections(additional));
+
+    const locations = (
+      Array.isArray(categories.allLocations) && categories.allLocations.length > 0
+        ? categories.allLocations
+        : [categories.location]
+    )
+      .map(asString)
+      .filter((location: string | null): location is string => !!location);
+
+    const department = [asString(categories.department), asString(categories.team)]
+      .filter(Boolean)
+      .join(' · ');
+
+    return buildPosting({
+      match,
+      sourceUrl: endpoint(match),
+      title: asString(posting.text),
+      company: null, // Not in the API; the URL slug is the best we have
+      sections,
+      locations,
+      remote: workplaceRemote(posting.workplaceType, locations),
+      department: department || null,
+      employmentType: asString(categories.commitment),
+      postedAt: typeof posting.createdAt === 'number' ? toIsoDate(new Date(posting.createdAt).toISOString()) : null,
+    });
+  },
+
+  parseHtml(html: string, match: AtsMatch): AtsPosting | null {
+    const $ = cheerio.load(html);
+    const headline = $('.posting-headline').first();
+    const title = asString(headline.find('h2').first().text()) ?? asString($('h2').first().text());
+    const location = asString($('.posting-categories .location').first().text());
+    const commitment = asString($('.posting-categories .commitment').first().text());
+    const department = asString($('.posting-categories .department').first().text());
+    const workplace = asString($('.posting-categories .workplaceTypes').first().text());
+
+    const sections: AtsSection[] = [];
+    $('.section-wrapper .section').each((_, el) => {
+      const section = $(el);
+      const heading = asString(section.children('h3').first().text());
+      section.children('h3').remove();
+      if (heading) {
+        const list = listSection(heading, section.html() ?? '');
+        if (list) sections.push(list);
+      } else {
+        sections.push(...splitSections(section.html() ?? ''));
+      }
+    });
+
+    // Drop the apply/footer blocks that share the section markup
+    const content = sections.filter(section => !/^apply for this job$/i.test(section.text));
+    const locations = location ? [location.replace(/\s*\/\s*$/, '')] : [];
+
+    return buildPosting({
+      match,
+      sourceUrl: match.url,
+      title,
+      // "Acme logo", or the "Acme - Software Engineer Intern" page title
+      company:
+        asString($('.main-header-logo img').attr('alt')?.replace(/\s*logo$/i, '')) ??
+        asString($('title').first().text().split(/\s+[-–]\s+/)[0]),
+      sections: content,
+      locations,
+      remote: workplaceRemote(workplace, locations),
+      department: department?.replace(/\s*\/\s*$/, '') ?? null,
+      employmentType: commitment?.replace(/\s*\/\s*$/, '') ?? null,
+      postedAt: null,
+    });
+  },
+};
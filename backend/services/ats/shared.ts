@@ -0,0 +1,296 @@
+/**
+ * ATS Adapter Types and Helpers
+ * Shared by the per-ATS adapters in this directory
+ */
+
+import * as cheerio from 'cheerio';
+import {
+  asString,
+  htmlToText,
+  toOpportunityType,
+  type StructuredJobData,
+} from '../structured-data-extractor';
+
+export type AtsName = 'greenhouse' | 'lever' | 'workday' | 'ashby' | 'smartrecruiters';
+
+/**
+ * What an adapter recognized in a posting URL
+ */
+export interface AtsMatch {
+  ats: AtsName;
+  company: string; // Board / company / tenant slug from the URL
+  jobId: string;
+  url: string; // Original posting URL
+  site?: string; // Workday career site name
+  host?: string; // Workday tenant host
+  path?: string; // Workday job path (after the site)
+}
+
+/**
+ * Kind of a posting section, from its heading
+ */
+export type AtsSectionKind =
+  | 'about'
+  | 'responsibilities'
+  | 'qualifications'
+  | 'preferred'
+  | 'benefits'
+  | 'other';
+
+export interface AtsSection {
+  heading: string | null;
+  kind: AtsSectionKind;
+  text: string;
+}
+
+/**
+ * Posting read from an ATS; `data` maps field for field onto ParsedJobData
+ */
+export interface AtsPosting {
+  ats: AtsName;
+  jobId: string;
+  sourceUrl: string; // Endpoint or page the fields came from
+  data: StructuredJobData;
+  confidence: Partial<Record<keyof StructuredJobData, number>>; // 0-1 per extracted field
+  sections: AtsSection[];
+  locations: string[];
+  remote: boolean | null;
+  department: string | null;
+  employmentType: string | null; // As the ATS labels it (e.g. "Full-time", "Intern")
+  postedAt: string | null; // YYYY-MM-DD
+}
+
+/**
+ * One ATS: URL detection, the public endpoint to call, and how to read its response
+ */
+export interface AtsAdapter {
+  name: AtsName;
+  detect(url: URL): AtsMatch | null;
+  endpoint(match: AtsMatch): string; // Public JSON endpoint for the posting
+  parse(payload: unknown, match: AtsMatch): AtsPosting | null;
+  parseHtml?(html: string, match: AtsMatch): AtsPosting | null; // Fallback when the endpoint fails
+}
+
+// Fields read straight from the ATS vs. derived (slug-based company names, types from titles)
+export const DIRECT_CONFIDENCE = 0.95;
+export const DERIVED_CONFIDENCE = 0.75;
+
+const SECTION_PATTERNS: Array<[AtsSectionKind, RegExp]> = [
+  ['preferred', /preferred|nice[- ]to[- ]have|bonus|pluses|desired/i],
+  ['qualifications', /qualifications?|requirements?|what you(?:'|’)?ll (?:need|bring)|who you are|what we(?:'|’)?re looking for|skills|must[- ]haves?|you have|about you/i],
+  ['responsibilities', /responsibilit|what you(?:'|’)?ll do|the role|duties|day[- ]to[- ]day|your impact|what you will do|job description/i],
+  ['benefits', /benefits?|perks|compensation|salary|pay range|what we offer/i],
+  ['about', /about (?:us|the (?:company|team))|who we are|our mission|company description/i],
+];
+
+/**
+ * Classifies a section heading
+ */
+export function classifySection(heading: string | null): AtsSectionKind {
+  if (!heading) return 'other';
+  for (const [kind, pattern] of SECTION_PATTERNS) {
+    if (pattern.test(heading)) return kind;
+  }
+  return 'other';
+}
+
+/**
+ * Decodes HTML entities (Greenhouse returns its description HTML entity-encoded)
+ */
+export function decodeEntities(value: string): string {
+  return cheerio.load(`<textarea>${value}</textarea>`)('textarea').text();
+}
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const CONTAINER_TAGS = new Set(['div', 'section', 'article', 'body', 'span']);
+
+/**
+ * Splits description HTML into sections at headings
+ *
+ * Headings are h1-h6, or short paragraphs that are entirely bold
+ * ("<p><strong>Requirements</strong></p>"), which is how most ATS editors
+ * format them.
+ */
+export function splitSections(html: string): AtsSection[] {
+  const $ = cheerio.load(html);
+  const sections: AtsSection[] = [];
+  let current: { heading: string | null; parts: string[] } = { heading: null, parts: [] };
+
+  const flush = () => {
+    const text = current.parts.join('\n').trim();
+    if (text) {
+      sections.push({ heading: current.heading, kind: classifySection(current.heading), text });
+    }
+  };
+
+  const headingText = (el: any): string | null => {
+    const tag = (el.tagName || '').toLowerCase();
+    const element = $(el);
+    const text = element.text().replace(/\s+/g, ' ').trim().replace(/:$/, '');
+    if (!text || text.length > 80) return null;
+    if (HEADING_TAGS.has(tag)) return text;
+    if (tag === 'p' || tag === 'div') {
+      const bold = element.children('strong, b').first();
+      if (bold.length > 0 && bold.text().replace(/\s+/g, ' ').trim().replace(/:$/, '') === text) {
+        return text;
+      }
+    }
+    return null;
+  };
+
+  const walk = (el: any) => {
+    const heading = headingText(el);
+    if (heading) {
+      flush();
+      current = { heading, parts: [] };
+      return;
+    }
+
+    const tag = (el.tagName || '').toLowerCase();
+    const element = $(el);
+    const hasBlockChildren = element.children('p, div, ul, ol, h1, h2, h3, h4, h5, h6, section').length > 0;
+    if (CONTAINER_TAGS.has(tag) && hasBlockChildren) {
+      element.contents().each((_, child) => {
+        if (child.type === 'tag') {
+          walk(child);
+        } else if (child.type === 'text') {
+          const text = asString($(child).text());
+          if (text) current.parts.push(text);
+        }
+      });
+      return;
+    }
+
+    const text = htmlToText($.html(el));
+    if (text) current.parts.push(text);
+  };
+
+  $('body').contents().each((_, node) => {
+    if (node.type === 'tag') {
+      walk(node);
+    } else if (node.type === 'text') {
+      const text = asString($(node).text());
+      if (text) current.parts.push(text);
+    }
+  });
+  flush();
+
+  return sections;
+}
+
+/**
+ * Joins sections back into readable text
+ */
+export function sectionsToText(sections: AtsSection[]): string {
+  return sections
+    .map(section => (section.heading ? `${section.heading}\n${section.text}` : section.text))
+    .join('\n\n');
+}
+
+/**
+ * "acme-robotics" → "Acme Robotics"
+ */
+export function humanizeSlug(slug: string): string {
+  return slug
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Formats locations (plus remote) the way ParsedJobData.location expects
+ */
+export function formatLocations(locations: string[], remote: boolean | null): string | null {
+  const unique = Array.from(new Set(locations.map(location => location.trim()).filter(Boolean)));
+  const text = unique.join('; ');
+  if (remote && !/remote/i.test(text)) {
+    return text ? `${text} (Remote)` : 'Remote';
+  }
+  return text || null;
+}
+
+/**
+ * Builds an AtsPosting, filling ParsedJobData fields from the sections and
+ * scoring each extracted field
+ */
+export function buildPosting(input: {
+  match: AtsMatch;
+  sourceUrl: string;
+  title: string | null;
+  company: string | null; // From the ATS response; falls back to the URL slug
+  sections: AtsSection[];
+  locations: string[];
+  remote: boolean | null;
+  department: string | null;
+  employmentType: string | null;
+  postedAt: string | null;
+  deadline?: string | null;
+}): AtsPosting | null {
+  const { match, title, sections } = input;
+  if (!title) return null;
+
+  const confidence: AtsPosting['confidence'] = {};
+  const set = <K extends keyof StructuredJobData>(
+    data: StructuredJobData,
+    field: K,
+    value: StructuredJobData[K],
+    score: number
+  ) => {
+    if (value === null || (Array.isArray(value) && value.length === 0)) return;
+    data[field] = value;
+    confidence[field] = score;
+  };
+
+  const data: StructuredJobData = {
+    company_name: null,
+    job_title: null,
+    opportunity_type: null,
+    role_type: null,
+    relevant_majors: null,
+    deadline: null,
+    requirements: null,
+    location: null,
+    description: null,
+  };
+
+  set(data, 'job_title', title, DIRECT_CONFIDENCE);
+  if (input.company) {
+    set(data, 'company_name', input.company, DIRECT_CONFIDENCE);
+  } else {
+    set(data, 'company_name', humanizeSlug(match.company), DERIVED_CONFIDENCE);
+  }
+
+  const typeFromEmployment = toOpportunityType(input.employmentType);
+  set(
+    data,
+    'opportunity_type',
+    typeFromEmployment ?? toOpportunityType(null, title),
+    typeFromEmployment ? DIRECT_CONFIDENCE : DERIVED_CONFIDENCE
+  );
+
+  set(data, 'role_type', input.department, DERIVED_CONFIDENCE);
+  set(data, 'deadline', input.deadline ?? null, DIRECT_CONFIDENCE);
+  set(data, 'location', formatLocations(input.locations, input.remote), DIRECT_CONFIDENCE);
+
+  const requirements = sections
+    .filter(section => section.kind === 'qualifications' || section.kind === 'preferred')
+    .map(section => section.text)
+    .join('\n');
+  set(data, 'requirements', requirements || null, DIRECT_CONFIDENCE);
+  set(data, 'description', sectionsToText(sections) || null, DIRECT_CONFIDENCE);
+
+  return {
+    ats: match.ats,
+    jobId: match.jobId,
+    sourceUrl: input.sourceUrl,
+    data,
+    confidence,
+    sections,
+    locations: input.locations,
+    remote: input.remote,
+    department: input.department,
+    employmentType: input.employmentType,
+    postedAt: input.postedAt,
+  };
+}
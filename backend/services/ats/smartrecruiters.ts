@@ -0,0 +1,83 @@
+/**
+ * SmartRecruiters Adapter
+ * jobs.smartrecruiters.com postings via the public Posting API
+ */
+
+import { asString, toIsoDate } from '../structured-data-extractor';
+import {
+  buildPosting,
+  splitSections,
+  type AtsAdapter,
+  type AtsMatch,
+  type AtsPosting,
+  type AtsSection,
+  type AtsSectionKind,
+} from './shared';
+
+// jobAd section keys and what they hold when their HTML has no headings of its own
+const JOB_AD_SECTIONS: Array<[string, AtsSectionKind]> = [
+  ['companyDescription', 'about'],
+  ['jobDescription', 'responsibilities'],
+  ['qualifications', 'qualifications'],
+  ['additionalInformation', 'other'],
+];
+
+function endpoint(match: AtsMatch): string {
+  return `https://api.smartrecruiters.com/v1/companies/${encodeURIComponent(match.company)}/postings/${match.jobId}`;
+}
+
+export const smartRecruitersAdapter: AtsAdapter = {
+  name: 'smartrecruiters',
+
+  detect(url: URL): AtsMatch | null {
+    if (url.hostname !== 'jobs.smartrecruiters.com') return null;
+    // Company identifiers are case-sensitive in the API, so keep the URL's casing
+    const match = url.pathname.match(/^\/([^/]+)\/(\d+)/);
+    return match
+      ? { ats: 'smartrecruiters', company: match[1], jobId: match[2], url: url.toString() }
+      : null;
+  },
+
+  endpoint,
+
+  parse(payload: unknown, match: AtsMatch): AtsPosting | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const posting = payload as Record<string, any>;
+    const jobAdSections = posting.jobAd?.sections ?? {};
+
+    const sections: AtsSection[] = [];
+    for (const [key, defaultKind] of JOB_AD_SECTIONS) {
+      const section = jobAdSections[key];
+      const html = asString(section?.text);
+      if (!html) continue;
+
+      const title = asString(section.title);
+      for (const part of splitSections(html)) {
+        sections.push(
+          part.heading ? part : { heading: title, kind: defaultKind, text: part.text }
+        );
+      }
+    }
+
+    const location = posting.location ?? {};
+    const place = asString(location.fullLocation) ??
+      [asString(location.city), asString(location.region), asString(location.country)?.toUpperCase()]
+        .filter(Boolean)
+        .join(', ');
+
+    const department = asString(posting.department?.label) ?? asString(posting.function?.label);
+
+    return buildPosting({
+      match,
+      sourceUrl: endpoint(match),
+      title: asString(posting.name),
+      company: asString(posting.company?.name),
+      sections,
+      locations: place ? [place] : [],
+      remote: typeof location.remote === 'boolean' ? location.remote : null,
+      department,
+      employmentType: asString(posting.typeOfEmployment?.label),
+      postedAt: toIsoDate(posting.releasedDate),
+    });
+  },
+};
@@ -0,0 +1,76 @@
+/**
+ * Workday Adapter
+ * <tenant>.wd*.myworkdayjobs.com postings via the career site's JSON (cxs) endpoint
+ */
+
+import { asString, toIsoDate } from '../structured-data-extractor';
+import {
+  buildPosting,
+  splitSections,
+  type AtsAdapter,
+  type AtsMatch,
+  type AtsPosting,
+} from './shared';
+
+function endpoint(match: AtsMatch): string {
+  return `https://${match.host}/wday/cxs/${match.company}/${match.site}/${match.path}`;
+}
+
+export const workdayAdapter: AtsAdapter = {
+  name: 'workday',
+
+  detect(url: URL): AtsMatch | null {
+    if (!url.hostname.endsWith('.myworkdayjobs.com')) return null;
+
+    // /<locale>?/<site>/job/<location>/<title>_<req id>
+    const segments = url.pathname.split('/').filter(Boolean);
+    if (segments.length > 0 && /^[a-z]{2}-[A-Z]{2}$/.test(segments[0])) segments.shift();
+    const jobIndex = segments.indexOf('job');
+    if (jobIndex < 1 || jobIndex === segments.length - 1) return null;
+
+    const jobSegments = segments.slice(jobIndex, jobIndex + 3).filter(segment => !/^apply/i.test(segment));
+    const slug = jobSegments[jobSegments.length - 1];
+    const reqId = slug.match(/_([A-Za-z]*[-_]?\d[\w-]*)$/);
+
+    return {
+      ats: 'workday',
+      company: url.hostname.split('.')[0],
+      jobId: reqId ? reqId[1] : slug,
+      url: url.toString(),
+      host: url.hostname,
+      site: segments[jobIndex - 1],
+      path: jobSegments.join('/'),
+    };
+  },
+
+  endpoint,
+
+  parse(payload: unknown, match: AtsMatch): AtsPosting | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const response = payload as Record<string, any>;
+    const info = response.jobPostingInfo;
+    if (!info || typeof info !== 'object') return null;
+
+    const locations = [
+      asString(info.location),
+      ...(Array.isArray(info.additionalLocations) ? info.additionalLocations.map(asString) : []),
+    ].filter((location): location is string => !!location);
+
+    const remoteType = asString(info.remoteType)?.toLowerCase();
+    const description = asString(info.jobDescription);
+
+    return buildPosting({
+      match,
+      sourceUrl: endpoint(match),
+      title: asString(info.title),
+      company: asString(response.hiringOrganization?.name),
+      sections: description ? splitSections(description) : [],
+      locations,
+      remote: remoteType ? remoteType.includes('remote') : null,
+      department: null,
+      employmentType: asString(info.timeType),
+      postedAt: toIsoDate(info.startDate),
+      deadline: toIsoDate(info.endDate),
+    });
+  },
+};
@@ -14,6 +14,9 @@ import {
   DEFAULT_USER_AGENT,
   ScraperError,
 } from './scraper-utils';
+import { extractStructuredData, type StructuredExtractionResult } from './structured-data-extractor';
+import { withPoliteness } from './crawl-politeness';
+import { safeFetch } from './url-safety';
 
 /**
  * Scraper configuration options
@@ -31,6 +34,8 @@ export interface ScrapeResult {
   content: string;
   title?: string;
   error?: string;
+  structuredData?: StructuredExtractionResult; // schema.org / meta tag fields
+  httpStatus?: number; // Status of the page response
 }
 
 /**
@@ -91,12 +96,12 @@ const REMOVE_SELECTORS = [
  * Fetches HTML content from a URL with timeout support
  * @param url - The URL to fetch
  * @param options - Scraper options
- * @returns HTML content
+ * @returns HTML content and response status
  */
 async function fetchHtml(
   url: string,
   options: CheerioScraperOptions = {}
-): Promise<string> {
+): Promise<{ html: string; status: number }> {
   const timeout = options.timeout || DEFAULT_TIMEOUT;
   const userAgent = options.userAgent || DEFAULT_USER_AGENT;
 
@@ -104,7 +109,8 @@ async function fetchHtml(
   const timeoutId = setTimeout(() => controller.abort(), timeout);
 
   try {
-    const response = await fetch(url, {
+    // Every hop is checked against private/metadata addresses and the body is size-capped
+    const response = await safeFetch(url, {
       headers: {
         'User-Agent': userAgent,
         Accept:
@@ -123,7 +129,7 @@ async function fetchHtml(
       throw await createErrorFromResponse(response, url);
     }
 
-    return await response.text();
+    return { html: await response.text(), status: response.status };
   } catch (error) {
     clearTimeout(timeoutId);
 
@@ -199,8 +205,15 @@ export async function scrapeWithCheerio(
     // Validate URL
     const validatedUrl = validateUrl(url);
 
-    // Fetch HTML
-    const html = await fetchHtml(validatedUrl, options);
+    // Fetch HTML (robots.txt and per-host rate limits apply)
+    const { html, status } = await withPoliteness(
+      validatedUrl,
+      () => fetchHtml(validatedUrl, options),
+      options
+    );
+
+    // Read structured data before extractContent strips scripts and meta tags
+    const structuredData = extractStructuredData(html);
 
     // Extract content
     const { content, title } = extractContent(html);
@@ -217,6 +230,8 @@ export async function scrapeWithCheerio(
       success: true,
       content,
       title,
+      structuredData,
+      httpStatus: status,
     };
   } catch (error) {
     if (error instanceof ScraperError) {
@@ -0,0 +1,386 @@
+/**
+ * Crawl Politeness
+ * robots.txt rules and per-host rate limits shared by every scraper, so the
+ * hub never fetches a page a site has opted out of or hammers one host
+ */
+
+import { ScraperError, DEFAULT_TIMEOUT, DEFAULT_USER_AGENT } from './scraper-utils';
+import { safeFetch } from './url-safety';
+
+/**
+ * Product token matched against robots.txt `User-agent` lines
+ * (groups for it win over `*`)
+ */
+export const ROBOTS_AGENT = 'GDGOpportunitiesHub';
+
+/**
+ * Minimum gap between requests to one host (SCRAPE_HOST_DELAY_MS, 1s if unset)
+ * A larger robots.txt Crawl-delay wins, up to MAX_CRAWL_DELAY_MS.
+ */
+export const HOST_DELAY_MS = parseInt(process.env.SCRAPE_HOST_DELAY_MS || '', 10) || 1000;
+
+/**
+ * Requests in flight per host (SCRAPE_HOST_CONCURRENCY, 1 if unset)
+ */
+export const MAX_CONCURRENT_PER_HOST =
+  parseInt(process.env.SCRAPE_HOST_CONCURRENCY || '', 10) || 1;
+
+/**
+ * Requests in flight across all hosts and scrapers (SCRAPE_MAX_CONCURRENCY, 4 if unset)
+ */
+export const MAX_CONCURRENT_SCRAPES =
+  parseInt(process.env.SCRAPE_MAX_CONCURRENCY || '', 10) || 4;
+
+export const MAX_CRAWL_DELAY_MS = 30 * 1000;
+
+const ROBOTS_TTL_MS = 60 * 60 * 1000; // Parsed robots.txt files are reused for an hour
+const ROBOTS_ERROR_TTL_MS = 5 * 60 * 1000; // Unreachable robots.txt is retried sooner
+const ROBOTS_MAX_BYTES = 500 * 1024; // RFC 9309 minimum; anything after is ignored
+const ROBOTS_CACHE_SIZE = 500;
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string; // Path pattern; `*` matches anything, a trailing `$` anchors the end
+}
+
+export interface RobotsGroup {
+  agents: string[]; // Lowercased User-agent values
+  rules: RobotsRule[];
+  crawlDelayMs: number | null;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+}
+
+const ALLOW_ALL: RobotsTxt = { groups: [] };
+
+// Used when robots.txt can't be fetched (5xx, 429, network errors), per RFC 9309
+const DISALLOW_ALL: RobotsTxt = {
+  groups: [{ agents: ['*'], rules: [{ allow: false, pattern: '/' }], crawlDelayMs: null }],
+};
+
+/**
+ * Parses a robots.txt file
+ *
+ * Consecutive User-agent lines share one group; Allow, Disallow and
+ * Crawl-delay lines before the first User-agent are ignored.
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.slice(0, ROBOTS_MAX_BYTES).split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [], crawlDelayMs: null };
+        groups.push(current);
+        collectingAgents = true;
+      }
+      if (value) current.agents.push(value.toLowerCase());
+      continue;
+    }
+
+    if (!current) continue;
+    collectingAgents = false;
+
+    if ((key === 'allow' || key === 'disallow') && value) {
+      current.rules.push({ allow: key === 'allow', pattern: value });
+    } else if (key === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (!isNaN(seconds) && seconds >= 0) {
+        current.crawlDelayMs = Math.round(seconds * 1000);
+      }
+    }
+  }
+
+  return { groups };
+}
+
+/**
+ * Groups that apply to an agent: the ones naming it, or the `*` groups if none do
+ */
+function selectGroups(robots: RobotsTxt, agent: string): RobotsGroup[] {
+  const token = agent.toLowerCase();
+  const named = robots.groups.filter(group => group.agents.includes(token));
+  return named.length > 0 ? named : robots.groups.filter(group => group.agents.includes('*'));
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Whether robots.txt lets an agent fetch a path (path plus query string)
+ *
+ * The longest matching pattern wins; on a tie, Allow wins.
+ */
+export function isPathAllowed(robots: RobotsTxt, path: string, agent: string = ROBOTS_AGENT): boolean {
+  if (path === '/robots.txt') return true;
+
+  let best: RobotsRule | null = null;
+  for (const group of selectGroups(robots, agent)) {
+    for (const rule of group.rules) {
+      if (!patternToRegExp(rule.pattern).test(path)) continue;
+      if (
+        !best ||
+        rule.pattern.length > best.pattern.length ||
+        (rule.pattern.length === best.pattern.length && rule.allow && !best.allow)
+      ) {
+        best = rule;
+      }
+    }
+  }
+
+  return !best || best.allow;
+}
+
+/**
+ * Crawl-delay for an agent, in milliseconds (null if robots.txt sets none)
+ */
+export function getCrawlDelay(robots: RobotsTxt, agent: string = ROBOTS_AGENT): number | null {
+  const delays = selectGroups(robots, agent)
+    .map(group => group.crawlDelayMs)
+    .filter((delay): delay is number => delay !== null);
+  return delays.length > 0 ? Math.max(...delays) : null;
+}
+
+/**
+ * Options for robots.txt lookups
+ */
+export interface RobotsOptions {
+  timeout?: number;
+  userAgent?: string;
+  fetchImpl?: typeof fetch; // Swapped out in tests
+}
+
+const robotsCache = new Map<string, { robots: Promise<RobotsTxt>; expiresAt: number }>();
+
+async function fetchRobotsTxt(origin: string, options: RobotsOptions): Promise<{ robots: RobotsTxt; ttl: number }> {
+  const fetchImpl = options.fetchImpl || safeFetch;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), Math.min(options.timeout || DEFAULT_TIMEOUT, 10000));
+
+  try {
+    const response = await fetchImpl(`${origin}/robots.txt`, {
+      headers: {
+        'User-Agent': options.userAgent || DEFAULT_USER_AGENT,
+        Accept: 'text/plain',
+      },
+      signal: controller.signal,
+    });
+
+    if (response.ok) {
+      return { robots: parseRobotsTxt(await response.text()), ttl: ROBOTS_TTL_MS };
+    }
+    // No robots.txt (404, 403, ...) means no restrictions; 429 and 5xx mean try later
+    if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+      return { robots: ALLOW_ALL, ttl: ROBOTS_TTL_MS };
+    }
+    console.warn(`[Robots] ${origin}/robots.txt returned ${response.status}, treating the site as disallowed`);
+    return { robots: DISALLOW_ALL, ttl: ROBOTS_ERROR_TTL_MS };
+  } catch (error) {
+    console.warn(`[Robots] Could not fetch ${origin}/robots.txt, treating the site as disallowed:`, error);
+    return { robots: DISALLOW_ALL, ttl: ROBOTS_ERROR_TTL_MS };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Gets the robots.txt rules for a URL's origin, cached per origin
+ * Concurrent lookups for one origin share a single fetch.
+ */
+export async function getRobotsTxt(url: string, options: RobotsOptions = {}): Promise<RobotsTxt> {
+  const origin = new URL(url).origin;
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.robots;
+  }
+
+  const entry: { robots: Promise<RobotsTxt>; expiresAt: number } = {
+    robots: fetchRobotsTxt(origin, options).then(({ robots, ttl }) => {
+      entry.expiresAt = Date.now() + ttl;
+      return robots;
+    }),
+    expiresAt: Date.now() + ROBOTS_TTL_MS,
+  };
+
+  robotsCache.delete(origin);
+  robotsCache.set(origin, entry);
+  if (robotsCache.size > ROBOTS_CACHE_SIZE) {
+    const oldest = robotsCache.keys().next().value;
+    if (oldest !== undefined) robotsCache.delete(oldest);
+  }
+
+  return entry.robots;
+}
+
+/**
+ * Forgets cached robots.txt files (all origins, or one URL's origin)
+ */
+export function clearRobotsCache(url?: string): void {
+  if (url) {
+    robotsCache.delete(new URL(url).origin);
+  } else {
+    robotsCache.clear();
+  }
+}
+
+/**
+ * Checks a URL against its site's robots.txt
+ * @returns Whether the URL may be fetched, and the site's Crawl-delay (ms)
+ */
+export async function checkRobots(
+  url: string,
+  options: RobotsOptions = {}
+): Promise<{ allowed: boolean; crawlDelayMs: number | null }> {
+  const robots = await getRobotsTxt(url, options);
+  const { pathname, search } = new URL(url);
+  return {
+    allowed: isPathAllowed(robots, `${pathname}${search}`),
+    crawlDelayMs: getCrawlDelay(robots),
+  };
+}
+
+/**
+ * Throws a ROBOTS_DISALLOWED ScraperError if robots.txt disallows the URL
+ * @returns The site's Crawl-delay (ms), if any
+ */
+export async function assertAllowedByRobots(url: string, options: RobotsOptions = {}): Promise<number | null> {
+  const { allowed, crawlDelayMs } = await checkRobots(url, options);
+  if (!allowed) {
+    throw new ScraperError(`robots.txt disallows automated access to ${url}`, 'ROBOTS_DISALLOWED');
+  }
+  return crawlDelayMs;
+}
+
+/**
+ * Counting semaphore; waiters are served in arrival order
+ */
+class Semaphore {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  get idle(): boolean {
+    return this.active === 0 && this.waiting.length === 0;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(); // Hand the slot straight to the next waiter
+    } else {
+      this.active--;
+    }
+  }
+}
+
+const globalSlots = new Semaphore(MAX_CONCURRENT_SCRAPES);
+const hosts = new Map<string, { slots: Semaphore; nextStartAt: number }>();
+
+/**
+ * Runs a request against a URL's host within the politeness limits:
+ * one host's requests are spaced by HOST_DELAY_MS (or the site's Crawl-delay)
+ * and capped at MAX_CONCURRENT_PER_HOST, and all requests at MAX_CONCURRENT_SCRAPES
+ *
+ * @param url - URL being fetched
+ * @param crawlDelayMs - The site's robots.txt Crawl-delay, if any
+ * @param task - The request
+ */
+export async function withHostSlot<T>(
+  url: string,
+  crawlDelayMs: number | null,
+  task: () => Promise<T>
+): Promise<T> {
+  const host = new URL(url).hostname;
+  let state = hosts.get(host);
+  if (!state) {
+    state = { slots: new Semaphore(MAX_CONCURRENT_PER_HOST), nextStartAt: 0 };
+    hosts.set(host, state);
+  }
+
+  await state.slots.acquire();
+  try {
+    // Reserve a start time before waiting so concurrent callers queue behind it
+    const delay = Math.min(Math.max(crawlDelayMs ?? 0, HOST_DELAY_MS), MAX_CRAWL_DELAY_MS);
+    const startAt = Math.max(Date.now(), state.nextStartAt);
+    state.nextStartAt = startAt + delay;
+    if (startAt > Date.now()) {
+      await new Promise(resolve => setTimeout(resolve, startAt - Date.now()));
+    }
+
+    await globalSlots.acquire();
+    try {
+      return await task();
+    } finally {
+      globalSlots.release();
+    }
+  } finally {
+    state.slots.release();
+    if (state.slots.idle && state.nextStartAt <= Date.now() && hosts.size > ROBOTS_CACHE_SIZE) {
+      hosts.delete(host);
+    }
+  }
+}
+
+/**
+ * Fetches a URL politely: checks robots.txt, then runs the request in a host slot
+ * @throws ScraperError (ROBOTS_DISALLOWED) if robots.txt disallows the URL
+ */
+export async function withPoliteness<T>(
+  url: string,
+  task: () => Promise<T>,
+  options: RobotsOptions = {}
+): Promise<T> {
+  const crawlDelayMs = await assertAllowedByRobots(url, options);
+  return withHostSlot(url, crawlDelayMs, task);
+}
+
+/**
+ * Maps over items with at most `limit` calls in flight, keeping result order
+ * Used by the scrapeMultiple* helpers instead of fixed batches.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  );
+  return results;
+}
@@ -0,0 +1,227 @@
+/**
+ * Domain Strategy Registry
+ * Remembers how each site is best scraped: which method in the fallback chain
+ * succeeded, how much content it returned and how long it took. Later scrapes
+ * start with the known-good method. Admins can pin a method or mark a site as
+ * manual-paste only (LinkedIn, Facebook, ...).
+ */
+
+export type ScrapeMethod = 'cheerio' | 'puppeteer' | 'playwright';
+
+/**
+ * Default fallback order when nothing is known about a domain
+ */
+export const DEFAULT_METHOD_ORDER: ScrapeMethod[] = ['cheerio', 'puppeteer', 'playwright'];
+
+/**
+ * How a domain should be scraped
+ */
+export interface DomainStrategy {
+  domain: string; // Hostname without www. (entries also match subdomains)
+  preferredMethod: ScrapeMethod | null; // Method to try first
+  requiresManual: boolean; // Blocks scrapers; ask the submitter to paste the posting
+  pinned: boolean; // Set by an admin; results no longer change preferredMethod
+  successCount: number;
+  failureCount: number;
+  lastMethod: ScrapeMethod | null; // Method that succeeded most recently
+  avgContentLength: number | null; // Over successful scrapes
+  avgDurationMs: number | null; // Over successful scrapes
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  notes: string | null;
+}
+
+/**
+ * Result of one scrape, fed back into the registry
+ */
+export interface ScrapeOutcome {
+  success: boolean;
+  method?: ScrapeMethod; // Method that succeeded
+  contentLength?: number;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Storage backend for domain strategies
+ * Implementations should treat failures as "nothing known" rather than throwing
+ */
+export interface DomainStrategyStore {
+  /** Most specific entry for a hostname (a pinned parent domain wins over a learned subdomain) */
+  get(hostname: string): Promise<DomainStrategy | null>;
+  recordOutcome(hostname: string, outcome: ScrapeOutcome): Promise<void>;
+}
+
+type SeedStrategy = Pick<DomainStrategy, 'domain' | 'preferredMethod' | 'requiresManual' | 'pinned'>;
+
+/**
+ * Starting knowledge (also seeded into the domain_strategies table)
+ * ATS pages render client-side; social sites need a login
+ */
+export const SEED_DOMAIN_STRATEGIES: SeedStrategy[] = [
+  ...[
+    'greenhouse.io',
+    'lever.co',
+    'workday.com',
+    'myworkdayjobs.com',
+    'applytojob.com',
+    'recruiterflow.com',
+    'ashbyhq.com',
+    'breezy.hr',
+    'smartrecruiters.com',
+    'icims.com',
+    'ultipro.com',
+    'taleo.net',
+    'successfactors.com',
+  ].map(domain => ({ domain, preferredMethod: 'puppeteer' as const, requiresManual: false, pinned: false })),
+  ...[
+    'linkedin.com',
+    'facebook.com',
+    'fb.com',
+    'twitter.com',
+    'x.com',
+    'instagram.com',
+  ].map(domain => ({ domain, preferredMethod: null, requiresManual: true, pinned: true })),
+];
+
+/**
+ * Registry key for a URL or hostname (lowercase, without www.)
+ */
+export function getStrategyDomain(urlOrHostname: string): string {
+  let hostname = urlOrHostname.trim().toLowerCase();
+  try {
+    hostname = new URL(hostname.includes('://') ? hostname : `https://${hostname}`).hostname;
+  } catch {
+    // Not a URL; use as-is
+  }
+  return hostname.replace(/^www\./, '');
+}
+
+/**
+ * Registry keys to look up for a hostname, most specific first
+ * (jobs.lever.co → jobs.lever.co, lever.co)
+ */
+export function getDomainCandidates(hostname: string): string[] {
+  const labels = getStrategyDomain(hostname).split('.');
+  const candidates: string[] = [];
+  for (let i = 0; i < labels.length - 1; i++) {
+    candidates.push(labels.slice(i).join('.'));
+  }
+  return candidates.length > 0 ? candidates : [labels.join('.')];
+}
+
+/**
+ * Picks the entry that applies from lookups ordered most specific first
+ */
+export function pickStrategy(entries: DomainStrategy[]): DomainStrategy | null {
+  return entries.find(entry => entry.pinned) ?? entries[0] ?? null;
+}
+
+/**
+ * Order to try scrapers in: the preferred method first, then the default order
+ */
+export function getMethodOrder(strategy: DomainStrategy | null): ScrapeMethod[] {
+  const preferred = strategy?.preferredMethod;
+  if (!preferred) {
+    return DEFAULT_METHOD_ORDER;
+  }
+  return [preferred, ...DEFAULT_METHOD_ORDER.filter(method => method !== preferred)];
+}
+
+/**
+ * Applies a scrape outcome to a strategy (used by the in-memory store;
+ * the Postgres store does the same in record_scrape_outcome)
+ */
+export function applyOutcome(
+  strategy: DomainStrategy,
+  outcome: ScrapeOutcome,
+  at: string = new Date().toISOString()
+): DomainStrategy {
+  if (!outcome.success || !outcome.method) {
+    return {
+      ...strategy,
+      failureCount: strategy.failureCount + 1,
+      lastFailureAt: at,
+      lastError: outcome.error ?? null,
+    };
+  }
+
+  const runningAverage = (previous: number | null, value: number | undefined) =>
+    value === undefined
+      ? previous
+      : previous === null
+        ? value
+        : Math.round((previous * strategy.successCount + value) / (strategy.successCount + 1));
+
+  return {
+    ...strategy,
+    preferredMethod: strategy.pinned ? strategy.preferredMethod : outcome.method,
+    successCount: strategy.successCount + 1,
+    lastMethod: outcome.method,
+    avgContentLength: runningAverage(strategy.avgContentLength, outcome.contentLength),
+    avgDurationMs: runningAverage(strategy.avgDurationMs, outcome.durationMs),
+    lastSuccessAt: at,
+  };
+}
+
+/**
+ * Empty strategy for a domain seen for the first time
+ */
+export function createStrategy(domain: string, seed: Partial<DomainStrategy> = {}): DomainStrategy {
+  return {
+    domain,
+    preferredMethod: null,
+    requiresManual: false,
+    pinned: false,
+    successCount: 0,
+    failureCount: 0,
+    lastMethod: null,
+    avgContentLength: null,
+    avgDurationMs: null,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    lastError: null,
+    notes: null,
+    ...seed,
+  };
+}
+
+/**
+ * In-process registry (per server instance, starts from the seed strategies)
+ */
+export class MemoryDomainStrategyStore implements DomainStrategyStore {
+  private strategies = new Map<string, DomainStrategy>();
+
+  constructor(seeds: SeedStrategy[] = SEED_DOMAIN_STRATEGIES) {
+    for (const seed of seeds) {
+      this.strategies.set(seed.domain, createStrategy(seed.domain, seed));
+    }
+  }
+
+  async get(hostname: string): Promise<DomainStrategy | null> {
+    const entries = getDomainCandidates(hostname)
+      .map(candidate => this.strategies.get(candidate))
+      .filter((entry): entry is DomainStrategy => !!entry);
+    return pickStrategy(entries);
+  }
+
+  async recordOutcome(hostname: string, outcome: ScrapeOutcome): Promise<void> {
+    const domain = getStrategyDomain(hostname);
+    const current = this.strategies.get(domain) ?? createStrategy(domain);
+    this.strategies.set(domain, applyOutcome(current, outcome));
+  }
+
+  async set(strategy: DomainStrategy): Promise<void> {
+    this.strategies.set(strategy.domain, strategy);
+  }
+
+  list(): DomainStrategy[] {
+    return Array.from(this.strategies.values());
+  }
+}
+
+/**
+ * Registry used by scrapeUrl and smartScrape when no `strategies` option is passed
+ */
+export const defaultDomainStrategies = new MemoryDomainStrategyStore();
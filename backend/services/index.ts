@@ -41,7 +41,6 @@ export {
   validateUrl,
   isValidUrl,
   cleanText,
-  isJavaScriptHeavySite,
   ScraperError,
   createTimeoutError,
   createNetworkError,
@@ -49,6 +48,124 @@ export {
   DEFAULT_USER_AGENT,
 } from './scraper-utils';
 
+// Structured data (JSON-LD / microdata / meta tags)
+export {
+  extractStructuredData,
+  getMissingStructuredFields,
+  isStructuredDataComplete,
+  CORE_STRUCTURED_FIELDS,
+} from './structured-data-extractor';
+
+export type {
+  StructuredJobData,
+  StructuredJobField,
+  StructuredDataSource,
+  StructuredExtractionResult,
+} from './structured-data-extractor';
+
+// URL canonicalization (tracking params, ATS link shapes)
+export { canonicalizeUrl } from './url-canonicalizer';
+
+// Scrape cache (keyed by canonical URL)
+export {
+  MemoryScrapeCache,
+  defaultScrapeCache,
+  getScrapeCacheKey,
+  hashContent,
+  isCacheEntryFresh,
+  DEFAULT_CACHE_TTL_MS,
+} from './scrape-cache';
+
+export type {
+  ScrapeCache,
+  ScrapeCacheEntry,
+} from './scrape-cache';
+
+// Per-domain scraping strategies (learned method order, manual-paste sites)
+export {
+  MemoryDomainStrategyStore,
+  defaultDomainStrategies,
+  getStrategyDomain,
+  getMethodOrder,
+  SEED_DOMAIN_STRATEGIES,
+  DEFAULT_METHOD_ORDER,
+} from './domain-strategy';
+
+export type {
+  DomainStrategy,
+  DomainStrategyStore,
+  ScrapeMethod,
+  ScrapeOutcome,
+} from './domain-strategy';
+
+// SSRF protection for user-submitted URLs
+export {
+  assertPublicUrl,
+  isPublicUrl,
+  isPrivateAddress,
+  safeFetch,
+  MAX_RESPONSE_BYTES,
+} from './url-safety';
+
+export type {
+  SafeFetchInit,
+} from './url-safety';
+
+// Crawl politeness (robots.txt, per-host rate limits)
+export {
+  checkRobots,
+  assertAllowedByRobots,
+  getRobotsTxt,
+  clearRobotsCache,
+  parseRobotsTxt,
+  isPathAllowed,
+  getCrawlDelay,
+  withHostSlot,
+  withPoliteness,
+  ROBOTS_AGENT,
+  HOST_DELAY_MS,
+  MAX_CONCURRENT_PER_HOST,
+  MAX_CONCURRENT_SCRAPES,
+} from './crawl-politeness';
+
+export type {
+  RobotsOptions,
+  RobotsTxt,
+} from './crawl-politeness';
+
+// ATS adapters (Greenhouse, Lever, Workday, Ashby, SmartRecruiters)
+export {
+  ATS_ADAPTERS,
+  detectAts,
+  fetchAtsPosting,
+  toStructuredExtraction,
+  formatAtsContent,
+} from './ats';
+
+export type {
+  AtsAdapter,
+  AtsFetchOptions,
+  AtsFetchResult,
+  AtsMatch,
+  AtsName,
+  AtsPosting,
+  AtsSection,
+} from './ats';
+
+// Posting status checks (closed / possibly closed listings)
+export {
+  checkPostingStatus,
+  detectClosedSignals,
+  CLOSED_PHRASES,
+} from './posting-status';
+
+export type {
+  PostingFields,
+  PostingState,
+  PostingStatus,
+  PostingStatusOptions,
+} from './posting-status';
+
 // Smart scraper with LinkedIn/Facebook handling
 export {
   smartScrape,
@@ -13,6 +13,15 @@ import {
   DEFAULT_TIMEOUT,
   DEFAULT_USER_AGENT,
 } from './scraper-utils';
+import { extractStructuredData, type StructuredExtractionResult } from './structured-data-extractor';
+import { mapWithConcurrency, withPoliteness } from './crawl-politeness';
+import {
+  assertPublicUrl,
+  createBlockedUrlError,
+  createRequestGuard,
+  createResponseTooLargeError,
+  MAX_RESPONSE_BYTES,
+} from './url-safety';
 
 /**
  * Playwright scraper configuration options
@@ -33,6 +42,8 @@ export interface ScrapeResult {
   content: string;
   title?: string;
   error?: string;
+  structuredData?: StructuredExtractionResult; // schema.org / meta tag fields
+  httpStatus?: number; // Status of the navigation response
 }
 
 /**
@@ -91,6 +102,77 @@ export async function closeBrowser(): Promise<void> {
   }
 }
 
+/**
+ * What stopped the main navigation, if the request guard did
+ */
+interface NavigationGuard {
+  blockedUrl: string | null;
+  oversized: boolean;
+}
+
+/**
+ * Checks every request on the page against private/metadata addresses, and
+ * optionally blocks unnecessary resources for faster scraping
+ * @param page - Page to guard, before it navigates
+ * @param blockResources - Abort images, stylesheets, fonts and media
+ * @returns Guard state to check when navigation fails
+ */
+async function installRequestGuard(page: Page, blockResources: boolean): Promise<NavigationGuard> {
+  const guard: NavigationGuard = { blockedUrl: null, oversized: false };
+  const isAllowed = createRequestGuard();
+
+  await page.route('**/*', async (route: any) => {
+    const request = route.request();
+    if (blockResources && ['image', 'stylesheet', 'font', 'media'].includes(request.resourceType())) {
+      await route.abort();
+      return;
+    }
+
+    const isMainNavigation = request.isNavigationRequest() && request.frame() === page.mainFrame();
+    if (!(await isAllowed(request.url()))) {
+      if (isMainNavigation) guard.blockedUrl = request.url();
+      await route.abort('blockedbyclient');
+      return;
+    }
+
+    if (!isMainNavigation) {
+      await route.continue();
+      return;
+    }
+
+    // Playwright only routes the first hop of a redirect, so fetch the page
+    // without following redirects; the browser follows a fulfilled redirect
+    // with a new (routed, checked) request
+    try {
+      const response = await route.fetch({ maxRedirects: 0 });
+      if ((await response.body()).length > MAX_RESPONSE_BYTES) {
+        guard.oversized = true;
+        await route.abort();
+        return;
+      }
+      await route.fulfill({ response });
+    } catch {
+      await route.abort().catch(() => {});
+    }
+  });
+
+  return guard;
+}
+
+/**
+ * Turns a navigation failure caused by the request guard into its ScraperError
+ * @returns The error to throw, or null if the guard didn't stop the navigation
+ */
+function getGuardError(guard: NavigationGuard, url: string): ScraperError | null {
+  if (guard.blockedUrl) {
+    return createBlockedUrlError(guard.blockedUrl, 'redirected to a private or reserved address');
+  }
+  if (guard.oversized) {
+    return createResponseTooLargeError(url, MAX_RESPONSE_BYTES);
+  }
+  return null;
+}
+
 /**
  * Selectors to try for extracting main content
  */
@@ -125,12 +207,14 @@ export async function scrapeWithPlaywright(
   try {
     // Validate URL
     const validatedUrl = validateUrl(url);
+    await assertPublicUrl(validatedUrl);
 
     // Get browser context
     const context = await getBrowserContext();
 
     // Create new page
-    page = await context.newPage();
+    const activePage: Page = await context.newPage();
+    page = activePage;
 
     // Set user agent if different from default
     if (userAgent !== DEFAULT_USER_AGENT) {
@@ -139,29 +223,33 @@ export async function scrapeWithPlaywright(
       });
     }
 
-    // Block unnecessary resources for faster scraping
-    if (blockResources) {
-      await page.route('**/*', (route: any) => {
-        const resourceType = route.request().resourceType();
-        if (['image', 'stylesheet', 'font', 'media'].includes(resourceType)) {
-          route.abort();
-        } else {
-          route.continue();
-        }
-      });
-    }
+    // Block unnecessary resources for faster scraping, and any request to a
+    // private/metadata address
+    const guard = await installRequestGuard(page, blockResources);
 
     // Set timeout
     page.setDefaultTimeout(timeout);
     page.setDefaultNavigationTimeout(timeout);
 
-    // Navigate to URL
+    // Navigate to URL (robots.txt and per-host rate limits apply)
+    let httpStatus: number | undefined;
     try {
-      await page.goto(validatedUrl, {
-        waitUntil: 'domcontentloaded', // Faster than networkidle
-        timeout,
-      });
+      await withPoliteness(
+        validatedUrl,
+        async () => {
+          const response = await activePage.goto(validatedUrl, {
+            waitUntil: 'domcontentloaded', // Faster than networkidle
+            timeout,
+          });
+          httpStatus = response?.status();
+        },
+        options
+      );
     } catch (error) {
+      const guardError = getGuardError(guard, validatedUrl);
+      if (guardError) {
+        throw guardError;
+      }
       if (error instanceof Error && error.name === 'TimeoutError') {
         throw createTimeoutError(validatedUrl, timeout);
       }
@@ -185,6 +273,13 @@ export async function scrapeWithPlaywright(
     // Extract title
     const title = await page.title();
 
+    // Structured data from the rendered DOM (JSON-LD is often injected client-side)
+    const html = await page.content();
+    if (html.length > MAX_RESPONSE_BYTES) {
+      throw createResponseTooLargeError(validatedUrl, MAX_RESPONSE_BYTES);
+    }
+    const structuredData = extractStructuredData(html);
+
     // Try to extract content from main content areas
     let content = '';
     for (const selector of CONTENT_SELECTORS) {
@@ -225,6 +320,8 @@ export async function scrapeWithPlaywright(
       success: true,
       content: cleanedContent,
       title: title || undefined,
+      structuredData,
+      httpStatus,
     };
   } catch (error) {
     if (error instanceof ScraperError) {
@@ -263,18 +360,8 @@ export async function scrapeMultipleWithPlaywright(
   options: PlaywrightScraperOptions = {},
   maxConcurrent: number = 3
 ): Promise<ScrapeResult[]> {
-  const results: ScrapeResult[] = [];
-
-  // Process URLs in batches
-  for (let i = 0; i < urls.length; i += maxConcurrent) {
-    const batch = urls.slice(i, i + maxConcurrent);
-    const batchResults = await Promise.all(
-      batch.map(url => scrapeWithPlaywright(url, options))
-    );
-    results.push(...batchResults);
-  }
-
-  return results;
+  // Up to maxConcurrent at a time; the shared host limits still apply per request
+  return mapWithConcurrency(urls, maxConcurrent, url => scrapeWithPlaywright(url, options));
 }
 
 /**
@@ -293,15 +380,21 @@ export async function takeScreenshot(
 
   try {
     const validatedUrl = validateUrl(url);
+    await assertPublicUrl(validatedUrl);
     const context = await getBrowserContext();
     page = await context.newPage();
 
     page.setDefaultNavigationTimeout(timeout);
+    const guard = await installRequestGuard(page, false);
 
-    await page.goto(validatedUrl, {
-      waitUntil: 'domcontentloaded',
-      timeout,
-    });
+    try {
+      await page.goto(validatedUrl, {
+        waitUntil: 'domcontentloaded',
+        timeout,
+      });
+    } catch (error) {
+      throw getGuardError(guard, validatedUrl) ?? error;
+    }
 
     await page.screenshot({
       path: outputPath,
@@ -329,15 +422,21 @@ export async function getPageHTML(
 
   try {
     const validatedUrl = validateUrl(url);
+    await assertPublicUrl(validatedUrl);
     const context = await getBrowserContext();
     page = await context.newPage();
 
     page.setDefaultNavigationTimeout(timeout);
+    const guard = await installRequestGuard(page, options.blockResources === true);
 
-    await page.goto(validatedUrl, {
-      waitUntil: 'domcontentloaded',
-      timeout,
-    });
+    try {
+      await page.goto(validatedUrl, {
+        waitUntil: 'domcontentloaded',
+        timeout,
+      });
+    } catch (error) {
+      throw getGuardError(guard, validatedUrl) ?? error;
+    }
 
     return await page.content();
   } finally {
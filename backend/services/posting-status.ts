@@ -0,0 +1,235 @@
+/**
+ * Posting Status Checks
+ * Re-checks a live posting URL and reports whether the listing still looks
+ * open, from the HTTP status, where redirects end up and the page text
+ */
+
+import * as cheerio from 'cheerio';
+import { cleanText, DEFAULT_TIMEOUT, DEFAULT_USER_AGENT, ScraperError } from './scraper-utils';
+import { withPoliteness } from './crawl-politeness';
+import { assertPublicUrl, safeFetch } from './url-safety';
+import { detectAts, fetchAtsPosting } from './ats';
+import { extractStructuredData } from './structured-data-extractor';
+
+/**
+ * What a check concluded
+ * - closed: a clear signal (404/410, the ATS dropped the posting, a short "no longer accepting" page)
+ * - possibly_closed: a weaker signal an admin should confirm
+ * - unknown: the posting couldn't be checked (5xx, robots.txt, network errors)
+ */
+export type PostingState = 'open' | 'closed' | 'possibly_closed' | 'unknown';
+
+/**
+ * Result of checking one posting
+ */
+export interface PostingStatus {
+  state: PostingState;
+  reason: string | null; // Machine-readable (http_404, closed_notice, redirected_to_listing, ...)
+  httpStatus: number | null;
+  finalUrl: string | null; // Where redirects ended up
+  checkedVia: 'ats' | 'page';
+  posting: PostingFields | null; // What the source says now (ATS fields or JobPosting markup), when it says anything
+}
+
+/**
+ * Fields re-read from the source on each check, to spot edits to a live posting
+ */
+export interface PostingFields {
+  deadline: string | null; // YYYY-MM-DD
+  requirements: string | null;
+}
+
+/**
+ * Options for checking a posting
+ */
+export interface PostingStatusOptions {
+  timeout?: number;
+  userAgent?: string;
+  fetchImpl?: typeof fetch; // Swapped out in tests
+}
+
+/**
+ * Wording job boards use once a posting is closed
+ */
+export const CLOSED_PHRASES: RegExp[] = [
+  /no longer (?:accepting|taking) applications/i,
+  /(?:job|position|posting|role|opening|vacancy|listing) (?:is|has been) (?:closed|filled|removed|expired|deleted)/i,
+  /(?:job|position|posting|role|opening|vacancy|listing) (?:is )?no longer (?:available|active|open|exists?)/i,
+  /(?:job|position|posting|role|opening|vacancy) (?:you(?:'|’)re|you are) looking for (?:is|was|has|could not|can(?:'|’)?t)/i,
+  /applications? (?:for this (?:job|position|role) )?(?:are|is|have been) (?:now )?closed/i,
+  /this (?:job|position|posting|role) has expired/i,
+  /(?:job|posting) not found/i,
+];
+
+// Soft 404s: a normal 200 page whose title says the page is missing
+const NOT_FOUND_TITLE = /\b(?:404|page not found|not found)\b/i;
+
+// A closed notice on a page this short is the page; on a longer one it may be a sidebar or a related listing
+const SHORT_PAGE_CHARS = 2000;
+
+/**
+ * Reads the closed signals out of one fetch of a posting
+ *
+ * @param input - Requested URL, response status, final URL after redirects, and page title/text
+ * @returns The state and reason (reason is null for open postings)
+ */
+export function detectClosedSignals(input: {
+  url: string;
+  httpStatus: number;
+  finalUrl?: string | null;
+  title?: string | null;
+  text?: string | null;
+}): { state: PostingState; reason: string | null } {
+  const { httpStatus } = input;
+
+  if (httpStatus === 404 || httpStatus === 410) {
+    return { state: 'closed', reason: `http_${httpStatus}` };
+  }
+  if (httpStatus < 200 || httpStatus >= 300) {
+    // 401/403/429/5xx say nothing about the posting itself
+    return { state: 'unknown', reason: `http_${httpStatus}` };
+  }
+
+  if (input.finalUrl && input.finalUrl !== input.url) {
+    const requested = new URL(input.url);
+    const final = new URL(input.finalUrl);
+
+    // Greenhouse sends closed postings back to the board with ?error=true
+    if (final.searchParams.get('error') === 'true') {
+      return { state: 'closed', reason: 'ats_error_redirect' };
+    }
+
+    // Sent to the site root or up to a listing page instead of the posting
+    const requestedPath = requested.pathname.replace(/\/+$/, '');
+    const finalPath = final.pathname.replace(/\/+$/, '');
+    if (
+      finalPath === '' ||
+      (finalPath.length < requestedPath.length && requestedPath.startsWith(`${finalPath}/`))
+    ) {
+      return { state: 'possibly_closed', reason: 'redirected_to_listing' };
+    }
+  }
+
+  const title = input.title || '';
+  const text = input.text || '';
+
+  if (NOT_FOUND_TITLE.test(title)) {
+    return { state: 'closed', reason: 'not_found_page' };
+  }
+
+  if (CLOSED_PHRASES.some(pattern => pattern.test(title) || pattern.test(text))) {
+    return text.length <= SHORT_PAGE_CHARS
+      ? { state: 'closed', reason: 'closed_notice' }
+      : { state: 'possibly_closed', reason: 'closed_notice' };
+  }
+
+  return { state: 'open', reason: null };
+}
+
+function readPage(html: string): { title: string; text: string } {
+  const $ = cheerio.load(html);
+  const title = $('title').text().trim() || $('h1').first().text().trim();
+  $('script, style, noscript, iframe, nav, header, footer').remove();
+  return { title, text: cleanText($('body').text()) };
+}
+
+function errorReason(error: unknown): string {
+  if (error instanceof ScraperError) {
+    switch (error.code) {
+      case 'ROBOTS_DISALLOWED':
+        return 'blocked_by_robots';
+      case 'BLOCKED_URL':
+        return 'blocked_url';
+      case 'RESPONSE_TOO_LARGE':
+        return 'response_too_large';
+      default:
+        return error.code.toLowerCase();
+    }
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return 'timeout';
+  }
+  return 'network_error';
+}
+
+/**
+ * Checks whether a posting is still open
+ *
+ * ATS postings are checked through the ATS API (a 404 there means the posting
+ * was taken down); everything else is fetched like a scrape, respecting
+ * robots.txt and the per-host limits. Never throws: failures come back as
+ * state 'unknown' with the reason.
+ *
+ * @param url - Posting URL
+ * @param options - Fetch options
+ */
+export async function checkPostingStatus(
+  url: string,
+  options: PostingStatusOptions = {}
+): Promise<PostingStatus> {
+  if (detectAts(url)) {
+    const result = await fetchAtsPosting(url, options);
+    if (result.success && result.posting) {
+      const { deadline, requirements } = result.posting.data;
+      return {
+        state: 'open',
+        reason: null,
+        httpStatus: result.httpStatus ?? null,
+        finalUrl: null,
+        checkedVia: 'ats',
+        posting: { deadline, requirements },
+      };
+    }
+    if (result.httpStatus === 404 || result.httpStatus === 410) {
+      return { state: 'closed', reason: 'ats_not_found', httpStatus: result.httpStatus, finalUrl: null, checkedVia: 'ats', posting: null };
+    }
+    if (result.httpStatus === 200) {
+      // The API answered but the posting isn't on the board (Ashby lists open jobs only)
+      return { state: 'possibly_closed', reason: 'ats_not_listed', httpStatus: 200, finalUrl: null, checkedVia: 'ats', posting: null };
+    }
+    // API unreachable: fall back to the page itself
+  }
+
+  const fetchImpl = options.fetchImpl || safeFetch;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout || DEFAULT_TIMEOUT);
+
+  try {
+    // Before robots.txt, so private addresses report blocked_url
+    await assertPublicUrl(url);
+    const response = await withPoliteness(
+      url,
+      () =>
+        fetchImpl(url, {
+          headers: {
+            'User-Agent': options.userAgent || DEFAULT_USER_AGENT,
+            Accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+          },
+          signal: controller.signal,
+        }),
+      options
+    );
+
+    const finalUrl = response.url || url;
+    const html = response.ok ? await response.text() : '';
+    const page = readPage(html);
+    const { state, reason } = detectClosedSignals({
+      url,
+      httpStatus: response.status,
+      finalUrl,
+      title: page.title,
+      text: page.text,
+    });
+
+    const structured = state === 'open' ? extractStructuredData(html) : null;
+    const posting = structured?.hasJobPosting
+      ? { deadline: structured.data.deadline, requirements: structured.data.requirements }
+      : null;
+
+    return { state, reason, httpStatus: response.status, finalUrl, checkedVia: 'page', posting };
+  } catch (error) {
+    return { state: 'unknown', reason: errorReason(error), httpStatus: null, finalUrl: null, checkedVia: 'page', posting: null };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -12,6 +12,16 @@ import {
   DEFAULT_TIMEOUT,
   DEFAULT_USER_AGENT,
 } from './scraper-utils';
+import { extractStructuredData, type StructuredExtractionResult } from './structured-data-extractor';
+import { mapWithConcurrency, withPoliteness } from './crawl-politeness';
+import {
+  assertPublicUrl,
+  createBlockedUrlError,
+  createRequestGuard,
+  createResponseTooLargeError,
+  MAX_RESPONSE_BYTES,
+  safeFetch,
+} from './url-safety';
 
 /**
  * Puppeteer scraper configuration options
@@ -31,6 +41,8 @@ export interface ScrapeResult {
   content: string;
   title?: string;
   error?: string;
+  structuredData?: StructuredExtractionResult; // schema.org / meta tag fields
+  httpStatus?: number; // Status of the navigation response
 }
 
 /**
@@ -71,6 +83,82 @@ export async function closeBrowser(): Promise<void> {
   }
 }
 
+/**
+ * What stopped the main navigation, if the request guard did
+ */
+interface NavigationGuard {
+  blockedUrl: string | null;
+  oversized: boolean;
+}
+
+/**
+ * Checks every request on the page, redirect hops included, against
+ * private/metadata addresses. The main document is fetched with safeFetch so
+ * an oversized page is cut off while it downloads (Content-Length first, then
+ * a running byte count); a redirect goes back to the browser, whose next hop
+ * is a new request checked here again.
+ * @param page - Page to guard, before it navigates
+ * @returns Guard state to check when navigation fails
+ */
+async function installRequestGuard(page: Page): Promise<NavigationGuard> {
+  const guard: NavigationGuard = { blockedUrl: null, oversized: false };
+  const isAllowed = createRequestGuard();
+
+  await page.setRequestInterception(true);
+  page.on('request', async (request: any) => {
+    const isMainNavigation = request.isNavigationRequest() && request.frame() === page.mainFrame();
+    if (!(await isAllowed(request.url()))) {
+      if (isMainNavigation) guard.blockedUrl = request.url();
+      request.abort('blockedbyclient').catch(() => {});
+      return;
+    }
+
+    if (!isMainNavigation || request.method() !== 'GET') {
+      request.continue().catch(() => {});
+      return;
+    }
+
+    try {
+      const response = await safeFetch(request.url(), {
+        headers: request.headers(),
+        redirect: 'manual',
+      });
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+      await request.respond({
+        status: response.status,
+        headers,
+        body: Buffer.from(await response.arrayBuffer()),
+      });
+    } catch (error) {
+      if (error instanceof ScraperError && error.code === 'RESPONSE_TOO_LARGE') {
+        guard.oversized = true;
+      } else if (error instanceof ScraperError && error.code === 'BLOCKED_URL') {
+        guard.blockedUrl = request.url();
+      }
+      request.abort().catch(() => {});
+    }
+  });
+
+  return guard;
+}
+
+/**
+ * Turns a navigation failure caused by the request guard into its ScraperError
+ * @returns The error to throw, or null if the guard didn't stop the navigation
+ */
+function getGuardError(guard: NavigationGuard, url: string): ScraperError | null {
+  if (guard.blockedUrl) {
+    return createBlockedUrlError(guard.blockedUrl, 'redirected to a private or reserved address');
+  }
+  if (guard.oversized) {
+    return createResponseTooLargeError(url, MAX_RESPONSE_BYTES);
+  }
+  return null;
+}
+
 /**
  * Selectors to try for extracting main content
  */
@@ -104,12 +192,14 @@ export async function scrapeWithPuppeteer(
   try {
     // Validate URL
     const validatedUrl = validateUrl(url);
+    await assertPublicUrl(validatedUrl);
 
     // Get browser instance
     const browser = await getBrowser();
 
     // Create new page
-    page = await browser.newPage();
+    const activePage: Page = await browser.newPage();
+    page = activePage;
 
     // Set user agent and viewport
     await page.setExtraHTTPHeaders({
@@ -119,17 +209,32 @@ export async function scrapeWithPuppeteer(
     // Set viewport
     await page.setViewport({ width: 1920, height: 1080 });
 
+    // Block private/metadata addresses and oversized pages
+    const guard = await installRequestGuard(page);
+
     // Set timeout
     page.setDefaultNavigationTimeout(timeout);
     page.setDefaultTimeout(timeout);
 
-    // Navigate to URL
+    // Navigate to URL (robots.txt and per-host rate limits apply)
+    let httpStatus: number | undefined;
     try {
-      await page.goto(validatedUrl, {
-        waitUntil: 'networkidle2', // Wait until network is idle
-        timeout,
-      });
+      await withPoliteness(
+        validatedUrl,
+        async () => {
+          const response = await activePage.goto(validatedUrl, {
+            waitUntil: 'networkidle2', // Wait until network is idle
+            timeout,
+          });
+          httpStatus = response?.status();
+        },
+        options
+      );
     } catch (error) {
+      const guardError = getGuardError(guard, validatedUrl);
+      if (guardError) {
+        throw guardError;
+      }
       if (error instanceof Error && error.name === 'TimeoutError') {
         throw createTimeoutError(validatedUrl, timeout);
       }
@@ -153,6 +258,14 @@ export async function scrapeWithPuppeteer(
     // Extract title
     const title = await page.title();
 
+    // Structured data from the rendered DOM (JSON-LD is often injected client-side).
+    // The download was capped by the request guard; scripts can still grow the DOM
+    const html = await page.content();
+    if (html.length > MAX_RESPONSE_BYTES) {
+      throw createResponseTooLargeError(validatedUrl, MAX_RESPONSE_BYTES);
+    }
+    const structuredData = extractStructuredData(html);
+
     // Try to extract content from main content areas
     let content = '';
     for (const selector of CONTENT_SELECTORS) {
@@ -190,6 +303,8 @@ export async function scrapeWithPuppeteer(
       success: true,
       content: cleanedContent,
       title: title || undefined,
+      structuredData,
+      httpStatus,
     };
   } catch (error) {
     if (error instanceof ScraperError) {
@@ -228,18 +343,8 @@ export async function scrapeMultipleWithPuppeteer(
   options: PuppeteerScraperOptions = {},
   maxConcurrent: number = 3
 ): Promise<ScrapeResult[]> {
-  const results: ScrapeResult[] = [];
-
-  // Process URLs in batches
-  for (let i = 0; i < urls.length; i += maxConcurrent) {
-    const batch = urls.slice(i, i + maxConcurrent);
-    const batchResults = await Promise.all(
-      batch.map(url => scrapeWithPuppeteer(url, options))
-    );
-    results.push(...batchResults);
-  }
-
-  return results;
+  // Up to maxConcurrent at a time; the shared host limits still apply per request
+  return mapWithConcurrency(urls, maxConcurrent, url => scrapeWithPuppeteer(url, options));
 }
 
 /**
@@ -258,16 +363,22 @@ export async function takeScreenshot(
 
   try {
     const validatedUrl = validateUrl(url);
+    await assertPublicUrl(validatedUrl);
     const browser = await getBrowser();
     page = await browser.newPage();
 
     await page.setViewport({ width: 1920, height: 1080 });
     page.setDefaultNavigationTimeout(timeout);
+    const guard = await installRequestGuard(page);
 
-    await page.goto(validatedUrl, {
-      waitUntil: 'networkidle2',
-      timeout,
-    });
+    try {
+      await page.goto(validatedUrl, {
+        waitUntil: 'networkidle2',
+        timeout,
+      });
+    } catch (error) {
+      throw getGuardError(guard, validatedUrl) ?? error;
+    }
 
     await page.screenshot({
       path: outputPath as `${string}.png`,
@@ -0,0 +1,134 @@
+/**
+ * Scrape Cache
+ * Keeps recently scraped pages keyed by canonical URL so submissions,
+ * re-parses and test calls don't re-fetch the same posting within the TTL
+ */
+
+import { createHash } from 'crypto';
+import { canonicalizeUrl } from './url-canonicalizer';
+import type { StructuredExtractionResult } from './structured-data-extractor';
+
+/**
+ * A cached scrape (successful scrapes only)
+ */
+export interface ScrapeCacheEntry {
+  url: string; // Canonical URL (cache key)
+  content: string;
+  contentHash: string; // sha256 of content
+  title?: string;
+  method: 'cheerio' | 'puppeteer' | 'playwright' | 'ats'; // 'ats': read from the ATS API by smartScrape
+  httpStatus?: number;
+  structuredData?: StructuredExtractionResult;
+  fetchedAt: string; // ISO timestamp
+}
+
+/**
+ * Storage backend for scraped pages
+ * Implementations should treat failures as cache misses rather than throwing
+ */
+export interface ScrapeCache {
+  get(url: string): Promise<ScrapeCacheEntry | null>;
+  set(entry: ScrapeCacheEntry): Promise<void>;
+  delete(url: string): Promise<void>;
+}
+
+/**
+ * Default cache TTL (SCRAPE_CACHE_TTL_MINUTES, 6 hours if unset)
+ */
+export const DEFAULT_CACHE_TTL_MS =
+  (parseInt(process.env.SCRAPE_CACHE_TTL_MINUTES || '', 10) || 360) * 60 * 1000;
+
+/**
+ * Returns the cache key for a URL
+ */
+export function getScrapeCacheKey(url: string): string {
+  return canonicalizeUrl(url);
+}
+
+/**
+ * Hashes page content so unchanged pages can be detected across fetches
+ */
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Checks whether a cached entry is younger than the TTL
+ */
+export function isCacheEntryFresh(
+  entry: ScrapeCacheEntry,
+  ttlMs: number = DEFAULT_CACHE_TTL_MS
+): boolean {
+  const fetchedAt = new Date(entry.fetchedAt).getTime();
+  return !isNaN(fetchedAt) && Date.now() - fetchedAt < ttlMs;
+}
+
+/**
+ * Reads a cached page, treating cache errors as a miss
+ */
+export async function readScrapeCache(cache: ScrapeCache, url: string): Promise<ScrapeCacheEntry | null> {
+  try {
+    return await cache.get(url);
+  } catch (error) {
+    console.warn('[ScrapeCache] Read failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Stores a page; a failed write only costs a re-fetch later
+ */
+export async function writeScrapeCache(cache: ScrapeCache, entry: ScrapeCacheEntry): Promise<void> {
+  try {
+    await cache.set(entry);
+  } catch (error) {
+    console.warn('[ScrapeCache] Write failed:', error);
+  }
+}
+
+/**
+ * In-process cache (per server instance, least recently used entries evicted first)
+ */
+export class MemoryScrapeCache implements ScrapeCache {
+  private entries = new Map<string, ScrapeCacheEntry>();
+
+  constructor(private maxEntries: number = 200) {}
+
+  async get(url: string): Promise<ScrapeCacheEntry | null> {
+    const key = getScrapeCacheKey(url);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    // Move to the end so it's evicted last
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(entry: ScrapeCacheEntry): Promise<void> {
+    const key = getScrapeCacheKey(entry.url);
+    this.entries.delete(key);
+    this.entries.set(key, { ...entry, url: key });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(url: string): Promise<void> {
+    this.entries.delete(getScrapeCacheKey(url));
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Cache used by scrapeUrl when no `cache` option is passed
+ */
+export const defaultScrapeCache = new MemoryScrapeCache();
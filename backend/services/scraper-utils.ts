@@ -1,6 +1,6 @@
 /**
  * Web Scraper Utility Functions
- * Provides URL validation, text cleaning, and site type detection
+ * Provides URL validation, text cleaning, and error helpers
  */
 
 /**
@@ -14,6 +14,9 @@ export class ScraperError extends Error {
       | 'TIMEOUT'
       | 'ACCESS_DENIED'
       | 'RATE_LIMITED'
+      | 'ROBOTS_DISALLOWED'
+      | 'BLOCKED_URL'
+      | 'RESPONSE_TOO_LARGE'
       | 'NETWORK_ERROR'
       | 'PARSING_ERROR'
       | 'UNKNOWN_ERROR',
@@ -76,43 +79,6 @@ export function cleanText(text: string): string {
     .trim();
 }
 
-/**
- * Detects if a site is likely to require JavaScript rendering
- * Based on common patterns in job posting sites
- * @param url - The URL to check
- * @returns true if likely JS-heavy, false otherwise
- */
-export function isJavaScriptHeavySite(url: string): boolean {
-  const jsHeavyDomains = [
-    'greenhouse.io',
-    'lever.co',
-    'workday.com',
-    'myworkdayjobs.com',
-    'jobs.lever.co',
-    'jobs.greenhouse.io',
-    'applytojob.com',
-    'recruiterflow.com',
-    'ashbyhq.com',
-    'breezy.hr',
-    'smartrecruiters.com',
-    'icims.com',
-    'ultipro.com',
-    'taleo.net',
-    'successfactors.com',
-  ];
-
-  try {
-    const urlObj = new URL(url);
-    const hostname = urlObj.hostname.toLowerCase();
-
-    return jsHeavyDomains.some(domain =>
-      hostname.includes(domain.toLowerCase())
-    );
-  } catch {
-    return false;
-  }
-}
-
 /**
  * Creates an error from a fetch response
  * @param response - The fetch Response object
@@ -4,18 +4,20 @@
  */
 
 import { scrapeUrl } from './web-scraper';
-
-/**
- * Sites that require authentication or have aggressive bot detection
- */
-const RESTRICTED_SITES = [
-  'linkedin.com',
-  'facebook.com',
-  'fb.com',
-  'twitter.com',
-  'x.com',
-  'instagram.com',
-];
+import type { StructuredExtractionResult } from './structured-data-extractor';
+import {
+  defaultScrapeCache,
+  hashContent,
+  isCacheEntryFresh,
+  readScrapeCache,
+  writeScrapeCache,
+  type ScrapeCache,
+  type ScrapeCacheEntry,
+} from './scrape-cache';
+import { defaultDomainStrategies, type DomainStrategyStore } from './domain-strategy';
+import { detectAts, fetchAtsPosting, formatAtsContent, toStructuredExtraction, type AtsName } from './ats';
+import { assertPublicUrl } from './url-safety';
+import { ScraperError } from './scraper-utils';
 
 /**
  * Options for smart scraping
@@ -24,6 +26,10 @@ export interface SmartScrapeOptions {
   url: string;
   manualContent?: string; // User-provided content as fallback
   timeout?: number;
+  bypassCache?: boolean; // Re-fetch even if the page is cached
+  cache?: ScrapeCache; // Scrape cache backend (defaults to in-memory)
+  strategies?: DomainStrategyStore; // Domain strategy registry (defaults to in-memory)
+  disableAts?: boolean; // Skip the ATS adapters and always scrape the page
 }
 
 /**
@@ -36,36 +42,77 @@ export interface SmartScrapeResult {
   method?: 'auto-scrape' | 'manual-paste' | 'failed';
   requiresManual?: boolean; // If true, ask user to paste content
   error?: string;
+  structuredData?: StructuredExtractionResult; // Only set for auto-scraped pages
   metadata?: {
     url: string;
     isRestricted: boolean;
     scrapeMethod?: string;
     fallbackChain?: string[];
+    cached?: boolean; // Served from the scrape cache
+    fetchedAt?: string;
+    httpStatus?: number;
+    contentHash?: string;
+    blockedByRobots?: boolean; // robots.txt disallows scraping the URL
+    blockedUrl?: boolean; // URL points at a private/internal address
   };
 }
 
 /**
- * Checks if a URL is from a restricted site
+ * Checks if a URL is from a site marked manual-paste only in the domain strategy registry
  */
-export function isRestrictedSite(url: string): boolean {
+export async function isRestrictedSite(
+  url: string,
+  strategies: DomainStrategyStore = defaultDomainStrategies
+): Promise<boolean> {
   try {
     const urlObj = new URL(url);
-    const hostname = urlObj.hostname.toLowerCase();
-    return RESTRICTED_SITES.some(site => hostname.includes(site));
+    const strategy = await strategies.get(urlObj.hostname);
+    return !!strategy?.requiresManual;
   } catch {
     return false;
   }
 }
 
+/**
+ * Builds the result for an ATS posting, fresh or from the cache
+ */
+function atsScrapeResult(
+  url: string,
+  ats: AtsName,
+  entry: ScrapeCacheEntry,
+  cached: boolean
+): SmartScrapeResult {
+  return {
+    success: true,
+    content: entry.content,
+    title: entry.title,
+    method: 'auto-scrape',
+    structuredData: entry.structuredData,
+    metadata: {
+      url,
+      isRestricted: false,
+      scrapeMethod: `ats:${ats}`,
+      cached,
+      fetchedAt: entry.fetchedAt,
+      httpStatus: entry.httpStatus,
+      contentHash: entry.contentHash,
+    },
+  };
+}
+
 /**
  * Smart scraper that handles restricted sites automatically
  *
  * Strategy:
- * 1. Check if URL is from restricted site (LinkedIn, Facebook, etc.)
- * 2. If restricted and no manual content: Return requiresManual=true
- * 3. If restricted with manual content: Use manual content
- * 4. If not restricted: Try auto-scraping
- * 5. If auto-scrape fails: Return requiresManual=true
+ * 1. Reject URLs that point at private, loopback or cloud-metadata addresses
+ *    (pasted content doesn't make those acceptable either)
+ * 2. Check if the domain is marked manual-paste only (LinkedIn, Facebook, etc.)
+ * 3. If restricted and no manual content: Return requiresManual=true
+ * 4. If restricted with manual content: Use manual content
+ * 5. If hosted on a supported ATS: Serve the cached posting, or read it from
+ *    the ATS's public endpoint and cache it
+ * 6. Otherwise (or if that fails): Try auto-scraping
+ * 7. If auto-scrape fails or robots.txt disallows it: Return requiresManual=true
  *
  * @param options - Scraping options
  * @returns Smart scrape result
@@ -73,10 +120,29 @@ export function isRestrictedSite(url: string): boolean {
 export async function smartScrape(
   options: SmartScrapeOptions
 ): Promise<SmartScrapeResult> {
-  const { url, manualContent, timeout } = options;
+  const { url, manualContent, timeout, bypassCache, cache, strategies, disableAts } = options;
+
+  // Never fetch (or store a link to) internal addresses
+  try {
+    await assertPublicUrl(url);
+  } catch (error) {
+    if (error instanceof ScraperError && error.code === 'BLOCKED_URL') {
+      return {
+        success: false,
+        requiresManual: false,
+        error: 'This URL points to a private or internal network address and cannot be used.',
+        metadata: {
+          url,
+          isRestricted: false,
+          blockedUrl: true,
+        },
+      };
+    }
+    // DNS failures and the like are left to the scrapers (and the manual-paste fallback)
+  }
 
   // Check if site is restricted
-  const isRestricted = isRestrictedSite(url);
+  const isRestricted = await isRestrictedSite(url, strategies);
 
   // If restricted site
   if (isRestricted) {
@@ -105,9 +171,39 @@ export async function smartScrape(
     };
   }
 
+  // ATS-hosted postings: the structured fields come straight from the ATS,
+  // cached under the posting URL like a scraped page
+  const ats = disableAts ? null : detectAts(url);
+  if (ats) {
+    const scrapeCache = cache ?? defaultScrapeCache;
+    const cached = bypassCache ? null : await readScrapeCache(scrapeCache, url);
+    if (cached && cached.method === 'ats' && isCacheEntryFresh(cached)) {
+      return atsScrapeResult(url, ats.match.ats, cached, true);
+    }
+
+    const atsResult = await fetchAtsPosting(url, { timeout });
+    if (atsResult.success && atsResult.posting) {
+      const { posting } = atsResult;
+      const content = formatAtsContent(posting);
+      const entry: ScrapeCacheEntry = {
+        url,
+        content,
+        contentHash: hashContent(content),
+        title: posting.data.job_title ?? undefined,
+        method: 'ats',
+        httpStatus: atsResult.httpStatus,
+        structuredData: toStructuredExtraction(posting),
+        fetchedAt: new Date().toISOString(),
+      };
+      await writeScrapeCache(scrapeCache, entry);
+      return atsScrapeResult(url, posting.ats, entry, false);
+    }
+    console.warn(`[SmartScraper] ${ats.match.ats} lookup failed, scraping the page:`, atsResult.error);
+  }
+
   // Try auto-scraping for non-restricted sites
   try {
-    const scrapeResult = await scrapeUrl(url, { timeout });
+    const scrapeResult = await scrapeUrl(url, { timeout, bypassCache, cache, strategies });
 
     if (scrapeResult.success) {
       return {
@@ -115,16 +211,21 @@ export async function smartScrape(
         content: scrapeResult.content,
         title: scrapeResult.title,
         method: 'auto-scrape',
+        structuredData: scrapeResult.structuredData,
         metadata: {
           url,
           isRestricted: false,
           scrapeMethod: scrapeResult.method,
           fallbackChain: scrapeResult.fallbackChain,
+          cached: scrapeResult.cached,
+          fetchedAt: scrapeResult.fetchedAt,
+          httpStatus: scrapeResult.httpStatus,
+          contentHash: scrapeResult.contentHash,
         },
       };
     }
 
-    // Auto-scrape failed
+    // Auto-scrape failed (or robots.txt disallows it)
     // If user provided manual content as fallback, use it
     if (manualContent && manualContent.trim().length > 50) {
       return {
@@ -142,10 +243,13 @@ export async function smartScrape(
     return {
       success: false,
       requiresManual: true,
-      error: `Auto-scraping failed: ${scrapeResult.error}. Please paste the content manually.`,
+      error: scrapeResult.blockedByRobots
+        ? "This site's robots.txt doesn't allow automated access. Please paste the content manually."
+        : `Auto-scraping failed: ${scrapeResult.error}. Please paste the content manually.`,
       metadata: {
         url,
         isRestricted: false,
+        blockedByRobots: scrapeResult.blockedByRobots,
       },
     };
   } catch (error) {
@@ -0,0 +1,508 @@
+/**
+ * Structured Data Extractor
+ * Reads schema.org JobPosting data (JSON-LD, microdata) and meta tags
+ * into job posting fields, with a confidence score per field
+ */
+
+import * as cheerio from 'cheerio';
+import { cleanText } from './scraper-utils';
+
+type CheerioAPI = ReturnType<typeof cheerio.load>;
+
+/**
+ * Job posting fields (mirrors ParsedJobData in frontend/lib/ai)
+ */
+export interface StructuredJobData {
+  company_name: string | null;
+  job_title: string | null;
+  opportunity_type: 'internship' | 'full_time' | 'research' | 'fellowship' | 'scholarship' | null;
+  role_type: string | null;
+  relevant_majors: string[] | null;
+  deadline: string | null; // YYYY-MM-DD format
+  requirements: string | null;
+  location: string | null;
+  description: string | null;
+}
+
+export type StructuredJobField = keyof StructuredJobData;
+
+/**
+ * Where a field value came from
+ */
+export type StructuredDataSource = 'json-ld' | 'microdata' | 'meta' | 'ats';
+
+/**
+ * Result from structured data extraction
+ */
+export interface StructuredExtractionResult {
+  data: StructuredJobData;
+  confidence: Partial<Record<StructuredJobField, number>>; // 0-1 per extracted field
+  sources: Partial<Record<StructuredJobField, StructuredDataSource>>;
+  hasJobPosting: boolean; // Whether a schema.org JobPosting was found
+}
+
+export const STRUCTURED_JOB_FIELDS: StructuredJobField[] = [
+  'company_name',
+  'job_title',
+  'opportunity_type',
+  'role_type',
+  'relevant_majors',
+  'deadline',
+  'requirements',
+  'location',
+  'description',
+];
+
+/**
+ * Fields that must be confidently extracted before structured data
+ * is used on its own (without an AI parser)
+ */
+export const CORE_STRUCTURED_FIELDS: StructuredJobField[] = [
+  'company_name',
+  'job_title',
+  'opportunity_type',
+  'location',
+  'description',
+];
+
+export const DEFAULT_MIN_CONFIDENCE = 0.7;
+
+/**
+ * Base confidence per source; schema.org JSON-LD is authored for machines,
+ * meta tags are generic page summaries
+ */
+const SOURCE_CONFIDENCE: Record<StructuredDataSource, number> = {
+  ats: 0.95, // Fields read from an applicant tracking system's own API (see ./ats)
+  'json-ld': 0.95,
+  microdata: 0.85,
+  meta: 0.5,
+};
+
+/**
+ * schema.org employmentType values mapped to opportunity types
+ */
+const EMPLOYMENT_TYPE_MAP: Record<string, StructuredJobData['opportunity_type']> = {
+  INTERN: 'internship',
+  INTERNSHIP: 'internship',
+  FULL_TIME: 'full_time',
+  FULLTIME: 'full_time',
+  'FULL-TIME': 'full_time',
+};
+
+interface Candidate {
+  value: unknown;
+  source: StructuredDataSource;
+  confidence: number;
+}
+
+/**
+ * Converts an HTML fragment (as found in JobPosting.description) to text
+ */
+export function htmlToText(value: string): string {
+  if (!/<[a-z][\s\S]*>/i.test(value)) {
+    return cleanText(value);
+  }
+  const $ = cheerio.load(value);
+  $('br').replaceWith('\n');
+  $('li').each((_, el) => {
+    $(el).prepend('- ');
+    $(el).append('\n');
+  });
+  $('p, div, h1, h2, h3, h4, ul, ol').each((_, el) => {
+    $(el).append('\n');
+  });
+
+  // cleanText collapses newlines; keep list items and paragraphs on their own lines
+  return $.root()
+    .text()
+    .split('\n')
+    .map(line => cleanText(line))
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Returns a non-empty trimmed string or null
+ */
+export function asString(value: unknown): string | null {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Normalizes a date string to YYYY-MM-DD
+ */
+export function toIsoDate(value: unknown): string | null {
+  const text = asString(value);
+  if (!text) return null;
+
+  const isoPrefix = text.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (isoPrefix) {
+    return isoPrefix[1];
+  }
+
+  const date = new Date(text);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Maps schema.org employmentType (string or array) to an opportunity type
+ */
+export function toOpportunityType(value: unknown, title?: string | null): StructuredJobData['opportunity_type'] {
+  const types = (Array.isArray(value) ? value : [value])
+    .map(asString)
+    .filter((type): type is string => !!type)
+    .map(type => type.toUpperCase().replace(/\s+/g, '_'));
+
+  for (const type of types) {
+    if (EMPLOYMENT_TYPE_MAP[type]) {
+      return EMPLOYMENT_TYPE_MAP[type];
+    }
+  }
+
+  // Titles win over generic types like PART_TIME or TEMPORARY
+  if (title && /\bintern(ship)?\b|\bco-?op\b/i.test(title)) return 'internship';
+  if (title && /\bfellow(ship)?s?\b/i.test(title)) return 'fellowship';
+  if (title && /\bscholarship\b/i.test(title)) return 'scholarship';
+
+  return null;
+}
+
+/**
+ * Formats a schema.org Place / PostalAddress (or plain string) as text
+ */
+function formatLocation(value: unknown): string | null {
+  const places = Array.isArray(value) ? value : [value];
+  const formatted = places
+    .map(place => {
+      if (typeof place === 'string') return asString(place);
+      if (!place || typeof place !== 'object') return null;
+
+      const record = place as Record<string, any>;
+      const address = record.address ?? record;
+      if (typeof address === 'string') return asString(address);
+
+      const country = typeof address.addressCountry === 'object'
+        ? asString(address.addressCountry?.name)
+        : asString(address.addressCountry);
+
+      const parts = [
+        asString(address.addressLocality),
+        asString(address.addressRegion),
+        country,
+      ].filter((part): part is string => !!part);
+
+      return parts.length > 0 ? parts.join(', ') : asString(record.name);
+    })
+    .filter((place): place is string => !!place);
+
+  const unique = Array.from(new Set(formatted));
+  return unique.length > 0 ? unique.join('; ') : null;
+}
+
+/**
+ * Flattens JSON-LD payloads (arrays, @graph) and returns JobPosting nodes
+ */
+function findJobPostingNodes(payload: unknown): Record<string, any>[] {
+  const nodes: Record<string, any>[] = [];
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    const record = node as Record<string, any>;
+    const types = Array.isArray(record['@type']) ? record['@type'] : [record['@type']];
+    if (types.some(type => typeof type === 'string' && type.toLowerCase() === 'jobposting')) {
+      nodes.push(record);
+    }
+    if (record['@graph']) {
+      visit(record['@graph']);
+    }
+  };
+  visit(payload);
+  return nodes;
+}
+
+/**
+ * Collects field candidates from a schema.org JobPosting object
+ * (shared by JSON-LD and microdata)
+ */
+function candidatesFromJobPosting(
+  posting: Record<string, any>,
+  source: StructuredDataSource
+): Partial<Record<StructuredJobField, Candidate>> {
+  const confidence = SOURCE_CONFIDENCE[source];
+  const candidates: Partial<Record<StructuredJobField, Candidate>> = {};
+  const add = (field: StructuredJobField, value: unknown, weight = 1) => {
+    if (value === null || value === undefined) return;
+    if (Array.isArray(value) && value.length === 0) return;
+    candidates[field] = { value, source, confidence: Math.round(confidence * weight * 100) / 100 };
+  };
+
+  const title = asString(posting.title) ?? asString(posting.name);
+  add('job_title', title);
+
+  const organization = posting.hiringOrganization;
+  add(
+    'company_name',
+    typeof organization === 'string' ? asString(organization) : asString(organization?.name)
+  );
+
+  // Derived from the title rather than employmentType: slightly less certain
+  const opportunityType = toOpportunityType(posting.employmentType, title);
+  const typeFromEmployment = toOpportunityType(posting.employmentType) !== null;
+  add('opportunity_type', opportunityType, typeFromEmployment ? 1 : 0.8);
+
+  add('role_type', asString(posting.occupationalCategory) ?? asString(posting.industry), 0.7);
+  add('deadline', toIsoDate(posting.validThrough));
+
+  const remote = String(posting.jobLocationType ?? '').toUpperCase() === 'TELECOMMUTE';
+  const location = formatLocation(posting.jobLocation);
+  add('location', location && remote ? `${location} (Remote)` : location ?? (remote ? 'Remote' : null));
+
+  const description = asString(posting.description);
+  add('description', description ? htmlToText(description) : null);
+
+  const requirementParts = [
+    posting.qualifications,
+    posting.educationRequirements,
+    posting.experienceRequirements,
+    posting.skills,
+  ]
+    .flatMap(part => (Array.isArray(part) ? part : [part]))
+    .map(part => {
+      if (typeof part === 'string') return htmlToText(part);
+      if (part && typeof part === 'object') {
+        return asString(part.description) ?? asString(part.credentialCategory) ?? asString(part.name);
+      }
+      return null;
+    })
+    .filter((part): part is string => !!part);
+  add('requirements', requirementParts.length > 0 ? requirementParts.join('\n') : null);
+
+  return candidates;
+}
+
+/**
+ * Extracts JobPosting candidates from JSON-LD script blocks
+ */
+function extractFromJsonLd($: CheerioAPI): Partial<Record<StructuredJobField, Candidate>> | null {
+  const postings: Record<string, any>[] = [];
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    const raw = $(el).contents().text();
+    if (!raw.trim()) return;
+    try {
+      postings.push(...findJobPostingNodes(JSON.parse(raw)));
+    } catch {
+      // Some sites ship invalid JSON-LD; ignore the block
+    }
+  });
+
+  return postings.length > 0 ? candidatesFromJobPosting(postings[0], 'json-ld') : null;
+}
+
+/**
+ * Reads a microdata property value from an element
+ */
+function microdataValue($: CheerioAPI, el: any): string | null {
+  const element = $(el);
+  return (
+    asString(element.attr('content')) ??
+    asString(element.attr('datetime')) ??
+    asString(element.attr('href')) ??
+    asString(element.text())
+  );
+}
+
+/**
+ * Extracts JobPosting candidates from schema.org microdata
+ */
+function extractFromMicrodata($: CheerioAPI): Partial<Record<StructuredJobField, Candidate>> | null {
+  const scope = $('[itemscope][itemtype*="schema.org/JobPosting"]').first();
+  if (scope.length === 0) return null;
+
+  const prop = (name: string) => {
+    const el = scope.find(`[itemprop="${name}"]`).first();
+    return el.length > 0 ? el : null;
+  };
+  const text = (name: string) => {
+    const el = prop(name);
+    return el ? microdataValue($, el) : null;
+  };
+
+  const organization = prop('hiringOrganization');
+  const jobLocation = prop('jobLocation');
+  const descriptionEl = prop('description');
+
+  const posting: Record<string, any> = {
+    title: text('title'),
+    hiringOrganization: organization
+      ? { name: microdataValue($, organization.find('[itemprop="name"]').first().get(0) ?? organization) }
+      : undefined,
+    employmentType: text('employmentType'),
+    occupationalCategory: text('occupationalCategory'),
+    validThrough: text('validThrough'),
+    jobLocationType: text('jobLocationType'),
+    jobLocation: jobLocation
+      ? {
+          address: {
+            addressLocality: microdataValue($, jobLocation.find('[itemprop="addressLocality"]').first()),
+            addressRegion: microdataValue($, jobLocation.find('[itemprop="addressRegion"]').first()),
+            addressCountry: microdataValue($, jobLocation.find('[itemprop="addressCountry"]').first()),
+          },
+        }
+      : undefined,
+    description: descriptionEl ? descriptionEl.html() ?? descriptionEl.text() : null,
+    qualifications: text('qualifications'),
+    educationRequirements: text('educationRequirements'),
+    experienceRequirements: text('experienceRequirements'),
+    skills: text('skills'),
+  };
+
+  return candidatesFromJobPosting(posting, 'microdata');
+}
+
+/**
+ * Extracts candidates from OpenGraph / standard meta tags
+ */
+function extractFromMeta($: CheerioAPI): Partial<Record<StructuredJobField, Candidate>> {
+  const meta = (name: string) =>
+    asString($(`meta[property="${name}"]`).attr('content')) ??
+    asString($(`meta[name="${name}"]`).attr('content'));
+
+  const candidates: Partial<Record<StructuredJobField, Candidate>> = {};
+  const confidence = SOURCE_CONFIDENCE.meta;
+
+  const siteName = meta('og:site_name');
+  let title = meta('og:title') ?? meta('twitter:title');
+
+  // "Software Engineer Intern - Acme | Careers" -> title + company hint
+  let companyFromTitle: string | null = null;
+  if (title) {
+    const parts = title.split(/\s+[|\-–—]\s+/).map(part => part.trim()).filter(Boolean);
+    if (parts.length > 1) {
+      title = parts[0];
+      companyFromTitle = parts.find((part, index) => index > 0 && !/careers?|jobs?/i.test(part)) ?? null;
+    }
+  }
+
+  if (title) {
+    candidates.job_title = { value: title, source: 'meta', confidence };
+  }
+
+  const company = siteName ?? companyFromTitle;
+  if (company) {
+    candidates.company_name = { value: company, source: 'meta', confidence: siteName ? confidence : confidence - 0.1 };
+  }
+
+  const description = meta('og:description') ?? meta('description') ?? meta('twitter:description');
+  if (description) {
+    // Meta descriptions are usually truncated summaries
+    candidates.description = { value: description, source: 'meta', confidence: confidence - 0.1 };
+  }
+
+  const opportunityType = toOpportunityType(null, title);
+  if (opportunityType) {
+    candidates.opportunity_type = { value: opportunityType, source: 'meta', confidence };
+  }
+
+  return candidates;
+}
+
+/**
+ * Extracts job posting fields from structured data embedded in HTML
+ *
+ * Sources are merged per field, keeping the highest-confidence value:
+ * JSON-LD JobPosting → microdata JobPosting → OpenGraph/meta tags
+ *
+ * @param html - Raw page HTML
+ * @returns Extracted data with per-field confidence and source
+ */
+export function extractStructuredData(html: string): StructuredExtractionResult {
+  const $ = cheerio.load(html);
+
+  const jsonLd = extractFromJsonLd($);
+  const microdata = extractFromMicrodata($);
+  const meta = extractFromMeta($);
+
+  const data: StructuredJobData = {
+    company_name: null,
+    job_title: null,
+    opportunity_type: null,
+    role_type: null,
+    relevant_majors: null,
+    deadline: null,
+    requirements: null,
+    location: null,
+    description: null,
+  };
+  const confidence: StructuredExtractionResult['confidence'] = {};
+  const sources: StructuredExtractionResult['sources'] = {};
+
+  for (const candidates of [jsonLd, microdata, meta]) {
+    if (!candidates) continue;
+    for (const field of STRUCTURED_JOB_FIELDS) {
+      const candidate = candidates[field];
+      if (!candidate) continue;
+      if ((confidence[field] ?? 0) >= candidate.confidence) continue;
+
+      (data as Record<StructuredJobField, unknown>)[field] = candidate.value;
+      confidence[field] = candidate.confidence;
+      sources[field] = candidate.source;
+    }
+  }
+
+  return {
+    data,
+    confidence,
+    sources,
+    hasJobPosting: !!(jsonLd || microdata),
+  };
+}
+
+/**
+ * Lists fields that are missing or below the confidence threshold
+ *
+ * @param result - Structured extraction result
+ * @param minConfidence - Minimum confidence to accept a field (default: 0.7)
+ * @returns Fields that still need another parser
+ */
+export function getMissingStructuredFields(
+  result: StructuredExtractionResult,
+  minConfidence: number = DEFAULT_MIN_CONFIDENCE
+): StructuredJobField[] {
+  return STRUCTURED_JOB_FIELDS.filter(
+    field => result.data[field] === null || (result.confidence[field] ?? 0) < minConfidence
+  );
+}
+
+/**
+ * Checks whether structured data alone is complete enough to publish
+ * (every core field confidently extracted)
+ *
+ * @param result - Structured extraction result
+ * @param minConfidence - Minimum confidence to accept a field (default: 0.7)
+ * @returns true if an AI parser is not needed for the core fields
+ */
+export function isStructuredDataComplete(
+  result: StructuredExtractionResult,
+  minConfidence: number = DEFAULT_MIN_CONFIDENCE
+): boolean {
+  const missing = getMissingStructuredFields(result, minConfidence);
+  return CORE_STRUCTURED_FIELDS.every(field => !missing.includes(field));
+}
@@ -0,0 +1,15 @@
+/**
+ * Shared helper for the *.test.example.ts files
+ *
+ * Compares by JSON value, logs a ✅/❌ line and returns whether it passed, so
+ * an example can collect results and report them from its runAllTests().
+ */
+export function check(label: string, actual: unknown, expected: unknown): boolean {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  if (ok) {
+    console.log(`✅ ${label}`);
+  } else {
+    console.error(`❌ ${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+  return ok;
+}
@@ -0,0 +1,150 @@
+/**
+ * URL Canonicalizer
+ * Normalizes job posting URLs so the same posting shared with different
+ * tracking params, locales, or ATS link shapes maps to one canonical URL
+ */
+
+/**
+ * Query params that only track where a click came from
+ */
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'mc_cid',
+  'mc_eid',
+  '_hsenc',
+  '_hsmi',
+  'ref',
+  'referrer',
+  'refid',
+  'source',
+  'src',
+  'trk',
+  'trkinfo',
+  'trackingid',
+  'lipi',
+  'gh_src',
+  'lever-source',
+  'lever-origin',
+  'iis',
+  'iisn',
+  'from',
+  'share',
+]);
+
+const TRACKING_PREFIXES = ['utm_', 'lever-source['];
+
+/**
+ * Rewrites known applicant tracking system (ATS) and job board URL shapes
+ * to a single canonical form. Returns null when the URL is not a known shape.
+ */
+const ATS_RULES: Array<(url: URL) => string | null> = [
+  // Greenhouse: job-boards.greenhouse.io, boards.greenhouse.io, and the embed form
+  (url) => {
+    if (!/(^|\.)greenhouse\.io$/.test(url.hostname)) return null;
+    if (url.pathname.startsWith('/embed/job_app')) {
+      const board = url.searchParams.get('for');
+      const jobId = url.searchParams.get('token');
+      return board && jobId ? `https://boards.greenhouse.io/${board.toLowerCase()}/jobs/${jobId}` : null;
+    }
+    const match = url.pathname.match(/^\/([^/]+)\/jobs\/(\d+)/);
+    return match ? `https://boards.greenhouse.io/${match[1].toLowerCase()}/jobs/${match[2]}` : null;
+  },
+  // Lever: drop the /apply suffix
+  (url) => {
+    if (url.hostname !== 'jobs.lever.co' && url.hostname !== 'jobs.eu.lever.co') return null;
+    const match = url.pathname.match(/^\/([^/]+)\/([0-9a-f-]{36})/i);
+    return match ? `https://${url.hostname}/${match[1].toLowerCase()}/${match[2].toLowerCase()}` : null;
+  },
+  // Ashby: drop the /application suffix
+  (url) => {
+    if (url.hostname !== 'jobs.ashbyhq.com') return null;
+    const match = url.pathname.match(/^\/([^/]+)\/([0-9a-f-]{36})/i);
+    return match ? `https://jobs.ashbyhq.com/${match[1].toLowerCase()}/${match[2].toLowerCase()}` : null;
+  },
+  // Workday: drop the locale segment and /apply suffixes
+  (url) => {
+    if (!url.hostname.endsWith('.myworkdayjobs.com')) return null;
+    const segments = url.pathname.split('/').filter(Boolean);
+    if (segments.length > 0 && /^[a-z]{2}-[A-Z]{2}$/.test(segments[0])) segments.shift();
+    const jobIndex = segments.indexOf('job');
+    if (jobIndex === -1) return null;
+    const kept = segments.slice(0, jobIndex + 3);
+    return `https://${url.hostname}/${kept.join('/')}`;
+  },
+  // LinkedIn: /jobs/view/<slug>-<id>, or search/collection pages with currentJobId
+  (url) => {
+    if (!/(^|\.)linkedin\.com$/.test(url.hostname)) return null;
+    const currentJobId = url.searchParams.get('currentJobId');
+    if (currentJobId && /^\d+$/.test(currentJobId)) {
+      return `https://www.linkedin.com/jobs/view/${currentJobId}`;
+    }
+    const match = url.pathname.match(/^\/jobs\/view\/(?:[^/]*-)?(\d+)/);
+    return match ? `https://www.linkedin.com/jobs/view/${match[1]}` : null;
+  },
+  // SmartRecruiters: /<company>/<id>-<slug>
+  (url) => {
+    if (url.hostname !== 'jobs.smartrecruiters.com') return null;
+    const match = url.pathname.match(/^\/([^/]+)\/(\d+)/);
+    return match ? `https://jobs.smartrecruiters.com/${match[1].toLowerCase()}/${match[2]}` : null;
+  },
+  // Indeed: viewjob?jk=, or search pages with vjk=
+  (url) => {
+    if (!/(^|\.)indeed\.com$/.test(url.hostname)) return null;
+    const jobKey = url.searchParams.get('jk') || url.searchParams.get('vjk');
+    return jobKey ? `https://www.indeed.com/viewjob?jk=${jobKey}` : null;
+  },
+];
+
+/**
+ * Check whether a query param is tracking-only
+ *
+ * @param name - Query param name
+ * @returns True if the param can be dropped
+ */
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some((prefix) => lower.startsWith(prefix));
+}
+
+/**
+ * Canonicalize a job posting URL
+ *
+ * Known ATS and job board links are rewritten to one shape. Other URLs are
+ * normalized: https, lowercase host without "www.", no fragment, no tracking
+ * params, remaining params sorted, no trailing slash.
+ *
+ * @param rawUrl - URL as submitted
+ * @returns Canonical URL, or the trimmed input if it cannot be parsed
+ */
+export function canonicalizeUrl(rawUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return rawUrl.trim();
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return rawUrl.trim();
+  }
+
+  url.hostname = url.hostname.toLowerCase();
+
+  for (const rule of ATS_RULES) {
+    const canonical = rule(url);
+    if (canonical) return canonical;
+  }
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const host = url.hostname.replace(/^www\./, '');
+  const path = url.pathname.replace(/\/+$/, '');
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  return `https://${host}${url.port ? `:${url.port}` : ''}${path}${query}`;
+}
@@ -0,0 +1,395 @@
+/**
+ * URL Safety (SSRF protection)
+ * Keeps user-submitted URLs from making the server fetch private, loopback,
+ * link-local or cloud-metadata addresses, on every redirect hop
+ */
+
+import { lookup as dnsLookup, type LookupAddress } from 'dns';
+import { request as httpRequest, type IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { isIP, type LookupFunction } from 'net';
+import { createBrotliDecompress, createGunzip, createInflate } from 'zlib';
+import { ScraperError } from './scraper-utils';
+
+/**
+ * Largest response body the scrapers will read (SCRAPE_MAX_RESPONSE_BYTES, 5 MB if unset)
+ */
+export const MAX_RESPONSE_BYTES =
+  parseInt(process.env.SCRAPE_MAX_RESPONSE_BYTES || '', 10) || 5 * 1024 * 1024;
+
+export const MAX_REDIRECTS = 5;
+
+/**
+ * Lets local development scrape localhost fixtures (SCRAPE_ALLOW_PRIVATE_NETWORKS=true)
+ * Never set this in production.
+ */
+const ALLOW_PRIVATE_NETWORKS = process.env.SCRAPE_ALLOW_PRIVATE_NETWORKS === 'true';
+
+// Hostnames that resolve to internal services on common clouds and hosts
+const BLOCKED_HOSTNAMES = [/^localhost$/, /\.localhost$/, /^metadata$/, /^metadata\.google\.internal$/, /\.internal$/];
+
+// [network, prefix length]
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT (and Alibaba Cloud metadata)
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local (AWS/GCP/Azure metadata at 169.254.169.254)
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // Documentation
+  ['192.88.99.0', 24], // 6to4 relay
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['198.51.100.0', 24], // Documentation
+  ['203.0.113.0', 24], // Documentation
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + parseInt(octet, 10), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = ipv4ToNumber(network);
+    return value >= start && value < start + size;
+  });
+}
+
+/**
+ * Expands an IPv6 address to its eight 16-bit groups
+ */
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, ''); // Drop the zone id
+
+  // Trailing embedded IPv4 (::ffff:10.0.0.1)
+  const v4 = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const value = ipv4ToNumber(v4[1]);
+    text = `${text.slice(0, -v4[1].length)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = tail !== undefined ? 8 - headGroups.length - tailGroups.length : 0;
+
+  return [...headGroups, ...Array(missing).fill('0'), ...tailGroups].map(group => parseInt(group, 16) || 0);
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  const [first] = groups;
+
+  if (groups.every(group => group === 0)) return true; // Unspecified (::)
+  if (groups.slice(0, 7).every(group => group === 0) && groups[7] === 1) return true; // Loopback (::1)
+  if ((first & 0xfe00) === 0xfc00) return true; // Unique local fc00::/7 (AWS metadata at fd00:ec2::254)
+  if ((first & 0xffc0) === 0xfe80) return true; // Link-local fe80::/10
+  if ((first & 0xff00) === 0xff00) return true; // Multicast ff00::/8
+  if (first === 0x2001 && groups[1] === 0x0db8) return true; // Documentation 2001:db8::/32
+
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses
+  const embedsIpv4 =
+    (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) ||
+    (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0));
+  if (embedsIpv4) {
+    return isBlockedIpv4(
+      [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.')
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Whether an IP address is private, loopback, link-local, metadata or otherwise
+ * not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isBlockedIpv4(address);
+  if (version === 6) return isBlockedIpv6(address);
+  return true; // Not an IP address at all
+}
+
+/**
+ * Creates the BLOCKED_URL error for a URL that points somewhere it shouldn't
+ */
+export function createBlockedUrlError(url: string, reason: string): ScraperError {
+  return new ScraperError(`Blocked URL ${url}: ${reason}`, 'BLOCKED_URL');
+}
+
+/**
+ * Checks a URL's scheme and host before it is fetched, resolving the hostname
+ * and requiring every address it resolves to be public
+ *
+ * @param url - URL about to be fetched (the original or a redirect target)
+ * @throws ScraperError (BLOCKED_URL) if the URL targets a non-public address
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    throw new ScraperError(`Invalid URL format: ${url}`, 'INVALID_URL');
+  }
+
+  if (urlObj.protocol !== 'http:' && urlObj.protocol !== 'https:') {
+    throw createBlockedUrlError(url, `${urlObj.protocol} URLs are not allowed`);
+  }
+  if (urlObj.username || urlObj.password) {
+    throw createBlockedUrlError(url, 'URLs with credentials are not allowed');
+  }
+  if (ALLOW_PRIVATE_NETWORKS) return;
+
+  const hostname = urlObj.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (BLOCKED_HOSTNAMES.some(pattern => pattern.test(hostname))) {
+    throw createBlockedUrlError(url, 'internal hostname');
+  }
+
+  if (isIP(hostname)) {
+    if (isPrivateAddress(hostname)) {
+      throw createBlockedUrlError(url, 'private or reserved address');
+    }
+    return;
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await new Promise<LookupAddress[]>((resolve, reject) =>
+      dnsLookup(hostname, { all: true }, (error, result) => (error ? reject(error) : resolve(result)))
+    );
+  } catch (error) {
+    throw new ScraperError(
+      `Could not resolve ${hostname}: ${error instanceof Error ? error.message : 'DNS lookup failed'}`,
+      'NETWORK_ERROR'
+    );
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw createBlockedUrlError(url, `${hostname} resolves to a private or reserved address`);
+  }
+}
+
+/**
+ * Whether a URL may be fetched (assertPublicUrl without the throw)
+ */
+export async function isPublicUrl(url: string): Promise<boolean> {
+  try {
+    await assertPublicUrl(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Request guard for headless browsers: checks each request URL once per hostname
+ *
+ * data:, blob: and about: URLs never leave the browser and are allowed; other
+ * non-http(s) schemes are blocked.
+ */
+export function createRequestGuard(): (url: string) => Promise<boolean> {
+  const verdicts = new Map<string, Promise<boolean>>();
+
+  return (url: string) => {
+    let urlObj: URL;
+    try {
+      urlObj = new URL(url);
+    } catch {
+      return Promise.resolve(false);
+    }
+
+    if (['data:', 'blob:', 'about:'].includes(urlObj.protocol)) return Promise.resolve(true);
+
+    const key = `${urlObj.protocol}//${urlObj.username}@${urlObj.hostname}`;
+    let verdict = verdicts.get(key);
+    if (!verdict) {
+      verdict = isPublicUrl(url);
+      verdicts.set(key, verdict);
+    }
+    return verdict;
+  };
+}
+
+/**
+ * DNS lookup for outgoing sockets that refuses non-public addresses, so a
+ * hostname can't resolve to a public address when checked and a private one
+ * when connected (DNS rebinding)
+ */
+const safeLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const list = addresses as LookupAddress[];
+    if (!ALLOW_PRIVATE_NETWORKS && (list.length === 0 || list.some(({ address }) => isPrivateAddress(address)))) {
+      callback(createBlockedUrlError(hostname, 'resolves to a private or reserved address'), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, list);
+    } else {
+      callback(null, list[0].address, list[0].family);
+    }
+  });
+};
+
+/**
+ * Options for safeFetch
+ */
+export interface SafeFetchInit {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  maxBytes?: number; // Defaults to MAX_RESPONSE_BYTES
+  maxRedirects?: number; // Defaults to MAX_REDIRECTS
+  redirect?: 'follow' | 'manual'; // 'manual' returns a redirect as-is (Location intact) instead of following it
+}
+
+interface RawResponse {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  body: Buffer | null; // null for redirects (body discarded)
+  location: string | null;
+}
+
+function decompress(response: IncomingMessage): NodeJS.ReadableStream {
+  switch ((response.headers['content-encoding'] || '').toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return response.pipe(createGunzip());
+    case 'deflate':
+      return response.pipe(createInflate());
+    case 'br':
+      return response.pipe(createBrotliDecompress());
+    default:
+      return response;
+  }
+}
+
+function requestOnce(url: URL, init: SafeFetchInit, maxBytes: number): Promise<RawResponse> {
+  return new Promise((resolve, reject) => {
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    const request = send(
+      url,
+      {
+        method: 'GET',
+        headers: { ...init.headers, 'Accept-Encoding': 'gzip, deflate, br' },
+        lookup: safeLookup,
+        signal: init.signal,
+      },
+      response => {
+        const status = response.statusCode || 0;
+        const headers = new Headers();
+        for (let i = 0; i < response.rawHeaders.length; i += 2) {
+          headers.append(response.rawHeaders[i], response.rawHeaders[i + 1]);
+        }
+
+        const location = status >= 300 && status < 400 ? response.headers.location || null : null;
+        if (location) {
+          response.resume();
+          resolve({ status, statusText: response.statusMessage || '', headers, body: null, location });
+          return;
+        }
+
+        const declaredLength = parseInt(response.headers['content-length'] || '', 10);
+        if (declaredLength > maxBytes) {
+          response.destroy();
+          reject(createResponseTooLargeError(url.toString(), maxBytes));
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        const stream = decompress(response);
+        if (stream !== response) {
+          // The body is returned decoded
+          headers.delete('content-encoding');
+          headers.delete('content-length');
+        }
+        stream.on('data', (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > maxBytes) {
+            response.destroy();
+            reject(createResponseTooLargeError(url.toString(), maxBytes));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        stream.on('end', () =>
+          resolve({ status, statusText: response.statusMessage || '', headers, body: Buffer.concat(chunks), location: null })
+        );
+        stream.on('error', reject);
+      }
+    );
+
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * Creates the RESPONSE_TOO_LARGE error
+ */
+export function createResponseTooLargeError(url: string, maxBytes: number): ScraperError {
+  return new ScraperError(
+    `Response from ${url} is larger than ${Math.round(maxBytes / 1024)} KB`,
+    'RESPONSE_TOO_LARGE'
+  );
+}
+
+/**
+ * fetch() for user-submitted URLs
+ *
+ * - Checks the URL, and every redirect target, with assertPublicUrl
+ *   (with redirect: 'manual', only the URL; the redirect is returned unread)
+ * - Connects only to the public addresses it checked (no DNS rebinding)
+ * - Stops reading bodies past maxBytes (after decompression)
+ *
+ * @returns A standard Response with the body already read (url and redirected
+ *   describe the final hop)
+ * @throws ScraperError (BLOCKED_URL, RESPONSE_TOO_LARGE) or the underlying network error
+ */
+export async function safeFetch(input: string | URL, init: SafeFetchInit = {}): Promise<Response> {
+  const maxBytes = init.maxBytes ?? MAX_RESPONSE_BYTES;
+  const maxRedirects = init.maxRedirects ?? MAX_REDIRECTS;
+  let url = new URL(String(input));
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(url.toString());
+    const response = await requestOnce(url, init, maxBytes);
+
+    if (response.location && init.redirect !== 'manual') {
+      if (redirects >= maxRedirects) {
+        throw new ScraperError(`Too many redirects for URL: ${String(input)}`, 'NETWORK_ERROR');
+      }
+      url = new URL(response.location, url);
+      continue;
+    }
+
+    // Statuses that can't carry a body in the Response constructor
+    const body =
+      [101, 204, 205, 304].includes(response.status) || !response.body
+        ? null
+        : new Uint8Array(response.body);
+    const result = new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+    // Constructed responses have no URL; callers check where redirects ended up
+    Object.defineProperties(result, {
+      url: { value: url.toString() },
+      redirected: { value: redirects > 0 },
+    });
+    return result;
+  }
+}
@@ -7,7 +7,28 @@
 import { scrapeWithCheerio } from './cheerio-scraper';
 import { scrapeWithPuppeteer, closeBrowser as closePuppeteerBrowser } from './puppeteer-scraper';
 import { scrapeWithPlaywright, closeBrowser as closePlaywrightBrowser } from './playwright-scraper';
-import { isJavaScriptHeavySite, validateUrl, ScraperError } from './scraper-utils';
+import { validateUrl, ScraperError } from './scraper-utils';
+import type { StructuredExtractionResult } from './structured-data-extractor';
+import { assertAllowedByRobots, mapWithConcurrency } from './crawl-politeness';
+import { assertPublicUrl } from './url-safety';
+import {
+  defaultScrapeCache,
+  hashContent,
+  isCacheEntryFresh,
+  readScrapeCache,
+  writeScrapeCache,
+  DEFAULT_CACHE_TTL_MS,
+  type ScrapeCache,
+  type ScrapeCacheEntry,
+} from './scrape-cache';
+import {
+  defaultDomainStrategies,
+  getMethodOrder,
+  type DomainStrategy,
+  type DomainStrategyStore,
+  type ScrapeMethod,
+  type ScrapeOutcome,
+} from './domain-strategy';
 
 /**
  * Scraper configuration options
@@ -19,6 +40,10 @@ export interface ScraperOptions {
   forcePlaywright?: boolean; // Force use of Playwright
   forceCheerio?: boolean; // Force use of Cheerio
   disablePlaywrightFallback?: boolean; // Disable Playwright as final fallback
+  bypassCache?: boolean; // Always fetch the page (the fresh result still refreshes the cache)
+  cache?: ScrapeCache; // Cache backend (defaults to the in-memory cache)
+  cacheTtl?: number; // Max age of a cached page in milliseconds
+  strategies?: DomainStrategyStore; // Per-domain strategy registry (defaults to in-memory)
 }
 
 /**
@@ -28,21 +53,34 @@ export interface ScraperResult {
   success: boolean;
   content: string;
   title?: string;
-  method?: 'cheerio' | 'puppeteer' | 'playwright'; // Which method was used
+  method?: ScrapeMethod; // Which method was used
   error?: string;
   fallbackUsed?: boolean; // Whether fallback was triggered
   fallbackChain?: string[]; // Chain of methods tried
+  structuredData?: StructuredExtractionResult; // schema.org / meta tag fields from the page
+  httpStatus?: number; // Status of the page response
+  cached?: boolean; // Whether the result came from the scrape cache
+  fetchedAt?: string; // When the page was fetched (ISO timestamp)
+  contentHash?: string; // sha256 of content
+  blockedByRobots?: boolean; // robots.txt disallows the URL; nothing was fetched
+  blockedUrl?: boolean; // The URL points at a private/internal address; nothing was fetched
 }
 
 /**
  * Scrapes content from a URL with triple fallback chain
  *
  * Strategy:
- * 1. Validate URL
- * 2. Try Cheerio (fastest, for static HTML)
- * 3. If Cheerio fails, try Puppeteer (for JS-heavy sites)
- * 4. If Puppeteer fails, try Playwright (most reliable, final fallback)
- * 5. Return best result with metadata
+ * 1. Return the cached page if it was fetched within the TTL (unless bypassCache)
+ * 2. Validate URL, make sure it resolves to a public address, and check it
+ *    against the site's robots.txt
+ * 3. Start with the method the domain strategy registry knows works for this site
+ * 4. Otherwise try Cheerio (fastest, for static HTML) → Puppeteer (for JS-heavy
+ *    sites) → Playwright (most reliable, final fallback)
+ * 5. Record which method succeeded (content length, duration) for the domain
+ * 6. Cache and return best result with metadata
+ *
+ * Forcing a specific scraper skips the cache and the registry, since the point
+ * is to test that method.
  *
  * @param url - The URL to scrape
  * @param options - Scraper options
@@ -51,6 +89,128 @@ export interface ScraperResult {
 export async function scrapeUrl(
   url: string,
   options: ScraperOptions = {}
+): Promise<ScraperResult> {
+  const cache = options.cache ?? defaultScrapeCache;
+  const strategies = options.strategies ?? defaultDomainStrategies;
+  const useCache = !options.forceCheerio && !options.forcePuppeteer && !options.forcePlaywright;
+
+  if (useCache && !options.bypassCache) {
+    const entry = await readScrapeCache(cache, url);
+    // ATS entries are API data, not the page itself
+    if (entry && entry.method !== 'ats' && isCacheEntryFresh(entry, options.cacheTtl ?? DEFAULT_CACHE_TTL_MS)) {
+      return {
+        success: true,
+        content: entry.content,
+        title: entry.title,
+        method: entry.method,
+        structuredData: entry.structuredData,
+        httpStatus: entry.httpStatus,
+        cached: true,
+        fetchedAt: entry.fetchedAt,
+        contentHash: entry.contentHash,
+        fallbackUsed: false,
+        fallbackChain: [],
+      };
+    }
+  }
+
+  const startedAt = Date.now();
+  const result = await scrapeWithFallback(url, options, strategies);
+
+  // Only fetches that reached a scraper say anything about the site
+  if (useCache && result.fallbackChain?.length) {
+    await recordOutcome(strategies, url, {
+      success: result.success,
+      method: result.method,
+      contentLength: result.content.length,
+      durationMs: Date.now() - startedAt,
+      error: result.error,
+    });
+  }
+
+  if (!result.success || !result.method) {
+    return result;
+  }
+
+  const entry: ScrapeCacheEntry = {
+    url,
+    content: result.content,
+    contentHash: hashContent(result.content),
+    title: result.title,
+    method: result.method,
+    httpStatus: result.httpStatus,
+    structuredData: result.structuredData,
+    fetchedAt: new Date().toISOString(),
+  };
+
+  if (useCache) {
+    await writeScrapeCache(cache, entry);
+  }
+
+  return {
+    ...result,
+    cached: false,
+    fetchedAt: entry.fetchedAt,
+    contentHash: entry.contentHash,
+  };
+}
+
+/**
+ * Looks up the strategy for a URL, treating registry errors as "nothing known"
+ */
+async function readStrategy(
+  strategies: DomainStrategyStore,
+  url: string
+): Promise<DomainStrategy | null> {
+  try {
+    return await strategies.get(new URL(url).hostname);
+  } catch (error) {
+    console.warn('[Scraper] Strategy lookup failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Feeds a scrape result back into the registry
+ */
+async function recordOutcome(
+  strategies: DomainStrategyStore,
+  url: string,
+  outcome: ScrapeOutcome
+): Promise<void> {
+  try {
+    await strategies.recordOutcome(new URL(url.trim()).hostname, outcome);
+  } catch (error) {
+    console.warn('[Scraper] Strategy update failed:', error);
+  }
+}
+
+/**
+ * Runs one scraper as a step of the fallback chain
+ */
+function runScraper(method: ScrapeMethod, url: string, options: ScraperOptions) {
+  const scraperOptions = { timeout: options.timeout, userAgent: options.userAgent };
+
+  switch (method) {
+    case 'cheerio':
+      return scrapeWithCheerio(url, scraperOptions);
+    case 'puppeteer':
+      return scrapeWithPuppeteer(url, scraperOptions);
+    case 'playwright':
+      return scrapeWithPlaywright(url, {
+        ...scraperOptions,
+        blockResources: true, // Block resources for faster scraping
+      });
+  }
+}
+
+/**
+ * Fetches a page through the fallback chain (no caching)
+ */
+async function scrapeWithFallback(
+  url: string,
+  options: ScraperOptions,
+  strategies: DomainStrategyStore
 ): Promise<ScraperResult> {
   const fallbackChain: string[] = [];
 
@@ -58,6 +218,14 @@ export async function scrapeUrl(
     // Validate URL
     const validatedUrl = validateUrl(url);
 
+    // Stop before any scraper runs if the URL targets a private/internal address
+    // or the site opted out (each scraper checks again, redirects included)
+    await assertPublicUrl(validatedUrl);
+    await assertAllowedByRobots(validatedUrl, {
+      timeout: options.timeout,
+      userAgent: options.userAgent,
+    });
+
     // Force specific scraper if requested
     if (options.forceCheerio) {
       fallbackChain.push('cheerio');
@@ -104,69 +272,37 @@ export async function scrapeUrl(
       };
     }
 
-    // Triple fallback chain: Cheerio → Puppeteer → Playwright
-    const isJsHeavy = isJavaScriptHeavySite(validatedUrl);
+    // Triple fallback chain, starting with the method known to work for this domain
+    const strategy = await readStrategy(strategies, validatedUrl);
+    const methods = getMethodOrder(strategy).filter(
+      (method, index) =>
+        method !== 'playwright' || index === 0 || !options.disablePlaywrightFallback
+    );
 
-    // Step 1: Try Cheerio first (unless known to be JS-heavy)
-    if (!isJsHeavy) {
-      fallbackChain.push('cheerio');
-      const cheerioResult = await scrapeWithCheerio(validatedUrl, {
-        timeout: options.timeout,
-        userAgent: options.userAgent,
-      });
+    let lastError: string | undefined;
+    for (const method of methods) {
+      fallbackChain.push(method);
+      const result = await runScraper(method, validatedUrl, options);
 
       // Success with sufficient content (at least 50 chars is meaningful)
-      if (cheerioResult.success && cheerioResult.content.length >= 50) {
+      if (result.success && result.content.length >= 50) {
         return {
-          ...cheerioResult,
-          method: 'cheerio',
-          fallbackUsed: false,
+          ...result,
+          method,
+          fallbackUsed: fallbackChain.length > 1,
           fallbackChain,
         };
       }
-    }
-
-    // Step 2: Try Puppeteer
-    fallbackChain.push('puppeteer');
-    const puppeteerResult = await scrapeWithPuppeteer(validatedUrl, {
-      timeout: options.timeout,
-      userAgent: options.userAgent,
-    });
-
-    // Success with sufficient content (at least 50 chars is meaningful)
-    if (puppeteerResult.success && puppeteerResult.content.length >= 50) {
-      return {
-        ...puppeteerResult,
-        method: 'puppeteer',
-        fallbackUsed: fallbackChain.length > 1,
-        fallbackChain,
-      };
-    }
-
-    // Step 3: Try Playwright (final fallback)
-    if (!options.disablePlaywrightFallback) {
-      fallbackChain.push('playwright');
-      const playwrightResult = await scrapeWithPlaywright(validatedUrl, {
-        timeout: options.timeout,
-        userAgent: options.userAgent,
-        blockResources: true, // Block resources for faster scraping
-      });
-
-      return {
-        ...playwrightResult,
-        method: playwrightResult.success ? 'playwright' : undefined,
-        fallbackUsed: true,
-        fallbackChain,
-      };
+      lastError = result.error;
     }
 
     // All methods failed
     return {
       success: false,
       content: '',
-      error: 'All scraping methods failed',
+      error: lastError || 'All scraping methods failed',
       method: undefined,
-      fallbackUsed: true,
+      fallbackUsed: fallbackChain.length > 1,
       fallbackChain,
     };
   } catch (error) {
@@ -178,6 +314,8 @@ export async function scrapeUrl(
         method: undefined,
         fallbackUsed: fallbackChain.length > 1,
         fallbackChain,
+        blockedByRobots: error.code === 'ROBOTS_DISALLOWED' || undefined,
+        blockedUrl: error.code === 'BLOCKED_URL' || undefined,
       };
     }
 
@@ -206,18 +344,9 @@ export async function scrapeMultipleUrls(
   options: ScraperOptions = {},
   maxConcurrent: number = 3
 ): Promise<ScraperResult[]> {
-  const results: ScraperResult[] = [];
-
-  // Process URLs in batches to avoid overwhelming the system
-  for (let i = 0; i < urls.length; i += maxConcurrent) {
-    const batch = urls.slice(i, i + maxConcurrent);
-    const batchResults = await Promise.all(
-      batch.map(url => scrapeUrl(url, options))
-    );
-    results.push(...batchResults);
-  }
-
-  return results;
+  // Up to maxConcurrent at a time; robots.txt and the shared per-host limits
+  // (crawl-politeness.ts) apply to every request underneath
+  return mapWithConcurrency(urls, maxConcurrent, url => scrapeUrl(url, options));
 }
 
 /**
@@ -234,7 +363,7 @@ export async function cleanup(): Promise<void> {
 /**
  * Export utility functions for convenience
  */
-export { validateUrl, isJavaScriptHeavySite, ScraperError } from './scraper-utils';
+export { validateUrl, ScraperError } from './scraper-utils';
 
 /**
  * Export individual scrapers for advanced use cases
@@ -0,0 +1,97 @@
+-- Moderation Queue Migration
+-- Student submissions land as 'pending_review' until an admin approves them.
+-- Trusted submitters (configured by admins) skip the queue.
+
+-- New opportunity statuses
+-- NOTE: ALTER TYPE ... ADD VALUE cannot be used in the same transaction as the new value,
+-- so the policies below compare against status::text instead of the enum literal.
+ALTER TYPE opportunity_status ADD VALUE IF NOT EXISTS 'pending_review';
+ALTER TYPE opportunity_status ADD VALUE IF NOT EXISTS 'rejected';
+
+-- Review metadata on opportunities
+ALTER TABLE opportunities
+ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+-- Trusted submitters bypass the review queue
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS is_trusted_submitter BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_opportunities_pending_review
+  ON opportunities(created_at)
+  WHERE status::text = 'pending_review';
+
+-- Allow rejection emails through the existing queue
+ALTER TABLE email_queue DROP CONSTRAINT IF EXISTS email_queue_email_type_check;
+ALTER TABLE email_queue ADD CONSTRAINT email_queue_email_type_check
+  CHECK (email_type IN ('daily_digest', 'deadline_reminder', 'submission_rejected'));
+
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_email_type_check;
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_email_type_check
+  CHECK (email_type IN ('daily_digest', 'deadline_reminder', 'submission_rejected'));
+
+-- RLS: pending and rejected submissions are only visible to their submitter and admins
+DROP POLICY IF EXISTS "Opportunities are viewable by authenticated users" ON opportunities;
+CREATE POLICY "Opportunities are viewable by authenticated users" ON opportunities
+  FOR SELECT USING (
+    auth.role() = 'authenticated'
+    AND (
+      status::text IN ('active', 'expired')
+      OR submitted_by = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid()
+        AND users.role = 'admin'
+      )
+    )
+  );
+
+-- RLS: students can only create pending submissions unless trusted or admin
+DROP POLICY IF EXISTS "Authenticated users can create opportunities" ON opportunities;
+CREATE POLICY "Authenticated users can create opportunities" ON opportunities
+  FOR INSERT WITH CHECK (
+    auth.role() = 'authenticated'
+    AND auth.uid() = submitted_by
+    AND (
+      status::text = 'pending_review'
+      OR EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid()
+        AND (users.role = 'admin' OR users.is_trusted_submitter = true)
+      )
+    )
+  );
+
+-- Admins can update other users (needed to toggle trusted submitters)
+DROP POLICY IF EXISTS "Admins can update users" ON users;
+CREATE POLICY "Admins can update users" ON users
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM users AS admins
+      WHERE admins.id = auth.uid()
+      AND admins.role = 'admin'
+    )
+  );
+
+-- Only admins can change who is trusted
+CREATE OR REPLACE FUNCTION prevent_self_trust_escalation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_trusted_submitter IS DISTINCT FROM OLD.is_trusted_submitter
+    AND NOT EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+    AND auth.role() <> 'service_role'
+  THEN
+    RAISE EXCEPTION 'Only admins can change trusted submitter status';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_trusted_submitter_update ON users;
+CREATE TRIGGER check_trusted_submitter_update BEFORE UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION prevent_self_trust_escalation();
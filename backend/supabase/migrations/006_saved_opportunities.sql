@@ -0,0 +1,37 @@
+-- Saved Opportunities Migration
+-- Lets students bookmark opportunities into a personal "My List".
+-- Deadline reminders list saved opportunities first.
+
+CREATE TABLE IF NOT EXISTS saved_opportunities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  opportunity_id UUID NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, opportunity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_opportunities_user_id ON saved_opportunities(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_opportunities_opportunity_id ON saved_opportunities(opportunity_id);
+CREATE INDEX IF NOT EXISTS idx_saved_opportunities_created_at ON saved_opportunities(created_at DESC);
+
+-- RLS Policies for saved_opportunities
+ALTER TABLE saved_opportunities ENABLE ROW LEVEL SECURITY;
+
+-- Users can see only their own saved list
+CREATE POLICY "Users can view own saved opportunities" ON saved_opportunities
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can only save opportunities they are allowed to see
+CREATE POLICY "Users can save opportunities" ON saved_opportunities
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM opportunities
+      WHERE opportunities.id = opportunity_id
+    )
+  );
+
+CREATE POLICY "Users can unsave own saved opportunities" ON saved_opportunities
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- The deadline-reminders cron reads every user's list with the service role, which bypasses RLS
@@ -0,0 +1,65 @@
+-- Application Tracker Migration
+-- Per-user pipeline status for opportunities (interested → applied → OA → interviewing → offer/rejected)
+-- with key dates and private notes.
+
+DO $$ BEGIN
+  CREATE TYPE application_status AS ENUM ('interested', 'applied', 'oa', 'interviewing', 'offer', 'rejected');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS applications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  opportunity_id UUID NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE,
+  status application_status NOT NULL DEFAULT 'interested',
+  applied_at DATE,
+  next_step_at DATE, -- e.g. OA due date or interview date
+  notes TEXT,
+  status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, opportunity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_applications_user_id ON applications(user_id);
+CREATE INDEX IF NOT EXISTS idx_applications_opportunity_id ON applications(opportunity_id);
+CREATE INDEX IF NOT EXISTS idx_applications_user_status ON applications(user_id, status);
+
+CREATE TRIGGER update_applications_updated_at BEFORE UPDATE ON applications
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Track when the status last changed, and default applied_at once the user has applied
+CREATE OR REPLACE FUNCTION track_application_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at = NOW();
+  END IF;
+
+  IF NEW.applied_at IS NULL AND NEW.status <> 'interested' THEN
+    NEW.applied_at = CURRENT_DATE;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER track_applications_status_change BEFORE INSERT OR UPDATE ON applications
+  FOR EACH ROW EXECUTE FUNCTION track_application_status_change();
+
+-- RLS Policies for applications (private to each user)
+ALTER TABLE applications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own applications" ON applications
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own applications" ON applications
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own applications" ON applications
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own applications" ON applications
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,55 @@
+-- Full-Text Search Migration
+-- Replaces the ilike OR chain in GET /api/opportunities with a weighted
+-- tsvector column, a GIN index, and a ranked search function.
+
+-- Company and title matches rank above role/location, which rank above body text
+ALTER TABLE opportunities
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(company_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(job_title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(role_type, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(location, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(requirements, '')), 'D')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_opportunities_search_vector ON opportunities USING GIN (search_vector);
+
+-- Ranked search over opportunities
+-- search_query accepts web-search syntax: quoted phrases, OR, and -exclusions.
+-- SECURITY INVOKER so the caller's RLS policies decide which rows are visible.
+-- Snippets wrap matched terms in <mark></mark>; everything else is plain text.
+CREATE OR REPLACE FUNCTION public.search_opportunities(
+  search_query TEXT,
+  match_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  id UUID,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  )
+  SELECT
+    o.id,
+    ts_rank_cd(o.search_vector, query.tsq) AS rank,
+    ts_headline(
+      'english',
+      coalesce(nullif(o.description, ''), nullif(o.requirements, ''), o.job_title),
+      query.tsq,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM opportunities o, query
+  WHERE o.search_vector @@ query.tsq
+  ORDER BY rank DESC, o.created_at DESC
+  LIMIT greatest(1, least(match_limit, 500));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_opportunities(TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,7 @@
+-- Opportunity Filters Migration
+-- Supports the server-side major filter in GET /api/opportunities, which
+-- matches with JSONB containment (relevant_majors @> '["Computer Science"]').
+
+-- jsonb_path_ops is smaller and faster than the default opclass for @> lookups
+CREATE INDEX IF NOT EXISTS idx_opportunities_relevant_majors
+  ON opportunities USING GIN (relevant_majors jsonb_path_ops);
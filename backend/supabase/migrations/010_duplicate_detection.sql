@@ -0,0 +1,145 @@
+-- Duplicate Detection Migration
+-- The same posting often arrives via different URLs (ATS board, LinkedIn,
+-- careers page, tracking params). Submissions store a canonical URL, likely
+-- duplicates are recorded as merge candidates, and admins merge them into
+-- one canonical row.
+
+-- Canonical URL (see backend/services/url-canonicalizer.ts) and URLs of rows merged into this one
+ALTER TABLE opportunities
+ADD COLUMN IF NOT EXISTS canonical_url TEXT,
+ADD COLUMN IF NOT EXISTS alias_urls TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_opportunities_canonical_url ON opportunities(canonical_url);
+CREATE INDEX IF NOT EXISTS idx_opportunities_alias_urls ON opportunities USING GIN (alias_urls);
+
+-- Likely duplicate pairs for admin review
+CREATE TABLE IF NOT EXISTS duplicate_candidates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  opportunity_id UUID NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE, -- The newer submission
+  duplicate_of UUID NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE, -- The existing row it resembles
+  score NUMERIC(4, 3) NOT NULL CHECK (score >= 0 AND score <= 1),
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  flagged_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (opportunity_id, duplicate_of),
+  CHECK (opportunity_id <> duplicate_of)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_candidates_pending
+  ON duplicate_candidates(created_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_duplicate_candidates_duplicate_of ON duplicate_candidates(duplicate_of);
+
+-- RLS Policies for duplicate_candidates
+ALTER TABLE duplicate_candidates ENABLE ROW LEVEL SECURITY;
+
+-- Submitters can flag their own submission when they submit it anyway
+CREATE POLICY "Submitters can flag own submissions" ON duplicate_candidates
+  FOR INSERT WITH CHECK (
+    auth.uid() = flagged_by
+    AND EXISTS (
+      SELECT 1 FROM opportunities
+      WHERE opportunities.id = opportunity_id
+      AND opportunities.submitted_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view duplicate candidates" ON duplicate_candidates
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update duplicate candidates" ON duplicate_candidates
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+-- Merge one opportunity into another (admin only)
+-- Saved lists and tracked applications move to the kept row (the kept row's
+-- entry wins if a user had both), empty fields on the kept row are filled
+-- from the merged row, and the merged row's URLs become aliases.
+CREATE OR REPLACE FUNCTION public.merge_opportunities(keep_id UUID, merge_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  merged opportunities%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can merge opportunities';
+  END IF;
+
+  IF keep_id = merge_id THEN
+    RAISE EXCEPTION 'Cannot merge an opportunity into itself';
+  END IF;
+
+  SELECT * INTO merged FROM opportunities WHERE id = merge_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Opportunity % not found', merge_id;
+  END IF;
+
+  PERFORM 1 FROM opportunities WHERE id = keep_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Opportunity % not found', keep_id;
+  END IF;
+
+  INSERT INTO saved_opportunities (user_id, opportunity_id, created_at)
+  SELECT user_id, keep_id, created_at
+  FROM saved_opportunities
+  WHERE opportunity_id = merge_id
+  ON CONFLICT (user_id, opportunity_id) DO NOTHING;
+
+  UPDATE applications
+  SET opportunity_id = keep_id
+  WHERE opportunity_id = merge_id
+  AND NOT EXISTS (
+    SELECT 1 FROM applications AS kept
+    WHERE kept.user_id = applications.user_id
+    AND kept.opportunity_id = keep_id
+  );
+
+  UPDATE opportunities
+  SET
+    deadline = COALESCE(opportunities.deadline, merged.deadline),
+    description = COALESCE(NULLIF(opportunities.description, ''), merged.description),
+    requirements = COALESCE(NULLIF(opportunities.requirements, ''), merged.requirements),
+    location = COALESCE(NULLIF(opportunities.location, ''), merged.location),
+    role_type = COALESCE(NULLIF(opportunities.role_type, ''), merged.role_type),
+    alias_urls = ARRAY(
+      SELECT DISTINCT alias
+      FROM unnest(
+        opportunities.alias_urls
+        || merged.alias_urls
+        || ARRAY[merged.url, merged.canonical_url]
+      ) AS alias
+      WHERE alias IS NOT NULL
+      AND alias <> opportunities.url
+      AND alias IS DISTINCT FROM opportunities.canonical_url
+    )
+  WHERE id = keep_id;
+
+  -- Cascades to the merged row's saved entries, applications, and candidate pairs
+  DELETE FROM opportunities WHERE id = merge_id;
+
+  RETURN keep_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_opportunities(UUID, UUID) TO authenticated;
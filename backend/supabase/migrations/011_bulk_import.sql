@@ -0,0 +1,60 @@
+-- Bulk Import Migration
+-- Admins import opportunities from a CSV/JSON file of full records or from a
+-- plain list of URLs. Records are saved right away; URL rows are scraped and
+-- parsed in the background by /api/cron/process-imports. Every row keeps its
+-- own outcome (created, duplicate, or failed with a reason).
+
+CREATE TABLE IF NOT EXISTS import_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL, -- Imported rows are submitted as this admin
+  source TEXT NOT NULL CHECK (source IN ('records', 'urls')),
+  file_name TEXT,
+  opportunity_type opportunity_type, -- Type for URL rows whose parse doesn't say
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_created_at ON import_jobs(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS import_job_rows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES import_jobs(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL, -- 1-based position in the uploaded file
+  input JSONB NOT NULL, -- The record as uploaded, or { "url": ... }
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'created', 'duplicate', 'failed')),
+  reason TEXT, -- Why the row was skipped or failed
+  opportunity_id UUID REFERENCES opportunities(id) ON DELETE SET NULL, -- Created row, or the existing row for duplicates
+  attempts INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (job_id, row_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_job_rows_pending
+  ON import_job_rows(job_id, row_number)
+  WHERE status IN ('pending', 'processing');
+
+-- RLS Policies (admin only)
+ALTER TABLE import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_job_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage import jobs" ON import_jobs
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can manage import rows" ON import_job_rows
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
@@ -0,0 +1,80 @@
+-- Submission Jobs Migration
+-- Scraping and AI parsing can take over a minute, which is longer than a
+-- serverless request should run. Submissions now create a job and return
+-- right away; /api/cron/process-submissions moves each job through
+-- scraping → parsing → saving, retrying failed steps with backoff, and the
+-- submit modal polls /api/submissions/[id] for progress.
+
+CREATE TABLE IF NOT EXISTS submission_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  company_name TEXT, -- Provided by the submitter (overrides the parsed name)
+  opportunity_type opportunity_type NOT NULL,
+  manual_content TEXT, -- Pasted posting text for sites that can't be scraped
+  confirm_duplicate BOOLEAN NOT NULL DEFAULT false, -- Submitter saw the likely duplicates and went ahead
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'needs_confirmation', 'completed', 'failed')),
+  step TEXT NOT NULL DEFAULT 'scraping' CHECK (step IN ('scraping', 'parsing', 'saving')), -- Next step to run
+  attempts INTEGER NOT NULL DEFAULT 0, -- Attempts at the current step
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  scrape_result JSONB, -- Page content and structured data from the scraping step
+  parse_result JSONB, -- Parsed fields and parser details from the parsing step
+  result JSONB, -- Response for the submitter: the saved opportunity, or duplicates to confirm
+  error JSONB, -- Failure response (e.g. { "requiresManual": true })
+  opportunity_id UUID REFERENCES opportunities(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE, -- When the current run claimed the job
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_jobs_pending
+  ON submission_jobs(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_submission_jobs_user_id ON submission_jobs(user_id, created_at DESC);
+
+CREATE TRIGGER update_submission_jobs_updated_at BEFORE UPDATE ON submission_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS Policies for submission_jobs
+ALTER TABLE submission_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own submission jobs" ON submission_jobs
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- New jobs always start at the first step; only the worker advances them
+CREATE POLICY "Users can create own submission jobs" ON submission_jobs
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND step = 'scraping'
+    AND opportunity_id IS NULL
+  );
+
+-- Submit anyway after seeing likely duplicates: resume the job at the saving step
+CREATE OR REPLACE FUNCTION public.confirm_submission_job(job_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE submission_jobs
+  SET
+    confirm_duplicate = true,
+    status = 'pending',
+    attempts = 0,
+    next_attempt_at = NOW(),
+    result = NULL
+  WHERE id = job_id
+  AND user_id = auth.uid()
+  AND status = 'needs_confirmation';
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_submission_job(UUID) TO authenticated;
@@ -0,0 +1,46 @@
+-- Scrape Cache Migration
+-- Scraped pages keyed by canonical URL, so submissions, re-parses and
+-- /api/test-scraper reuse a recent fetch instead of hitting the career site
+-- again. Entries older than the TTL (SCRAPE_CACHE_TTL_MINUTES) are re-fetched
+-- and overwritten. The server writes with the service role key; admins can
+-- read and clear entries.
+
+CREATE TABLE IF NOT EXISTS scrape_cache (
+  url TEXT PRIMARY KEY, -- Canonical URL
+  content TEXT NOT NULL,
+  content_hash TEXT NOT NULL, -- sha256 of content
+  title TEXT,
+  method TEXT NOT NULL CHECK (method IN ('cheerio', 'puppeteer', 'playwright')),
+  http_status INTEGER,
+  structured_data JSONB, -- schema.org / meta tag fields found on the page
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_cache_fetched_at ON scrape_cache(fetched_at);
+
+CREATE TRIGGER update_scrape_cache_updated_at BEFORE UPDATE ON scrape_cache
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS Policies for scrape_cache
+-- No insert/update policies: only the service role writes, so users can't plant page content
+ALTER TABLE scrape_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view scrape cache" ON scrape_cache
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can clear scrape cache" ON scrape_cache
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
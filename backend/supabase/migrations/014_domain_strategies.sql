@@ -0,0 +1,111 @@
+-- Domain Strategies Migration
+-- Replaces the hard-coded JS-heavy and restricted site lists in the scraper.
+-- Every scrape records which method in the fallback chain succeeded for the
+-- site, how much content it got and how long it took; later scrapes start with
+-- that method. Admins can pin a method or mark a site manual-paste only.
+-- The server records outcomes with the service role key.
+
+CREATE TABLE IF NOT EXISTS domain_strategies (
+  domain TEXT PRIMARY KEY, -- Hostname without www. (also matches subdomains)
+  preferred_method TEXT CHECK (preferred_method IN ('cheerio', 'puppeteer', 'playwright')), -- Tried first
+  requires_manual BOOLEAN NOT NULL DEFAULT false, -- Blocks scrapers; submitters paste the posting
+  pinned BOOLEAN NOT NULL DEFAULT false, -- Set by an admin; results no longer change preferred_method
+  success_count INTEGER NOT NULL DEFAULT 0,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  last_method TEXT CHECK (last_method IN ('cheerio', 'puppeteer', 'playwright')),
+  avg_content_length INTEGER, -- Over successful scrapes
+  avg_duration_ms INTEGER, -- Over successful scrapes
+  last_success_at TIMESTAMP WITH TIME ZONE,
+  last_failure_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  notes TEXT,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL, -- Admin who last changed the strategy
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_domain_strategies_updated_at BEFORE UPDATE ON domain_strategies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Starting knowledge: ATS pages render client-side, social sites need a login
+INSERT INTO domain_strategies (domain, preferred_method) VALUES
+  ('greenhouse.io', 'puppeteer'),
+  ('lever.co', 'puppeteer'),
+  ('workday.com', 'puppeteer'),
+  ('myworkdayjobs.com', 'puppeteer'),
+  ('applytojob.com', 'puppeteer'),
+  ('recruiterflow.com', 'puppeteer'),
+  ('ashbyhq.com', 'puppeteer'),
+  ('breezy.hr', 'puppeteer'),
+  ('smartrecruiters.com', 'puppeteer'),
+  ('icims.com', 'puppeteer'),
+  ('ultipro.com', 'puppeteer'),
+  ('taleo.net', 'puppeteer'),
+  ('successfactors.com', 'puppeteer')
+ON CONFLICT (domain) DO NOTHING;
+
+INSERT INTO domain_strategies (domain, requires_manual, pinned) VALUES
+  ('linkedin.com', true, true),
+  ('facebook.com', true, true),
+  ('fb.com', true, true),
+  ('twitter.com', true, true),
+  ('x.com', true, true),
+  ('instagram.com', true, true)
+ON CONFLICT (domain) DO NOTHING;
+
+-- RLS Policies for domain_strategies
+ALTER TABLE domain_strategies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage domain strategies" ON domain_strategies
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+-- Record one scrape in a single statement so concurrent scrapes don't lose counts
+CREATE OR REPLACE FUNCTION public.record_scrape_outcome(
+  p_domain TEXT,
+  p_success BOOLEAN,
+  p_method TEXT DEFAULT NULL,
+  p_content_length INTEGER DEFAULT NULL,
+  p_duration_ms INTEGER DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_success AND p_method IS NOT NULL THEN
+    INSERT INTO domain_strategies AS ds (
+      domain, preferred_method, success_count, last_method,
+      avg_content_length, avg_duration_ms, last_success_at
+    )
+    VALUES (p_domain, p_method, 1, p_method, p_content_length, p_duration_ms, NOW())
+    ON CONFLICT (domain) DO UPDATE SET
+      preferred_method = CASE WHEN ds.pinned THEN ds.preferred_method ELSE p_method END,
+      success_count = ds.success_count + 1,
+      last_method = p_method,
+      avg_content_length = CASE
+        WHEN p_content_length IS NULL THEN ds.avg_content_length
+        WHEN ds.avg_content_length IS NULL THEN p_content_length
+        ELSE ROUND((ds.avg_content_length::NUMERIC * ds.success_count + p_content_length) / (ds.success_count + 1))
+      END,
+      avg_duration_ms = CASE
+        WHEN p_duration_ms IS NULL THEN ds.avg_duration_ms
+        WHEN ds.avg_duration_ms IS NULL THEN p_duration_ms
+        ELSE ROUND((ds.avg_duration_ms::NUMERIC * ds.success_count + p_duration_ms) / (ds.success_count + 1))
+      END,
+      last_success_at = NOW();
+  ELSE
+    INSERT INTO domain_strategies AS ds (domain, failure_count, last_failure_at, last_error)
+    VALUES (p_domain, 1, NOW(), p_error)
+    ON CONFLICT (domain) DO UPDATE SET
+      failure_count = ds.failure_count + 1,
+      last_failure_at = NOW(),
+      last_error = p_error;
+  END IF;
+END;
+$$;
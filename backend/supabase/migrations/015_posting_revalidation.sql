@@ -0,0 +1,31 @@
+-- Posting Re-validation Migration
+-- Postings often close long before (or without) a deadline. A cron job
+-- re-checks active opportunities on a rolling schedule: clear closed signals
+-- (HTTP 404/410, "no longer accepting applications" pages) expire the row,
+-- weaker ones flag it as possibly closed for an admin to confirm.
+-- auto-expire records expired_reason = 'deadline_passed'.
+
+ALTER TABLE opportunities
+ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMP WITH TIME ZONE, -- Last re-validation attempt
+ADD COLUMN IF NOT EXISTS check_failures INTEGER NOT NULL DEFAULT 0, -- Consecutive checks that couldn't reach the posting
+ADD COLUMN IF NOT EXISTS expired_reason TEXT, -- Why the row was expired (deadline_passed, http_404, closed_notice, admin_confirmed, ...)
+ADD COLUMN IF NOT EXISTS possibly_closed BOOLEAN NOT NULL DEFAULT false, -- Awaiting admin confirmation
+ADD COLUMN IF NOT EXISTS possibly_closed_reason TEXT,
+ADD COLUMN IF NOT EXISTS dismissed_closed_reason TEXT; -- Flag an admin kept open; the same signal won't re-flag the row
+
+-- Rolling schedule: least recently checked active rows first
+CREATE INDEX IF NOT EXISTS idx_opportunities_last_checked
+  ON opportunities(last_checked_at NULLS FIRST)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_opportunities_possibly_closed
+  ON opportunities(last_checked_at)
+  WHERE possibly_closed = true AND status = 'active';
+
+-- Rows expired by the deadline cron before this migration
+UPDATE opportunities
+SET expired_reason = 'deadline_passed'
+WHERE status = 'expired'
+  AND expired_reason IS NULL
+  AND deadline IS NOT NULL
+  AND deadline < expired_at::date + 1;
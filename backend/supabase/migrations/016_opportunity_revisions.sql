@@ -0,0 +1,49 @@
+-- Opportunity Revisions Migration
+-- Edits used to overwrite opportunities in place. Every change to a posting's
+-- fields now records a revision: who made it, where it came from, which
+-- fields changed and their before/after values, so admins can see the
+-- history and revert a change in one click.
+
+CREATE TABLE IF NOT EXISTS opportunity_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  opportunity_id UUID NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL for automated changes
+  source TEXT NOT NULL CHECK (source IN ('admin_edit', 'review', 'reparse', 'revalidation', 'revert')),
+  changed_fields TEXT[] NOT NULL,
+  before JSONB NOT NULL DEFAULT '{}', -- Changed fields only
+  after JSONB NOT NULL DEFAULT '{}',
+  reverted_revision_id UUID REFERENCES opportunity_revisions(id) ON DELETE SET NULL, -- For source = 'revert'
+  ai_parsed_data JSONB, -- AI response behind a re-parse (opportunities.ai_parsed_data keeps the first one)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_opportunity_revisions_opportunity
+  ON opportunity_revisions(opportunity_id, created_at DESC);
+
+-- What re-validation last read from the posting itself (deadline, requirements hash),
+-- so only changes on the source page create revisions, not differences from the AI's wording
+ALTER TABLE opportunities
+ADD COLUMN IF NOT EXISTS source_snapshot JSONB;
+
+-- RLS Policies for opportunity_revisions
+-- Automated revisions (re-validation) are written with the service role key
+ALTER TABLE opportunity_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view opportunity revisions" ON opportunity_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can record opportunity revisions" ON opportunity_revisions
+  FOR INSERT WITH CHECK (
+    auth.uid() = changed_by
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
@@ -0,0 +1,47 @@
+-- Re-parse Migration
+-- Admins can re-run the scrape → parse pipeline on an existing opportunity
+-- (after a prompt or parser change) and accept the new values field by field.
+-- One re-parse runs on request; bulk re-parses over a filtered set are queued
+-- and worked through by /api/cron/process-reparses. Each result waits for an
+-- admin to apply some of its fields or dismiss it.
+
+CREATE TABLE IF NOT EXISTS opportunity_reparses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  opportunity_id UUID NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE,
+  batch_id UUID, -- Shared by the rows one bulk re-parse queued; NULL for single re-parses
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'ready', 'failed', 'applied', 'dismissed')),
+  refresh BOOLEAN NOT NULL DEFAULT false, -- Re-fetch the page instead of using the scrape cache
+  parsed_data JSONB, -- The new parse (ParsedJobData)
+  changed_fields TEXT[] NOT NULL DEFAULT '{}', -- Fields that differed from the row when parsed
+  applied_fields TEXT[] NOT NULL DEFAULT '{}', -- Fields the admin accepted
+  parser TEXT, -- Parser provider that produced parsed_data
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_opportunity_reparses_queue
+  ON opportunity_reparses(created_at)
+  WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_opportunity_reparses_ready
+  ON opportunity_reparses(completed_at DESC)
+  WHERE status = 'ready';
+CREATE INDEX IF NOT EXISTS idx_opportunity_reparses_opportunity ON opportunity_reparses(opportunity_id);
+CREATE INDEX IF NOT EXISTS idx_opportunity_reparses_batch ON opportunity_reparses(batch_id);
+
+-- RLS Policies (admin only)
+ALTER TABLE opportunity_reparses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage re-parses" ON opportunity_reparses
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
@@ -0,0 +1,55 @@
+-- Parser Field Confidence Migration
+-- The parser now returns a confidence and a supporting quote for each field
+-- (kept in ai_parsed_data.evidence). When a short field such as the deadline
+-- comes back low-confidence, the submission job stops at the saving step
+-- (status needs_confirmation, like a likely duplicate) until the submitter
+-- confirms or corrects it.
+
+ALTER TABLE submission_jobs
+  ADD COLUMN IF NOT EXISTS confirmed_fields JSONB; -- Submitter's answers for low-confidence fields ({ "deadline": "2025-12-01" | null, ... })
+
+-- Confirmed values only come in through confirm_submission_job, never on insert
+DROP POLICY IF EXISTS "Users can create own submission jobs" ON submission_jobs;
+CREATE POLICY "Users can create own submission jobs" ON submission_jobs
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND step = 'scraping'
+    AND opportunity_id IS NULL
+    AND confirmed_fields IS NULL
+  );
+
+-- The old one-argument version only confirmed duplicates
+DROP FUNCTION IF EXISTS public.confirm_submission_job(UUID);
+
+-- Resume a job waiting for confirmation at the saving step
+-- confirm_duplicate: the submitter saw the likely duplicates and went ahead
+-- fields: confirmed or corrected values for the low-confidence fields
+CREATE OR REPLACE FUNCTION public.confirm_submission_job(
+  job_id UUID,
+  confirm_duplicate BOOLEAN DEFAULT true,
+  fields JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE submission_jobs
+  SET
+    confirm_duplicate = submission_jobs.confirm_duplicate OR confirm_submission_job.confirm_duplicate,
+    confirmed_fields = COALESCE(fields, submission_jobs.confirmed_fields),
+    status = 'pending',
+    attempts = 0,
+    next_attempt_at = NOW(),
+    result = NULL
+  WHERE id = job_id
+  AND user_id = auth.uid()
+  AND status = 'needs_confirmation';
+
+  RETURN FOUND;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_submission_job(UUID, BOOLEAN, JSONB) TO authenticated;
@@ -0,0 +1,86 @@
+-- Saved-Search Alerts Migration
+-- Students save a combination of dashboard filters (types, majors, roles) plus
+-- a search term as a named alert. New active opportunities are matched against
+-- alerts when they go live; instant alerts are emailed straight away and daily
+-- or weekly alerts are batched by /api/cron/search-alerts.
+
+CREATE TABLE IF NOT EXISTS saved_search_alerts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  search TEXT, -- Web-search syntax, as in the dashboard search box
+  opportunity_types TEXT[] NOT NULL DEFAULT '{}', -- Empty = any type
+  majors TEXT[] NOT NULL DEFAULT '{}', -- Empty = any major
+  roles TEXT[] NOT NULL DEFAULT '{}', -- Empty = any role; 'Other' = roles without their own filter
+  frequency TEXT NOT NULL DEFAULT 'daily' CHECK (frequency IN ('instant', 'daily', 'weekly')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_alerts_user_id ON saved_search_alerts(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_search_alerts_enabled_frequency
+  ON saved_search_alerts(frequency)
+  WHERE enabled = true;
+
+CREATE TRIGGER update_saved_search_alerts_updated_at BEFORE UPDATE ON saved_search_alerts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Opportunities matched to an alert; notified_at is set once the match has been emailed
+CREATE TABLE IF NOT EXISTS saved_search_alert_matches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  alert_id UUID NOT NULL REFERENCES saved_search_alerts(id) ON DELETE CASCADE,
+  opportunity_id UUID NOT NULL REFERENCES opportunities(id) ON DELETE CASCADE,
+  matched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  notified_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (alert_id, opportunity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_alert_matches_pending
+  ON saved_search_alert_matches(alert_id)
+  WHERE notified_at IS NULL;
+
+-- Allow alert emails through the existing queue
+ALTER TABLE email_queue DROP CONSTRAINT IF EXISTS email_queue_email_type_check;
+ALTER TABLE email_queue ADD CONSTRAINT email_queue_email_type_check
+  CHECK (email_type IN ('daily_digest', 'deadline_reminder', 'submission_rejected', 'search_alert'));
+
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_email_type_check;
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_email_type_check
+  CHECK (email_type IN ('daily_digest', 'deadline_reminder', 'submission_rejected', 'search_alert'));
+
+-- RLS Policies for saved_search_alerts (private to each user)
+ALTER TABLE saved_search_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own search alerts" ON saved_search_alerts
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own search alerts" ON saved_search_alerts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own search alerts" ON saved_search_alerts
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own search alerts" ON saved_search_alerts
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Service role matches every user's alerts and sends the emails (submission worker, cron jobs)
+CREATE POLICY "Service role can manage search alerts" ON saved_search_alerts
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- RLS Policies for saved_search_alert_matches (written by the service role only)
+ALTER TABLE saved_search_alert_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own search alert matches" ON saved_search_alert_matches
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM saved_search_alerts
+      WHERE saved_search_alerts.id = alert_id
+      AND saved_search_alerts.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage search alert matches" ON saved_search_alert_matches
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,79 @@
+-- Email Queue Locking Migration
+-- /api/cron/process-queue runs every five minutes and used to select pending
+-- rows, then mark each one processing in a separate update, so two
+-- overlapping runs could send the same email twice. Workers now claim rows
+-- through claim_email_queue(), which locks them with FOR UPDATE SKIP LOCKED
+-- and marks them processing in the same statement.
+--
+-- Failed sends are retried with exponential backoff (next_attempt_at) until
+-- max_attempts, then parked as 'dead' for an admin to inspect and requeue.
+
+ALTER TABLE email_queue
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0, -- Sends tried so far (counted when claimed)
+ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 5, -- Goes dead after this many
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- Not claimed before this
+ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE, -- When a worker claimed the row
+ADD COLUMN IF NOT EXISTS locked_by TEXT; -- Worker run that holds the claim
+
+-- Carry the old retry bookkeeping over, then drop it
+UPDATE email_queue
+SET attempts = COALESCE(retry_count, 0),
+    max_attempts = GREATEST(COALESCE(max_retries, 3), 1),
+    next_attempt_at = scheduled_for;
+
+ALTER TABLE email_queue
+DROP COLUMN IF EXISTS retry_count,
+DROP COLUMN IF EXISTS max_retries;
+
+-- 'failed' was the old terminal state; 'dead' replaces it
+ALTER TABLE email_queue DROP CONSTRAINT IF EXISTS email_queue_status_check;
+UPDATE email_queue SET status = 'dead' WHERE status = 'failed';
+ALTER TABLE email_queue ADD CONSTRAINT email_queue_status_check
+  CHECK (status IN ('pending', 'processing', 'sent', 'dead'));
+
+CREATE INDEX IF NOT EXISTS idx_email_queue_claim
+  ON email_queue(next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+
+-- Claim up to p_batch_size due emails for one worker run
+--
+-- Rows another run has locked are skipped rather than waited on. Rows left in
+-- processing for p_lock_minutes (the worker timed out or crashed) are
+-- claimed again, unless that was their last attempt, in which case they are
+-- marked dead.
+CREATE OR REPLACE FUNCTION public.claim_email_queue(
+  p_batch_size INTEGER DEFAULT 10,
+  p_worker TEXT DEFAULT NULL,
+  p_lock_minutes INTEGER DEFAULT 10
+)
+RETURNS SETOF email_queue
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE email_queue
+  SET status = 'dead',
+      error_message = COALESCE(error_message, 'Worker stopped before the send finished'),
+      locked_at = NULL,
+      locked_by = NULL,
+      processed_at = NOW()
+  WHERE status = 'processing'
+    AND locked_at < NOW() - make_interval(mins => p_lock_minutes)
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE email_queue AS q
+  SET status = 'processing',
+      attempts = q.attempts + 1,
+      locked_at = NOW(),
+      locked_by = p_worker
+  WHERE q.id IN (
+    SELECT id FROM email_queue
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'processing' AND locked_at < NOW() - make_interval(mins => p_lock_minutes))
+    ORDER BY next_attempt_at
+    LIMIT p_batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
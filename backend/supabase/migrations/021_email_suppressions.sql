@@ -0,0 +1,62 @@
+-- Email Suppressions Migration
+-- Hard bounces and spam complaints reported by the mail provider's webhook
+-- (/api/webhooks/email/[provider]) add the address here. processEmailQueue
+-- skips suppressed addresses, so graduated students' dead mailboxes stop
+-- hurting our sender reputation. Admins can see the event behind each
+-- suppression and lift it (e.g. after a student updates their address).
+
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email TEXT NOT NULL UNIQUE, -- Lowercased
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL, -- Account with this address when suppressed
+  reason TEXT NOT NULL CHECK (reason IN ('bounce', 'complaint')),
+  provider TEXT NOT NULL, -- Webhook that reported it ('resend', 'smtp')
+  event_id TEXT, -- Provider's event/delivery id
+  event_type TEXT NOT NULL, -- Provider's event name, e.g. 'email.bounced'
+  message_id TEXT, -- Provider message id of the email that bounced (email_logs.resend_message_id)
+  details TEXT, -- Bounce or complaint description from the provider
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb, -- The event as received
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() -- Last event for this address
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_suppressions_created_at ON email_suppressions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_suppressions_user_id ON email_suppressions(user_id);
+CREATE INDEX IF NOT EXISTS idx_email_logs_resend_message_id ON email_logs(resend_message_id);
+
+CREATE TRIGGER update_email_suppressions_updated_at BEFORE UPDATE ON email_suppressions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Queued emails to a suppressed address are skipped, not sent
+ALTER TABLE email_queue DROP CONSTRAINT IF EXISTS email_queue_status_check;
+ALTER TABLE email_queue ADD CONSTRAINT email_queue_status_check
+  CHECK (status IN ('pending', 'processing', 'sent', 'dead', 'suppressed'));
+
+-- email_logs rows for emails the provider reported as complaints
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_status_check;
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_status_check
+  CHECK (status IN ('sent', 'failed', 'bounced', 'complained'));
+
+-- RLS Policies (admins read and lift suppressions; the webhook and queue use the service role)
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view email suppressions" ON email_suppressions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete email suppressions" ON email_suppressions
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Service role can manage email suppressions" ON email_suppressions
+  FOR ALL USING (auth.role() = 'service_role');
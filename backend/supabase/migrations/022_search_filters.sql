@@ -0,0 +1,118 @@
+-- Search Filters Migration
+-- search_opportunities used to rank the top 200 matches across every status
+-- and let GET /api/opportunities filter them afterwards, so active matches
+-- past the first 200 were lost and totals were wrong. The status and list
+-- filters now apply before ranking, and relevance pages (offset or keyset)
+-- come straight from the function with the filtered total.
+
+-- The old two-argument version ranked before filtering
+DROP FUNCTION IF EXISTS public.search_opportunities(TEXT, INTEGER);
+
+-- Ranked, filtered search over opportunities
+-- search_query accepts web-search syntax: quoted phrases, OR, and -exclusions.
+-- NULL filters are ignored. p_roles matches role_type exactly; with
+-- p_other_role_exclusions set, rows whose role_type is null or outside that
+-- list match too (the "Other" chip). p_after_rank/p_after_id continue after a
+-- relevance cursor; p_ids limits the search to known rows (snippets for a page
+-- sorted by another column). total_count is the number of filtered matches
+-- before the cursor, offset and limit.
+-- SECURITY INVOKER so the caller's RLS policies decide which rows are visible.
+-- Snippets wrap matched terms in <mark></mark>; everything else is plain text.
+CREATE OR REPLACE FUNCTION public.search_opportunities(
+  search_query TEXT,
+  match_limit INTEGER DEFAULT 20,
+  match_offset INTEGER DEFAULT 0,
+  p_status TEXT DEFAULT NULL,
+  p_types TEXT[] DEFAULT NULL,
+  p_majors TEXT[] DEFAULT NULL,
+  p_roles TEXT[] DEFAULT NULL,
+  p_other_role_exclusions TEXT[] DEFAULT NULL,
+  p_location TEXT DEFAULT NULL,
+  p_remote BOOLEAN DEFAULT NULL,
+  p_deadline_before DATE DEFAULT NULL,
+  p_deadline_after DATE DEFAULT NULL,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  ),
+  matches AS (
+    SELECT
+      o.id,
+      o.description,
+      o.requirements,
+      o.job_title,
+      ts_rank_cd(o.search_vector, query.tsq) AS rank,
+      count(*) OVER () AS total_count
+    FROM opportunities o, query
+    WHERE o.search_vector @@ query.tsq
+      AND (p_status IS NULL OR o.status::TEXT = p_status)
+      AND (p_types IS NULL OR o.opportunity_type::TEXT = ANY (p_types))
+      AND (
+        p_majors IS NULL
+        OR EXISTS (
+          SELECT 1 FROM unnest(p_majors) AS major
+          WHERE o.relevant_majors @> jsonb_build_array(major)
+        )
+      )
+      AND (
+        (p_roles IS NULL AND p_other_role_exclusions IS NULL)
+        OR o.role_type = ANY (p_roles)
+        OR (
+          p_other_role_exclusions IS NOT NULL
+          AND (o.role_type IS NULL OR NOT (o.role_type = ANY (p_other_role_exclusions)))
+        )
+      )
+      AND (
+        p_location IS NULL
+        OR o.location ILIKE '%' || replace(replace(replace(p_location, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      )
+      AND (
+        p_remote IS NULL
+        OR (p_remote AND o.location ILIKE '%remote%')
+        OR (NOT p_remote AND (o.location IS NULL OR o.location NOT ILIKE '%remote%'))
+      )
+      AND (p_deadline_before IS NULL OR o.deadline <= p_deadline_before)
+      AND (p_deadline_after IS NULL OR o.deadline >= p_deadline_after)
+      AND (p_ids IS NULL OR o.id = ANY (p_ids))
+  ),
+  page AS (
+    SELECT matches.*
+    FROM matches
+    WHERE p_after_id IS NULL
+      OR matches.rank < p_after_rank
+      OR (matches.rank = p_after_rank AND matches.id > p_after_id)
+    ORDER BY matches.rank DESC, matches.id
+    LIMIT greatest(1, least(match_limit, 500))
+    OFFSET greatest(0, match_offset)
+  )
+  SELECT
+    page.id,
+    page.rank,
+    ts_headline(
+      'english',
+      coalesce(nullif(page.description, ''), nullif(page.requirements, ''), page.job_title),
+      query.tsq,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet,
+    page.total_count
+  FROM page, query
+  ORDER BY page.rank DESC, page.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_opportunities(
+  TEXT, INTEGER, INTEGER, TEXT, TEXT[], TEXT[], TEXT[], TEXT[], TEXT, BOOLEAN, DATE, DATE, REAL, UUID, UUID[]
+) TO authenticated;
@@ -0,0 +1,8 @@
+-- Scrape Cache ATS Migration
+-- smartScrape now caches postings read from an ATS API under the posting's
+-- canonical URL, the same key scraped pages use, so a submission and its
+-- re-parse don't call the ATS twice within the TTL.
+
+ALTER TABLE scrape_cache DROP CONSTRAINT IF EXISTS scrape_cache_method_check;
+ALTER TABLE scrape_cache ADD CONSTRAINT scrape_cache_method_check
+  CHECK (method IN ('cheerio', 'puppeteer', 'playwright', 'ats'));
@@ -0,0 +1,114 @@
+'use client'
+
+import Link from 'next/link'
+import ProtectedRoute from '@/components/auth/ProtectedRoute'
+import { Button } from '@/components/ui/button'
+import { ClipboardList } from 'lucide-react'
+import ApplicationBoard from '@/components/applications/ApplicationBoard'
+import { useApplications } from '@/hooks/useApplications'
+import { useAuth } from '@/hooks/useAuth'
+import Navbar from '@/components/layout/Navbar'
+
+export default function ApplicationsPage() {
+  const { loading: authLoading } = useAuth()
+  const { applications, stats, loading, error, moveApplication, refetch } = useApplications({
+    autoFetch: !authLoading  // Don't fetch until auth is ready
+  })
+
+  const statCards = [
+    { label: 'Tracked', value: stats.tracked },
+    { label: 'Applied', value: stats.applied },
+    { label: 'Interviews', value: stats.interviews },
+    { label: 'Offers', value: stats.offers },
+    { label: 'Response Rate', value: `${stats.responseRate}%` },
+  ]
+
+  const renderBoard = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading applications...</p>
+          </div>
+        </div>
+      )
+    }
+
+    if (error) {
+      return (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center max-w-md">
+            <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-red-900 mb-2">
+                Error Loading Applications
+              </h3>
+              <p className="text-red-700">{error}</p>
+              <Button
+                onClick={() => refetch()}
+                className="mt-4"
+                variant="outline"
+              >
+                Try Again
+              </Button>
+            </div>
+          </div>
+        </div>
+      )
+    }
+
+    if (applications.length === 0) {
+      return (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center max-w-md">
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-8">
+              <ClipboardList className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                No Applications Tracked
+              </h3>
+              <p className="text-gray-600 mb-4">
+                Open any opportunity and use &quot;Track Application&quot; to add it to your board.
+              </p>
+              <Link href="/dashboard">
+                <Button variant="outline">Browse Opportunities</Button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      )
+    }
+
+    return <ApplicationBoard applications={applications} onMove={moveApplication} />
+  }
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+        <Navbar />
+
+        {/* Main Content */}
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-gray-900">Applications</h1>
+            <p className="text-gray-600">
+              Drag cards between columns as you move through each process.
+            </p>
+          </div>
+
+          {!loading && !error && applications.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+              {statCards.map((card) => (
+                <div key={card.label} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <p className="text-sm text-gray-500">{card.label}</p>
+                  <p className="text-2xl font-bold text-gray-900">{card.value}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {renderBoard()}
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
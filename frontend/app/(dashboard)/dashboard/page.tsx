@@ -4,12 +4,14 @@ import { useState, useEffect } from 'react'
 import { useSearchParams } from 'next/navigation'
 import ProtectedRoute from '@/components/auth/ProtectedRoute'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import FilterBar from '@/components/opportunities/FilterBar'
 import SortDropdown, { SortOption } from '@/components/opportunities/SortDropdown'
 import SubmitModal from '@/components/opportunities/SubmitModal'
-import { Plus } from 'lucide-react'
+import { Plus, Search } from 'lucide-react'
 import OpportunityCard from '@/components/opportunities/OpportunityCard'
 import { useOpportunities } from '@/hooks/useOpportunities'
+import { useSavedOpportunities } from '@/hooks/useSavedOpportunities'
 import { useAuth } from '@/hooks/useAuth'
 import Navbar from '@/components/layout/Navbar'
 import type { Major, RoleType } from '@/lib/constants'
@@ -25,6 +27,22 @@ export default function DashboardPage() {
   const [selectedMajors, setSelectedMajors] = useState<Major[]>([])
   const [selectedRoles, setSelectedRoles] = useState<RoleType[]>([])
   const [selectedSort, setSelectedSort] = useState<SortOption>('deadline-asc')
+  const [searchInput, setSearchInput] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+
+  // Debounce typing; new searches rank by relevance, cleared searches drop back to deadline order
+  useEffect(() => {
+    const handler = setTimeout(() => {
+      const query = searchInput.trim()
+      if (query === searchQuery) return
+      setSearchQuery(query)
+      setSelectedSort(prev => {
+        if (query) return 'relevance'
+        return prev === 'relevance' ? 'deadline-asc' : prev
+      })
+    }, 400)
+    return () => clearTimeout(handler)
+  }, [searchInput, searchQuery])
 
   // Read URL params on mount to set initial filter
   useEffect(() => {
@@ -43,15 +61,19 @@ export default function DashboardPage() {
   const [isModalOpen, setIsModalOpen] = useState(false)
 
   // Fetch opportunities using API hook - only when auth is ready
-  const { opportunities, loading, error, refetch } = useOpportunities({
+  const { opportunities, loading, loadingMore, error, pagination, refetch, fetchMore } = useOpportunities({
     types: selectedTypes,
     majors: selectedMajors,
     roles: selectedRoles,
     status: 'active',
+    search: searchQuery,
     sort: selectedSort,
     autoFetch: !authLoading  // Don't fetch until auth is ready
   })
 
+  // Saved state for the bookmark toggle on each card
+  const { isSaved, toggleSave } = useSavedOpportunities({ autoFetch: !authLoading })
+
   const handleSubmitOpportunity = () => {
     setIsModalOpen(true)
   }
@@ -108,7 +130,7 @@ export default function DashboardPage() {
       )
     }
 
-    const hasFilters = selectedTypes.length > 0 || selectedMajors.length > 0 || selectedRoles.length > 0
+    const hasFilters = selectedTypes.length > 0 || selectedMajors.length > 0 || selectedRoles.length > 0 || searchQuery.length > 0
 
     if (opportunities.length === 0) {
       return (
@@ -143,10 +165,25 @@ export default function DashboardPage() {
     }
 
     return (
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {opportunities.map((opportunity) => (
-          <OpportunityCard key={opportunity.id} opportunity={opportunity} />
-        ))}
+      <div>
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {opportunities.map((opportunity) => (
+            <OpportunityCard
+              key={opportunity.id}
+              opportunity={opportunity}
+              isSaved={isSaved(opportunity.id)}
+              onToggleSave={toggleSave}
+            />
+          ))}
+        </div>
+
+        {pagination?.hasMore && (
+          <div className="flex justify-center mt-8">
+            <Button variant="outline" onClick={() => fetchMore()} disabled={loadingMore}>
+              {loadingMore ? 'Loading...' : 'Load More'}
+            </Button>
+          </div>
+        )}
       </div>
     )
   }
@@ -172,6 +209,20 @@ export default function DashboardPage() {
             <SortDropdown
               selectedSort={selectedSort}
               onSortChange={setSelectedSort}
+              showRelevance={searchQuery.length > 0}
+            />
+          </div>
+
+          {/* Search */}
+          <div className="relative mb-6">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <Input
+              type="search"
+              aria-label="Search opportunities"
+              placeholder='Search by company, role, or keyword — try "machine learning" or intern -unpaid'
+              className="pl-10 bg-white"
+              value={searchInput}
+              onChange={(event) => setSearchInput(event.target.value)}
             />
           </div>
 
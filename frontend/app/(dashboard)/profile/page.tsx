@@ -7,9 +7,11 @@ import { useAuth } from '@/hooks/useAuth'
 import { createClient } from '@/lib/supabase/client'
 import { Database } from '@/lib/supabase/types'
 import { Button } from '@/components/ui/button'
-import { Briefcase, Calendar, GraduationCap, Mail, Settings, User as UserIcon, Camera, Upload, ArrowLeft } from 'lucide-react'
+import { Briefcase, Calendar, GraduationCap, Mail, Settings, User as UserIcon, Camera, Upload, ArrowLeft, ClipboardList } from 'lucide-react'
 import { format } from 'date-fns'
 import toast from 'react-hot-toast'
+import Link from 'next/link'
+import { getApplicationStats, type ApplicationStats } from '@/lib/applications'
 
 export const dynamic = 'force-dynamic'
 
@@ -22,6 +24,7 @@ export default function ProfilePage() {
   const [loading, setLoading] = useState(true)
   const [profileData, setProfileData] = useState<UserProfile | null>(null)
   const [opportunitiesCount, setOpportunitiesCount] = useState(0)
+  const [applicationStats, setApplicationStats] = useState<ApplicationStats>(getApplicationStats([]))
   const [uploading, setUploading] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -54,10 +57,21 @@ export default function ProfilePage() {
           console.error('Error fetching opportunities count:', countError)
         }
 
+        // Fetch application tracker statuses for aggregate stats
+        const { data: applications, error: applicationsError } = await supabase
+          .from('applications')
+          .select('status')
+          .eq('user_id', user.id)
+
+        if (applicationsError && process.env.NODE_ENV === 'development') {
+          console.error('Error fetching application stats:', applicationsError)
+        }
+
         if (!isMounted) return
 
         setProfileData(userData)
         setOpportunitiesCount(count || 0)
+        setApplicationStats(getApplicationStats((applications || []).map((application) => application.status)))
       } catch (err) {
         // Ignore abort errors
         if (err instanceof Error && err.name === 'AbortError') return
@@ -367,6 +381,41 @@ export default function ProfilePage() {
               </div>
             </div>
 
+            {/* Application Stats Card */}
+            <div className="bg-white rounded-xl shadow-md p-6 mb-6 hover:shadow-lg transition-shadow duration-200">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+                  <ClipboardList className="w-5 h-5 text-purple-600" />
+                  Applications
+                </h2>
+                <Link href="/applications" className="text-sm text-purple-600 hover:text-purple-800 font-medium">
+                  Open tracker →
+                </Link>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+                <div>
+                  <p className="text-3xl font-bold text-gray-900">{applicationStats.applied}</p>
+                  <p className="text-sm text-gray-600 font-medium">Applications Sent</p>
+                </div>
+                <div>
+                  <p className="text-3xl font-bold text-gray-900">{applicationStats.responseRate}%</p>
+                  <p className="text-sm text-gray-600 font-medium">Response Rate</p>
+                </div>
+                <div>
+                  <p className="text-3xl font-bold text-gray-900">{applicationStats.interviews}</p>
+                  <p className="text-sm text-gray-600 font-medium">
+                    {applicationStats.interviews === 1 ? 'Interview' : 'Interviews'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-3xl font-bold text-gray-900">{applicationStats.offers}</p>
+                  <p className="text-sm text-gray-600 font-medium">
+                    {applicationStats.offers === 1 ? 'Offer' : 'Offers'}
+                  </p>
+                </div>
+              </div>
+            </div>
+
             {/* Contribution Card */}
             <div className="bg-gradient-to-r from-purple-600 to-blue-600 rounded-xl shadow-md p-8 text-white">
               <div className="flex items-start gap-4">
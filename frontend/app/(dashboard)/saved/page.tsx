@@ -0,0 +1,143 @@
+'use client'
+
+import Link from 'next/link'
+import ProtectedRoute from '@/components/auth/ProtectedRoute'
+import { Button } from '@/components/ui/button'
+import { Bookmark } from 'lucide-react'
+import OpportunityCard from '@/components/opportunities/OpportunityCard'
+import { useSavedOpportunities } from '@/hooks/useSavedOpportunities'
+import { useAuth } from '@/hooks/useAuth'
+import Navbar from '@/components/layout/Navbar'
+
+export default function SavedOpportunitiesPage() {
+  const { loading: authLoading } = useAuth()
+  const { savedOpportunities, loading, error, isSaved, toggleSave, refetch } = useSavedOpportunities({
+    autoFetch: !authLoading  // Don't fetch until auth is ready
+  })
+
+  // Open opportunities first, soonest deadline first; closed ones after
+  const openOpportunities = savedOpportunities
+    .filter((opportunity) => opportunity.status === 'active')
+    .sort((a, b) => {
+      if (!a.deadline) return 1
+      if (!b.deadline) return -1
+      return new Date(a.deadline).getTime() - new Date(b.deadline).getTime()
+    })
+  const closedOpportunities = savedOpportunities.filter((opportunity) => opportunity.status !== 'active')
+
+  const renderSavedList = () => {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading your list...</p>
+          </div>
+        </div>
+      )
+    }
+
+    if (error) {
+      return (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center max-w-md">
+            <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-red-900 mb-2">
+                Error Loading My List
+              </h3>
+              <p className="text-red-700">{error}</p>
+              <Button
+                onClick={() => refetch()}
+                className="mt-4"
+                variant="outline"
+              >
+                Try Again
+              </Button>
+            </div>
+          </div>
+        </div>
+      )
+    }
+
+    if (savedOpportunities.length === 0) {
+      return (
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center max-w-md">
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-8">
+              <Bookmark className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                Nothing Saved Yet
+              </h3>
+              <p className="text-gray-600 mb-4">
+                Use the bookmark icon on any opportunity to save it here for later.
+              </p>
+              <Link href="/dashboard">
+                <Button variant="outline">Browse Opportunities</Button>
+              </Link>
+            </div>
+          </div>
+        </div>
+      )
+    }
+
+    return (
+      <div className="space-y-10">
+        {openOpportunities.length > 0 && (
+          <section>
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Open ({openOpportunities.length})
+            </h2>
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {openOpportunities.map((opportunity) => (
+                <OpportunityCard
+                  key={opportunity.id}
+                  opportunity={opportunity}
+                  isSaved={isSaved(opportunity.id)}
+                  onToggleSave={toggleSave}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {closedOpportunities.length > 0 && (
+          <section>
+            <h2 className="text-lg font-semibold text-gray-500 mb-4">
+              Closed ({closedOpportunities.length})
+            </h2>
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 opacity-75">
+              {closedOpportunities.map((opportunity) => (
+                <OpportunityCard
+                  key={opportunity.id}
+                  opportunity={opportunity}
+                  isSaved={isSaved(opportunity.id)}
+                  onToggleSave={toggleSave}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50">
+        <Navbar />
+
+        {/* Main Content */}
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-gray-900">My List</h1>
+            <p className="text-gray-600">
+              Opportunities you&apos;ve saved. Saved opportunities are listed first in your deadline reminders.
+            </p>
+          </div>
+
+          {renderSavedList()}
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
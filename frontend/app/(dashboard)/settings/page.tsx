@@ -8,6 +8,7 @@ import { createClient } from '@/lib/supabase/client'
 import { User } from '@/types'
 import { Database } from '@/lib/supabase/types'
 import { Button } from '@/components/ui/button'
+import SavedSearchAlerts from '@/components/settings/SavedSearchAlerts'
 import { User as UserIcon, MapPin, Shield, Lock, Calendar, Mail, GraduationCap, Globe, MapPinned, ArrowLeft, Bell } from 'lucide-react'
 import toast from 'react-hot-toast'
 
@@ -595,6 +596,9 @@ export default function SettingsPage() {
                           <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-purple-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-purple-600 peer-disabled:opacity-50"></div>
                         </label>
                       </div>
+
+                      {/* Saved Search Alerts (saved on change, not with the button below) */}
+                      <SavedSearchAlerts emailNotificationsEnabled={emailNotificationsEnabled} />
                     </div>
                   </div>
                 )}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import { closedCheckDecisionSchema } from "@/lib/validations/opportunity"
+import { updateOpportunityWithRevision } from "@/lib/revisions"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * Confirm or clear a "possibly closed" flag
+ *
+ * POST /api/admin/closed-checks/[id]
+ * Body: { "action": "expire" }     - the posting is closed; expire the opportunity
+ *       { "action": "keep_open" }  - still open; the same signal won't flag it again
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Validate UUID format first
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid opportunity ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    // Parse and validate request body
+    let body
+    try {
+      body = await request.json()
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = closedCheckDecisionSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const { action } = validationResult.data
+
+    const { data: opportunity, error: fetchError } = await supabase
+      .from('opportunities')
+      .select('id, status, possibly_closed, possibly_closed_reason')
+      .eq('id', params.id)
+      .single()
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Opportunity not found" },
+          { status: 404 }
+        )
+      }
+      console.error('Database error:', fetchError)
+      return NextResponse.json(
+        { error: "Failed to fetch opportunity" },
+        { status: 500 }
+      )
+    }
+
+    if (opportunity.status !== 'active' || !opportunity.possibly_closed) {
+      return NextResponse.json(
+        { error: "Opportunity is not flagged as possibly closed", status: opportunity.status },
+        { status: 409 }
+      )
+    }
+
+    const update = action === 'expire'
+      ? {
+          status: 'expired' as const,
+          expired_at: new Date().toISOString(),
+          expired_reason: opportunity.possibly_closed_reason
+            ? `admin_confirmed:${opportunity.possibly_closed_reason}`
+            : 'admin_confirmed',
+          possibly_closed: false,
+        }
+      : {
+          possibly_closed: false,
+          possibly_closed_reason: null,
+          dismissed_closed_reason: opportunity.possibly_closed_reason,
+          check_failures: 0,
+        }
+
+    const { error } = await updateOpportunityWithRevision(supabase, params.id, update, {
+      source: 'admin_edit',
+      changedBy: user.id,
+    })
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to update opportunity" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      message: action === 'expire' ? "Opportunity expired" : "Kept open",
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
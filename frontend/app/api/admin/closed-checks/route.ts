@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+/**
+ * List active opportunities the re-validation cron flagged as possibly closed
+ * (most recently checked first)
+ *
+ * GET /api/admin/closed-checks?limit=20&offset=0
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== "admin") {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100)
+    const offset = parseInt(searchParams.get("offset") || "0")
+
+    const { data, error, count } = await supabase
+      .from("opportunities")
+      .select(
+        `
+        id,
+        company_name,
+        job_title,
+        location,
+        url,
+        deadline,
+        created_at,
+        last_checked_at,
+        check_failures,
+        possibly_closed_reason,
+        users!submitted_by (
+          name
+        )
+      `,
+        { count: "exact" }
+      )
+      .eq("status", "active")
+      .eq("possibly_closed", true)
+      .order("last_checked_at", { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error("Failed to fetch possibly closed opportunities", error)
+      return NextResponse.json(
+        { error: "Failed to fetch possibly closed opportunities" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: data || [],
+      pagination: {
+        total: count || 0,
+        limit,
+        offset,
+        hasMore: count ? offset + limit < count : false,
+      },
+    })
+  } catch (error) {
+    console.error("Admin closed checks API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
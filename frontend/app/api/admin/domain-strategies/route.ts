@@ -0,0 +1,232 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import { getStrategyDomain } from "@/backend/services/domain-strategy"
+import { SCRAPE_METHODS } from "@/lib/domain-strategies"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+const HOSTNAME_PATTERN = /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/
+
+const domainSchema = z
+  .string()
+  .min(1, "Domain is required")
+  .transform((value) => getStrategyDomain(value))
+  .refine((value) => HOSTNAME_PATTERN.test(value), {
+    message: "Enter a domain like jobs.example.com",
+  })
+
+const strategySchema = z.object({
+  domain: domainSchema,
+  preferred_method: z.enum(SCRAPE_METHODS as [string, ...string[]]).nullable(),
+  requires_manual: z.boolean(),
+  pinned: z.boolean(),
+  notes: z.string().max(500).nullable().optional(),
+})
+
+/**
+ * Verify the current user is an admin.
+ * Returns the user id, or an error response when they are not.
+ */
+async function requireAdmin(supabase: ReturnType<typeof createClient>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      ),
+    }
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .single<{ role: UserRole }>()
+
+  if (userError || !userData || userData.role !== "admin") {
+    return {
+      error: NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { userId: user.id }
+}
+
+/**
+ * List domain strategies (learned and admin-set)
+ *
+ * GET /api/admin/domain-strategies?search=lever
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const admin = await requireAdmin(supabase)
+    if (admin.error) return admin.error
+
+    const search = request.nextUrl.searchParams.get("search")?.trim().toLowerCase()
+
+    let query = supabase
+      .from("domain_strategies")
+      .select("*")
+      .order("pinned", { ascending: false })
+      .order("last_success_at", { ascending: false, nullsFirst: false })
+      .order("domain", { ascending: true })
+      .limit(200)
+
+    if (search) {
+      query = query.ilike("domain", `%${search.replace(/[%_]/g, "")}%`)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error("Failed to fetch domain strategies", error)
+      return NextResponse.json(
+        { error: "Failed to fetch domain strategies" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data: data || [] })
+  } catch (error) {
+    console.error("Domain strategies API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create or override a domain's strategy
+ *
+ * PUT /api/admin/domain-strategies
+ * Body: { "domain": "jobs.example.com", "preferred_method": "puppeteer" | null,
+ *         "requires_manual": false, "pinned": true, "notes"?: "..." }
+ *
+ * Pinned strategies keep their method; scrape results only update the stats.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const admin = await requireAdmin(supabase)
+    if (admin.error) return admin.error
+
+    let body
+    try {
+      body = await request.json()
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = strategySchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join("."),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const { domain, preferred_method, requires_manual, pinned, notes } = validationResult.data
+
+    const { data, error } = await supabase
+      .from("domain_strategies")
+      .upsert({
+        domain,
+        preferred_method,
+        requires_manual,
+        pinned,
+        notes: notes?.trim() || null,
+        updated_by: admin.userId,
+      })
+      .select("*")
+      .single()
+
+    if (error) {
+      console.error("Failed to save domain strategy", error)
+      return NextResponse.json(
+        { error: "Failed to save domain strategy" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      message: `Strategy for ${domain} saved`,
+      data,
+    })
+  } catch (error) {
+    console.error("Domain strategies API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Forget a domain's strategy (the next scrape starts from the default order)
+ *
+ * DELETE /api/admin/domain-strategies?domain=jobs.example.com
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const admin = await requireAdmin(supabase)
+    if (admin.error) return admin.error
+
+    const domainResult = domainSchema.safeParse(request.nextUrl.searchParams.get("domain") || "")
+    if (!domainResult.success) {
+      return NextResponse.json(
+        { error: "Invalid domain" },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from("domain_strategies")
+      .delete()
+      .eq("domain", domainResult.data)
+      .select("domain")
+
+    if (error) {
+      console.error("Failed to delete domain strategy", error)
+      return NextResponse.json(
+        { error: "Failed to delete domain strategy" },
+        { status: 500 }
+      )
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { error: "Domain strategy not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ message: `Strategy for ${domainResult.data} removed` })
+  } catch (error) {
+    console.error("Domain strategies API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import { duplicateDecisionSchema } from "@/lib/validations/opportunity"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * Merge or dismiss a likely duplicate pair
+ *
+ * POST /api/admin/duplicates/[id]
+ * Body: { "action": "merge", "keep": "opportunity" | "duplicate_of" }
+ *       { "action": "dismiss" }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Validate UUID format first
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid duplicate candidate ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    // Parse and validate request body
+    let body
+    try {
+      body = await request.json()
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = duplicateDecisionSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const decision = validationResult.data
+
+    const { data: candidate, error: fetchError } = await supabase
+      .from('duplicate_candidates')
+      .select('id, opportunity_id, duplicate_of, status')
+      .eq('id', params.id)
+      .single()
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Duplicate candidate not found" },
+          { status: 404 }
+        )
+      }
+      console.error('Database error:', fetchError)
+      return NextResponse.json(
+        { error: "Failed to fetch duplicate candidate" },
+        { status: 500 }
+      )
+    }
+
+    if (candidate.status !== 'pending') {
+      return NextResponse.json(
+        { error: "Duplicate candidate was already resolved", status: candidate.status },
+        { status: 409 }
+      )
+    }
+
+    if (decision.action === 'dismiss') {
+      const { error } = await supabase
+        .from('duplicate_candidates')
+        .update({
+          status: 'dismissed',
+          resolved_by: user.id,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq('id', params.id)
+
+      if (error) {
+        console.error('Database error:', error)
+        return NextResponse.json(
+          { error: "Failed to dismiss duplicate candidate" },
+          { status: 500 }
+        )
+      }
+
+      return NextResponse.json({ message: "Marked as not a duplicate" })
+    }
+
+    // Merge moves saved lists and applications over, then deletes the other row
+    // (which also removes this pair and any others involving it)
+    const keepId = decision.keep === 'opportunity' ? candidate.opportunity_id : candidate.duplicate_of
+    const mergeId = decision.keep === 'opportunity' ? candidate.duplicate_of : candidate.opportunity_id
+
+    const { data: keptId, error: mergeError } = await supabase.rpc('merge_opportunities', {
+      keep_id: keepId,
+      merge_id: mergeId,
+    })
+
+    if (mergeError) {
+      console.error('Database error:', mergeError)
+      return NextResponse.json(
+        { error: "Failed to merge opportunities" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      message: "Opportunities merged",
+      data: { kept: keptId, merged: mergeId },
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
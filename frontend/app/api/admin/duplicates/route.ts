@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+const OPPORTUNITY_FIELDS = `
+  id,
+  company_name,
+  job_title,
+  location,
+  url,
+  status,
+  deadline,
+  created_at,
+  users!submitted_by (
+    name
+  )
+`
+
+/**
+ * List likely duplicate pairs waiting for an admin (newest first)
+ *
+ * GET /api/admin/duplicates?limit=20&offset=0
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== "admin") {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100)
+    const offset = parseInt(searchParams.get("offset") || "0")
+
+    const { data, error, count } = await supabase
+      .from("duplicate_candidates")
+      .select(
+        `
+        id,
+        score,
+        reasons,
+        created_at,
+        opportunity:opportunities!duplicate_candidates_opportunity_id_fkey (${OPPORTUNITY_FIELDS}),
+        existing:opportunities!duplicate_candidates_duplicate_of_fkey (${OPPORTUNITY_FIELDS})
+      `,
+        { count: "exact" }
+      )
+      .eq("status", "pending")
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error("Failed to fetch duplicate candidates", error)
+      return NextResponse.json(
+        { error: "Failed to fetch duplicate candidates" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: data || [],
+      pagination: {
+        total: count || 0,
+        limit,
+        offset,
+        hasMore: count ? offset + limit < count : false,
+      },
+    })
+  } catch (error) {
+    console.error("Admin duplicates API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import { requeueEmailUpdate } from "@/lib/email/queue"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+interface RouteParams {
+  params: { id: string }
+}
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Verify the current user is an admin.
+ * Returns the user id, or an error response when they are not.
+ */
+async function requireAdmin(supabase: ReturnType<typeof createClient>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      ),
+    }
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .single<{ role: UserRole }>()
+
+  if (userError || !userData || userData.role !== "admin") {
+    return {
+      error: NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { userId: user.id }
+}
+
+/**
+ * One queued email with its full content
+ *
+ * GET /api/admin/email-queue/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid email ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    const admin = await requireAdmin(supabase)
+    if (admin.error) return admin.error
+
+    const { data, error } = await supabase
+      .from("email_queue")
+      .select(
+        `
+        *,
+        users!user_id (
+          name,
+          email
+        )
+      `
+      )
+      .eq("id", params.id)
+      .single()
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Email not found" },
+          { status: 404 }
+        )
+      }
+      console.error("Database error:", error)
+      return NextResponse.json(
+        { error: "Failed to fetch email" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error("API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Send a dead email through the queue again with a fresh set of attempts
+ *
+ * POST /api/admin/email-queue/[id]
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid email ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    const admin = await requireAdmin(supabase)
+    if (admin.error) return admin.error
+
+    const { data: email, error: fetchError } = await supabase
+      .from("email_queue")
+      .select("id, status")
+      .eq("id", params.id)
+      .single()
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "Email not found" },
+          { status: 404 }
+        )
+      }
+      console.error("Database error:", fetchError)
+      return NextResponse.json(
+        { error: "Failed to fetch email" },
+        { status: 500 }
+      )
+    }
+
+    if (email.status !== "dead") {
+      return NextResponse.json(
+        { error: "Only dead emails can be requeued", status: email.status },
+        { status: 409 }
+      )
+    }
+
+    const { error } = await supabase
+      .from("email_queue")
+      .update(requeueEmailUpdate())
+      .eq("id", params.id)
+      .eq("status", "dead")
+
+    if (error) {
+      console.error("Database error:", error)
+      return NextResponse.json(
+        { error: "Failed to requeue email" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ message: "Email requeued" })
+  } catch (error) {
+    console.error("API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
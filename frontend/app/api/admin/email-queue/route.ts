@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import { requeueEmailUpdate, type EmailQueueStatus } from "@/lib/email/queue"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+const EMAIL_QUEUE_STATUSES: EmailQueueStatus[] = ["pending", "processing", "sent", "dead", "suppressed"]
+
+/**
+ * Verify the current user is an admin.
+ * Returns the user id, or an error response when they are not.
+ */
+async function requireAdmin(supabase: ReturnType<typeof createClient>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return {
+      error: NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      ),
+    }
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .single<{ role: UserRole }>()
+
+  if (userError || !userData || userData.role !== "admin") {
+    return {
+      error: NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      ),
+    }
+  }
+
+  return { userId: user.id }
+}
+
+/**
+ * List queued emails in one status (dead by default, most recent first) with
+ * a count for every status
+ *
+ * GET /api/admin/email-queue?status=dead&limit=20&offset=0
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const admin = await requireAdmin(supabase)
+    if (admin.error) return admin.error
+
+    const searchParams = request.nextUrl.searchParams
+    const status = (searchParams.get("status") || "dead") as EmailQueueStatus
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100)
+    const offset = parseInt(searchParams.get("offset") || "0")
+
+    if (!EMAIL_QUEUE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Use one of: ${EMAIL_QUEUE_STATUSES.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    const [listResult, ...countResults] = await Promise.all([
+      supabase
+        .from("email_queue")
+        .select(
+          `
+          id,
+          email_type,
+          subject,
+          status,
+          error_message,
+          attempts,
+          max_attempts,
+          next_attempt_at,
+          scheduled_for,
+          processed_at,
+          created_at,
+          updated_at,
+          users!user_id (
+            name,
+            email
+          )
+        `,
+          { count: "exact" }
+        )
+        .eq("status", status)
+        .order("updated_at", { ascending: false })
+        .range(offset, offset + limit - 1),
+      ...EMAIL_QUEUE_STATUSES.map((queueStatus) =>
+        supabase
+          .from("email_queue")
+          .select("id", { count: "exact", head: true })
+          .eq("status", queueStatus)
+      ),
+    ])
+
+    if (listResult.error) {
+      console.error("Failed to fetch email queue", listResult.error)
+      return NextResponse.json(
+        { error: "Failed to fetch email queue" },
+        { status: 500 }
+      )
+    }
+
+    const counts = Object.fromEntries(
+      EMAIL_QUEUE_STATUSES.map((queueStatus, index) => [
+        queueStatus,
+        countResults[index].count || 0,
+      ])
+    ) as Record<EmailQueueStatus, number>
+
+    return NextResponse.json({
+      data: listResult.data || [],
+      counts,
+      pagination: {
+        total: listResult.count || 0,
+        limit,
+        offset,
+        hasMore: listResult.count ? offset + limit < listResult.count : false,
+      },
+    })
+  } catch (error) {
+    console.error("Admin email queue API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Requeue every dead email (e.g. after fixing the mail provider)
+ *
+ * POST /api/admin/email-queue
+ */
+export async function POST() {
+  try {
+    const supabase = createClient()
+
+    const admin = await requireAdmin(supabase)
+    if (admin.error) return admin.error
+
+    const { data, error } = await supabase
+      .from("email_queue")
+      .update(requeueEmailUpdate())
+      .eq("status", "dead")
+      .select("id")
+
+    if (error) {
+      console.error("Failed to requeue dead emails", error)
+      return NextResponse.json(
+        { error: "Failed to requeue dead emails" },
+        { status: 500 }
+      )
+    }
+
+    const requeued = data?.length || 0
+    return NextResponse.json({
+      message: requeued === 1 ? "Requeued 1 email" : `Requeued ${requeued} emails`,
+      requeued,
+    })
+  } catch (error) {
+    console.error("Admin email queue API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
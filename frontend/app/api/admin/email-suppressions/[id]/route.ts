@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * Lift a suppression so the address gets email again (e.g. the student fixed
+ * their mailbox). A new bounce or complaint suppresses it again.
+ *
+ * DELETE /api/admin/email-suppressions/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Validate UUID format first
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid suppression ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('email_suppressions')
+      .delete()
+      .eq('id', params.id)
+      .select('email')
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to lift suppression" },
+        { status: 500 }
+      )
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json(
+        { error: "Suppression not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: `${data[0].email} will receive email again`,
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+/**
+ * List suppressed addresses with the bounce or complaint event behind each
+ * (most recent first)
+ *
+ * GET /api/admin/email-suppressions?search=aamu.edu&reason=bounce&limit=20&offset=0
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== "admin") {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const search = searchParams.get("search")?.trim().toLowerCase()
+    const reason = searchParams.get("reason")
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100)
+    const offset = parseInt(searchParams.get("offset") || "0")
+
+    if (reason && reason !== "bounce" && reason !== "complaint") {
+      return NextResponse.json(
+        { error: "Invalid reason. Use bounce or complaint" },
+        { status: 400 }
+      )
+    }
+
+    let query = supabase
+      .from("email_suppressions")
+      .select(
+        `
+        id,
+        email,
+        reason,
+        provider,
+        event_id,
+        event_type,
+        message_id,
+        details,
+        payload,
+        created_at,
+        updated_at,
+        users!user_id (
+          name
+        )
+      `,
+        { count: "exact" }
+      )
+
+    if (search) {
+      query = query.ilike("email", `%${search.replace(/[%_]/g, "")}%`)
+    }
+    if (reason) {
+      query = query.eq("reason", reason)
+    }
+
+    const { data, error, count } = await query
+      .order("updated_at", { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error("Failed to fetch email suppressions", error)
+      return NextResponse.json(
+        { error: "Failed to fetch email suppressions" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: data || [],
+      pagination: {
+        total: count || 0,
+        limit,
+        offset,
+        hasMore: count ? offset + limit < count : false,
+      },
+    })
+  } catch (error) {
+    console.error("Admin email suppressions API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
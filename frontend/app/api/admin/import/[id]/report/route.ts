@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import { buildImportReport } from "@/lib/import"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * Download the rows that weren't created (duplicates and failures) as CSV
+ *
+ * GET /api/admin/import/[id]/report
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Validate UUID format first
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid import ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    const { data: rows, error } = await supabase
+      .from('import_job_rows')
+      .select('row_number, status, reason, input')
+      .eq('job_id', params.id)
+      .in('status', ['failed', 'duplicate'])
+      .order('row_number', { ascending: true })
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to build import report" },
+        { status: 500 }
+      )
+    }
+
+    return new NextResponse(buildImportReport(rows || []), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="import-${params.id.slice(0, 8)}-errors.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error('Admin import report error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
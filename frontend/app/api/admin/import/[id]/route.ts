@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import { summarizeImportRows } from "@/lib/import"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * Import progress with every row's outcome (polled by the admin import screen)
+ *
+ * GET /api/admin/import/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Validate UUID format first
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid import ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from('import_jobs')
+      .select('id, source, file_name, status, total_rows, created_at, started_at, completed_at')
+      .eq('id', params.id)
+      .single()
+
+    if (jobError) {
+      if (jobError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Import not found" },
+          { status: 404 }
+        )
+      }
+      console.error('Database error:', jobError)
+      return NextResponse.json(
+        { error: "Failed to fetch import" },
+        { status: 500 }
+      )
+    }
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('import_job_rows')
+      .select('id, row_number, input, status, reason, opportunity_id, attempts, processed_at')
+      .eq('job_id', params.id)
+      .order('row_number', { ascending: true })
+
+    if (rowsError) {
+      console.error('Database error:', rowsError)
+      return NextResponse.json(
+        { error: "Failed to fetch import rows" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: {
+        ...job,
+        counts: summarizeImportRows(rows || []),
+        rows: rows || [],
+      },
+    })
+  } catch (error) {
+    console.error('Admin import API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,286 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import { importRequestSchema } from "@/lib/validations/opportunity"
+import { OPPORTUNITY_TYPES, type OpportunityType } from "@/lib/constants"
+import {
+  importRecords,
+  parseImportFile,
+  summarizeImportRows,
+  ImportFileError,
+  MAX_IMPORT_ROWS,
+  type ImportPayload,
+} from "@/lib/import"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+const MAX_FILE_BYTES = 2 * 1024 * 1024
+
+// Row inserts are sent in chunks to keep request bodies small
+const ROW_INSERT_CHUNK = 100
+
+const JOB_FIELDS = "id, source, file_name, status, total_rows, created_at, started_at, completed_at"
+
+/**
+ * List recent imports with per-status row counts
+ *
+ * GET /api/admin/import?limit=10
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get("limit") || "10"), 50)
+
+    const { data, error } = await supabase
+      .from('import_jobs')
+      .select(`${JOB_FIELDS}, import_job_rows ( status )`)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to fetch imports" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: (data || []).map(({ import_job_rows, ...job }) => ({
+        ...job,
+        counts: summarizeImportRows(import_job_rows || []),
+      })),
+    })
+  } catch (error) {
+    console.error('Admin import API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Start a bulk import
+ *
+ * POST /api/admin/import
+ * Body: multipart form data with `file` (CSV or JSON) and optional `opportunity_type`,
+ *       or JSON { "records": [...] } / { "urls": [...], "opportunity_type"?: "internship" }
+ *
+ * Full records are saved before responding (201). URL lists are queued and
+ * scraped in the background by /api/cron/process-imports (202).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    let payload: ImportPayload
+    let fileName: string | null = null
+    let opportunityType: OpportunityType | null = null
+
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+
+      if (!file || typeof file === 'string') {
+        return NextResponse.json(
+          { error: "Attach a CSV or JSON file" },
+          { status: 400 }
+        )
+      }
+      if (file.size > MAX_FILE_BYTES) {
+        return NextResponse.json(
+          { error: "File is too large (max 2 MB)" },
+          { status: 413 }
+        )
+      }
+
+      const requestedType = formData.get('opportunity_type')
+      if (typeof requestedType === 'string' && requestedType) {
+        if (!OPPORTUNITY_TYPES.includes(requestedType as OpportunityType)) {
+          return NextResponse.json(
+            { error: "Invalid opportunity type" },
+            { status: 400 }
+          )
+        }
+        opportunityType = requestedType as OpportunityType
+      }
+
+      fileName = file.name
+      try {
+        payload = parseImportFile(file.name, await file.text())
+      } catch (error) {
+        if (error instanceof ImportFileError) {
+          return NextResponse.json(
+            { error: "Invalid import file", message: error.message },
+            { status: 400 }
+          )
+        }
+        throw error
+      }
+    } else {
+      let body
+      try {
+        body = await request.json()
+      } catch (error) {
+        return NextResponse.json(
+          { error: "Invalid JSON in request body" },
+          { status: 400 }
+        )
+      }
+
+      const validationResult = importRequestSchema.safeParse(body)
+      if (!validationResult.success) {
+        return NextResponse.json(
+          {
+            error: "Validation failed",
+            details: validationResult.error.errors.map(e => ({
+              field: e.path.join('.'),
+              message: e.message
+            }))
+          },
+          { status: 400 }
+        )
+      }
+
+      const { records, urls, opportunity_type } = validationResult.data
+      payload = records
+        ? { source: 'records', rows: records }
+        : { source: 'urls', rows: urls || [] }
+      opportunityType = (opportunity_type as OpportunityType | undefined) ?? null
+    }
+
+    if (payload.rows.length === 0) {
+      return NextResponse.json(
+        { error: "Nothing to import" },
+        { status: 400 }
+      )
+    }
+    if (payload.rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Imports are limited to ${MAX_IMPORT_ROWS} rows`, message: `This file has ${payload.rows.length} rows` },
+        { status: 400 }
+      )
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from('import_jobs')
+      .insert({
+        created_by: user.id,
+        source: payload.source,
+        file_name: fileName,
+        opportunity_type: opportunityType,
+        status: payload.source === 'records' ? 'processing' : 'pending',
+        total_rows: payload.rows.length,
+        started_at: payload.source === 'records' ? new Date().toISOString() : null,
+      })
+      .select(JOB_FIELDS)
+      .single()
+
+    if (jobError || !job) {
+      console.error('Database error:', jobError)
+      return NextResponse.json(
+        { error: "Failed to create import" },
+        { status: 500 }
+      )
+    }
+
+    const rows = payload.source === 'records'
+      ? await importRecords(supabase, job.id, payload.rows, user.id)
+      : payload.rows.map((url, index) => ({
+          job_id: job.id,
+          row_number: index + 1,
+          input: { url },
+        }))
+
+    for (let start = 0; start < rows.length; start += ROW_INSERT_CHUNK) {
+      const { error: rowsError } = await supabase
+        .from('import_job_rows')
+        .insert(rows.slice(start, start + ROW_INSERT_CHUNK))
+
+      if (rowsError) {
+        console.error('Database error:', rowsError)
+        // Without its rows the job can't finish, so don't leave it queued
+        await supabase.from('import_jobs').delete().eq('id', job.id)
+        return NextResponse.json(
+          { error: "Failed to save import rows" },
+          { status: 500 }
+        )
+      }
+    }
+
+    if (payload.source === 'records') {
+      const completedAt = new Date().toISOString()
+      await supabase
+        .from('import_jobs')
+        .update({ status: 'completed', completed_at: completedAt })
+        .eq('id', job.id)
+
+      const counts = summarizeImportRows(rows as Array<{ status: string }>)
+      return NextResponse.json(
+        {
+          message: `Imported ${counts.created} of ${rows.length} records`,
+          data: { ...job, status: 'completed', completed_at: completedAt, counts },
+        },
+        { status: 201 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        message: `Queued ${rows.length} URLs for import`,
+        data: { ...job, counts: summarizeImportRows(rows.map(() => ({ status: 'pending' }))) },
+      },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Admin import API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -37,7 +37,11 @@ export async function GET() {
       totalResult,
       activeResult,
       expiredResult,
+      pendingResult,
       usersResult,
+      duplicatesResult,
+      possiblyClosedResult,
+      deadEmailsResult,
     ] = await Promise.all([
       supabase
         .from("opportunities")
@@ -50,14 +54,37 @@ export async function GET() {
         .from("opportunities")
         .select("id", { count: "exact", head: true })
         .eq("status", "expired"),
+      supabase
+        .from("opportunities")
+        .select("id", { count: "exact", head: true })
+        .eq("status", "pending_review"),
       supabase.from("users").select("id", { count: "exact", head: true }),
+      supabase
+        .from("duplicate_candidates")
+        .select("id", { count: "exact", head: true })
+        .eq("status", "pending"),
+      supabase
+        .from("opportunities")
+        .select("id", { count: "exact", head: true })
+        .eq("status", "active")
+        .eq("possibly_closed", true),
+      supabase
+        .from("email_queue")
+        .select("id", { count: "exact", head: true })
+        .eq("status", "dead"),
     ])
 
-    if (totalResult.error || activeResult.error || expiredResult.error) {
+    if (
+      totalResult.error ||
+      activeResult.error ||
+      expiredResult.error ||
+      pendingResult.error
+    ) {
       console.error("Failed to calculate opportunity counts", {
         totalError: totalResult.error,
         activeError: activeResult.error,
         expiredError: expiredResult.error,
+        pendingError: pendingResult.error,
       })
       return NextResponse.json(
         { error: "Failed to calculate stats" },
@@ -93,12 +120,28 @@ export async function GET() {
       console.warn("Failed to fetch total user count", usersResult.error)
     }
 
+    if (duplicatesResult.error) {
+      console.warn("Failed to fetch duplicate candidate count", duplicatesResult.error)
+    }
+
+    if (possiblyClosedResult.error) {
+      console.warn("Failed to fetch possibly closed count", possiblyClosedResult.error)
+    }
+
+    if (deadEmailsResult.error) {
+      console.warn("Failed to fetch dead email count", deadEmailsResult.error)
+    }
+
     return NextResponse.json({
       stats: {
         total: totalResult.count || 0,
         active: activeResult.count || 0,
         expired: expiredResult.count || 0,
+        pending: pendingResult.count || 0,
         users: typeof usersResult.count === "number" ? usersResult.count : null,
+        duplicates: duplicatesResult.count || 0,
+        possiblyClosed: possiblyClosedResult.count || 0,
+        deadEmails: deadEmailsResult.count || 0,
       },
       recent: recentData || [],
     })
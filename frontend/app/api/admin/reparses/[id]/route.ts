@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import type { ParsedJobData } from "@/lib/ai/parser"
+import { reparseDecisionSchema } from "@/lib/validations/opportunity"
+import { updateOpportunityWithRevision } from "@/lib/revisions"
+import { reparseUpdate } from "@/lib/reparse"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * Apply or dismiss a re-parse result
+ *
+ * POST /api/admin/reparses/[id]
+ * Body: { "action": "apply", "fields": ["deadline", "requirements"] } - copy these fields onto the opportunity
+ *       { "action": "dismiss" }                                       - keep the current data
+ *
+ * Applied fields are recorded in the opportunity's history (source "reparse")
+ * and can be reverted from there.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Validate UUID format first
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid re-parse ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    // Parse and validate request body
+    let body
+    try {
+      body = await request.json()
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = reparseDecisionSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const decision = validationResult.data
+
+    const { data: reparse, error: fetchError } = await supabase
+      .from('opportunity_reparses')
+      .select('id, opportunity_id, status, parsed_data')
+      .eq('id', params.id)
+      .single()
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Re-parse not found" },
+          { status: 404 }
+        )
+      }
+      console.error('Database error:', fetchError)
+      return NextResponse.json(
+        { error: "Failed to fetch re-parse" },
+        { status: 500 }
+      )
+    }
+
+    if (reparse.status !== 'ready' || !reparse.parsed_data) {
+      return NextResponse.json(
+        { error: "Re-parse has already been resolved or isn't finished", status: reparse.status },
+        { status: 409 }
+      )
+    }
+
+    const parsedData = reparse.parsed_data as unknown as ParsedJobData
+    const update = decision.action === 'apply' ? reparseUpdate(parsedData, decision.fields) : {}
+
+    if (decision.action === 'apply' && Object.keys(update).length === 0) {
+      return NextResponse.json(
+        { error: "The re-parse has no values for the chosen fields" },
+        { status: 400 }
+      )
+    }
+
+    // Claim the result so a second click (or another admin) can't apply it twice
+    const { data: claimed } = await supabase
+      .from('opportunity_reparses')
+      .update({
+        status: decision.action === 'apply' ? 'applied' : 'dismissed',
+        applied_fields: decision.action === 'apply' ? decision.fields : [],
+        resolved_by: user.id,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('id', params.id)
+      .eq('status', 'ready')
+      .select('id')
+      .maybeSingle()
+
+    if (!claimed) {
+      return NextResponse.json(
+        { error: "Re-parse has already been resolved" },
+        { status: 409 }
+      )
+    }
+
+    if (decision.action === 'dismiss') {
+      return NextResponse.json({ message: "Re-parse dismissed" })
+    }
+
+    const { data: opportunity, error: updateError, revision } = await updateOpportunityWithRevision(
+      supabase,
+      reparse.opportunity_id,
+      update,
+      {
+        source: 'reparse',
+        changedBy: user.id,
+        aiParsedData: reparse.parsed_data,
+      }
+    )
+
+    if (updateError || !opportunity) {
+      console.error('Database error:', updateError)
+      // Leave the result reviewable so the admin can retry
+      await supabase
+        .from('opportunity_reparses')
+        .update({ status: 'ready', applied_fields: [], resolved_by: null, resolved_at: null })
+        .eq('id', params.id)
+      return NextResponse.json(
+        { error: "Failed to update opportunity" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: opportunity,
+      revision_id: revision?.id ?? null,
+      message: revision
+        ? `Applied ${revision.changed_fields.length} field(s)`
+        : "Nothing to change; the opportunity already matches",
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,316 @@
+import { NextRequest, NextResponse } from "next/server"
+import { randomUUID } from "crypto"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import type { ParsedJobData } from "@/lib/ai/parser"
+import { bulkReparseSchema } from "@/lib/validations/opportunity"
+import type { OpportunityType } from "@/lib/constants"
+import { diffParsedData, type ReparseStatus } from "@/lib/reparse"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+const REPARSE_STATUSES: ReparseStatus[] = ['pending', 'processing', 'ready', 'failed', 'applied', 'dismissed']
+
+// Row inserts are sent in chunks to keep request bodies small
+const ROW_INSERT_CHUNK = 100
+
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`)
+
+/**
+ * List re-parse results with their diff against the current data
+ *
+ * GET /api/admin/reparses?status=ready&batch_id=...&limit=20&offset=0
+ *
+ * `counts` has the number of re-parses in each status (for the batch when
+ * batch_id is given), so a bulk re-parse's progress can be shown.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const status = (searchParams.get("status") || "ready") as ReparseStatus
+    const batchId = searchParams.get("batch_id")
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100)
+    const offset = parseInt(searchParams.get("offset") || "0")
+
+    if (!REPARSE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: "Invalid status" },
+        { status: 400 }
+      )
+    }
+
+    let query = supabase
+      .from('opportunity_reparses')
+      .select(
+        `
+        id,
+        opportunity_id,
+        batch_id,
+        status,
+        parsed_data,
+        changed_fields,
+        applied_fields,
+        parser,
+        error,
+        created_at,
+        completed_at,
+        opportunities (
+          id,
+          url,
+          status,
+          company_name,
+          job_title,
+          opportunity_type,
+          role_type,
+          relevant_majors,
+          deadline,
+          requirements,
+          location,
+          description
+        )
+      `,
+        { count: "exact" }
+      )
+      .eq('status', status)
+      .order('completed_at', { ascending: false, nullsFirst: false })
+      .range(offset, offset + limit - 1)
+
+    let countsQuery = supabase
+      .from('opportunity_reparses')
+      .select('status')
+      .in('status', ['pending', 'processing', 'ready', 'failed'])
+
+    if (batchId) {
+      query = query.eq('batch_id', batchId)
+      countsQuery = countsQuery.eq('batch_id', batchId)
+    }
+
+    const [{ data, error, count }, { data: statusRows }] = await Promise.all([query, countsQuery])
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to fetch re-parses" },
+        { status: 500 }
+      )
+    }
+
+    const counts = { pending: 0, processing: 0, ready: 0, failed: 0 }
+    for (const row of statusRows || []) {
+      counts[row.status as keyof typeof counts]++
+    }
+
+    return NextResponse.json({
+      data: (data || []).map(({ parsed_data, opportunities, ...reparse }) => ({
+        ...reparse,
+        parsed_data,
+        opportunity: opportunities,
+        // Diff against the row as it is now, so edits since the parse show up
+        diff: parsed_data && opportunities
+          ? diffParsedData(opportunities, parsed_data as unknown as ParsedJobData)
+          : [],
+      })),
+      counts,
+      pagination: {
+        total: count || 0,
+        limit,
+        offset,
+        hasMore: count ? offset + limit < count : false,
+      },
+    })
+  } catch (error) {
+    console.error('Admin reparses API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Queue a bulk re-parse over a filtered set of opportunities
+ *
+ * POST /api/admin/reparses
+ * Body: { "ids"?: [...], "status"?: "active", "opportunity_type"?: "internship",
+ *         "company"?: "Acme", "created_after"?: "2025-01-01", "created_before"?: "2025-06-30",
+ *         "refresh"?: false, "limit"?: 100 }
+ *
+ * Matching opportunities (newest first, up to `limit`) are queued and parsed
+ * in the background by /api/cron/process-reparses. Opportunities that already
+ * have a re-parse queued are skipped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = bulkReparseSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const filters = validationResult.data
+
+    let query = supabase
+      .from('opportunities')
+      .select('id')
+      .order('created_at', { ascending: false })
+      .limit(filters.limit)
+
+    if (filters.ids?.length) {
+      query = query.in('id', filters.ids)
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status)
+    }
+    if (filters.opportunity_type) {
+      query = query.eq('opportunity_type', filters.opportunity_type as OpportunityType)
+    }
+    if (filters.company) {
+      query = query.ilike('company_name', `%${escapeLikePattern(filters.company)}%`)
+    }
+    if (filters.created_after) {
+      query = query.gte('created_at', filters.created_after)
+    }
+    if (filters.created_before) {
+      // Inclusive of the whole day
+      query = query.lt('created_at', new Date(new Date(filters.created_before).getTime() + 24 * 60 * 60 * 1000).toISOString())
+    }
+
+    const { data: matches, error: matchError } = await query
+
+    if (matchError) {
+      console.error('Database error:', matchError)
+      return NextResponse.json(
+        { error: "Failed to find opportunities" },
+        { status: 500 }
+      )
+    }
+
+    const matchedIds = (matches || []).map(row => row.id)
+    if (matchedIds.length === 0) {
+      return NextResponse.json(
+        { error: "No opportunities match these filters" },
+        { status: 404 }
+      )
+    }
+
+    const { data: inFlight, error: inFlightError } = await supabase
+      .from('opportunity_reparses')
+      .select('opportunity_id')
+      .in('opportunity_id', matchedIds)
+      .in('status', ['pending', 'processing'])
+
+    if (inFlightError) {
+      console.error('Database error:', inFlightError)
+      return NextResponse.json(
+        { error: "Failed to queue re-parse" },
+        { status: 500 }
+      )
+    }
+
+    const alreadyQueued = new Set((inFlight || []).map(row => row.opportunity_id))
+    const toQueue = matchedIds.filter(id => !alreadyQueued.has(id))
+
+    const batchId = randomUUID()
+    for (let i = 0; i < toQueue.length; i += ROW_INSERT_CHUNK) {
+      const { error: insertError } = await supabase
+        .from('opportunity_reparses')
+        .insert(toQueue.slice(i, i + ROW_INSERT_CHUNK).map(opportunityId => ({
+          opportunity_id: opportunityId,
+          batch_id: batchId,
+          refresh: filters.refresh,
+          requested_by: user.id,
+        })))
+
+      if (insertError) {
+        console.error('Database error:', insertError)
+        return NextResponse.json(
+          { error: "Failed to queue re-parse" },
+          { status: 500 }
+        )
+      }
+    }
+
+    return NextResponse.json(
+      {
+        data: {
+          batch_id: batchId,
+          matched: matchedIds.length,
+          queued: toQueue.length,
+          skipped: matchedIds.length - toQueue.length,
+        },
+        message: `Queued ${toQueue.length} opportunit${toQueue.length === 1 ? 'y' : 'ies'} for re-parse`,
+      },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Admin reparses API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
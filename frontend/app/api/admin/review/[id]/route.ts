@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import { reviewDecisionSchema } from "@/lib/validations/opportunity"
+import { queueSubmissionRejected } from "@/lib/email/queue"
+import { diffOpportunity, recordRevision } from "@/lib/revisions"
+import { matchOpportunityToAlerts } from "@/lib/search-alerts"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+type OpportunityUpdate = Database["public"]["Tables"]["opportunities"]["Update"]
+
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * Approve or reject a pending submission
+ *
+ * POST /api/admin/review/[id]
+ * Body: { "action": "approve", "updates": {...} }
+ *       { "action": "reject", "reason": "..." }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Validate UUID format first
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid opportunity ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    // Parse and validate request body
+    let body
+    try {
+      body = await request.json()
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = reviewDecisionSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const decision = validationResult.data
+
+    // Only pending submissions can be reviewed
+    const { data: existing, error: fetchError } = await supabase
+      .from('opportunities')
+      .select('*')
+      .eq('id', params.id)
+      .single()
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Opportunity not found" },
+          { status: 404 }
+        )
+      }
+      console.error('Database error:', fetchError)
+      return NextResponse.json(
+        { error: "Failed to fetch opportunity" },
+        { status: 500 }
+      )
+    }
+
+    if (existing.status !== 'pending_review') {
+      return NextResponse.json(
+        { error: "Opportunity is not awaiting review", status: existing.status },
+        { status: 409 }
+      )
+    }
+
+    const reviewedAt = new Date().toISOString()
+    const updateData: OpportunityUpdate = decision.action === 'approve'
+      ? {
+          // Edit-then-approve: apply admin corrections in the same update
+          ...(decision.updates as OpportunityUpdate | undefined),
+          status: 'active',
+          rejection_reason: null,
+          reviewed_by: user.id,
+          reviewed_at: reviewedAt,
+        }
+      : {
+          status: 'rejected',
+          rejection_reason: decision.reason,
+          reviewed_by: user.id,
+          reviewed_at: reviewedAt,
+        }
+
+    const { data, error } = await supabase
+      .from('opportunities')
+      .update(updateData)
+      .eq('id', params.id)
+      .eq('status', 'pending_review')
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Opportunity is not awaiting review" },
+          { status: 409 }
+        )
+      }
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to review opportunity" },
+        { status: 500 }
+      )
+    }
+
+    // Corrections made while approving go into the opportunity's history
+    if (decision.action === 'approve' && decision.updates) {
+      await recordRevision(
+        supabase,
+        params.id,
+        diffOpportunity(existing, decision.updates as OpportunityUpdate),
+        { source: 'review', changedBy: user.id }
+      )
+    }
+
+    // Now live: notify matching saved-search alerts
+    if (decision.action === 'approve') {
+      await matchOpportunityToAlerts(supabase, data)
+    }
+
+    // Let the submitter know why their submission was rejected
+    let notified = false
+    if (decision.action === 'reject') {
+      const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+      const result = await queueSubmissionRejected(
+        existing.submitted_by,
+        {
+          company_name: existing.company_name,
+          job_title: existing.job_title,
+          url: existing.url,
+        },
+        decision.reason,
+        appUrl
+      )
+
+      if (!result.success) {
+        console.warn('Failed to queue rejection email:', result.error)
+      }
+      notified = result.success
+    }
+
+    return NextResponse.json({
+      message: decision.action === 'approve'
+        ? "Opportunity approved"
+        : "Opportunity rejected",
+      data,
+      notified,
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+/**
+ * List submissions waiting in the moderation queue (oldest first)
+ *
+ * GET /api/admin/review?limit=20&offset=0
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from("users")
+      .select("role")
+      .eq("id", user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== "admin") {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 100)
+    const offset = parseInt(searchParams.get("offset") || "0")
+
+    const { data, error, count } = await supabase
+      .from("opportunities")
+      .select(
+        `
+        *,
+        users!submitted_by (
+          id,
+          name,
+          email,
+          is_trusted_submitter
+        )
+      `,
+        { count: "exact" }
+      )
+      .eq("status", "pending_review")
+      .order("created_at", { ascending: true })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error("Failed to fetch review queue", error)
+      return NextResponse.json(
+        { error: "Failed to fetch review queue" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: data || [],
+      pagination: {
+        total: count || 0,
+        limit,
+        offset,
+        hasMore: count ? offset + limit < count : false,
+      },
+    })
+  } catch (error) {
+    console.error("Admin review API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
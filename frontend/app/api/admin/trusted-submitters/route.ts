@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+const trustedSubmitterSchema = z
+  .object({
+    user_id: z.string().uuid().optional(),
+    email: z.string().email().optional(),
+    trusted: z.boolean(),
+  })
+  .refine((value) => value.user_id || value.email, {
+    message: "Provide a user_id or email",
+    path: ["user_id"],
+  })
+
+/**
+ * Verify the current user is an admin.
+ * Returns an error response when they are not.
+ */
+async function requireAdmin(supabase: ReturnType<typeof createClient>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    )
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .single<{ role: UserRole }>()
+
+  if (userError || !userData || userData.role !== "admin") {
+    return NextResponse.json(
+      { error: "Forbidden: Admin access required" },
+      { status: 403 }
+    )
+  }
+
+  return null
+}
+
+/**
+ * List trusted submitters (their submissions skip the review queue)
+ *
+ * GET /api/admin/trusted-submitters
+ */
+export async function GET() {
+  try {
+    const supabase = createClient()
+
+    const forbidden = await requireAdmin(supabase)
+    if (forbidden) return forbidden
+
+    const { data, error } = await supabase
+      .from("users")
+      .select("id, name, email, created_at")
+      .eq("is_trusted_submitter", true)
+      .order("name", { ascending: true })
+
+    if (error) {
+      console.error("Failed to fetch trusted submitters", error)
+      return NextResponse.json(
+        { error: "Failed to fetch trusted submitters" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data: data || [] })
+  } catch (error) {
+    console.error("Trusted submitters API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Grant or revoke trusted submitter status
+ *
+ * PUT /api/admin/trusted-submitters
+ * Body: { "user_id": "...", "trusted": true } or { "email": "...", "trusted": false }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    const forbidden = await requireAdmin(supabase)
+    if (forbidden) return forbidden
+
+    let body
+    try {
+      body = await request.json()
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = trustedSubmitterSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join("."),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const { user_id, email, trusted } = validationResult.data
+
+    let query = supabase
+      .from("users")
+      .update({ is_trusted_submitter: trusted })
+
+    query = user_id
+      ? query.eq("id", user_id)
+      : query.eq("email", email!.toLowerCase())
+
+    const { data, error } = await query
+      .select("id, name, email, is_trusted_submitter")
+      .single()
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return NextResponse.json(
+          { error: "User not found" },
+          { status: 404 }
+        )
+      }
+      console.error("Failed to update trusted submitter", error)
+      return NextResponse.json(
+        { error: "Failed to update trusted submitter" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      message: trusted
+        ? "User added to trusted submitters"
+        : "User removed from trusted submitters",
+      data,
+    })
+  } catch (error) {
+    console.error("Trusted submitters API error:", error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
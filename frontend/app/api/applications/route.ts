@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { APPLICATION_STATUS, type ApplicationStatus } from "@/lib/constants"
+import { getApplicationStats } from "@/lib/applications"
+
+/**
+ * GET /api/applications
+ * The current user's tracked applications with their opportunities, plus aggregate stats
+ *
+ * Query params: `status` (comma-separated application statuses)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized", details: authError?.message || "No user found" },
+        { status: 401 }
+      )
+    }
+
+    const statusParam = request.nextUrl.searchParams.get('status')
+    const statuses = statusParam
+      ? statusParam.split(',').map(s => s.trim()).filter((s): s is ApplicationStatus =>
+          (APPLICATION_STATUS as readonly string[]).includes(s)
+        )
+      : []
+
+    let query = supabase
+      .from('applications')
+      .select(`
+        *,
+        opportunities (
+          id,
+          company_name,
+          job_title,
+          opportunity_type,
+          location,
+          deadline,
+          url,
+          status
+        )
+      `)
+      .eq('user_id', user.id)
+      .order('status_changed_at', { ascending: false })
+
+    if (statuses.length > 0) {
+      query = query.in('status', statuses)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to fetch applications" },
+        { status: 500 }
+      )
+    }
+
+    // Opportunities the user can no longer see come back as null
+    const applications = (data || []).filter((application) => application.opportunities)
+
+    return NextResponse.json({
+      data: applications,
+      stats: getApplicationStats(applications.map((application) => application.status)),
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
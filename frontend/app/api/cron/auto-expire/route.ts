@@ -42,6 +42,9 @@ export async function GET(request: NextRequest) {
       .update({
         status: 'expired',
         expired_at: new Date().toISOString(),
+        expired_reason: 'deadline_passed',
+        possibly_closed: false,
+        possibly_closed_reason: null,
       })
       .eq('status', 'active')
       .not('deadline', 'is', null)
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
 import { queueDeadlineReminder, type Opportunity } from '@/lib/email/queue'
 import { processEmailQueue } from '@/lib/email/queue'
 
@@ -14,7 +14,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const supabase = createClient()
+    // A cron run has no session, and saved lists are only visible to their owner
+    const supabase = createServiceClient()
+    if (!supabase) {
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' }, { status: 500 })
+    }
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
 
     // Get all users with deadline reminders enabled
@@ -43,17 +47,40 @@ export async function GET(request: NextRequest) {
     const sevenDaysFromNow = new Date()
     sevenDaysFromNow.setDate(sevenDaysFromNow.getDate() + 7)
 
+    const deadlineFrom = threeDaysFromNow.toISOString().split('T')[0]
+    const deadlineTo = sevenDaysFromNow.toISOString().split('T')[0]
+
     // Process each user
     for (const user of users) {
       try {
+        // Saved opportunities closing in 3-7 days, regardless of major
+        const { data: savedRows, error: savedError } = await supabase
+          .from('saved_opportunities')
+          .select('opportunities!inner (id, company_name, job_title, opportunity_type, deadline, location, description, url, status)')
+          .eq('user_id', user.id)
+          .eq('opportunities.status', 'active')
+          .gte('opportunities.deadline', deadlineFrom)
+          .lte('opportunities.deadline', deadlineTo)
+
+        if (savedError) {
+          // Still send major-matched reminders if saved items can't be loaded
+          console.error(`Error fetching saved opportunities for user ${user.id}:`, savedError)
+        }
+
+        const savedOpportunities = ((savedRows || []) as any[])
+          .map((row) => row.opportunities as Opportunity | null)
+          .filter((opportunity): opportunity is Opportunity => !!opportunity)
+          .sort((a, b) => (a.deadline || '').localeCompare(b.deadline || ''))
+          .map((opportunity) => ({ ...opportunity, saved: true }))
+
         // Get opportunities with deadlines in 3-7 days matching user's major
         let query = supabase
           .from('opportunities')
           .select('id, company_name, job_title, opportunity_type, deadline, location, description, url')
           .eq('status', 'active')
           .not('deadline', 'is', null)
-          .gte('deadline', threeDaysFromNow.toISOString().split('T')[0])
-          .lte('deadline', sevenDaysFromNow.toISOString().split('T')[0])
+          .gte('deadline', deadlineFrom)
+          .lte('deadline', deadlineTo)
           .order('deadline', { ascending: true })
           .limit(20)
 
@@ -70,7 +97,14 @@ export async function GET(request: NextRequest) {
           continue
         }
 
-        if (!opportunities || opportunities.length === 0) {
+        // Saved items first, then the rest without duplicates
+        const savedIds = new Set(savedOpportunities.map((opportunity) => opportunity.id))
+        const reminderOpportunities: Opportunity[] = [
+          ...savedOpportunities,
+          ...((opportunities || []) as Opportunity[]).filter((opportunity) => !savedIds.has(opportunity.id)),
+        ].slice(0, 20)
+
+        if (reminderOpportunities.length === 0) {
           skipped++
           continue
         }
@@ -78,7 +112,7 @@ export async function GET(request: NextRequest) {
         // Queue the deadline reminder
         const result = await queueDeadlineReminder(
           user.id,
-          opportunities as Opportunity[],
+          reminderOpportunities,
           appUrl,
           now
         )
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { processImportQueue } from '@/lib/import'
+
+// This route works through queued bulk-import URLs (scrape → parse → save)
+// Configure in vercel.json: { "cron": "* * * * *" } so large imports keep moving
+// Each run stops picking up new rows after ~45s; rows cut off by a timeout are retried
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (optional but recommended)
+    const authHeader = request.headers.get('authorization')
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // import_jobs and import_job_rows are admin-only under RLS and a cron run has no session
+    const supabase = createServiceClient()
+    if (!supabase) {
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' }, { status: 500 })
+    }
+
+    const maxRows = parseInt(request.nextUrl.searchParams.get('batch_size') || '10', 10)
+
+    const result = await processImportQueue(supabase, { maxRows })
+
+    return NextResponse.json({
+      message: 'Import queue processed',
+      ...result,
+    })
+  } catch (error) {
+    console.error('Error processing import queue:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { processReparseQueue } from '@/lib/reparse'
+
+// This route works through queued bulk re-parses (scrape → parse → diff)
+// Configure in vercel.json: { "cron": "* * * * *" } so a bulk re-parse after a prompt change keeps moving
+// Results wait in the admin panel's Re-parse tab; nothing on the opportunity changes until an admin applies them
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (optional but recommended)
+    const authHeader = request.headers.get('authorization')
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // opportunity_reparses is admin-only under RLS and a cron run has no session
+    const supabase = createServiceClient()
+    if (!supabase) {
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' }, { status: 500 })
+    }
+
+    const maxRows = parseInt(request.nextUrl.searchParams.get('batch_size') || '10', 10)
+
+    const result = await processReparseQueue(supabase, { maxRows })
+
+    return NextResponse.json({
+      message: 'Re-parse queue processed',
+      ...result,
+    })
+  } catch (error) {
+    console.error('Error processing re-parse queue:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { processSubmissionJobs } from '@/lib/submissions'
+
+// This route runs queued link submissions (scrape → parse → save)
+// Configure in vercel.json: { "cron": "* * * * *" } so submissions are picked up within a minute
+// Failed steps are retried with backoff; see lib/submissions.ts
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (optional but recommended)
+    const authHeader = request.headers.get('authorization')
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // A cron run has no session, and submission_jobs are only visible to their owner, so claim and save with the service role
+    const supabase = createServiceClient()
+    if (!supabase) {
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' }, { status: 500 })
+    }
+
+    const maxJobs = parseInt(request.nextUrl.searchParams.get('batch_size') || '5', 10)
+
+    const result = await processSubmissionJobs(supabase, { maxJobs })
+
+    return NextResponse.json({
+      message: 'Submission queue processed',
+      ...result,
+    })
+  } catch (error) {
+    console.error('Error processing submission queue:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
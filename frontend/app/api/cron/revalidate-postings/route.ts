@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { revalidateOpportunities } from '@/lib/revalidation'
+
+// This route re-checks active opportunities for closed listings (404/410, "no longer accepting" pages)
+// Configure in vercel.json: { "cron": "15 * * * *" } so every posting is checked every few days
+// Clear signals expire the row; weaker ones flag it as possibly closed for an admin to confirm
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (optional but recommended)
+    const authHeader = request.headers.get('authorization')
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Expiring or flagging a posting needs an admin under RLS; a cron run has no session
+    const supabase = createServiceClient()
+    if (!supabase) {
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' }, { status: 500 })
+    }
+
+    const batchSize = parseInt(request.nextUrl.searchParams.get('batch_size') || '20', 10)
+
+    const result = await revalidateOpportunities(supabase, { batchSize })
+
+    return NextResponse.json({
+      message: 'Posting re-validation completed',
+      ...result,
+    })
+  } catch (error) {
+    console.error('Error in revalidate-postings cron:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
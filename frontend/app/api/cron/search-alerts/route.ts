@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { sendSearchAlertDigests } from '@/lib/search-alerts'
+import { processEmailQueue } from '@/lib/email/queue'
+
+// This route sends daily and weekly saved-search alerts (instant ones are queued when the opportunity goes live)
+// Configure in vercel.json: { "cron": "0 * * * *" } so each alert goes out about a day or a week after the last
+// Instant alerts whose email couldn't be queued at match time are retried here too
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret (optional but recommended)
+    const authHeader = request.headers.get('authorization')
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Saved searches and their matches are only visible to their owner; a cron run has no session
+    const supabase = createServiceClient()
+    if (!supabase) {
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' }, { status: 500 })
+    }
+
+    const batchSize = parseInt(request.nextUrl.searchParams.get('batch_size') || '100', 10)
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+    const result = await sendSearchAlertDigests(supabase, { appUrl, batchSize })
+
+    // Process the email queue
+    const queueResult = await processEmailQueue(50)
+
+    return NextResponse.json({
+      message: 'Search alerts cron job completed',
+      alerts_due: result.alertsDue,
+      emails_queued: result.queued,
+      emails_skipped: result.skipped,
+      queue_processed: queueResult.processed,
+      queue_succeeded: queueResult.succeeded,
+      queue_failed: queueResult.failed,
+    })
+  } catch (error) {
+    console.error('Error in search alerts cron:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
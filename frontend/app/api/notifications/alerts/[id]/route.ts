@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { updateSavedSearchAlertSchema } from '@/lib/validations/alert'
+
+interface RouteParams {
+  params: { id: string }
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * PATCH /api/notifications/alerts/[id]
+ * Edit an alert's name, filters or frequency, or pause it with { "enabled": false }
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    if (!UUID_REGEX.test(params.id)) {
+      return NextResponse.json({ error: 'Invalid alert ID' }, { status: 400 })
+    }
+
+    const supabase = createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch (error) {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 })
+    }
+
+    const validationResult = updateSavedSearchAlertSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('saved_search_alerts')
+      .update(validationResult.data)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return NextResponse.json({ error: 'Alert not found' }, { status: 404 })
+      }
+      console.error('Error updating search alert:', error)
+      return NextResponse.json({ error: 'Failed to update alert' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data, message: 'Alert updated' })
+  } catch (error) {
+    console.error('Error in PATCH /api/notifications/alerts/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/notifications/alerts/[id]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    if (!UUID_REGEX.test(params.id)) {
+      return NextResponse.json({ error: 'Invalid alert ID' }, { status: 400 })
+    }
+
+    const supabase = createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('saved_search_alerts')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select('id')
+
+    if (error) {
+      console.error('Error deleting search alert:', error)
+      return NextResponse.json({ error: 'Failed to delete alert' }, { status: 500 })
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Alert deleted' })
+  } catch (error) {
+    console.error('Error in DELETE /api/notifications/alerts/[id]:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { savedSearchAlertSchema } from '@/lib/validations/alert'
+import { MAX_ALERTS_PER_USER } from '@/lib/search-alerts'
+
+/**
+ * GET /api/notifications/alerts
+ * The current user's saved-search alerts, newest first
+ */
+export async function GET() {
+  try {
+    const supabase = createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('saved_search_alerts')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching search alerts:', error)
+      return NextResponse.json({ error: 'Failed to fetch alerts' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data: data || [], limit: MAX_ALERTS_PER_USER })
+  } catch (error) {
+    console.error('Error in GET /api/notifications/alerts:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/notifications/alerts
+ * Save a combination of dashboard filters and a search term as a named alert
+ *
+ * Body: { "name": "ML internships", "search": "machine learning", "opportunity_types": ["internship"],
+ *         "majors": ["Computer Science"], "roles": ["Data Science"], "frequency": "instant" }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch (error) {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 })
+    }
+
+    const validationResult = savedSearchAlertSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 }
+      )
+    }
+
+    const { count, error: countError } = await supabase
+      .from('saved_search_alerts')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+
+    if (countError) {
+      console.error('Error counting search alerts:', countError)
+      return NextResponse.json({ error: 'Failed to create alert' }, { status: 500 })
+    }
+
+    if ((count || 0) >= MAX_ALERTS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can keep up to ${MAX_ALERTS_PER_USER} alerts. Delete one to add another.` },
+        { status: 409 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('saved_search_alerts')
+      .insert({ ...validationResult.data, user_id: user.id })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating search alert:', error)
+      return NextResponse.json({ error: 'Failed to create alert' }, { status: 500 })
+    }
+
+    return NextResponse.json({ data, message: 'Alert saved' }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/notifications/alerts:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
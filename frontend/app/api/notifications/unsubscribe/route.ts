@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import {
+  UNSUBSCRIBE_COLUMNS,
+  UNSUBSCRIBE_LABELS,
+  verifyUnsubscribeToken,
+  type UnsubscribeTokenPayload,
+} from '@/lib/email/unsubscribe'
+
+// Public: the signed token in the link stands in for a session.
+// POST is the RFC 8058 one-click target of the List-Unsubscribe header (the
+// token stays in the query string; the body is "List-Unsubscribe=One-Click")
+// and is also what the /unsubscribe page calls. GET only describes the link.
+
+async function readToken(request: NextRequest): Promise<string | null> {
+  const fromQuery = request.nextUrl.searchParams.get('token')
+  if (fromQuery || request.method !== 'POST') return fromQuery
+
+  const contentType = request.headers.get('content-type') || ''
+  try {
+    if (contentType.includes('application/json')) {
+      const body = await request.json()
+      return typeof body?.token === 'string' ? body.token : null
+    }
+    if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
+      const token = (await request.formData()).get('token')
+      return typeof token === 'string' ? token : null
+    }
+  } catch {
+    return null
+  }
+  return null
+}
+
+async function verifyRequest(
+  request: NextRequest
+): Promise<{ payload: UnsubscribeTokenPayload } | { response: NextResponse }> {
+  const token = await readToken(request)
+  if (!token) {
+    return { response: NextResponse.json({ error: 'Missing unsubscribe token' }, { status: 400 }) }
+  }
+
+  const result = verifyUnsubscribeToken(token)
+  if (result.valid) return { payload: result.payload }
+
+  switch (result.reason) {
+    case 'expired':
+      return {
+        response: NextResponse.json(
+          { error: 'This unsubscribe link has expired. Manage your emails from your notification settings.' },
+          { status: 410 }
+        ),
+      }
+    case 'not_configured':
+      return { response: NextResponse.json({ error: 'One-click unsubscribe is not configured' }, { status: 503 }) }
+    default:
+      return { response: NextResponse.json({ error: 'Invalid unsubscribe link' }, { status: 400 }) }
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const verified = await verifyRequest(request)
+    if ('response' in verified) return verified.response
+
+    const { userId, emailType } = verified.payload
+    const supabase = createServiceClient()
+    if (!supabase) {
+      return NextResponse.json({ error: 'One-click unsubscribe is not configured' }, { status: 503 })
+    }
+
+    const column = UNSUBSCRIBE_COLUMNS[emailType]
+    const { data, error } = await supabase
+      .from('users')
+      .select(column)
+      .eq('id', userId)
+      .maybeSingle<Record<typeof column, boolean | null>>()
+
+    if (error) {
+      console.error('Error fetching unsubscribe preference:', error)
+      return NextResponse.json({ error: 'Failed to fetch preferences' }, { status: 500 })
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Invalid unsubscribe link' }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      email_type: emailType,
+      label: UNSUBSCRIBE_LABELS[emailType],
+      subscribed: data[column] ?? true,
+    })
+  } catch (error) {
+    console.error('Error in GET /api/notifications/unsubscribe:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const verified = await verifyRequest(request)
+    if ('response' in verified) return verified.response
+
+    const { userId, emailType } = verified.payload
+    const supabase = createServiceClient()
+    if (!supabase) {
+      return NextResponse.json({ error: 'One-click unsubscribe is not configured' }, { status: 503 })
+    }
+
+    const column = UNSUBSCRIBE_COLUMNS[emailType]
+    const { data, error } = await supabase
+      .from('users')
+      .update({ [column]: false })
+      .eq('id', userId)
+      .select('id')
+
+    if (error) {
+      console.error('Error unsubscribing:', error)
+      return NextResponse.json({ error: 'Failed to update preferences' }, { status: 500 })
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Invalid unsubscribe link' }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      message: `You've been unsubscribed from ${UNSUBSCRIBE_LABELS[emailType]}`,
+      email_type: emailType,
+    })
+  } catch (error) {
+    console.error('Error in POST /api/notifications/unsubscribe:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
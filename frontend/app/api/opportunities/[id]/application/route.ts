@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { applicationSchema } from "@/lib/validations/application"
+import type { ApplicationStatus } from "@/lib/constants"
+
+interface RouteParams {
+  params: { id: string }
+}
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * GET /api/opportunities/[id]/application
+ * The current user's tracked application for this opportunity (null if untracked)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid opportunity ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('applications')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('opportunity_id', params.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to fetch application" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/opportunities/[id]/application
+ * Start tracking or update the current user's application (status, dates, notes)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid opportunity ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = applicationSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    // Make sure the opportunity exists and is visible to this user
+    const { error: opportunityError } = await supabase
+      .from('opportunities')
+      .select('id')
+      .eq('id', params.id)
+      .single()
+
+    if (opportunityError) {
+      if (opportunityError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Opportunity not found" },
+          { status: 404 }
+        )
+      }
+      console.error('Database error:', opportunityError)
+      return NextResponse.json(
+        { error: "Failed to save application" },
+        { status: 500 }
+      )
+    }
+
+    const { status, applied_at, next_step_at, notes } = validationResult.data
+
+    // Only overwrite optional fields that were sent
+    const upsertData = {
+      user_id: user.id,
+      opportunity_id: params.id,
+      status: status as ApplicationStatus,
+      ...(applied_at !== undefined && { applied_at }),
+      ...(next_step_at !== undefined && { next_step_at }),
+      ...(notes !== undefined && { notes: notes?.trim() || null }),
+    }
+
+    const { data, error } = await supabase
+      .from('applications')
+      .upsert(upsertData, { onConflict: 'user_id,opportunity_id' })
+      .select('*')
+      .single()
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to save application" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/opportunities/[id]/application
+ * Stop tracking this opportunity (removes status, dates, and notes)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid opportunity ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('applications')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('opportunity_id', params.id)
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to remove application" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ message: "Application removed" })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
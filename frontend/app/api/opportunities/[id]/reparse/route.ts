@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database, Json } from "@/lib/supabase/types"
+import { reparseRequestSchema } from "@/lib/validations/opportunity"
+import { IngestError } from "@/lib/ingest"
+import { REPARSE_OPPORTUNITY_FIELDS, runReparse } from "@/lib/reparse"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * Re-run scrape → parse on an opportunity and diff it against the stored row (admin only)
+ *
+ * POST /api/opportunities/[id]/reparse
+ * Body: { "refresh": false } - true re-fetches the page instead of using the scrape cache
+ *
+ * Nothing on the opportunity changes here; the result is kept as a re-parse
+ * the admin applies field by field via POST /api/admin/reparses/[id].
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Validate UUID format first
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid opportunity ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    // An empty body means the defaults
+    let body = {}
+    const rawBody = await request.text()
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody)
+      } catch (error) {
+        return NextResponse.json(
+          { error: "Invalid JSON in request body" },
+          { status: 400 }
+        )
+      }
+    }
+
+    const validationResult = reparseRequestSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const { refresh } = validationResult.data
+
+    const { data: opportunity, error: fetchError } = await supabase
+      .from('opportunities')
+      .select(REPARSE_OPPORTUNITY_FIELDS)
+      .eq('id', params.id)
+      .single()
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Opportunity not found" },
+          { status: 404 }
+        )
+      }
+      console.error('Database error:', fetchError)
+      return NextResponse.json(
+        { error: "Failed to fetch opportunity" },
+        { status: 500 }
+      )
+    }
+
+    let reparse
+    try {
+      reparse = await runReparse(opportunity, { refresh, logPrefix: `[Reparse ${params.id}]` })
+    } catch (error) {
+      if (error instanceof IngestError) {
+        return NextResponse.json(
+          { error: error.message, retryable: error.retryable },
+          { status: error.status }
+        )
+      }
+      throw error
+    }
+
+    // An unreviewed result from an earlier re-parse is superseded by this one
+    await supabase
+      .from('opportunity_reparses')
+      .update({ status: 'dismissed', resolved_by: user.id, resolved_at: new Date().toISOString() })
+      .eq('opportunity_id', params.id)
+      .eq('status', 'ready')
+
+    const now = new Date().toISOString()
+    const { data: saved, error: insertError } = await supabase
+      .from('opportunity_reparses')
+      .insert({
+        opportunity_id: params.id,
+        status: 'ready',
+        refresh,
+        parsed_data: reparse.parsedData as unknown as Json,
+        changed_fields: reparse.changedFields,
+        parser: reparse.parser,
+        attempts: 1,
+        requested_by: user.id,
+        started_at: now,
+        completed_at: now,
+      })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      console.error('Database error:', insertError)
+      return NextResponse.json(
+        { error: "Failed to save re-parse" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      data: {
+        id: saved.id,
+        opportunity_id: params.id,
+        parsed_data: reparse.parsedData,
+        diff: reparse.diff,
+        changed_fields: reparse.changedFields,
+        parser: reparse.parser,
+        scrape_method: reparse.scrapeMethod,
+        cached: reparse.cached,
+      },
+      message: reparse.changedFields.length > 0
+        ? `${reparse.changedFields.length} field(s) differ from the current data`
+        : "The new parse matches the current data",
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { Database } from "@/lib/supabase/types"
+import { revertUpdate, updateOpportunityWithRevision } from "@/lib/revisions"
+
+type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
+
+interface RouteParams {
+  params: { id: string; revisionId: string }
+}
+
+/**
+ * Put the fields a revision changed back to their previous values
+ * The revert is itself recorded as a revision, so it can be undone too.
+ *
+ * POST /api/opportunities/[id]/revisions/[revisionId]/revert
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    // Validate UUID format first
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+    if (!uuidRegex.test(params.id) || !uuidRegex.test(params.revisionId)) {
+      return NextResponse.json(
+        { error: "Invalid ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    // Check if user is admin
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single<{ role: UserRole }>()
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      )
+    }
+
+    const { data: revision, error: fetchError } = await supabase
+      .from('opportunity_revisions')
+      .select('id, changed_fields, before')
+      .eq('id', params.revisionId)
+      .eq('opportunity_id', params.id)
+      .single()
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Revision not found" },
+          { status: 404 }
+        )
+      }
+      console.error('Database error:', fetchError)
+      return NextResponse.json(
+        { error: "Failed to fetch revision" },
+        { status: 500 }
+      )
+    }
+
+    const { data, error, revision: revertRevision } = await updateOpportunityWithRevision(
+      supabase,
+      params.id,
+      revertUpdate(revision),
+      { source: 'revert', changedBy: user.id, revertedRevisionId: revision.id }
+    )
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Opportunity not found" },
+          { status: 404 }
+        )
+      }
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to revert revision" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      message: revertRevision ? "Change reverted" : "Already matches this version",
+      data,
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
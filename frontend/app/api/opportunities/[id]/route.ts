@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { Database } from "@/lib/supabase/types"
+import { updateOpportunityWithRevision } from "@/lib/revisions"
 
 type UserRole = Database["public"]["Tables"]["users"]["Row"]["role"]
 type OpportunityUpdate = Database["public"]["Tables"]["opportunities"]["Update"]
@@ -133,13 +134,11 @@ export async function PUT(
       }
     }
 
-    // Update the opportunity in the database
-    const { data, error } = await supabase
-      .from('opportunities')
-      .update(updateData)
-      .eq('id', params.id)
-      .select()
-      .single()
+    // Update the opportunity and record the changed fields in its history
+    const { data, error } = await updateOpportunityWithRevision(supabase, params.id, updateData, {
+      source: 'admin_edit',
+      changedBy: user.id,
+    })
 
     if (error) {
       if (error.code === 'PGRST116') {
@@ -207,14 +206,14 @@ export async function DELETE(
     // Soft delete: Update status to expired
     const deleteUpdate = {
       status: 'expired' as const,
-      expired_at: new Date().toISOString()
+      expired_at: new Date().toISOString(),
+      expired_reason: 'admin_removed',
+      possibly_closed: false
     }
-    const { data, error } = await supabase
-      .from('opportunities')
-      .update(deleteUpdate)
-      .eq('id', params.id)
-      .select()
-      .single()
+    const { data, error } = await updateOpportunityWithRevision(supabase, params.id, deleteUpdate, {
+      source: 'admin_edit',
+      changedBy: user.id,
+    })
 
     if (error) {
       if (error.code === 'PGRST116') {
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+
+interface RouteParams {
+  params: { id: string }
+}
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * GET /api/opportunities/[id]/save
+ * Whether the current user has saved this opportunity
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid opportunity ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('saved_opportunities')
+      .select('created_at')
+      .eq('user_id', user.id)
+      .eq('opportunity_id', params.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to fetch saved status" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      saved: !!data,
+      saved_at: data?.created_at ?? null,
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/opportunities/[id]/save
+ * Save an opportunity to the current user's list (idempotent)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid opportunity ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    // Make sure the opportunity exists and is visible to this user
+    const { error: opportunityError } = await supabase
+      .from('opportunities')
+      .select('id')
+      .eq('id', params.id)
+      .single()
+
+    if (opportunityError) {
+      if (opportunityError.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Opportunity not found" },
+          { status: 404 }
+        )
+      }
+      console.error('Database error:', opportunityError)
+      return NextResponse.json(
+        { error: "Failed to save opportunity" },
+        { status: 500 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from('saved_opportunities')
+      .upsert(
+        { user_id: user.id, opportunity_id: params.id },
+        { onConflict: 'user_id,opportunity_id', ignoreDuplicates: true }
+      )
+      .select('created_at')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to save opportunity" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { saved: true, saved_at: data?.created_at ?? null },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/opportunities/[id]/save
+ * Remove an opportunity from the current user's list (idempotent)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    if (!uuidRegex.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid opportunity ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('saved_opportunities')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('opportunity_id', params.id)
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to remove saved opportunity" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ saved: false })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
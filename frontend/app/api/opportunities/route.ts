@@ -1,11 +1,33 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { Database } from "@/lib/supabase/types"
+import { ROLE_TYPES } from "@/lib/constants"
+import { opportunityFiltersSchema } from "@/lib/validations/opportunity"
+import { decodeCursor, encodeCursor } from "@/lib/pagination"
 
 type OpportunityType = 'internship' | 'full_time' | 'research' | 'fellowship' | 'scholarship'
-type OpportunityStatus = 'active' | 'expired'
+type OpportunityStatus = 'active' | 'expired' | 'pending_review' | 'rejected'
 type OpportunityStatusFilter = OpportunityStatus | 'all'
-type SortOption = 'deadline-asc' | 'deadline-desc' | 'recent' | 'company-asc'
+type SortOption = 'deadline-asc' | 'deadline-desc' | 'recent' | 'company-asc' | 'relevance'
+type ColumnSortOption = Exclude<SortOption, 'relevance'>
+type SearchMatch = Database['public']['Functions']['search_opportunities']['Returns'][number]
+
+// Roles with their own filter chip; "Other" matches everything outside this list
+const NAMED_ROLE_TYPES = ROLE_TYPES.filter(role => role !== 'Other')
+
+// Column behind each database-side sort; id breaks ties so cursors are stable.
+// Nulls always sort last so a cursor can step from dated rows into undated ones.
+const SORT_COLUMNS: Record<ColumnSortOption, { column: 'deadline' | 'created_at' | 'company_name'; ascending: boolean }> = {
+  'deadline-asc': { column: 'deadline', ascending: true },
+  'deadline-desc': { column: 'deadline', ascending: false },
+  'recent': { column: 'created_at', ascending: false },
+  'company-asc': { column: 'company_name', ascending: true },
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const quoteFilterValue = (value: string) => `"${value.replace(/[\\"]/g, match => `\\${match}`)}"`
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`)
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,14 +47,57 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams
     const type = searchParams.get('type') as OpportunityType | null
     const status = (searchParams.get('status') as OpportunityStatusFilter) || 'active'
-    const sort = (searchParams.get('sort') as SortOption) || 'deadline-asc'
+    const requestedSort = searchParams.get('sort') as SortOption | null
     const searchQuery = searchParams.get('search')
       ? searchParams.get('search')!.trim()
       : ''
     const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100)
     const offset = parseInt(searchParams.get('offset') || '0')
+    const cursorParam = searchParams.get('cursor')
+
+    // Relevance only means something for a search; otherwise use the default order
+    const sort: SortOption = requestedSort === 'relevance'
+      ? (searchQuery ? 'relevance' : 'deadline-asc')
+      : requestedSort && Object.prototype.hasOwnProperty.call(SORT_COLUMNS, requestedSort) ? requestedSort : 'deadline-asc'
+
+    // A cursor is only valid for the sort it was issued for
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null
+    if (cursorParam && (!cursor || cursor.sort !== sort || !UUID_REGEX.test(cursor.id))) {
+      return NextResponse.json(
+        { error: "Invalid cursor" },
+        { status: 400 }
+      )
+    }
+
+    const filtersResult = opportunityFiltersSchema.safeParse({
+      majors: searchParams.get('majors') ?? undefined,
+      roles: searchParams.get('roles') ?? undefined,
+      location: searchParams.get('location') ?? undefined,
+      deadline_before: searchParams.get('deadline_before') ?? undefined,
+      deadline_after: searchParams.get('deadline_after') ?? undefined,
+      remote: searchParams.get('remote') ?? undefined,
+    })
+
+    if (!filtersResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: filtersResult.error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const filters = filtersResult.data
+    const types = type ? type.split(',').map(t => t.trim()) as OpportunityType[] : []
+    const namedRoles = filters.roles?.filter(role => role !== 'Other') ?? []
+    const includeOtherRoles = filters.roles?.includes('Other') ?? false
 
     // Build query with user name join
+    // Total is only counted for the first page; relevance totals come from the search RPC
     let query = supabase
       .from('opportunities')
       .select(`
@@ -40,7 +105,7 @@ export async function GET(request: NextRequest) {
         users!submitted_by (
           name
         )
-      `, { count: 'exact' })
+      `, { count: cursor || sort === 'relevance' ? undefined : 'exact' })
 
     // Apply status filter
     if (status && status !== 'all') {
@@ -48,56 +113,127 @@ export async function GET(request: NextRequest) {
     }
 
     // Apply type filter (can be multiple types separated by comma)
-    if (type) {
-      const types = type.split(',').map(t => t.trim())
-      if (types.length === 1) {
-        query = query.eq('opportunity_type', types[0] as Database['public']['Tables']['opportunities']['Row']['opportunity_type'])
-      } else {
-        query = query.in('opportunity_type', types as Database['public']['Tables']['opportunities']['Row']['opportunity_type'][])
-      }
+    if (types.length === 1) {
+      query = query.eq('opportunity_type', types[0])
+    } else if (types.length > 1) {
+      query = query.in('opportunity_type', types)
+    }
+
+    // Apply major filter: any selected major in relevant_majors (JSONB containment)
+    if (filters.majors && filters.majors.length > 0) {
+      query = query.or(
+        filters.majors
+          .map(major => `relevant_majors.cs.${JSON.stringify([major])}`)
+          .join(',')
+      )
     }
 
-    if (searchQuery) {
-      const ilikeQuery = searchQuery
-        .replace(/%/g, '')
-        .replace(/,/g, '')
-        .replace(/'/g, "''")
-        .trim()
-
-      if (ilikeQuery) {
-        const orFilters = [
-          `company_name.ilike.%${ilikeQuery}%`,
-          `job_title.ilike.%${ilikeQuery}%`,
-          `role_type.ilike.%${ilikeQuery}%`,
-          `location.ilike.%${ilikeQuery}%`,
-          `description.ilike.%${ilikeQuery}%`,
-          `requirements.ilike.%${ilikeQuery}%`,
-        ].join(',')
-
-        query = query.or(orFilters)
+    // Apply role filter
+    if (filters.roles && filters.roles.length > 0) {
+      const roleFilters: string[] = []
+      if (namedRoles.length > 0) {
+        roleFilters.push(`role_type.in.(${namedRoles.map(quoteFilterValue).join(',')})`)
       }
+      if (includeOtherRoles) {
+        roleFilters.push(
+          'role_type.is.null',
+          `role_type.not.in.(${NAMED_ROLE_TYPES.map(quoteFilterValue).join(',')})`
+        )
+      }
+      query = query.or(roleFilters.join(','))
+    }
+
+    // Apply location filter (substring match)
+    if (filters.location) {
+      query = query.ilike('location', `%${escapeLikePattern(filters.location)}%`)
     }
 
-    // Apply sorting
-    switch (sort) {
-      case 'deadline-asc':
-        query = query.order('deadline', { ascending: true, nullsFirst: false })
-        break
-      case 'deadline-desc':
-        query = query.order('deadline', { ascending: false, nullsFirst: false })
-        break
-      case 'recent':
-        query = query.order('created_at', { ascending: false })
-        break
-      case 'company-asc':
-        query = query.order('company_name', { ascending: true })
-        break
-      default:
-        query = query.order('deadline', { ascending: true, nullsFirst: false })
+    // Apply remote filter
+    if (filters.remote === true) {
+      query = query.ilike('location', '%remote%')
+    } else if (filters.remote === false) {
+      query = query.or('location.is.null,location.not.ilike.*remote*')
+    }
+
+    // Apply deadline window (inclusive)
+    if (filters.deadline_before) {
+      query = query.lte('deadline', filters.deadline_before)
+    }
+    if (filters.deadline_after) {
+      query = query.gte('deadline', filters.deadline_after)
     }
 
-    // Apply pagination
-    query = query.range(offset, offset + limit - 1)
+    // Full-text search. Relevance pages are filtered, ranked and paged by the RPC
+    // (so the filters above are passed to it as well); other sorts match on
+    // search_vector here and look up the page's snippets after the fetch
+    let searchMatches: Map<string, SearchMatch> | null = null
+    let searchTotal: number | null = null
+    if (searchQuery && sort === 'relevance') {
+      const { data: matches, error: searchError } = await supabase.rpc('search_opportunities', {
+        search_query: searchQuery,
+        match_limit: limit + 1,
+        match_offset: cursor ? 0 : offset,
+        p_status: status !== 'all' ? status : undefined,
+        p_types: types.length > 0 ? types : undefined,
+        p_majors: filters.majors && filters.majors.length > 0 ? filters.majors : undefined,
+        p_roles: namedRoles.length > 0 ? namedRoles : undefined,
+        p_other_role_exclusions: includeOtherRoles ? NAMED_ROLE_TYPES : undefined,
+        p_location: filters.location || undefined,
+        p_remote: filters.remote,
+        p_deadline_before: filters.deadline_before,
+        p_deadline_after: filters.deadline_after,
+        p_after_rank: cursor ? Number(cursor.key) : undefined,
+        p_after_id: cursor?.id,
+      })
+
+      if (searchError) {
+        console.error('Database error:', searchError)
+        return NextResponse.json(
+          { error: "Failed to search opportunities" },
+          { status: 500 }
+        )
+      }
+
+      if (!matches || matches.length === 0) {
+        return NextResponse.json({
+          data: [],
+          pagination: { total: cursor ? null : 0, limit, offset, hasMore: false },
+          nextCursor: null
+        })
+      }
+
+      searchMatches = new Map(matches.map(match => [match.id, match]))
+      searchTotal = cursor ? null : matches[0].total_count
+      query = query.in('id', Array.from(searchMatches.keys()))
+    } else if (searchQuery) {
+      query = query.textSearch('search_vector', searchQuery, { type: 'websearch', config: 'english' })
+    }
+
+    // Apply sorting and keyset pagination (relevance is ordered by rank after the fetch).
+    // One extra row is fetched to tell whether another page follows.
+    if (sort !== 'relevance') {
+      const { column, ascending } = SORT_COLUMNS[sort]
+      const op = ascending ? 'gt' : 'lt'
+
+      if (cursor) {
+        if (cursor.key === null) {
+          query = query.is(column, null).filter('id', op, cursor.id)
+        } else {
+          const key = quoteFilterValue(String(cursor.key))
+          query = query.or(
+            `${column}.${op}.${key},and(${column}.eq.${key},id.${op}.${cursor.id}),${column}.is.null`
+          )
+        }
+      }
+
+      query = query
+        .order(column, { ascending, nullsFirst: false })
+        .order('id', { ascending })
+
+      query = cursor
+        ? query.limit(limit + 1)
+        : query.range(offset, offset + limit)
+    }
 
     // Execute query
     const { data, error, count } = await query
@@ -110,14 +246,62 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    let rows = data || []
+    if (searchQuery && sort !== 'relevance' && rows.length > 0) {
+      const { data: matches, error: snippetError } = await supabase.rpc('search_opportunities', {
+        search_query: searchQuery,
+        match_limit: rows.length,
+        p_ids: rows.map(row => row.id),
+      })
+
+      if (snippetError) {
+        console.error('Database error:', snippetError)
+        return NextResponse.json(
+          { error: "Failed to search opportunities" },
+          { status: 500 }
+        )
+      }
+
+      searchMatches = new Map((matches || []).map(match => [match.id, match]))
+    }
+
+    if (searchMatches) {
+      const matches = searchMatches
+      const ranked = rows.map(row => ({
+        ...row,
+        search_rank: matches.get(row.id)?.rank ?? 0,
+        search_snippet: matches.get(row.id)?.snippet ?? null,
+      }))
+
+      // The RPC already returned the relevance page in order
+      if (sort === 'relevance') {
+        const position = new Map(Array.from(matches.keys()).map((id, index) => [id, index]))
+        ranked.sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0))
+      }
+      rows = ranked
+    }
+
+    const hasMore = rows.length > limit
+    rows = rows.slice(0, limit)
+
+    const lastRow = rows[rows.length - 1]
+    let nextCursor: string | null = null
+    if (hasMore && lastRow) {
+      const key = sort === 'relevance'
+        ? searchMatches?.get(lastRow.id)?.rank ?? 0
+        : lastRow[SORT_COLUMNS[sort].column]
+      nextCursor = encodeCursor({ sort, key, id: lastRow.id })
+    }
+
     return NextResponse.json({
-      data: data || [],
+      data: rows,
       pagination: {
-        total: count || 0,
+        total: sort === 'relevance' ? searchTotal : count ?? null,
         limit,
         offset,
-        hasMore: (count || 0) > offset + limit
-      }
+        hasMore
+      },
+      nextCursor
     })
   } catch (error) {
     console.error('API error:', error)
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+
+/**
+ * GET /api/opportunities/saved
+ * The current user's saved opportunities, most recently saved first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized", details: authError?.message || "No user found" },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 200)
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    const { data, error, count } = await supabase
+      .from('saved_opportunities')
+      .select(`
+        created_at,
+        opportunities (
+          *,
+          users!submitted_by (
+            name
+          )
+        )
+      `, { count: 'exact' })
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to fetch saved opportunities" },
+        { status: 500 }
+      )
+    }
+
+    // Flatten to opportunities with the time they were saved.
+    // Rows whose opportunity is no longer visible (e.g. rejected) come back as null.
+    const saved = (data || [])
+      .filter((row: any) => row.opportunities)
+      .map((row: any) => ({
+        ...row.opportunities,
+        saved_at: row.created_at,
+      }))
+
+    return NextResponse.json({
+      data: saved,
+      pagination: {
+        total: count || 0,
+        limit,
+        offset,
+        hasMore: (count || 0) > offset + limit
+      }
+    })
+  } catch (error) {
+    console.error('API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
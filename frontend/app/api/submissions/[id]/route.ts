@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { SUBMISSION_JOB_FIELDS } from "@/lib/submissions"
+import { confirmSubmissionSchema } from "@/lib/validations/opportunity"
+
+interface RouteParams {
+  params: { id: string }
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Status of a queued submission (polled by the submit modal)
+ *
+ * GET /api/submissions/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    if (!UUID_REGEX.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid submission ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    // RLS limits this to the submitter's own jobs
+    const { data: job, error } = await supabase
+      .from('submission_jobs')
+      .select(SUBMISSION_JOB_FIELDS)
+      .eq('id', params.id)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return NextResponse.json(
+          { error: "Submission not found" },
+          { status: 404 }
+        )
+      }
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to fetch submission" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ data: job })
+  } catch (error) {
+    console.error('Submission status API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Answer a submission waiting for confirmation (resumes the job at the saving step)
+ *
+ * POST /api/submissions/[id]
+ * Body: { "confirm_duplicate": true }                          - submit anyway after seeing likely duplicates
+ *       { "confirmed_fields": { "deadline": "2025-12-01" } }    - confirm or correct low-confidence fields (null clears one)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    if (!UUID_REGEX.test(params.id)) {
+      return NextResponse.json(
+        { error: "Invalid submission ID format" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await request.json()
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      )
+    }
+
+    const validationResult = confirmSubmissionSchema.safeParse(body)
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: validationResult.error.errors.map(e => ({
+            field: e.path.join('.'),
+            message: e.message
+          }))
+        },
+        { status: 400 }
+      )
+    }
+
+    const { confirm_duplicate, confirmed_fields } = validationResult.data
+
+    const { data: confirmed, error } = await supabase.rpc('confirm_submission_job', {
+      job_id: params.id,
+      confirm_duplicate: confirm_duplicate === true,
+      ...(confirmed_fields ? { fields: confirmed_fields } : {}),
+    })
+
+    if (error) {
+      console.error('Database error:', error)
+      return NextResponse.json(
+        { error: "Failed to confirm submission" },
+        { status: 500 }
+      )
+    }
+
+    if (!confirmed) {
+      return NextResponse.json(
+        { error: "Submission is not waiting for confirmation" },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      message: confirm_duplicate ? "Submitting anyway" : "Thanks for checking, submitting now",
+    })
+  } catch (error) {
+    console.error('Submission confirm API error:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
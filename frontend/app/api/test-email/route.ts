@@ -3,13 +3,19 @@ import { createClient } from '@/lib/supabase/server'
 import { createClient as createServiceClient } from '@supabase/supabase-js'
 import { sendEmail, generateDailyDigestEmail, generateDeadlineReminderEmail, type Opportunity } from '@/lib/email/service'
 import { Database } from '@/lib/supabase/types'
+import { getEmailTransportName } from '@/lib/email/transports'
+import { getUnsubscribeHeaders } from '@/lib/email/unsubscribe'
 
 // Test endpoint to send test emails to all users with real opportunities
+// The response reports which transport (resend, smtp, file, console) handled them
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const { type = 'daily_digest' } = body
 
+    // Fails fast on an unknown EMAIL_TRANSPORT
+    const transport = getEmailTransportName()
+
     const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
 
     // Use service role client to bypass RLS for admin operations
@@ -30,14 +36,14 @@ export async function POST(request: NextRequest) {
     if (usersError) {
       console.error('Error fetching users:', usersError)
       return NextResponse.json(
-        { error: 'Failed to fetch users', details: usersError.message },
+        { error: 'Failed to fetch users', details: usersError.message, transport },
         { status: 500 }
       )
     }
 
     if (!users || users.length === 0) {
       return NextResponse.json(
-        { error: 'No users found with email notifications enabled' },
+        { error: 'No users found with email notifications enabled', transport },
         { status: 404 }
       )
     }
@@ -116,15 +122,22 @@ export async function POST(request: NextRequest) {
         let subject: string
 
         if (type === 'deadline_reminder') {
-          html = generateDeadlineReminderEmail(user.name || 'User', userOpportunities, appUrl)
+          html = generateDeadlineReminderEmail(user.name || 'User', userOpportunities, appUrl, user.id)
           subject = `⏰ Deadline Reminder - ${userOpportunities.length} ${userOpportunities.length === 1 ? 'Opportunity' : 'Opportunities'} Ending Soon`
         } else {
-          html = generateDailyDigestEmail(user.name || 'User', userOpportunities, appUrl)
+          html = generateDailyDigestEmail(user.name || 'User', userOpportunities, appUrl, user.id)
           subject = `Your Daily Opportunities Digest - ${userOpportunities.length} New ${userOpportunities.length === 1 ? 'Opportunity' : 'Opportunities'}`
         }
 
         // Send the email
-        const result = await sendEmail(user.email, subject, html)
+        const emailType = type === 'deadline_reminder' ? 'deadline_reminder' : 'daily_digest'
+        const result = await sendEmail(
+          user.email,
+          subject,
+          html,
+          undefined,
+          getUnsubscribeHeaders(appUrl, user.id, emailType)
+        )
 
         if (result.success) {
           successCount++
@@ -133,6 +146,7 @@ export async function POST(request: NextRequest) {
             name: user.name,
             success: true,
             messageId: result.messageId,
+            transport: result.transport,
           })
         } else {
           failCount++
@@ -162,6 +176,7 @@ export async function POST(request: NextRequest) {
       successCount,
       failCount,
       type,
+      transport,
       note: 'Opportunities are filtered by each user\'s major preference',
       results: results.slice(0, 10), // Return first 10 results to avoid huge response
     })
@@ -2,9 +2,9 @@ import { NextResponse } from 'next/server'
 import {
   parseJobPostingFromUrl,
   parseJobPostingFromText,
-  GeminiAPIError,
   RateLimitError,
 } from '@/lib/ai/gemini'
+import { ParserError } from '@/lib/ai/parser'
 
 /**
  * Test Gemini AI Parser
@@ -84,7 +84,7 @@ export async function GET(request: Request) {
       )
     }
 
-    if (error instanceof GeminiAPIError) {
+    if (error instanceof ParserError) {
       return NextResponse.json(
         {
           success: false,
@@ -165,7 +165,7 @@ export async function POST(request: Request) {
       )
     }
 
-    if (error instanceof GeminiAPIError) {
+    if (error instanceof ParserError) {
       return NextResponse.json(
         {
           success: false,
@@ -1,13 +1,20 @@
 import { scrapeUrl } from '@/backend/services';
 import { NextResponse } from 'next/server';
+import { getScrapeCache } from '@/lib/scrape-cache';
+import { getDomainStrategyStore } from '@/lib/domain-strategies';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const url = searchParams.get('url') || 'https://example.com';
   const force = searchParams.get('force') as 'cheerio' | 'puppeteer' | 'playwright' | null;
+  const bypassCache = searchParams.get('bypassCache') === 'true';
 
   try {
-    const options: any = {};
+    const options: any = {
+      bypassCache,
+      cache: getScrapeCache(),
+      strategies: getDomainStrategyStore(),
+    };
 
     if (force === 'cheerio') options.forceCheerio = true;
     if (force === 'puppeteer') options.forcePuppeteer = true;
@@ -22,6 +29,12 @@ export async function GET(request: Request) {
       method: result.method,
       fallbackChain: result.fallbackChain,
       fallbackUsed: result.fallbackUsed,
+      cached: result.cached,
+      fetchedAt: result.fetchedAt,
+      httpStatus: result.httpStatus,
+      contentHash: result.contentHash,
+      blockedByRobots: result.blockedByRobots,
+      blockedUrl: result.blockedUrl,
       contentLength: result.content.length,
       title: result.title,
       contentPreview: result.content.substring(0, 300),
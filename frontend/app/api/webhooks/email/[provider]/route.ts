@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import {
+  EmailWebhookError,
+  isEmailWebhookProvider,
+  parseEmailWebhook,
+  recordSuppression,
+} from '@/lib/email/suppressions'
+
+// Bounce and complaint events from the mail provider
+// Point Resend's webhook (email.bounced, email.complained) at /api/webhooks/email/resend,
+// or an SMTP provider/relay at /api/webhooks/email/smtp (see lib/email/suppressions.ts)
+
+interface RouteParams {
+  params: { provider: string }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    if (!isEmailWebhookProvider(params.provider)) {
+      return NextResponse.json({ error: 'Unknown email provider' }, { status: 404 })
+    }
+
+    // The signature covers the exact bytes sent, so read the body as text
+    const rawBody = await request.text()
+    const events = parseEmailWebhook(params.provider, rawBody, request.headers)
+
+    if (events.length === 0) {
+      return NextResponse.json({ message: 'Event ignored', suppressed: 0 })
+    }
+
+    // No session on a webhook: suppressions are written with the service role
+    const supabase = createServiceClient()
+    if (!supabase) {
+      return NextResponse.json({ error: 'SUPABASE_SERVICE_ROLE_KEY is not configured' }, { status: 503 })
+    }
+
+    for (const event of events) {
+      await recordSuppression(supabase, event)
+    }
+
+    return NextResponse.json({
+      message: 'Suppressions recorded',
+      suppressed: events.length,
+    })
+  } catch (error) {
+    if (error instanceof EmailWebhookError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error handling email webhook:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,135 @@
+'use client'
+
+import { Suspense, useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { CheckCircle2, MailX } from 'lucide-react'
+
+interface UnsubscribeLink {
+  email_type: string
+  label: string
+  subscribed: boolean
+}
+
+// Linked from the footer of digest and reminder emails; works without logging in.
+// Opening the page only checks the link: email scanners follow links, so the
+// preference changes on the button press.
+function UnsubscribeContent() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [link, setLink] = useState<UnsubscribeLink | null>(null)
+  const [verifying, setVerifying] = useState(true)
+  const [loading, setLoading] = useState(false)
+  const [done, setDone] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const verifyLink = async () => {
+      if (!token) {
+        setError('This unsubscribe link is missing its token.')
+        setVerifying(false)
+        return
+      }
+
+      try {
+        const response = await fetch(`/api/notifications/unsubscribe?token=${encodeURIComponent(token)}`, {
+          cache: 'no-store',
+        })
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(data.error || 'Invalid unsubscribe link')
+        }
+        setLink(data)
+        setDone(!data.subscribed)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Invalid unsubscribe link')
+      } finally {
+        setVerifying(false)
+      }
+    }
+
+    verifyLink()
+  }, [token])
+
+  const handleUnsubscribe = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/notifications/unsubscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unsubscribe')
+      }
+      setDone(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unsubscribe')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (verifying) {
+    return (
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Checking your link...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-md w-full bg-white rounded-lg shadow-xl border border-gray-200 p-8 text-center">
+      <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent mb-6">
+        Email Preferences
+      </h1>
+
+      {error ? (
+        <>
+          <MailX className="h-10 w-10 text-red-500 mx-auto mb-3" />
+          <p className="text-gray-700 mb-6">{error}</p>
+        </>
+      ) : done ? (
+        <>
+          <CheckCircle2 className="h-10 w-10 text-green-600 mx-auto mb-3" />
+          <p className="text-gray-700 mb-6">
+            You won&apos;t receive {link?.label} anymore.
+          </p>
+        </>
+      ) : (
+        <>
+          <p className="text-gray-700 mb-6">
+            Stop receiving {link?.label} from GDG Opportunities Hub?
+          </p>
+          <Button
+            onClick={handleUnsubscribe}
+            disabled={loading}
+            className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white font-semibold py-3 mb-6"
+          >
+            {loading ? 'Unsubscribing...' : 'Unsubscribe'}
+          </Button>
+        </>
+      )}
+
+      <p className="text-sm text-gray-500">
+        Manage all your emails in{' '}
+        <Link href="/settings?section=notifications" className="text-purple-600 hover:text-purple-700 font-semibold">
+          notification settings
+        </Link>
+      </p>
+    </div>
+  )
+}
+
+export default function UnsubscribePage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-blue-50 flex items-center justify-center p-4">
+      <Suspense>
+        <UnsubscribeContent />
+      </Suspense>
+    </div>
+  )
+}
@@ -1,13 +1,17 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 import toast from "react-hot-toast"
 import { format, formatDistanceToNow } from "date-fns"
 import { useAuth } from "@/hooks/useAuth"
 import { Opportunity } from "@/types"
-import { OPPORTUNITY_TYPES, OpportunityType } from "@/lib/constants"
+import {
+  OPPORTUNITY_TYPES,
+  OpportunityStatus,
+  OpportunityType,
+} from "@/lib/constants"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -27,6 +31,14 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import EditOpportunityModal from "./EditOpportunityModal"
+import ReviewQueue from "./ReviewQueue"
+import DuplicateCandidates from "./DuplicateCandidates"
+import PossiblyClosed from "./PossiblyClosed"
+import BulkImport from "./BulkImport"
+import BulkReparse from "./BulkReparse"
+import DomainStrategies from "./DomainStrategies"
+import EmailQueue from "./EmailQueue"
+import EmailSuppressions from "./EmailSuppressions"
 import {
   ShieldCheck,
   Briefcase,
@@ -41,16 +53,22 @@ import {
   Users as UsersIcon,
   AlertTriangle,
   Loader2,
+  Inbox,
 } from "lucide-react"
 
-type StatusFilter = "all" | "active" | "expired"
-type SortOption = "recent" | "deadline-asc" | "deadline-desc" | "company-asc"
+type StatusFilter = "all" | OpportunityStatus
+type AdminTab = "opportunities" | "review" | "duplicates" | "closed" | "import" | "reparse" | "scraping" | "email"
+type SortOption = "recent" | "deadline-asc" | "deadline-desc" | "company-asc" | "relevance"
 
 interface AdminStats {
   total: number
   active: number
   expired: number
+  pending: number
   users: number | null
+  duplicates: number
+  possiblyClosed: number
+  deadEmails: number
 }
 
 interface AdminOverviewResponse {
@@ -59,9 +77,10 @@ interface AdminOverviewResponse {
 }
 
 interface PaginationInfo {
-  total: number
+  total: number | null
   limit: number
   offset: number
+  hasMore: boolean
 }
 
 const PAGE_SIZE = 10
@@ -74,9 +93,18 @@ const typeLabels: Record<OpportunityType, string> = {
   scholarship: "Scholarship",
 }
 
-const statusChipClasses: Record<"active" | "expired", string> = {
+const statusChipClasses: Record<OpportunityStatus, string> = {
   active: "bg-green-100 text-green-700",
   expired: "bg-red-100 text-red-700",
+  pending_review: "bg-amber-100 text-amber-700",
+  rejected: "bg-gray-200 text-gray-700",
+}
+
+const statusLabels: Record<OpportunityStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  pending_review: "Pending review",
+  rejected: "Rejected",
 }
 
 const getSubmittedByName = (opportunity: Opportunity) => {
@@ -107,6 +135,7 @@ export default function AdminPanel() {
   const router = useRouter()
   const { user, loading: authLoading } = useAuth()
 
+  const [activeTab, setActiveTab] = useState<AdminTab>("opportunities")
   const [checkingAdmin, setCheckingAdmin] = useState(true)
   const [isAdmin, setIsAdmin] = useState(false)
   const [accessError, setAccessError] = useState<string | null>(null)
@@ -122,6 +151,8 @@ export default function AdminPanel() {
   const [tableError, setTableError] = useState<string | null>(null)
   const [pagination, setPagination] = useState<PaginationInfo | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
+  // Cursor that loads each page, indexed by page number - 1; page 1 has none
+  const pageCursorsRef = useRef<(string | null)[]>([null])
 
   const [search, setSearch] = useState("")
   const [debouncedSearch, setDebouncedSearch] = useState("")
@@ -233,15 +264,21 @@ export default function AdminPanel() {
       if (!isAdmin) return
       setTableLoading(true)
       setTableError(null)
-      const offset = (pageToFetch - 1) * PAGE_SIZE
+      if (pageToFetch === 1) {
+        pageCursorsRef.current = [null]
+      }
+      const cursor = pageCursorsRef.current[pageToFetch - 1] ?? null
       try {
         const params = new URLSearchParams({
           limit: PAGE_SIZE.toString(),
-          offset: offset.toString(),
           sort: sortOption,
           status: statusFilter,
         })
 
+        if (cursor) {
+          params.set("cursor", cursor)
+        }
+
         if (typeFilter !== "all") {
           params.set("type", typeFilter)
         }
@@ -268,7 +305,14 @@ export default function AdminPanel() {
 
         const data = await response.json()
         setOpportunities(data.data || [])
-        setPagination(data.pagination || { total: 0, limit: PAGE_SIZE, offset })
+        pageCursorsRef.current[pageToFetch] = data.nextCursor ?? null
+        // The total is only counted on the first page
+        setPagination((prev) => ({
+          total: data.pagination?.total ?? prev?.total ?? null,
+          limit: PAGE_SIZE,
+          offset: (pageToFetch - 1) * PAGE_SIZE,
+          hasMore: Boolean(data.nextCursor),
+        }))
         setCurrentPage(pageToFetch)
       } catch (error) {
         setTableError(
@@ -358,7 +402,7 @@ export default function AdminPanel() {
     fetchOpportunities(currentPage)
   }
 
-  const totalPages = pagination
+  const totalPages = pagination?.total
     ? Math.max(1, Math.ceil(pagination.total / (pagination.limit || PAGE_SIZE)))
     : 1
 
@@ -398,7 +442,7 @@ export default function AdminPanel() {
         </Button>
       </div>
 
-      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+      <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-5">
         {[
           {
             label: "Total Opportunities",
@@ -418,6 +462,12 @@ export default function AdminPanel() {
             icon: Clock3,
             accent: "from-orange-500 to-amber-500",
           },
+          {
+            label: "Pending Review",
+            value: stats?.pending ?? 0,
+            icon: Inbox,
+            accent: "from-amber-500 to-yellow-500",
+          },
           {
             label: "Registered Users",
             value: stats?.users ?? "—",
@@ -462,6 +512,80 @@ export default function AdminPanel() {
         </div>
       )}
 
+      <div className="flex gap-2 border-b border-gray-200">
+        {([
+          { id: "opportunities", label: "Opportunities" },
+          { id: "review", label: "Review Queue", count: stats?.pending },
+          { id: "duplicates", label: "Duplicates", count: stats?.duplicates },
+          { id: "closed", label: "Possibly Closed", count: stats?.possiblyClosed },
+          { id: "import", label: "Import" },
+          { id: "reparse", label: "Re-parse" },
+          { id: "scraping", label: "Scraping" },
+          { id: "email", label: "Email", count: stats?.deadEmails },
+        ] as { id: AdminTab; label: string; count?: number }[]).map((tab) => (
+          <button
+            key={tab.id}
+            type="button"
+            onClick={() => setActiveTab(tab.id)}
+            className={`-mb-px flex items-center gap-2 border-b-2 px-4 py-2 text-sm font-medium transition ${
+              activeTab === tab.id
+                ? "border-purple-600 text-purple-700"
+                : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            {tab.label}
+            {!!tab.count && (
+              <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-700">
+                {tab.count}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === "review" ? (
+        <ReviewQueue
+          onReviewed={() => {
+            fetchStats()
+            fetchOpportunities(currentPage)
+          }}
+        />
+      ) : activeTab === "duplicates" ? (
+        <DuplicateCandidates
+          onResolved={() => {
+            fetchStats()
+            fetchOpportunities(1)
+          }}
+        />
+      ) : activeTab === "closed" ? (
+        <PossiblyClosed
+          onResolved={() => {
+            fetchStats()
+            fetchOpportunities(currentPage)
+          }}
+        />
+      ) : activeTab === "import" ? (
+        <BulkImport
+          onImported={() => {
+            fetchStats()
+            fetchOpportunities(1)
+          }}
+        />
+      ) : activeTab === "reparse" ? (
+        <BulkReparse
+          onApplied={() => {
+            fetchOpportunities(currentPage)
+          }}
+        />
+      ) : activeTab === "scraping" ? (
+        <DomainStrategies />
+      ) : activeTab === "email" ? (
+        <div className="space-y-6">
+          <EmailQueue onRequeued={fetchStats} />
+          <EmailSuppressions />
+        </div>
+      ) : (
+      <>
       <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
         <div className="flex flex-wrap items-center justify-between gap-3">
           <div>
@@ -487,7 +611,7 @@ export default function AdminPanel() {
                 <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
                 <Input
                   id="search"
-                  placeholder="Search by company or title"
+                  placeholder="Search by company, title, or keyword"
                   className="pl-10"
                   value={search}
                   onChange={(event) => setSearch(event.target.value)}
@@ -522,6 +646,8 @@ export default function AdminPanel() {
                 <SelectItem value="all">All statuses</SelectItem>
                 <SelectItem value="active">Active</SelectItem>
                 <SelectItem value="expired">Expired</SelectItem>
+                <SelectItem value="pending_review">Pending review</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -562,6 +688,9 @@ export default function AdminPanel() {
                 <SelectItem value="deadline-asc">Deadline (soonest)</SelectItem>
                 <SelectItem value="deadline-desc">Deadline (latest)</SelectItem>
                 <SelectItem value="company-asc">Company (A-Z)</SelectItem>
+                <SelectItem value="relevance" disabled={!debouncedSearch}>
+                  Best match (search)
+                </SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -630,7 +759,7 @@ export default function AdminPanel() {
                       <span
                         className={`inline-flex rounded-full px-3 py-1 text-xs font-semibold ${statusChipClasses[opportunity.status]}`}
                       >
-                        {opportunity.status === "active" ? "Active" : "Expired"}
+                        {statusLabels[opportunity.status]}
                       </span>
                     </td>
                     <td className="px-4 py-4 text-gray-700">
@@ -710,7 +839,7 @@ export default function AdminPanel() {
                 size="sm"
                 onClick={() => fetchOpportunities(currentPage + 1)}
                 disabled={
-                  currentPage === totalPages ||
+                  !pagination?.hasMore ||
                   tableLoading ||
                   opportunities.length === 0
                 }
@@ -775,7 +904,7 @@ export default function AdminPanel() {
                     <span
                       className={`rounded-full px-3 py-1 text-xs font-semibold ${statusChipClasses[opportunity.status]}`}
                     >
-                      {opportunity.status === "active" ? "Active" : "Expired"}
+                      {statusLabels[opportunity.status]}
                     </span>
                     <Button variant="ghost" size="sm" asChild>
                       <Link href={`/opportunities/${opportunity.id}`}>
@@ -789,6 +918,8 @@ export default function AdminPanel() {
           )}
         </div>
       </section>
+      </>
+      )}
 
       <EditOpportunityModal
         open={editDialogOpen}
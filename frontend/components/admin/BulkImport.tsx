@@ -0,0 +1,537 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import Link from "next/link"
+import toast from "react-hot-toast"
+import { formatDistanceToNow } from "date-fns"
+import { OPPORTUNITY_TYPES, OpportunityType } from "@/lib/constants"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  AlertTriangle,
+  Download,
+  ExternalLink,
+  FileUp,
+  Inbox,
+  Link2,
+  Loader2,
+  Upload,
+} from "lucide-react"
+
+type ImportMode = "file" | "urls"
+type ImportRowStatus = "pending" | "processing" | "created" | "duplicate" | "failed"
+type ImportCounts = Record<ImportRowStatus, number>
+
+interface ImportJob {
+  id: string
+  source: "records" | "urls"
+  file_name: string | null
+  status: "pending" | "processing" | "completed"
+  total_rows: number
+  created_at: string | null
+  completed_at: string | null
+  counts: ImportCounts
+}
+
+interface ImportRow {
+  id: string
+  row_number: number
+  input: { url?: string; company_name?: string; job_title?: string }
+  status: ImportRowStatus
+  reason: string | null
+  opportunity_id: string | null
+}
+
+interface BulkImportProps {
+  // Called when an import creates opportunities so the parent can refresh stats and the table
+  onImported?: () => void
+}
+
+const POLL_INTERVAL_MS = 3000
+
+const typeLabels: Record<OpportunityType, string> = {
+  internship: "Internship",
+  full_time: "Full-time",
+  research: "Research",
+  fellowship: "Fellowship",
+  scholarship: "Scholarship",
+}
+
+const rowStatusClasses: Record<ImportRowStatus, string> = {
+  pending: "bg-gray-100 text-gray-600",
+  processing: "bg-blue-100 text-blue-700",
+  created: "bg-green-100 text-green-700",
+  duplicate: "bg-amber-100 text-amber-700",
+  failed: "bg-red-100 text-red-700",
+}
+
+const rowStatusLabels: Record<ImportRowStatus, string> = {
+  pending: "Queued",
+  processing: "Processing",
+  created: "Created",
+  duplicate: "Duplicate",
+  failed: "Failed",
+}
+
+const doneCount = (counts: ImportCounts) => counts.created + counts.duplicate + counts.failed
+
+/**
+ * Bulk import screen: upload a CSV/JSON file or paste URLs, then follow progress row by row
+ */
+export default function BulkImport({ onImported }: BulkImportProps) {
+  const [mode, setMode] = useState<ImportMode>("file")
+  const [file, setFile] = useState<File | null>(null)
+  const [urlText, setUrlText] = useState("")
+  const [opportunityType, setOpportunityType] = useState<OpportunityType | "auto">("auto")
+  const [submitting, setSubmitting] = useState(false)
+
+  const [recentJobs, setRecentJobs] = useState<ImportJob[]>([])
+  const [recentLoading, setRecentLoading] = useState(false)
+  const [recentError, setRecentError] = useState<string | null>(null)
+
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
+  const [activeJob, setActiveJob] = useState<(ImportJob & { rows: ImportRow[] }) | null>(null)
+  const [jobError, setJobError] = useState<string | null>(null)
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const lastCreatedRef = useRef(0)
+  // Kept in a ref so a new callback from the parent doesn't restart polling
+  const onImportedRef = useRef(onImported)
+  onImportedRef.current = onImported
+
+  const fetchRecentJobs = useCallback(async () => {
+    setRecentLoading(true)
+    setRecentError(null)
+    try {
+      const response = await fetch("/api/admin/import?limit=10", { cache: "no-store" })
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}))
+        throw new Error(errorPayload.error || "Failed to load imports")
+      }
+      const data = await response.json()
+      setRecentJobs(data.data || [])
+    } catch (error) {
+      setRecentError(error instanceof Error ? error.message : "Failed to load imports")
+    } finally {
+      setRecentLoading(false)
+    }
+  }, [])
+
+  const fetchJob = useCallback(async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/admin/import/${jobId}`, { cache: "no-store" })
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}))
+        throw new Error(errorPayload.error || "Failed to load import")
+      }
+      const data = await response.json()
+      setActiveJob(data.data)
+      setJobError(null)
+      return data.data as ImportJob
+    } catch (error) {
+      setJobError(error instanceof Error ? error.message : "Failed to load import")
+      return null
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRecentJobs()
+  }, [fetchRecentJobs])
+
+  // Poll the selected import until the background worker has finished every row
+  useEffect(() => {
+    if (!activeJobId) return
+
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+      const job = await fetchJob(activeJobId)
+      if (cancelled) return
+
+      if (job && job.counts.created > lastCreatedRef.current) {
+        lastCreatedRef.current = job.counts.created
+        onImportedRef.current?.()
+      }
+
+      if (job && job.status !== "completed") {
+        timer = setTimeout(poll, POLL_INTERVAL_MS)
+      } else if (job) {
+        fetchRecentJobs()
+      }
+    }
+
+    poll()
+
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [activeJobId, fetchJob, fetchRecentJobs])
+
+  const openJob = (job: ImportJob) => {
+    if (job.id === activeJobId) return
+    lastCreatedRef.current = job.counts.created
+    setActiveJob(null)
+    setActiveJobId(job.id)
+  }
+
+  const parsedUrls = urlText
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+  const canSubmit = mode === "file" ? !!file : parsedUrls.length > 0
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return
+    setSubmitting(true)
+    try {
+      let response: Response
+      if (mode === "file" && file) {
+        const formData = new FormData()
+        formData.append("file", file)
+        if (opportunityType !== "auto") {
+          formData.append("opportunity_type", opportunityType)
+        }
+        response = await fetch("/api/admin/import", { method: "POST", body: formData })
+      } else {
+        response = await fetch("/api/admin/import", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            urls: parsedUrls,
+            ...(opportunityType !== "auto" ? { opportunity_type: opportunityType } : {}),
+          }),
+        })
+      }
+
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(
+          result.message || result.details?.[0]?.message || result.error || "Import failed"
+        )
+      }
+
+      toast.success(result.message || "Import started")
+      setFile(null)
+      setUrlText("")
+      if (fileInputRef.current) fileInputRef.current.value = ""
+      fetchRecentJobs()
+      if (result.data) {
+        openJob(result.data)
+        if (result.data.counts?.created > 0) {
+          onImportedRef.current?.()
+        }
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Import failed")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const activeDone = activeJob ? doneCount(activeJob.counts) : 0
+  const activeProgress = activeJob && activeJob.total_rows > 0
+    ? Math.round((activeDone / activeJob.total_rows) * 100)
+    : 0
+  const hasProblems = !!activeJob && activeJob.counts.failed + activeJob.counts.duplicate > 0
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Bulk Import</h3>
+          <p className="text-sm text-gray-500">
+            Upload full records (CSV or JSON), or a list of URLs to scrape and parse in the background. Imported opportunities go live right away.
+          </p>
+        </div>
+
+        <div className="mt-4 flex gap-2">
+          {([
+            { id: "file", label: "Upload file", icon: FileUp },
+            { id: "urls", label: "Paste URLs", icon: Link2 },
+          ] as { id: ImportMode; label: string; icon: typeof FileUp }[]).map((option) => {
+            const Icon = option.icon
+            return (
+              <Button
+                key={option.id}
+                type="button"
+                variant={mode === option.id ? "default" : "outline"}
+                size="sm"
+                onClick={() => setMode(option.id)}
+              >
+                <Icon className="mr-1 h-4 w-4" />
+                {option.label}
+              </Button>
+            )
+          })}
+        </div>
+
+        <div className="mt-4 grid gap-4 md:grid-cols-[1fr_220px]">
+          {mode === "file" ? (
+            <div className="space-y-2">
+              <Label htmlFor="import-file">CSV or JSON file</Label>
+              <input
+                id="import-file"
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,.txt,text/csv,application/json,text/plain"
+                onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+                disabled={submitting}
+                className="block w-full text-sm text-gray-700 file:mr-3 file:rounded-md file:border-0 file:bg-purple-50 file:px-3 file:py-2 file:text-sm file:font-medium file:text-purple-700 hover:file:bg-purple-100"
+              />
+              <p className="text-xs text-gray-500">
+                Records need url, company_name, job_title and opportunity_type columns; role_type, relevant_majors (separated by ;), deadline (YYYY-MM-DD), location, requirements and description are optional. A single url column or one URL per line is imported as a URL list.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="import-urls">URLs (one per line)</Label>
+              <textarea
+                id="import-urls"
+                className="min-h-[140px] w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-purple-600 focus-visible:ring-offset-2"
+                placeholder={"https://boards.greenhouse.io/acme/jobs/123\nhttps://jobs.lever.co/acme/..."}
+                value={urlText}
+                onChange={(event) => setUrlText(event.target.value)}
+                disabled={submitting}
+              />
+              <p className="text-xs text-gray-500">
+                {parsedUrls.length} URL{parsedUrls.length === 1 ? "" : "s"}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Type for URL rows</Label>
+            <Select
+              value={opportunityType}
+              onValueChange={(value) => setOpportunityType(value as OpportunityType | "auto")}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect from posting</SelectItem>
+                {OPPORTUNITY_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {typeLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              className="w-full"
+              onClick={handleSubmit}
+              disabled={!canSubmit || submitting}
+            >
+              {submitting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Start Import
+            </Button>
+          </div>
+        </div>
+      </section>
+
+      {activeJobId && (
+        <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+          {!activeJob ? (
+            jobError ? (
+              <div className="flex flex-col items-center gap-3 py-8 text-center">
+                <AlertTriangle className="h-8 w-8 text-red-500" />
+                <p className="font-semibold text-gray-900">{jobError}</p>
+              </div>
+            ) : (
+              <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+                <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+                <span>Loading import...</span>
+              </div>
+            )
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">
+                    {activeJob.file_name || (activeJob.source === "urls" ? "URL list" : "Records")}
+                  </h3>
+                  <p className="text-sm text-gray-500">
+                    {activeDone} of {activeJob.total_rows} rows done
+                    {activeJob.status !== "completed" && activeJob.source === "urls"
+                      ? " · URLs are scraped in the background, a few each minute"
+                      : ""}
+                  </p>
+                </div>
+                {hasProblems && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={`/api/admin/import/${activeJob.id}/report`} download>
+                      <Download className="mr-1 h-4 w-4" />
+                      Download error report
+                    </a>
+                  </Button>
+                )}
+              </div>
+
+              <div className="mt-4 h-2 w-full overflow-hidden rounded-full bg-gray-100">
+                <div
+                  className="h-full rounded-full bg-gradient-to-r from-purple-500 to-blue-500 transition-all"
+                  style={{ width: `${activeProgress}%` }}
+                />
+              </div>
+
+              <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                {(Object.keys(rowStatusLabels) as ImportRowStatus[]).map((status) => (
+                  <span
+                    key={status}
+                    className={`rounded-full px-2 py-0.5 font-semibold ${rowStatusClasses[status]}`}
+                  >
+                    {rowStatusLabels[status]}: {activeJob.counts[status]}
+                  </span>
+                ))}
+              </div>
+
+              <div className="mt-4 max-h-[420px] overflow-auto rounded-xl border border-gray-100">
+                <table className="min-w-full divide-y divide-gray-100 text-sm">
+                  <thead className="sticky top-0 bg-gray-50">
+                    <tr className="text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      <th className="px-4 py-2">Row</th>
+                      <th className="px-4 py-2">Posting</th>
+                      <th className="px-4 py-2">Status</th>
+                      <th className="px-4 py-2">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {activeJob.rows.map((row) => (
+                      <tr key={row.id}>
+                        <td className="px-4 py-2 text-gray-500">{row.row_number}</td>
+                        <td className="max-w-xs px-4 py-2">
+                          {row.input.job_title && (
+                            <p className="font-medium text-gray-900">
+                              {row.input.job_title}
+                              {row.input.company_name ? ` · ${row.input.company_name}` : ""}
+                            </p>
+                          )}
+                          {row.input.url && (
+                            <a
+                              href={row.input.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex max-w-full items-center gap-1 text-purple-600 hover:underline"
+                            >
+                              <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                              <span className="truncate">{row.input.url}</span>
+                            </a>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          <span
+                            className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-semibold ${rowStatusClasses[row.status]}`}
+                          >
+                            {row.status === "processing" && (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            )}
+                            {rowStatusLabels[row.status]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">
+                          {row.reason}
+                          {row.opportunity_id && (
+                            <Link
+                              href={`/opportunities/${row.opportunity_id}`}
+                              className="ml-1 text-purple-600 hover:underline"
+                            >
+                              View
+                            </Link>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </section>
+      )}
+
+      <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900">Recent Imports</h3>
+        <div className="mt-4 space-y-2">
+          {recentLoading && recentJobs.length === 0 ? (
+            <div className="flex items-center justify-center gap-2 py-8 text-gray-500">
+              <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+              <span>Loading imports...</span>
+            </div>
+          ) : recentError ? (
+            <div className="flex flex-col items-center gap-3 py-8 text-center">
+              <AlertTriangle className="h-8 w-8 text-red-500" />
+              <p className="font-semibold text-gray-900">{recentError}</p>
+              <Button variant="outline" onClick={fetchRecentJobs}>
+                Retry
+              </Button>
+            </div>
+          ) : recentJobs.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-center">
+              <Inbox className="h-8 w-8 text-gray-400" />
+              <p className="text-gray-500">No imports yet.</p>
+            </div>
+          ) : (
+            recentJobs.map((job) => (
+              <button
+                key={job.id}
+                type="button"
+                onClick={() => openJob(job)}
+                className={`flex w-full flex-wrap items-center justify-between gap-2 rounded-lg border px-4 py-3 text-left text-sm transition hover:border-purple-200 hover:bg-purple-50/40 ${
+                  job.id === activeJobId ? "border-purple-300 bg-purple-50/60" : "border-gray-100"
+                }`}
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {job.file_name || (job.source === "urls" ? "URL list" : "Records")}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {job.created_at
+                      ? formatDistanceToNow(new Date(job.created_at), { addSuffix: true })
+                      : "Unknown date"}
+                    {" · "}
+                    {job.total_rows} row{job.total_rows === 1 ? "" : "s"}
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="rounded-full bg-green-100 px-2 py-0.5 font-semibold text-green-700">
+                    {job.counts.created} created
+                  </span>
+                  {job.counts.duplicate > 0 && (
+                    <span className="rounded-full bg-amber-100 px-2 py-0.5 font-semibold text-amber-700">
+                      {job.counts.duplicate} duplicate
+                    </span>
+                  )}
+                  {job.counts.failed > 0 && (
+                    <span className="rounded-full bg-red-100 px-2 py-0.5 font-semibold text-red-700">
+                      {job.counts.failed} failed
+                    </span>
+                  )}
+                  {job.status !== "completed" && (
+                    <span className="inline-flex items-center gap-1 rounded-full bg-blue-100 px-2 py-0.5 font-semibold text-blue-700">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      {doneCount(job.counts)}/{job.total_rows}
+                    </span>
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,373 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import Link from "next/link"
+import toast from "react-hot-toast"
+import { formatDistanceToNow } from "date-fns"
+import { OPPORTUNITY_TYPES, OpportunityType } from "@/lib/constants"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AlertTriangle, ExternalLink, Inbox, Loader2, RefreshCw } from "lucide-react"
+import ReparseDiff, { type ReparseFieldDiff } from "./ReparseDiff"
+
+type ReparseCounts = Record<"pending" | "processing" | "ready" | "failed", number>
+type StatusFilter = "active" | "expired" | "pending_review" | "rejected" | "any"
+
+interface ReparseResult {
+  id: string
+  opportunity_id: string
+  batch_id: string | null
+  parser: string | null
+  completed_at: string | null
+  opportunity: {
+    id: string
+    url: string
+    company_name: string
+    job_title: string
+  } | null
+  diff: ReparseFieldDiff[]
+}
+
+interface BulkReparseProps {
+  // Called after fields are applied so the parent can refresh the table
+  onApplied?: () => void
+}
+
+const PAGE_SIZE = 20
+const POLL_INTERVAL_MS = 5000
+
+const typeLabels: Record<OpportunityType, string> = {
+  internship: "Internship",
+  full_time: "Full-time",
+  research: "Research",
+  fellowship: "Fellowship",
+  scholarship: "Scholarship",
+}
+
+const statusLabels: Record<StatusFilter, string> = {
+  active: "Active",
+  expired: "Expired",
+  pending_review: "Pending review",
+  rejected: "Rejected",
+  any: "Any status",
+}
+
+const emptyCounts: ReparseCounts = { pending: 0, processing: 0, ready: 0, failed: 0 }
+
+/**
+ * Bulk re-parse screen: queue a filtered set (e.g. after a prompt change), then review results one by one
+ */
+export default function BulkReparse({ onApplied }: BulkReparseProps) {
+  const [status, setStatus] = useState<StatusFilter>("active")
+  const [opportunityType, setOpportunityType] = useState<OpportunityType | "any">("any")
+  const [company, setCompany] = useState("")
+  const [createdAfter, setCreatedAfter] = useState("")
+  const [createdBefore, setCreatedBefore] = useState("")
+  const [limit, setLimit] = useState("100")
+  const [refresh, setRefresh] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+
+  const [results, setResults] = useState<ReparseResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [counts, setCounts] = useState<ReparseCounts>(emptyCounts)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Kept in a ref so a new callback from the parent doesn't restart polling
+  const onAppliedRef = useRef(onApplied)
+  onAppliedRef.current = onApplied
+
+  const fetchResults = useCallback(async (showLoading = true) => {
+    if (showLoading) setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/reparses?status=ready&limit=${PAGE_SIZE}`, {
+        cache: "no-store",
+      })
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}))
+        throw new Error(errorPayload.error || "Failed to load re-parse results")
+      }
+      const data = await response.json()
+      setResults(data.data || [])
+      setTotal(data.pagination?.total || 0)
+      setCounts(data.counts || emptyCounts)
+      return (data.counts || emptyCounts) as ReparseCounts
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load re-parse results")
+      return null
+    } finally {
+      if (showLoading) setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchResults()
+  }, [fetchResults])
+
+  // Keep polling while the background worker still has re-parses queued
+  const inFlight = counts.pending + counts.processing
+  useEffect(() => {
+    if (inFlight === 0) return
+
+    const timer = setTimeout(() => {
+      fetchResults(false)
+    }, POLL_INTERVAL_MS)
+
+    return () => clearTimeout(timer)
+  }, [inFlight, counts, fetchResults])
+
+  const handleSubmit = async () => {
+    const parsedLimit = parseInt(limit, 10)
+    if (Number.isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 500) {
+      toast.error("Limit must be between 1 and 500")
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const response = await fetch("/api/admin/reparses", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(status !== "any" ? { status } : {}),
+          ...(opportunityType !== "any" ? { opportunity_type: opportunityType } : {}),
+          ...(company.trim() ? { company: company.trim() } : {}),
+          ...(createdAfter ? { created_after: createdAfter } : {}),
+          ...(createdBefore ? { created_before: createdBefore } : {}),
+          refresh,
+          limit: parsedLimit,
+        }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || "Failed to queue re-parse")
+      }
+      toast.success(result.message || "Re-parse queued")
+      fetchResults(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to queue re-parse")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleResolved = (reparseId: string, applied: boolean) => {
+    setResults((prev) => prev.filter((item) => item.id !== reparseId))
+    setTotal((prev) => Math.max(prev - 1, 0))
+    setCounts((prev) => ({ ...prev, ready: Math.max(prev.ready - 1, 0) }))
+    if (applied) {
+      onAppliedRef.current?.()
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Bulk Re-parse</h3>
+          <p className="text-sm text-gray-500">
+            Run existing postings through the parser again (e.g. after a prompt change).
+            Nothing changes until you apply a result.
+          </p>
+        </div>
+
+        <div className="mt-4 grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(statusLabels) as StatusFilter[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {statusLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select
+              value={opportunityType}
+              onValueChange={(value) => setOpportunityType(value as OpportunityType | "any")}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any type</SelectItem>
+                {OPPORTUNITY_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {typeLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reparse-company">Company contains</Label>
+            <Input
+              id="reparse-company"
+              value={company}
+              onChange={(event) => setCompany(event.target.value)}
+              placeholder="Any company"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reparse-created-after">Created on or after</Label>
+            <Input
+              id="reparse-created-after"
+              type="date"
+              value={createdAfter}
+              onChange={(event) => setCreatedAfter(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reparse-created-before">Created on or before</Label>
+            <Input
+              id="reparse-created-before"
+              type="date"
+              value={createdBefore}
+              onChange={(event) => setCreatedBefore(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reparse-limit">At most (newest first)</Label>
+            <Input
+              id="reparse-limit"
+              type="number"
+              min={1}
+              max={500}
+              value={limit}
+              onChange={(event) => setLimit(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={refresh}
+              onChange={(event) => setRefresh(event.target.checked)}
+              disabled={submitting}
+            />
+            Re-fetch pages (skip the scrape cache)
+          </label>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Queue re-parse
+          </Button>
+        </div>
+
+        {(inFlight > 0 || counts.failed > 0) && (
+          <p className="mt-3 text-sm text-gray-500">
+            {inFlight > 0 && (
+              <span className="inline-flex items-center gap-1">
+                <Loader2 className="h-3 w-3 animate-spin text-purple-600" />
+                {inFlight} queued
+              </span>
+            )}
+            {inFlight > 0 && counts.failed > 0 && " · "}
+            {counts.failed > 0 && <span className="text-red-600">{counts.failed} failed</span>}
+          </p>
+        )}
+      </section>
+
+      <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Results to review</h3>
+            <p className="text-sm text-gray-500">
+              {total > 0
+                ? `${total} re-parse${total === 1 ? "" : "s"} waiting`
+                : "Tick the fields to keep, then apply."}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => fetchResults()} disabled={loading}>
+            Refresh
+          </Button>
+        </div>
+
+        <div className="mt-4">
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+              <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+              <span>Loading results...</span>
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center gap-3 py-8 text-center">
+              <AlertTriangle className="h-8 w-8 text-red-500" />
+              <p className="font-semibold text-gray-900">{error}</p>
+              <Button variant="outline" size="sm" onClick={() => fetchResults()}>
+                Retry
+              </Button>
+            </div>
+          ) : results.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-center">
+              <Inbox className="h-8 w-8 text-gray-400" />
+              <p className="text-sm text-gray-500">No re-parse results waiting for review.</p>
+            </div>
+          ) : (
+            <ul className="space-y-4">
+              {results.map((result) => (
+                <li key={result.id} className="rounded-xl border border-gray-100 p-4">
+                  <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      {result.opportunity ? (
+                        <Link
+                          href={`/opportunities/${result.opportunity.id}`}
+                          className="font-semibold text-gray-900 hover:text-purple-700"
+                        >
+                          {result.opportunity.job_title} · {result.opportunity.company_name}
+                        </Link>
+                      ) : (
+                        <span className="font-semibold text-gray-500">Deleted opportunity</span>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        {result.parser ? `Parsed with ${result.parser}` : "Parsed"}
+                        {result.completed_at &&
+                          ` ${formatDistanceToNow(new Date(result.completed_at), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                    {result.opportunity && (
+                      <a
+                        href={result.opportunity.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700"
+                      >
+                        Posting
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </div>
+                  <ReparseDiff
+                    reparseId={result.id}
+                    diff={result.diff}
+                    onResolved={(updated) => handleResolved(result.id, !!updated)}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,385 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import toast from "react-hot-toast"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  AlertTriangle,
+  Globe,
+  Loader2,
+  Lock,
+  Pencil,
+  Pin,
+  Search,
+  Trash2,
+} from "lucide-react"
+
+type ScrapeMethod = "cheerio" | "puppeteer" | "playwright"
+
+interface DomainStrategy {
+  domain: string
+  preferred_method: ScrapeMethod | null
+  requires_manual: boolean
+  pinned: boolean
+  success_count: number
+  failure_count: number
+  last_method: ScrapeMethod | null
+  avg_content_length: number | null
+  avg_duration_ms: number | null
+  last_success_at: string | null
+  last_failure_at: string | null
+  last_error: string | null
+  notes: string | null
+}
+
+interface StrategyForm {
+  domain: string
+  preferred_method: ScrapeMethod | "auto"
+  requires_manual: boolean
+  pinned: boolean
+  notes: string
+}
+
+const methodLabels: Record<ScrapeMethod, string> = {
+  cheerio: "Cheerio (static HTML)",
+  puppeteer: "Puppeteer (renders JS)",
+  playwright: "Playwright",
+}
+
+const emptyForm: StrategyForm = {
+  domain: "",
+  preferred_method: "auto",
+  requires_manual: false,
+  pinned: true,
+  notes: "",
+}
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return "—"
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`
+}
+
+/**
+ * Per-domain scraping strategies: what the scraper learned, plus admin pins and overrides
+ */
+export default function DomainStrategies() {
+  const [strategies, setStrategies] = useState<DomainStrategy[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState("")
+  const [form, setForm] = useState<StrategyForm>(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [removingDomain, setRemovingDomain] = useState<string | null>(null)
+
+  const fetchStrategies = useCallback(async (query: string) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams()
+      if (query.trim()) params.set("search", query.trim())
+      const response = await fetch(`/api/admin/domain-strategies?${params.toString()}`, {
+        cache: "no-store",
+      })
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}))
+        throw new Error(errorPayload.error || "Failed to load domain strategies")
+      }
+      const data = await response.json()
+      setStrategies(data.data || [])
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to load domain strategies"
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Debounce search so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => fetchStrategies(search), 300)
+    return () => clearTimeout(timer)
+  }, [search, fetchStrategies])
+
+  const handleSave = async () => {
+    if (!form.domain.trim()) return
+    setSaving(true)
+    try {
+      const response = await fetch("/api/admin/domain-strategies", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          domain: form.domain.trim(),
+          preferred_method: form.preferred_method === "auto" ? null : form.preferred_method,
+          requires_manual: form.requires_manual,
+          pinned: form.pinned,
+          notes: form.notes.trim() || null,
+        }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        const details = result.details?.map((d: { message: string }) => d.message).join(", ")
+        throw new Error(details || result.error || "Failed to save strategy")
+      }
+      toast.success(result.message || "Strategy saved")
+      setForm(emptyForm)
+      fetchStrategies(search)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save strategy")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (domain: string) => {
+    if (!confirm(`Forget everything learned about ${domain}?`)) return
+    setRemovingDomain(domain)
+    try {
+      const response = await fetch(
+        `/api/admin/domain-strategies?domain=${encodeURIComponent(domain)}`,
+        { method: "DELETE" }
+      )
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to remove strategy")
+      }
+      toast.success(result.message || "Strategy removed")
+      setStrategies((prev) => prev.filter((item) => item.domain !== domain))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to remove strategy")
+    } finally {
+      setRemovingDomain(null)
+    }
+  }
+
+  const editStrategy = (strategy: DomainStrategy) => {
+    setForm({
+      domain: strategy.domain,
+      preferred_method: strategy.preferred_method ?? "auto",
+      requires_manual: strategy.requires_manual,
+      pinned: strategy.pinned,
+      notes: strategy.notes ?? "",
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Scraping Strategies</h3>
+          <p className="text-sm text-gray-500">
+            Each scrape records which method worked for the site, and the next scrape starts with it. Pin a method to stop it changing, or mark a site manual-paste only.
+          </p>
+        </div>
+
+        <form
+          className="mt-6 grid gap-4 md:grid-cols-[1fr_220px]"
+          onSubmit={(event) => {
+            event.preventDefault()
+            handleSave()
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="strategy-domain">Domain</Label>
+            <Input
+              id="strategy-domain"
+              placeholder="jobs.example.com"
+              value={form.domain}
+              onChange={(event) => setForm((prev) => ({ ...prev, domain: event.target.value }))}
+              disabled={saving}
+            />
+            <Label htmlFor="strategy-notes">Notes</Label>
+            <Input
+              id="strategy-notes"
+              placeholder="Why this override exists"
+              value={form.notes}
+              onChange={(event) => setForm((prev) => ({ ...prev, notes: event.target.value }))}
+              disabled={saving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Start with</Label>
+            <Select
+              value={form.preferred_method}
+              onValueChange={(value) =>
+                setForm((prev) => ({ ...prev, preferred_method: value as StrategyForm["preferred_method"] }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Method" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Default order</SelectItem>
+                {(Object.keys(methodLabels) as ScrapeMethod[]).map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {methodLabels[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.pinned}
+                onChange={(event) => setForm((prev) => ({ ...prev, pinned: event.target.checked }))}
+                disabled={saving}
+              />
+              Pin (don&apos;t learn from results)
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.requires_manual}
+                onChange={(event) =>
+                  setForm((prev) => ({ ...prev, requires_manual: event.target.checked }))
+                }
+                disabled={saving}
+              />
+              Manual paste only
+            </label>
+            <Button type="submit" className="w-full" disabled={saving || !form.domain.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Strategy
+            </Button>
+          </div>
+        </form>
+      </section>
+
+      <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+        <div className="relative max-w-sm">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            className="pl-9"
+            placeholder="Search domains"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+          />
+        </div>
+
+        <div className="mt-4 overflow-x-auto">
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+              <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+              <span>Loading strategies...</span>
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center gap-3 py-8 text-center">
+              <AlertTriangle className="h-8 w-8 text-red-500" />
+              <p className="font-semibold text-gray-900">{error}</p>
+              <Button variant="outline" onClick={() => fetchStrategies(search)}>
+                Retry
+              </Button>
+            </div>
+          ) : strategies.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-center">
+              <Globe className="h-8 w-8 text-gray-400" />
+              <p className="text-gray-500">No domains recorded yet.</p>
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-100 text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                  <th className="px-4 py-2">Domain</th>
+                  <th className="px-4 py-2">Strategy</th>
+                  <th className="px-4 py-2">Results</th>
+                  <th className="px-4 py-2">Avg content / time</th>
+                  <th className="px-4 py-2">Last success</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {strategies.map((strategy) => (
+                  <tr key={strategy.domain}>
+                    <td className="px-4 py-2">
+                      <p className="font-medium text-gray-900">{strategy.domain}</p>
+                      {strategy.notes && (
+                        <p className="text-xs text-gray-500">{strategy.notes}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex flex-wrap items-center gap-1">
+                        {strategy.requires_manual ? (
+                          <span className="inline-flex items-center gap-1 rounded-full bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-700">
+                            <Lock className="h-3 w-3" />
+                            Manual paste
+                          </span>
+                        ) : (
+                          <span className="rounded-full bg-purple-100 px-2 py-0.5 text-xs font-semibold text-purple-700">
+                            {strategy.preferred_method ?? "default order"}
+                          </span>
+                        )}
+                        {strategy.pinned && (
+                          <span className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-semibold text-gray-700">
+                            <Pin className="h-3 w-3" />
+                            Pinned
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">
+                      <span className="text-green-700">{strategy.success_count} ok</span>
+                      {" · "}
+                      <span
+                        className={strategy.failure_count ? "text-red-600" : ""}
+                        title={strategy.last_error ?? undefined}
+                      >
+                        {strategy.failure_count} failed
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {strategy.avg_content_length !== null
+                        ? `${strategy.avg_content_length.toLocaleString()} chars`
+                        : "—"}
+                      {" · "}
+                      {formatDuration(strategy.avg_duration_ms)}
+                    </td>
+                    <td className="px-4 py-2 text-gray-500">
+                      {strategy.last_success_at
+                        ? `${formatDistanceToNow(new Date(strategy.last_success_at), { addSuffix: true })}${strategy.last_method ? ` (${strategy.last_method})` : ""}`
+                        : "Never"}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => editStrategy(strategy)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => handleRemove(strategy.domain)}
+                          disabled={removingDomain === strategy.domain}
+                        >
+                          {removingDomain === strategy.domain ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </section>
+    </div>
+  )
+}
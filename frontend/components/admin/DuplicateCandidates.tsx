@@ -0,0 +1,283 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import toast from "react-hot-toast"
+import { format, formatDistanceToNow } from "date-fns"
+import type { OpportunityStatus } from "@/lib/constants"
+import { Button } from "@/components/ui/button"
+import {
+  AlertTriangle,
+  Copy,
+  ExternalLink,
+  GitMerge,
+  Inbox,
+  Loader2,
+  X,
+} from "lucide-react"
+
+interface PairOpportunity {
+  id: string
+  company_name: string
+  job_title: string
+  location: string | null
+  url: string
+  status: OpportunityStatus
+  deadline: string | null
+  created_at: string | null
+  users?: { name: string } | null
+}
+
+interface DuplicateCandidate {
+  id: string
+  score: number
+  reasons: string[]
+  created_at: string | null
+  opportunity: PairOpportunity // The newer submission
+  existing: PairOpportunity
+}
+
+type DuplicateDecision =
+  | { action: "merge"; keep: "opportunity" | "duplicate_of" }
+  | { action: "dismiss" }
+
+interface DuplicateCandidatesProps {
+  // Called after any merge/dismiss so the parent can refresh stats and the table
+  onResolved?: () => void
+}
+
+const PAGE_SIZE = 20
+
+const statusClasses: Record<OpportunityStatus, string> = {
+  active: "bg-green-100 text-green-700",
+  expired: "bg-gray-100 text-gray-600",
+  pending_review: "bg-amber-100 text-amber-700",
+  rejected: "bg-red-100 text-red-700",
+}
+
+const statusLabels: Record<OpportunityStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  pending_review: "Pending review",
+  rejected: "Rejected",
+}
+
+function PairSide({ label, opportunity }: { label: string; opportunity: PairOpportunity }) {
+  return (
+    <div className="min-w-0 rounded-lg border border-gray-100 bg-white p-3">
+      <div className="mb-1 flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+          {label}
+        </span>
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-semibold ${statusClasses[opportunity.status]}`}
+        >
+          {statusLabels[opportunity.status]}
+        </span>
+      </div>
+      <Link
+        href={`/opportunities/${opportunity.id}`}
+        className="block font-semibold text-gray-900 hover:text-purple-600"
+      >
+        {opportunity.job_title}
+      </Link>
+      <p className="text-sm text-gray-600">
+        {opportunity.company_name}
+        {opportunity.location ? ` · ${opportunity.location}` : ""}
+      </p>
+      <p className="text-xs text-gray-500">
+        {opportunity.deadline
+          ? `Deadline ${format(new Date(`${opportunity.deadline}T00:00:00`), "MMM dd, yyyy")}`
+          : "No deadline"}
+        {opportunity.users?.name ? ` · by ${opportunity.users.name}` : ""}
+      </p>
+      <a
+        href={opportunity.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="mt-1 inline-flex max-w-full items-center gap-1 truncate text-sm text-purple-600 hover:underline"
+      >
+        <ExternalLink className="h-3 w-3 flex-shrink-0" />
+        <span className="truncate">{opportunity.url}</span>
+      </a>
+    </div>
+  )
+}
+
+/**
+ * Likely duplicate pairs flagged at submission time, with merge/dismiss actions
+ */
+export default function DuplicateCandidates({ onResolved }: DuplicateCandidatesProps) {
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [actionId, setActionId] = useState<string | null>(null)
+
+  const fetchCandidates = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/duplicates?limit=${PAGE_SIZE}`, {
+        cache: "no-store",
+      })
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}))
+        throw new Error(errorPayload.error || "Failed to load duplicates")
+      }
+      const data = await response.json()
+      setCandidates(data.data || [])
+      setTotal(data.pagination?.total || 0)
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to load duplicates"
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCandidates()
+  }, [fetchCandidates])
+
+  const handleDecision = async (candidate: DuplicateCandidate, decision: DuplicateDecision) => {
+    setActionId(candidate.id)
+    try {
+      const response = await fetch(`/api/admin/duplicates/${candidate.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(decision),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to resolve duplicate")
+      }
+      toast.success(result.message || "Duplicate resolved")
+
+      if (decision.action === "merge") {
+        // The merged row is gone, so every pair that mentioned it is gone too
+        fetchCandidates()
+      } else {
+        setCandidates((prev) => prev.filter((item) => item.id !== candidate.id))
+        setTotal((prev) => Math.max(0, prev - 1))
+      }
+      onResolved?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to resolve duplicate")
+    } finally {
+      setActionId(null)
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">
+            Possible Duplicates
+          </h3>
+          <p className="text-sm text-gray-500">
+            Submitted anyway after a duplicate warning. Merging keeps one row and moves saved lists and applications to it.
+          </p>
+        </div>
+        <span className="rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-700">
+          {total} to check
+        </span>
+      </div>
+
+      <div className="mt-6 space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+            <span>Loading duplicates...</span>
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center gap-3 py-8 text-center">
+            <AlertTriangle className="h-8 w-8 text-red-500" />
+            <p className="font-semibold text-gray-900">{error}</p>
+            <Button variant="outline" onClick={fetchCandidates}>
+              Retry
+            </Button>
+          </div>
+        ) : candidates.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-12 text-center">
+            <Inbox className="h-8 w-8 text-gray-400" />
+            <p className="text-gray-500">No possible duplicates to check.</p>
+          </div>
+        ) : (
+          candidates.map((candidate) => {
+            const isBusy = actionId === candidate.id
+            return (
+              <div
+                key={candidate.id}
+                className="rounded-xl border border-gray-100 bg-gray-50 p-4"
+              >
+                <div className="mb-3 flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Copy className="h-4 w-4 text-amber-600" />
+                    <span className="font-semibold text-gray-900">
+                      {Math.round(candidate.score * 100)}% match
+                    </span>
+                    {candidate.reasons.map((reason) => (
+                      <span
+                        key={reason}
+                        className="rounded-full bg-white px-2 py-0.5 text-xs text-gray-600 border border-gray-200"
+                      >
+                        {reason}
+                      </span>
+                    ))}
+                  </div>
+                  <span className="text-gray-500">
+                    {candidate.created_at
+                      ? formatDistanceToNow(new Date(candidate.created_at), { addSuffix: true })
+                      : "Unknown date"}
+                  </span>
+                </div>
+
+                <div className="grid gap-3 md:grid-cols-2">
+                  <PairSide label="New submission" opportunity={candidate.opportunity} />
+                  <PairSide label="Existing" opportunity={candidate.existing} />
+                </div>
+
+                <div className="mt-4 flex flex-wrap items-center justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-gray-600 hover:text-gray-900"
+                    onClick={() => handleDecision(candidate, { action: "dismiss" })}
+                    disabled={isBusy}
+                  >
+                    <X className="mr-1 h-4 w-4" />
+                    Not a duplicate
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDecision(candidate, { action: "merge", keep: "opportunity" })}
+                    disabled={isBusy}
+                  >
+                    <GitMerge className="mr-1 h-4 w-4" />
+                    Keep new
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleDecision(candidate, { action: "merge", keep: "duplicate_of" })}
+                    disabled={isBusy}
+                  >
+                    {isBusy ? (
+                      <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                    ) : (
+                      <GitMerge className="mr-1 h-4 w-4" />
+                    )}
+                    Keep existing
+                  </Button>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </section>
+  )
+}
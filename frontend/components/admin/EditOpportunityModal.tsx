@@ -4,7 +4,7 @@ import { useEffect, useMemo, useState } from "react"
 import { useForm, Controller } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import toast from "react-hot-toast"
-import { Loader2, Plus } from "lucide-react"
+import { History, Loader2, Plus } from "lucide-react"
 import {
   Dialog,
   DialogContent,
@@ -34,12 +34,15 @@ import {
   EditOpportunityFormData,
   editOpportunitySchema,
 } from "@/lib/validations/opportunity"
+import RevisionHistory from "./RevisionHistory"
 
 interface EditOpportunityModalProps {
   open: boolean
   opportunity: Opportunity | null
   onOpenChange: (open: boolean) => void
   onSuccess?: (updated: Opportunity) => void
+  // "approve" saves the edits and publishes a pending submission in one step
+  mode?: "edit" | "approve"
 }
 
 const typeLabels: Record<OpportunityType, string> = {
@@ -94,7 +97,7 @@ const getDefaultValues = (
   job_title: opportunity?.job_title ?? "",
   opportunity_type:
     (opportunity?.opportunity_type as OpportunityType) ?? "internship",
-  status: (opportunity?.status as "active" | "expired") ?? "active",
+  status: opportunity?.status === "expired" ? "expired" : "active",
   deadline: formatDateInputValue(opportunity?.deadline ?? null),
   description: opportunity?.description ?? "",
   requirements: opportunity?.requirements ?? "",
@@ -118,8 +121,11 @@ export default function EditOpportunityModal({
   opportunity,
   onOpenChange,
   onSuccess,
+  mode = "edit",
 }: EditOpportunityModalProps) {
+  const isApproveMode = mode === "approve"
   const [majorInput, setMajorInput] = useState("")
+  const [showHistory, setShowHistory] = useState(false)
 
   const {
     register,
@@ -167,13 +173,23 @@ export default function EditOpportunityModal({
     if (!opportunity) return
 
     try {
-      const response = await fetch(`/api/opportunities/${opportunity.id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(data),
-      })
+      // Status is set by the review endpoint, not the form
+      const { status: _status, ...updates } = data
+      const response = isApproveMode
+        ? await fetch(`/api/admin/review/${opportunity.id}`, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ action: "approve", updates }),
+          })
+        : await fetch(`/api/opportunities/${opportunity.id}`, {
+            method: "PUT",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(data),
+          })
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}))
@@ -182,8 +198,13 @@ export default function EditOpportunityModal({
         )
       }
 
-      const updated = (await response.json()) as Opportunity
-      toast.success("Opportunity updated successfully")
+      const result = await response.json()
+      const updated = (isApproveMode ? result.data : result) as Opportunity
+      toast.success(
+        isApproveMode
+          ? "Opportunity approved and published"
+          : "Opportunity updated successfully"
+      )
       onSuccess?.(updated)
       onOpenChange(false)
     } catch (error) {
@@ -206,12 +227,35 @@ export default function EditOpportunityModal({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
         <DialogHeader>
-          <DialogTitle>Edit Opportunity</DialogTitle>
+          <DialogTitle>
+            {isApproveMode ? "Edit & Approve Submission" : "Edit Opportunity"}
+          </DialogTitle>
           <DialogDescription>
-            Update the opportunity details below. All fields are required.
+            {isApproveMode
+              ? "Fix anything the scraper got wrong, then approve to publish it. All fields are required."
+              : "Update the opportunity details below. All fields are required."}
           </DialogDescription>
+          {!isApproveMode && opportunity && (
+            <div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setShowHistory((prev) => !prev)}
+              >
+                <History className="mr-2 h-4 w-4" />
+                {showHistory ? "Back to editing" : "History"}
+              </Button>
+            </div>
+          )}
         </DialogHeader>
 
+        {showHistory && opportunity ? (
+          <RevisionHistory
+            opportunityId={opportunity.id}
+            onReverted={(updated) => onSuccess?.(updated)}
+          />
+        ) : (
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
           <div className="grid gap-4 md:grid-cols-2">
             <div className="space-y-2">
@@ -275,6 +319,7 @@ export default function EditOpportunityModal({
               )}
             </div>
 
+            {!isApproveMode && (
             <div className="space-y-2">
               <Label>Status</Label>
               <Controller
@@ -302,6 +347,7 @@ export default function EditOpportunityModal({
                 </p>
               )}
             </div>
+            )}
           </div>
 
   <div className="grid gap-4 md:grid-cols-2">
@@ -476,10 +522,11 @@ export default function EditOpportunityModal({
             </Button>
             <Button type="submit" disabled={!isValid || isSubmitting}>
               {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Save Changes
+              {isApproveMode ? "Save & Approve" : "Save Changes"}
             </Button>
           </DialogFooter>
         </form>
+        )}
       </DialogContent>
     </Dialog>
   )
@@ -0,0 +1,360 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import toast from "react-hot-toast"
+import { format, formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertTriangle,
+  Eye,
+  Inbox,
+  Loader2,
+  MailX,
+  RotateCcw,
+} from "lucide-react"
+
+type EmailQueueStatus = "pending" | "processing" | "sent" | "dead" | "suppressed"
+
+interface QueuedEmail {
+  id: string
+  email_type: string
+  subject: string
+  status: EmailQueueStatus
+  error_message: string | null
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  scheduled_for: string
+  processed_at: string | null
+  created_at: string | null
+  updated_at: string | null
+  users?: { name: string | null; email: string } | null
+}
+
+interface QueuedEmailDetail extends QueuedEmail {
+  html_content: string
+  text_content: string | null
+}
+
+interface EmailQueueProps {
+  // Called after emails are requeued so the parent can refresh stats
+  onRequeued?: () => void
+}
+
+const PAGE_SIZE = 20
+
+const statusLabels: Record<EmailQueueStatus, string> = {
+  dead: "Dead",
+  pending: "Pending",
+  processing: "Processing",
+  sent: "Sent",
+  suppressed: "Suppressed",
+}
+
+const statusClasses: Record<EmailQueueStatus, string> = {
+  dead: "bg-red-100 text-red-700",
+  pending: "bg-gray-100 text-gray-600",
+  processing: "bg-blue-100 text-blue-700",
+  sent: "bg-green-100 text-green-700",
+  suppressed: "bg-amber-100 text-amber-700",
+}
+
+const emailTypeLabels: Record<string, string> = {
+  daily_digest: "Daily digest",
+  deadline_reminder: "Deadline reminder",
+  submission_rejected: "Submission rejected",
+  search_alert: "Search alert",
+}
+
+function describeTiming(email: QueuedEmail) {
+  if (email.status === "pending") {
+    return email.attempts > 0
+      ? `Retry ${formatDistanceToNow(new Date(email.next_attempt_at), { addSuffix: true })}`
+      : `Due ${formatDistanceToNow(new Date(email.next_attempt_at), { addSuffix: true })}`
+  }
+  const at = email.processed_at || email.updated_at
+  return at ? `Updated ${formatDistanceToNow(new Date(at), { addSuffix: true })}` : ""
+}
+
+/**
+ * Outgoing email queue by status, with a preview of each email and requeue for dead ones
+ */
+export default function EmailQueue({ onRequeued }: EmailQueueProps) {
+  const [status, setStatus] = useState<EmailQueueStatus>("dead")
+  const [emails, setEmails] = useState<QueuedEmail[]>([])
+  const [counts, setCounts] = useState<Record<EmailQueueStatus, number> | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [actionId, setActionId] = useState<string | null>(null)
+  const [requeueingAll, setRequeueingAll] = useState(false)
+  const [preview, setPreview] = useState<QueuedEmailDetail | null>(null)
+  const [previewLoadingId, setPreviewLoadingId] = useState<string | null>(null)
+
+  const fetchEmails = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(
+        `/api/admin/email-queue?status=${status}&limit=${PAGE_SIZE}`,
+        { cache: "no-store" }
+      )
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}))
+        throw new Error(errorPayload.error || "Failed to load the email queue")
+      }
+      const data = await response.json()
+      setEmails(data.data || [])
+      setCounts(data.counts || null)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load the email queue")
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    fetchEmails()
+  }, [fetchEmails])
+
+  const handlePreview = async (email: QueuedEmail) => {
+    setPreviewLoadingId(email.id)
+    try {
+      const response = await fetch(`/api/admin/email-queue/${email.id}`, { cache: "no-store" })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to load email")
+      }
+      setPreview(result.data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load email")
+    } finally {
+      setPreviewLoadingId(null)
+    }
+  }
+
+  const handleRequeue = async (email: QueuedEmail) => {
+    setActionId(email.id)
+    try {
+      const response = await fetch(`/api/admin/email-queue/${email.id}`, { method: "POST" })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to requeue email")
+      }
+      toast.success(result.message || "Email requeued")
+
+      setEmails((prev) => prev.filter((item) => item.id !== email.id))
+      setCounts((prev) => prev && { ...prev, dead: Math.max(0, prev.dead - 1), pending: prev.pending + 1 })
+      if (preview?.id === email.id) setPreview(null)
+      onRequeued?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to requeue email")
+    } finally {
+      setActionId(null)
+    }
+  }
+
+  const handleRequeueAll = async () => {
+    setRequeueingAll(true)
+    try {
+      const response = await fetch("/api/admin/email-queue", { method: "POST" })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to requeue dead emails")
+      }
+      toast.success(result.message || "Dead emails requeued")
+      await fetchEmails()
+      onRequeued?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to requeue dead emails")
+    } finally {
+      setRequeueingAll(false)
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">
+            Email Queue
+          </h3>
+          <p className="text-sm text-gray-500">
+            Failed sends are retried with backoff. Emails that run out of attempts are dead until you requeue them.
+          </p>
+        </div>
+        {status === "dead" && !!counts?.dead && (
+          <Button size="sm" onClick={handleRequeueAll} disabled={requeueingAll}>
+            {requeueingAll ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <RotateCcw className="mr-1 h-4 w-4" />
+            )}
+            Requeue all dead
+          </Button>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {(Object.keys(statusLabels) as EmailQueueStatus[]).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setStatus(value)}
+            className={`rounded-full border px-3 py-1 text-sm font-medium transition ${
+              status === value
+                ? "border-purple-600 bg-purple-50 text-purple-700"
+                : "border-gray-200 text-gray-600 hover:border-gray-300"
+            }`}
+          >
+            {statusLabels[value]}
+            {counts && <span className="ml-1 text-xs text-gray-500">{counts[value]}</span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-6 space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+            <span>Loading emails...</span>
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center gap-3 py-8 text-center">
+            <AlertTriangle className="h-8 w-8 text-red-500" />
+            <p className="font-semibold text-gray-900">{error}</p>
+            <Button variant="outline" onClick={fetchEmails}>
+              Retry
+            </Button>
+          </div>
+        ) : emails.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-12 text-center">
+            <Inbox className="h-8 w-8 text-gray-400" />
+            <p className="text-gray-500">No {statusLabels[status].toLowerCase()} emails.</p>
+          </div>
+        ) : (
+          emails.map((email) => {
+            const isBusy = actionId === email.id
+            return (
+              <div
+                key={email.id}
+                className="rounded-xl border border-gray-100 bg-gray-50 p-4"
+              >
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-900">{email.subject}</p>
+                    <p className="text-sm text-gray-600">
+                      {email.users?.email || "Unknown recipient"}
+                      {email.users?.name ? ` · ${email.users.name}` : ""}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {emailTypeLabels[email.email_type] || email.email_type}
+                      {" · "}
+                      Scheduled {format(new Date(email.scheduled_for), "MMM dd, yyyy h:mm a")}
+                    </p>
+                  </div>
+                  <div className="text-right text-sm">
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${statusClasses[email.status]}`}>
+                      {statusLabels[email.status]}
+                    </span>
+                    <p className="mt-1 text-gray-500">
+                      {email.attempts} of {email.max_attempts} attempts
+                    </p>
+                    <p className="text-xs text-gray-500">{describeTiming(email)}</p>
+                  </div>
+                </div>
+
+                {email.error_message && (
+                  <p className="mt-3 flex items-start gap-2 rounded-lg border border-red-100 bg-white p-2 text-sm text-red-700">
+                    <MailX className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                    <span className="break-all">{email.error_message}</span>
+                  </p>
+                )}
+
+                <div className="mt-4 flex flex-wrap items-center justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handlePreview(email)}
+                    disabled={previewLoadingId === email.id}
+                  >
+                    {previewLoadingId === email.id ? (
+                      <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Eye className="mr-1 h-4 w-4" />
+                    )}
+                    View
+                  </Button>
+                  {email.status === "dead" && (
+                    <Button
+                      size="sm"
+                      onClick={() => handleRequeue(email)}
+                      disabled={isBusy}
+                    >
+                      {isBusy ? (
+                        <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="mr-1 h-4 w-4" />
+                      )}
+                      Requeue
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.subject}</DialogTitle>
+            <DialogDescription>
+              To {preview?.users?.email || "unknown recipient"}
+              {preview ? ` · ${statusLabels[preview.status]} after ${preview.attempts} of ${preview.max_attempts} attempts` : ""}
+            </DialogDescription>
+          </DialogHeader>
+          {preview && (
+            <div className="space-y-4">
+              {preview.error_message && (
+                <p className="rounded-lg border border-red-100 bg-red-50 p-3 text-sm text-red-700 break-all">
+                  {preview.error_message}
+                </p>
+              )}
+              {/* Sandboxed so the email's markup can't run scripts or reach the admin session */}
+              <iframe
+                title="Email preview"
+                sandbox=""
+                srcDoc={preview.html_content}
+                className="h-[28rem] w-full rounded-lg border border-gray-200 bg-white"
+              />
+              {preview.status === "dead" && (
+                <div className="flex justify-end">
+                  <Button
+                    size="sm"
+                    onClick={() => handleRequeue(preview)}
+                    disabled={actionId === preview.id}
+                  >
+                    {actionId === preview.id ? (
+                      <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-1 h-4 w-4" />
+                    )}
+                    Requeue
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </section>
+  )
+}
@@ -0,0 +1,236 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import toast from "react-hot-toast"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  AlertTriangle,
+  Ban,
+  ChevronDown,
+  ChevronUp,
+  Inbox,
+  Loader2,
+  Search,
+  Undo2,
+} from "lucide-react"
+
+interface EmailSuppression {
+  id: string
+  email: string
+  reason: "bounce" | "complaint"
+  provider: string
+  event_id: string | null
+  event_type: string
+  message_id: string | null
+  details: string | null
+  payload: unknown
+  created_at: string | null
+  updated_at: string | null
+  users?: { name: string | null } | null
+}
+
+const PAGE_SIZE = 20
+
+const reasonLabels: Record<EmailSuppression["reason"], string> = {
+  bounce: "Hard bounce",
+  complaint: "Spam complaint",
+}
+
+/**
+ * Addresses the mail provider reported as bouncing or complaining, with the event behind each and a way to lift it
+ */
+export default function EmailSuppressions() {
+  const [suppressions, setSuppressions] = useState<EmailSuppression[]>([])
+  const [total, setTotal] = useState(0)
+  const [search, setSearch] = useState("")
+  const [appliedSearch, setAppliedSearch] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [actionId, setActionId] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const fetchSuppressions = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+      if (appliedSearch) params.set("search", appliedSearch)
+      const response = await fetch(`/api/admin/email-suppressions?${params}`, {
+        cache: "no-store",
+      })
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}))
+        throw new Error(errorPayload.error || "Failed to load suppressed addresses")
+      }
+      const data = await response.json()
+      setSuppressions(data.data || [])
+      setTotal(data.pagination?.total || 0)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load suppressed addresses")
+    } finally {
+      setLoading(false)
+    }
+  }, [appliedSearch])
+
+  useEffect(() => {
+    fetchSuppressions()
+  }, [fetchSuppressions])
+
+  const handleLift = async (suppression: EmailSuppression) => {
+    setActionId(suppression.id)
+    try {
+      const response = await fetch(`/api/admin/email-suppressions/${suppression.id}`, {
+        method: "DELETE",
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to lift suppression")
+      }
+      toast.success(result.message || "Suppression lifted")
+
+      setSuppressions((prev) => prev.filter((item) => item.id !== suppression.id))
+      setTotal((prev) => Math.max(0, prev - 1))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to lift suppression")
+    } finally {
+      setActionId(null)
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">
+            Suppressed Addresses
+          </h3>
+          <p className="text-sm text-gray-500">
+            Hard bounces and spam complaints reported by the mail provider. Queued emails to these addresses are skipped.
+          </p>
+        </div>
+        <span className="rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-700">
+          {total} suppressed
+        </span>
+      </div>
+
+      <form
+        className="mt-4 flex flex-col gap-2 sm:flex-row"
+        onSubmit={(event) => {
+          event.preventDefault()
+          setAppliedSearch(search.trim())
+        }}
+      >
+        <Input
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Search by email address"
+          aria-label="Search suppressed addresses"
+        />
+        <Button type="submit" variant="outline">
+          <Search className="mr-1 h-4 w-4" />
+          Search
+        </Button>
+      </form>
+
+      <div className="mt-6 space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+            <span>Loading suppressed addresses...</span>
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center gap-3 py-8 text-center">
+            <AlertTriangle className="h-8 w-8 text-red-500" />
+            <p className="font-semibold text-gray-900">{error}</p>
+            <Button variant="outline" onClick={fetchSuppressions}>
+              Retry
+            </Button>
+          </div>
+        ) : suppressions.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-12 text-center">
+            <Inbox className="h-8 w-8 text-gray-400" />
+            <p className="text-gray-500">
+              {appliedSearch ? "No suppressed addresses match that search." : "No suppressed addresses."}
+            </p>
+          </div>
+        ) : (
+          suppressions.map((suppression) => {
+            const isBusy = actionId === suppression.id
+            const isExpanded = expandedId === suppression.id
+            return (
+              <div
+                key={suppression.id}
+                className="rounded-xl border border-gray-100 bg-gray-50 p-4"
+              >
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="break-all font-semibold text-gray-900">{suppression.email}</p>
+                    <p className="text-sm text-gray-600">
+                      {suppression.users?.name || "No matching account"}
+                    </p>
+                    {suppression.details && (
+                      <p className="mt-1 text-sm text-gray-500">{suppression.details}</p>
+                    )}
+                  </div>
+                  <div className="text-right text-sm">
+                    <span className="inline-flex items-center gap-1 rounded-full bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-700">
+                      <Ban className="h-3 w-3" />
+                      {reasonLabels[suppression.reason]}
+                    </span>
+                    <p className="mt-1 text-gray-500">
+                      {suppression.event_type} via {suppression.provider}
+                    </p>
+                    {suppression.updated_at && (
+                      <p className="text-xs text-gray-500">
+                        {formatDistanceToNow(new Date(suppression.updated_at), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-3 space-y-1 text-xs text-gray-600">
+                    {suppression.event_id && <p>Event: {suppression.event_id}</p>}
+                    {suppression.message_id && <p>Message: {suppression.message_id}</p>}
+                    <pre className="max-h-64 overflow-auto rounded-lg border border-gray-200 bg-white p-3 text-gray-700">
+                      {JSON.stringify(suppression.payload, null, 2)}
+                    </pre>
+                  </div>
+                )}
+
+                <div className="mt-4 flex flex-wrap items-center justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setExpandedId(isExpanded ? null : suppression.id)}
+                  >
+                    {isExpanded ? (
+                      <ChevronUp className="mr-1 h-4 w-4" />
+                    ) : (
+                      <ChevronDown className="mr-1 h-4 w-4" />
+                    )}
+                    {isExpanded ? "Hide event" : "Show event"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleLift(suppression)}
+                    disabled={isBusy}
+                  >
+                    {isBusy ? (
+                      <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Undo2 className="mr-1 h-4 w-4" />
+                    )}
+                    Lift suppression
+                  </Button>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import toast from "react-hot-toast"
+import { format, formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import {
+  AlertTriangle,
+  Archive,
+  CheckCircle2,
+  ExternalLink,
+  Inbox,
+  Loader2,
+  SearchX,
+} from "lucide-react"
+
+interface FlaggedOpportunity {
+  id: string
+  company_name: string
+  job_title: string
+  location: string | null
+  url: string
+  deadline: string | null
+  created_at: string | null
+  last_checked_at: string | null
+  check_failures: number
+  possibly_closed_reason: string | null
+  users?: { name: string } | null
+}
+
+type ClosedCheckAction = "expire" | "keep_open"
+
+interface PossiblyClosedProps {
+  // Called after any expire/keep open so the parent can refresh stats and the table
+  onResolved?: () => void
+}
+
+const PAGE_SIZE = 20
+
+// Reasons recorded by the re-validation cron (backend/services/posting-status.ts)
+const reasonLabels: Record<string, string> = {
+  ats_not_listed: "No longer listed on the job board",
+  redirected_to_listing: "Redirects to a listing page",
+  closed_notice: "Page mentions the posting is closed",
+  unreachable: "Couldn't be reached on recent checks",
+}
+
+function describeReason(opportunity: FlaggedOpportunity) {
+  const reason = opportunity.possibly_closed_reason
+  if (!reason) return "Flagged by the last check"
+  if (reason === "unreachable") {
+    return `${reasonLabels.unreachable} (${opportunity.check_failures} in a row)`
+  }
+  return reasonLabels[reason] || reason
+}
+
+/**
+ * Active opportunities the re-validation cron thinks may have closed, with expire/keep open actions
+ */
+export default function PossiblyClosed({ onResolved }: PossiblyClosedProps) {
+  const [opportunities, setOpportunities] = useState<FlaggedOpportunity[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [actionId, setActionId] = useState<string | null>(null)
+
+  const fetchFlagged = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/closed-checks?limit=${PAGE_SIZE}`, {
+        cache: "no-store",
+      })
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}))
+        throw new Error(errorPayload.error || "Failed to load possibly closed postings")
+      }
+      const data = await response.json()
+      setOpportunities(data.data || [])
+      setTotal(data.pagination?.total || 0)
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to load possibly closed postings"
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchFlagged()
+  }, [fetchFlagged])
+
+  const handleDecision = async (opportunity: FlaggedOpportunity, action: ClosedCheckAction) => {
+    setActionId(opportunity.id)
+    try {
+      const response = await fetch(`/api/admin/closed-checks/${opportunity.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update opportunity")
+      }
+      toast.success(result.message || "Opportunity updated")
+
+      setOpportunities((prev) => prev.filter((item) => item.id !== opportunity.id))
+      setTotal((prev) => Math.max(0, prev - 1))
+      onResolved?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update opportunity")
+    } finally {
+      setActionId(null)
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">
+            Possibly Closed
+          </h3>
+          <p className="text-sm text-gray-500">
+            Active postings whose latest check looked closed. Clear closures are expired automatically; these need a second look.
+          </p>
+        </div>
+        <span className="rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-700">
+          {total} to check
+        </span>
+      </div>
+
+      <div className="mt-6 space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+            <span>Loading postings...</span>
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center gap-3 py-8 text-center">
+            <AlertTriangle className="h-8 w-8 text-red-500" />
+            <p className="font-semibold text-gray-900">{error}</p>
+            <Button variant="outline" onClick={fetchFlagged}>
+              Retry
+            </Button>
+          </div>
+        ) : opportunities.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-12 text-center">
+            <Inbox className="h-8 w-8 text-gray-400" />
+            <p className="text-gray-500">No postings flagged as possibly closed.</p>
+          </div>
+        ) : (
+          opportunities.map((opportunity) => {
+            const isBusy = actionId === opportunity.id
+            return (
+              <div
+                key={opportunity.id}
+                className="rounded-xl border border-gray-100 bg-gray-50 p-4"
+              >
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <Link
+                      href={`/opportunities/${opportunity.id}`}
+                      className="block font-semibold text-gray-900 hover:text-purple-600"
+                    >
+                      {opportunity.job_title}
+                    </Link>
+                    <p className="text-sm text-gray-600">
+                      {opportunity.company_name}
+                      {opportunity.location ? ` · ${opportunity.location}` : ""}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {opportunity.deadline
+                        ? `Deadline ${format(new Date(`${opportunity.deadline}T00:00:00`), "MMM dd, yyyy")}`
+                        : "No deadline"}
+                      {opportunity.users?.name ? ` · by ${opportunity.users.name}` : ""}
+                    </p>
+                    <a
+                      href={opportunity.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="mt-1 inline-flex max-w-full items-center gap-1 truncate text-sm text-purple-600 hover:underline"
+                    >
+                      <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                      <span className="truncate">{opportunity.url}</span>
+                    </a>
+                  </div>
+                  <div className="text-right text-sm">
+                    <span className="inline-flex items-center gap-1 rounded-full bg-white px-2 py-0.5 text-xs text-gray-600 border border-gray-200">
+                      <SearchX className="h-3 w-3 text-amber-600" />
+                      {describeReason(opportunity)}
+                    </span>
+                    <p className="mt-1 text-gray-500">
+                      {opportunity.last_checked_at
+                        ? `Checked ${formatDistanceToNow(new Date(opportunity.last_checked_at), { addSuffix: true })}`
+                        : "Not checked yet"}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="mt-4 flex flex-wrap items-center justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDecision(opportunity, "keep_open")}
+                    disabled={isBusy}
+                  >
+                    <CheckCircle2 className="mr-1 h-4 w-4" />
+                    Still open
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleDecision(opportunity, "expire")}
+                    disabled={isBusy}
+                  >
+                    {isBusy ? (
+                      <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Archive className="mr-1 h-4 w-4" />
+                    )}
+                    Mark expired
+                  </Button>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Opportunity } from "@/types"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react"
+import ReparseDiff, { type ReparseFieldDiff } from "./ReparseDiff"
+
+interface ReparseResult {
+  id: string
+  diff: ReparseFieldDiff[]
+  changed_fields: string[]
+  parser: string
+  scrape_method: string
+  cached: boolean
+}
+
+interface ReparseDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  opportunityId: string
+  // Called with the updated opportunity after fields are applied
+  onApplied?: (updated: Opportunity) => void
+}
+
+/**
+ * Re-run scrape → parse on one opportunity and review the diff (admin only)
+ */
+export default function ReparseDialog({
+  open,
+  onOpenChange,
+  opportunityId,
+  onApplied,
+}: ReparseDialogProps) {
+  const [refresh, setRefresh] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<ReparseResult | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      setResult(null)
+      setError(null)
+      setRefresh(false)
+    }
+  }, [open])
+
+  const runReparse = async () => {
+    setRunning(true)
+    setError(null)
+    setResult(null)
+    try {
+      const response = await fetch(`/api/opportunities/${opportunityId}/reparse`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refresh }),
+      })
+      const payload = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(payload.error || "Failed to re-parse opportunity")
+      }
+      setResult(payload.data)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to re-parse opportunity")
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Re-parse Opportunity</DialogTitle>
+          <DialogDescription>
+            Run the posting through the parser again and choose which new values to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={refresh}
+              onChange={(event) => setRefresh(event.target.checked)}
+              disabled={running}
+            />
+            Re-fetch the page (skip the scrape cache)
+          </label>
+          <Button onClick={runReparse} disabled={running} size="sm">
+            {running ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            {result ? "Run again" : "Re-parse"}
+          </Button>
+        </div>
+
+        {running && (
+          <div className="flex items-center justify-center gap-2 py-8 text-gray-500">
+            <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+            <span>Scraping and parsing...</span>
+          </div>
+        )}
+
+        {error && !running && (
+          <div className="flex items-center gap-2 rounded-lg border border-red-100 bg-red-50 p-3 text-sm text-red-700">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {result && !running && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">
+              Parsed with {result.parser} from {result.cached ? "the cached page" : `a fresh ${result.scrape_method} scrape`}
+            </p>
+            <ReparseDiff
+              key={result.id}
+              reparseId={result.id}
+              diff={result.diff}
+              showUnchanged
+              onResolved={(updated) => {
+                if (updated) {
+                  onApplied?.(updated)
+                }
+                onOpenChange(false)
+              }}
+            />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
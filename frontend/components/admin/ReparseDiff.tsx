@@ -0,0 +1,162 @@
+"use client"
+
+import { useState } from "react"
+import toast from "react-hot-toast"
+import type { Json } from "@/lib/supabase/types"
+import { Opportunity } from "@/types"
+import { Button } from "@/components/ui/button"
+import { Check, Loader2, X } from "lucide-react"
+
+export interface ReparseFieldDiff {
+  field: string
+  current: Json
+  proposed: Json
+  changed: boolean
+}
+
+interface ReparseDiffProps {
+  reparseId: string
+  diff: ReparseFieldDiff[]
+  // Show unchanged fields too (the single re-parse dialog does; the bulk list doesn't)
+  showUnchanged?: boolean
+  // Called after apply (with the updated opportunity) or dismiss
+  onResolved?: (updated: Opportunity | null) => void
+}
+
+const fieldLabels: Record<string, string> = {
+  company_name: "Company",
+  job_title: "Title",
+  opportunity_type: "Type",
+  role_type: "Role type",
+  relevant_majors: "Majors",
+  deadline: "Deadline",
+  requirements: "Requirements",
+  location: "Location",
+  description: "Description",
+}
+
+function formatValue(value: Json) {
+  if (value === null || value === "") return "(empty)"
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "(empty)"
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Current vs. re-parsed values side by side; admins tick the fields to apply
+ */
+export default function ReparseDiff({
+  reparseId,
+  diff,
+  showUnchanged = false,
+  onResolved,
+}: ReparseDiffProps) {
+  const changedFields = diff.filter((item) => item.changed).map((item) => item.field)
+  const [selected, setSelected] = useState<string[]>(changedFields)
+  const [submitting, setSubmitting] = useState<"apply" | "dismiss" | null>(null)
+
+  const rows = showUnchanged ? diff : diff.filter((item) => item.changed)
+
+  const toggleField = (field: string) => {
+    setSelected((prev) =>
+      prev.includes(field) ? prev.filter((item) => item !== field) : [...prev, field]
+    )
+  }
+
+  const resolve = async (action: "apply" | "dismiss") => {
+    setSubmitting(action)
+    try {
+      const response = await fetch(`/api/admin/reparses/${reparseId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action === "apply" ? { action, fields: selected } : { action }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update re-parse")
+      }
+      toast.success(result.message || (action === "apply" ? "Changes applied" : "Re-parse dismissed"))
+      onResolved?.(action === "apply" && result.data ? (result.data as Opportunity) : null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update re-parse")
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {changedFields.length === 0 && (
+        <p className="text-sm text-gray-500">The new parse matches the current data.</p>
+      )}
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto rounded-lg border border-gray-100">
+          <table className="min-w-full divide-y divide-gray-100 text-sm">
+            <thead className="bg-gray-50 text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+              <tr>
+                <th className="w-10 px-3 py-2" />
+                <th className="px-3 py-2">Field</th>
+                <th className="px-3 py-2">Current</th>
+                <th className="px-3 py-2">Re-parsed</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((item) => (
+                <tr key={item.field} className={item.changed ? "bg-white" : "bg-gray-50 text-gray-500"}>
+                  <td className="px-3 py-2 align-top">
+                    {item.changed && (
+                      <input
+                        type="checkbox"
+                        aria-label={`Apply ${fieldLabels[item.field] || item.field}`}
+                        checked={selected.includes(item.field)}
+                        onChange={() => toggleField(item.field)}
+                        disabled={submitting !== null}
+                      />
+                    )}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-2 align-top font-medium text-gray-700">
+                    {fieldLabels[item.field] || item.field}
+                  </td>
+                  <td className="max-w-xs whitespace-pre-line break-words px-3 py-2 align-top">
+                    <span className={item.changed ? "text-red-700" : ""}>{formatValue(item.current)}</span>
+                  </td>
+                  <td className="max-w-xs whitespace-pre-line break-words px-3 py-2 align-top">
+                    <span className={item.changed ? "text-green-700" : ""}>{formatValue(item.proposed)}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => resolve("dismiss")}
+          disabled={submitting !== null}
+        >
+          {submitting === "dismiss" ? (
+            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+          ) : (
+            <X className="mr-1 h-4 w-4" />
+          )}
+          Dismiss
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => resolve("apply")}
+          disabled={submitting !== null || selected.length === 0}
+        >
+          {submitting === "apply" ? (
+            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+          ) : (
+            <Check className="mr-1 h-4 w-4" />
+          )}
+          Apply {selected.length > 0 ? `${selected.length} field${selected.length === 1 ? "" : "s"}` : "selected"}
+        </Button>
+      </div>
+    </div>
+  )
+}
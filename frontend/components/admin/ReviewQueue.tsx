@@ -0,0 +1,528 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import toast from "react-hot-toast"
+import { formatDistanceToNow } from "date-fns"
+import { Opportunity } from "@/types"
+import { OpportunityType } from "@/lib/constants"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import EditOpportunityModal from "./EditOpportunityModal"
+import {
+  AlertTriangle,
+  BadgeCheck,
+  Check,
+  Edit,
+  ExternalLink,
+  Inbox,
+  Loader2,
+  UserMinus,
+  UserPlus,
+  X,
+} from "lucide-react"
+
+interface Submitter {
+  id: string
+  name: string
+  email: string
+  is_trusted_submitter: boolean | null
+}
+
+type PendingOpportunity = Omit<Opportunity, "users"> & {
+  users?: Submitter | null
+}
+
+interface TrustedSubmitter {
+  id: string
+  name: string
+  email: string
+}
+
+interface ReviewQueueProps {
+  // Called after any approve/reject so the parent can refresh stats
+  onReviewed?: () => void
+}
+
+const PAGE_SIZE = 20
+
+const typeLabels: Record<OpportunityType, string> = {
+  internship: "Internship",
+  full_time: "Full-time",
+  research: "Research",
+  fellowship: "Fellowship",
+  scholarship: "Scholarship",
+}
+
+export default function ReviewQueue({ onReviewed }: ReviewQueueProps) {
+  const [pending, setPending] = useState<PendingOpportunity[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [actionId, setActionId] = useState<string | null>(null)
+
+  const [editDialogOpen, setEditDialogOpen] = useState(false)
+  const [opportunityToEdit, setOpportunityToEdit] = useState<PendingOpportunity | null>(null)
+
+  const [rejectDialogOpen, setRejectDialogOpen] = useState(false)
+  const [opportunityToReject, setOpportunityToReject] = useState<PendingOpportunity | null>(null)
+  const [rejectReason, setRejectReason] = useState("")
+  const [rejecting, setRejecting] = useState(false)
+
+  const [trusted, setTrusted] = useState<TrustedSubmitter[]>([])
+  const [trustedEmail, setTrustedEmail] = useState("")
+  const [trustedSaving, setTrustedSaving] = useState(false)
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/admin/review?limit=${PAGE_SIZE}`, {
+        cache: "no-store",
+      })
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}))
+        throw new Error(errorPayload.error || "Failed to load review queue")
+      }
+      const data = await response.json()
+      setPending(data.data || [])
+      setTotal(data.pagination?.total || 0)
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to load review queue"
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const fetchTrusted = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/trusted-submitters", {
+        cache: "no-store",
+      })
+      if (!response.ok) return
+      const data = await response.json()
+      setTrusted(data.data || [])
+    } catch (error) {
+      console.error("Failed to load trusted submitters", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchQueue()
+    fetchTrusted()
+  }, [fetchQueue, fetchTrusted])
+
+  const removeFromQueue = (id: string) => {
+    setPending((prev) => prev.filter((opportunity) => opportunity.id !== id))
+    setTotal((prev) => Math.max(0, prev - 1))
+    onReviewed?.()
+  }
+
+  const handleApprove = async (opportunity: PendingOpportunity) => {
+    setActionId(opportunity.id)
+    try {
+      const response = await fetch(`/api/admin/review/${opportunity.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "approve" }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to approve opportunity")
+      }
+      toast.success("Opportunity approved and published")
+      removeFromQueue(opportunity.id)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to approve opportunity")
+    } finally {
+      setActionId(null)
+    }
+  }
+
+  const openRejectDialog = (opportunity: PendingOpportunity) => {
+    setOpportunityToReject(opportunity)
+    setRejectReason("")
+    setRejectDialogOpen(true)
+  }
+
+  const closeRejectDialog = () => {
+    if (rejecting) return
+    setRejectDialogOpen(false)
+    setOpportunityToReject(null)
+  }
+
+  const handleReject = async () => {
+    if (!opportunityToReject || !rejectReason.trim()) return
+    setRejecting(true)
+    try {
+      const response = await fetch(`/api/admin/review/${opportunityToReject.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "reject", reason: rejectReason.trim() }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to reject opportunity")
+      }
+      toast.success(
+        result.notified
+          ? "Submission rejected. The submitter will be emailed the reason."
+          : "Submission rejected"
+      )
+      removeFromQueue(opportunityToReject.id)
+      setRejectDialogOpen(false)
+      setOpportunityToReject(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to reject opportunity")
+    } finally {
+      setRejecting(false)
+    }
+  }
+
+  const openEditDialog = (opportunity: PendingOpportunity) => {
+    setOpportunityToEdit(opportunity)
+    setEditDialogOpen(true)
+  }
+
+  const handleEditModalChange = (open: boolean) => {
+    setEditDialogOpen(open)
+    if (!open) {
+      setOpportunityToEdit(null)
+    }
+  }
+
+  const handleEditApproved = (updated: Opportunity) => {
+    removeFromQueue(updated.id)
+  }
+
+  const updateTrusted = async (
+    target: { user_id: string } | { email: string },
+    isTrusted: boolean
+  ) => {
+    setTrustedSaving(true)
+    try {
+      const response = await fetch("/api/admin/trusted-submitters", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...target, trusted: isTrusted }),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update trusted submitter")
+      }
+      toast.success(result.message || "Trusted submitters updated")
+      const updatedId: string | undefined = result.data?.id
+      setPending((prev) =>
+        prev.map((opportunity) =>
+          opportunity.users && opportunity.users.id === updatedId
+            ? {
+                ...opportunity,
+                users: { ...opportunity.users, is_trusted_submitter: isTrusted },
+              }
+            : opportunity
+        )
+      )
+      setTrustedEmail("")
+      fetchTrusted()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update trusted submitter")
+    } finally {
+      setTrustedSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">
+              Review Queue
+            </h3>
+            <p className="text-sm text-gray-500">
+              Student submissions stay hidden until they are approved. Oldest first.
+            </p>
+          </div>
+          <span className="rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-700">
+            {total} pending
+          </span>
+        </div>
+
+        <div className="mt-6 space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+              <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+              <span>Loading submissions...</span>
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center gap-3 py-8 text-center">
+              <AlertTriangle className="h-8 w-8 text-red-500" />
+              <p className="font-semibold text-gray-900">{error}</p>
+              <Button variant="outline" onClick={fetchQueue}>
+                Retry
+              </Button>
+            </div>
+          ) : pending.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-center">
+              <Inbox className="h-8 w-8 text-gray-400" />
+              <p className="text-gray-500">Nothing to review. You&apos;re all caught up!</p>
+            </div>
+          ) : (
+            pending.map((opportunity) => {
+              const submitter = opportunity.users
+              const isBusy = actionId === opportunity.id
+              return (
+                <div
+                  key={opportunity.id}
+                  className="rounded-xl border border-gray-100 bg-gray-50 p-4"
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-500">
+                        {opportunity.created_at
+                          ? formatDistanceToNow(new Date(opportunity.created_at), {
+                              addSuffix: true,
+                            })
+                          : "Unknown date"}
+                      </p>
+                      <h4 className="text-lg font-semibold text-gray-900">
+                        {opportunity.job_title || "Untitled role"}
+                      </h4>
+                      <p className="text-sm text-gray-600">
+                        {opportunity.company_name}
+                        {opportunity.location ? ` · ${opportunity.location}` : ""}
+                      </p>
+                      <a
+                        href={opportunity.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="mt-1 inline-flex max-w-full items-center gap-1 truncate text-sm text-purple-600 hover:underline"
+                      >
+                        <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{opportunity.url}</span>
+                      </a>
+                    </div>
+                    <span className="rounded-full bg-purple-100 px-3 py-1 text-xs font-semibold text-purple-700">
+                      {typeLabels[opportunity.opportunity_type]}
+                    </span>
+                  </div>
+
+                  {opportunity.description && (
+                    <p className="mt-3 line-clamp-3 text-sm text-gray-700">
+                      {opportunity.description}
+                    </p>
+                  )}
+
+                  <div className="mt-4 flex flex-wrap items-center justify-between gap-3 text-sm text-gray-600">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span>
+                        Submitted by{" "}
+                        <span className="font-medium text-gray-900">
+                          {submitter?.name || "Unknown"}
+                        </span>
+                        {submitter?.email && (
+                          <span className="text-gray-500"> ({submitter.email})</span>
+                        )}
+                      </span>
+                      {submitter && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-gray-600 hover:text-purple-600"
+                          disabled={trustedSaving}
+                          onClick={() =>
+                            updateTrusted(
+                              { user_id: submitter.id },
+                              !submitter.is_trusted_submitter
+                            )
+                          }
+                        >
+                          {submitter.is_trusted_submitter ? (
+                            <>
+                              <UserMinus className="mr-1 h-4 w-4" />
+                              Untrust
+                            </>
+                          ) : (
+                            <>
+                              <UserPlus className="mr-1 h-4 w-4" />
+                              Trust submitter
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link href={`/opportunities/${opportunity.id}`}>
+                          View
+                        </Link>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-gray-600 hover:text-purple-600"
+                        onClick={() => openEditDialog(opportunity)}
+                        disabled={isBusy}
+                      >
+                        <Edit className="mr-1 h-4 w-4" />
+                        Edit & Approve
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600 hover:text-red-700"
+                        onClick={() => openRejectDialog(opportunity)}
+                        disabled={isBusy}
+                      >
+                        <X className="mr-1 h-4 w-4" />
+                        Reject
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => handleApprove(opportunity)}
+                        disabled={isBusy}
+                      >
+                        {isBusy ? (
+                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Check className="mr-1 h-4 w-4" />
+                        )}
+                        Approve
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </section>
+
+      <section className="rounded-2xl border border-gray-100 bg-white p-6 shadow-sm">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">
+            Trusted Submitters
+          </h3>
+          <p className="text-sm text-gray-500">
+            Submissions from these users are published immediately without review.
+          </p>
+        </div>
+
+        <form
+          className="mt-6 flex flex-col gap-2 sm:flex-row sm:items-end"
+          onSubmit={(event) => {
+            event.preventDefault()
+            if (trustedEmail.trim()) {
+              updateTrusted({ email: trustedEmail.trim() }, true)
+            }
+          }}
+        >
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="trusted-email">Add by email</Label>
+            <Input
+              id="trusted-email"
+              type="email"
+              placeholder="student@university.edu"
+              value={trustedEmail}
+              onChange={(event) => setTrustedEmail(event.target.value)}
+              disabled={trustedSaving}
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={trustedSaving || !trustedEmail.trim()}>
+            {trustedSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Add
+          </Button>
+        </form>
+
+        <div className="mt-6 space-y-2">
+          {trusted.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No trusted submitters yet.
+            </p>
+          ) : (
+            trusted.map((member) => (
+              <div
+                key={member.id}
+                className="flex items-center justify-between rounded-lg border border-gray-100 bg-gray-50 px-4 py-2"
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <BadgeCheck className="h-4 w-4 text-green-600" />
+                  <span className="font-medium text-gray-900">{member.name}</span>
+                  <span className="text-gray-500">{member.email}</span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  disabled={trustedSaving}
+                  onClick={() => updateTrusted({ user_id: member.id }, false)}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </section>
+
+      <EditOpportunityModal
+        mode="approve"
+        open={editDialogOpen}
+        onOpenChange={handleEditModalChange}
+        opportunity={opportunityToEdit as Opportunity | null}
+        onSuccess={handleEditApproved}
+      />
+
+      <Dialog open={rejectDialogOpen} onOpenChange={(open) => (open ? setRejectDialogOpen(true) : closeRejectDialog())}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reject submission</DialogTitle>
+            <DialogDescription>
+              The reason is emailed to the submitter so they know what to fix.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700">
+              {opportunityToReject?.job_title || "This opportunity"} at{" "}
+              {opportunityToReject?.company_name}
+            </p>
+            <Label htmlFor="reject-reason">Reason</Label>
+            <textarea
+              id="reject-reason"
+              className="min-h-[100px] w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-purple-600 focus-visible:ring-offset-2"
+              placeholder="e.g. The posting is closed, or the link isn't a job listing"
+              value={rejectReason}
+              onChange={(event) => setRejectReason(event.target.value)}
+              maxLength={1000}
+              disabled={rejecting}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeRejectDialog} disabled={rejecting}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={rejecting || !rejectReason.trim()}
+            >
+              {rejecting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
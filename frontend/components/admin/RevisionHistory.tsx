@@ -0,0 +1,209 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import toast from "react-hot-toast"
+import { formatDistanceToNow } from "date-fns"
+import type { Json } from "@/lib/supabase/types"
+import { Opportunity } from "@/types"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, History, Loader2, RotateCcw } from "lucide-react"
+
+interface Revision {
+  id: string
+  source: "admin_edit" | "review" | "reparse" | "revalidation" | "revert"
+  changed_fields: string[]
+  before: Record<string, Json>
+  after: Record<string, Json>
+  reverted_revision_id: string | null
+  created_at: string | null
+  users?: { name: string } | null
+}
+
+interface RevisionHistoryProps {
+  opportunityId: string
+  // Called with the updated opportunity after a revert
+  onReverted?: (updated: Opportunity) => void
+}
+
+const sourceLabels: Record<Revision["source"], string> = {
+  admin_edit: "Admin edit",
+  review: "Edited on approval",
+  reparse: "Re-parse",
+  revalidation: "Re-validation",
+  revert: "Revert",
+}
+
+const sourceClasses: Record<Revision["source"], string> = {
+  admin_edit: "bg-purple-100 text-purple-700",
+  review: "bg-blue-100 text-blue-700",
+  reparse: "bg-indigo-100 text-indigo-700",
+  revalidation: "bg-amber-100 text-amber-700",
+  revert: "bg-gray-100 text-gray-700",
+}
+
+const fieldLabels: Record<string, string> = {
+  company_name: "Company",
+  job_title: "Title",
+  opportunity_type: "Type",
+  role_type: "Role type",
+  relevant_majors: "Majors",
+  deadline: "Deadline",
+  requirements: "Requirements",
+  location: "Location",
+  description: "Description",
+  status: "Status",
+}
+
+const MAX_VALUE_LENGTH = 160
+
+function formatValue(value: Json | undefined) {
+  if (value === null || value === undefined || value === "") return "(empty)"
+  const text = Array.isArray(value)
+    ? value.join(", ")
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value)
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text
+}
+
+/**
+ * An opportunity's change history, newest first, with one-click revert (admin only)
+ */
+export default function RevisionHistory({ opportunityId, onReverted }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+
+  const fetchRevisions = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/opportunities/${opportunityId}/revisions`, {
+        cache: "no-store",
+      })
+      if (!response.ok) {
+        const errorPayload = await response.json().catch(() => ({}))
+        throw new Error(errorPayload.error || "Failed to load history")
+      }
+      const data = await response.json()
+      setRevisions(data.data || [])
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load history")
+    } finally {
+      setLoading(false)
+    }
+  }, [opportunityId])
+
+  useEffect(() => {
+    fetchRevisions()
+  }, [fetchRevisions])
+
+  const handleRevert = async (revision: Revision) => {
+    setRevertingId(revision.id)
+    try {
+      const response = await fetch(
+        `/api/opportunities/${opportunityId}/revisions/${revision.id}/revert`,
+        { method: "POST" }
+      )
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to revert change")
+      }
+      toast.success(result.message || "Change reverted")
+      if (result.data) {
+        onReverted?.(result.data as Opportunity)
+      }
+      fetchRevisions()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to revert change")
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-gray-500">
+        <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
+        <span>Loading history...</span>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center gap-3 py-6 text-center">
+        <AlertTriangle className="h-6 w-6 text-red-500" />
+        <p className="text-sm font-semibold text-gray-900">{error}</p>
+        <Button variant="outline" size="sm" onClick={fetchRevisions}>
+          Retry
+        </Button>
+      </div>
+    )
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-8 text-center">
+        <History className="h-6 w-6 text-gray-400" />
+        <p className="text-sm text-gray-500">No changes since this opportunity was created.</p>
+      </div>
+    )
+  }
+
+  return (
+    <ol className="space-y-3">
+      {revisions.map((revision) => (
+        <li key={revision.id} className="rounded-lg border border-gray-100 bg-gray-50 p-3">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span
+                className={`rounded-full px-2 py-0.5 text-xs font-semibold ${sourceClasses[revision.source]}`}
+              >
+                {sourceLabels[revision.source]}
+              </span>
+              <span className="text-gray-600">
+                {revision.users?.name || (revision.source === "revalidation" ? "Automatic" : "Unknown user")}
+              </span>
+              <span className="text-gray-400">
+                {revision.created_at
+                  ? formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })
+                  : ""}
+              </span>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-gray-600 hover:text-gray-900"
+              onClick={() => handleRevert(revision)}
+              disabled={revertingId !== null}
+            >
+              {revertingId === revision.id ? (
+                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-1 h-4 w-4" />
+              )}
+              Revert
+            </Button>
+          </div>
+
+          <dl className="mt-2 space-y-1 text-sm">
+            {revision.changed_fields.map((field) => (
+              <div key={field} className="grid gap-1 sm:grid-cols-[8rem_1fr]">
+                <dt className="font-medium text-gray-700">{fieldLabels[field] || field}</dt>
+                <dd className="min-w-0 break-words">
+                  <span className="text-red-700 line-through decoration-red-300">
+                    {formatValue(revision.before?.[field])}
+                  </span>
+                  <span className="mx-1 text-gray-400">→</span>
+                  <span className="text-green-700">{formatValue(revision.after?.[field])}</span>
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import toast from 'react-hot-toast'
+import { Calendar, StickyNote } from 'lucide-react'
+import {
+  APPLICATION_STATUS,
+  APPLICATION_STATUS_LABELS,
+  type ApplicationStatus,
+} from '@/lib/constants'
+import type { TrackedApplication } from '@/hooks/useApplications'
+
+interface ApplicationBoardProps {
+  applications: TrackedApplication[]
+  onMove: (opportunityId: string, status: ApplicationStatus) => Promise<void>
+}
+
+const columnClasses: Record<ApplicationStatus, string> = {
+  interested: 'border-gray-300',
+  applied: 'border-blue-300',
+  oa: 'border-indigo-300',
+  interviewing: 'border-purple-300',
+  offer: 'border-green-400',
+  rejected: 'border-red-300',
+}
+
+const formatShortDate = (value: string | null) => {
+  if (!value) return null
+  try {
+    return format(new Date(`${value}T00:00:00`), 'MMM dd')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Kanban board of tracked applications, one column per status
+ *
+ * Cards can be dragged between columns or moved with the status dropdown.
+ */
+export default function ApplicationBoard({ applications, onMove }: ApplicationBoardProps) {
+  const [dragOverStatus, setDragOverStatus] = useState<ApplicationStatus | null>(null)
+
+  const handleMove = async (opportunityId: string, status: ApplicationStatus) => {
+    const application = applications.find((item) => item.opportunity_id === opportunityId)
+    if (!application || application.status === status) return
+
+    try {
+      await onMove(opportunityId, status)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update application')
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>, status: ApplicationStatus) => {
+    event.preventDefault()
+    setDragOverStatus(null)
+    const opportunityId = event.dataTransfer.getData('text/plain')
+    if (opportunityId) {
+      handleMove(opportunityId, status)
+    }
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {APPLICATION_STATUS.map((status) => {
+        const columnApplications = applications.filter((application) => application.status === status)
+
+        return (
+          <div
+            key={status}
+            onDragOver={(event) => {
+              event.preventDefault()
+              setDragOverStatus(status)
+            }}
+            onDragLeave={() => setDragOverStatus(null)}
+            onDrop={(event) => handleDrop(event, status)}
+            className={`flex-shrink-0 w-72 rounded-lg border-t-4 ${columnClasses[status]} bg-gray-50 p-3 transition-colors ${
+              dragOverStatus === status ? 'bg-purple-50' : ''
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-gray-900">{APPLICATION_STATUS_LABELS[status]}</h3>
+              <span className="text-xs font-medium text-gray-500 bg-white rounded-full px-2 py-0.5 border border-gray-200">
+                {columnApplications.length}
+              </span>
+            </div>
+
+            <div className="space-y-3 min-h-[120px]">
+              {columnApplications.map((application) => {
+                const opportunity = application.opportunities
+                const appliedOn = formatShortDate(application.applied_at)
+                const nextStep = formatShortDate(application.next_step_at)
+
+                return (
+                  <div
+                    key={application.id}
+                    draggable
+                    onDragStart={(event) => event.dataTransfer.setData('text/plain', application.opportunity_id)}
+                    className="bg-white rounded-md border border-gray-200 p-3 shadow-sm cursor-grab active:cursor-grabbing"
+                  >
+                    <Link
+                      href={`/opportunities/${opportunity.id}`}
+                      className="block hover:text-purple-600"
+                    >
+                      <p className="font-semibold text-sm text-gray-900">{opportunity.company_name}</p>
+                      <p className="text-sm text-gray-600">{opportunity.job_title}</p>
+                    </Link>
+
+                    <div className="mt-2 space-y-1 text-xs text-gray-500">
+                      {opportunity.deadline && (
+                        <p className="flex items-center gap-1">
+                          <Calendar className="w-3 h-3" />
+                          Deadline {formatShortDate(opportunity.deadline)}
+                        </p>
+                      )}
+                      {appliedOn && <p>Applied {appliedOn}</p>}
+                      {nextStep && <p className="text-purple-600 font-medium">Next step {nextStep}</p>}
+                      {application.notes && (
+                        <p className="flex items-start gap-1 line-clamp-2">
+                          <StickyNote className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          {application.notes}
+                        </p>
+                      )}
+                    </div>
+
+                    <select
+                      aria-label="Move to status"
+                      className="mt-3 w-full rounded-md border border-gray-300 bg-white px-2 py-1 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-purple-600"
+                      value={application.status}
+                      onChange={(event) => handleMove(application.opportunity_id, event.target.value as ApplicationStatus)}
+                    >
+                      {APPLICATION_STATUS.map((value) => (
+                        <option key={value} value={value}>
+                          {APPLICATION_STATUS_LABELS[value]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
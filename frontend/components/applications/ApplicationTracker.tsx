@@ -0,0 +1,205 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import toast from "react-hot-toast"
+import { ClipboardList, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  APPLICATION_STATUS,
+  APPLICATION_STATUS_LABELS,
+  type ApplicationStatus,
+} from "@/lib/constants"
+import {
+  removeApplication,
+  saveApplication,
+  type Application,
+} from "@/hooks/useApplications"
+
+interface ApplicationTrackerProps {
+  opportunityId: string
+}
+
+/**
+ * Per-opportunity application status, dates, and private notes
+ */
+export default function ApplicationTracker({ opportunityId }: ApplicationTrackerProps) {
+  const [application, setApplication] = useState<Application | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<ApplicationStatus>('interested')
+  const [appliedAt, setAppliedAt] = useState('')
+  const [nextStepAt, setNextStepAt] = useState('')
+  const [notes, setNotes] = useState('')
+
+  const applyToForm = (data: Application | null) => {
+    setApplication(data)
+    setStatus(data?.status ?? 'interested')
+    setAppliedAt(data?.applied_at ?? '')
+    setNextStepAt(data?.next_step_at ?? '')
+    setNotes(data?.notes ?? '')
+  }
+
+  useEffect(() => {
+    let isMounted = true
+
+    const fetchApplication = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/opportunities/${opportunityId}/application`)
+        if (!response.ok) return
+        const result = await response.json()
+        if (isMounted) {
+          applyToForm(result.data ?? null)
+        }
+      } catch {
+        // Show the untracked state if the application can't be loaded
+      } finally {
+        if (isMounted) {
+          setLoading(false)
+        }
+      }
+    }
+
+    fetchApplication()
+
+    return () => {
+      isMounted = false
+    }
+  }, [opportunityId])
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true)
+      const saved = await saveApplication(opportunityId, {
+        status,
+        applied_at: appliedAt || null,
+        next_step_at: nextStepAt || null,
+        notes: notes || null,
+      })
+      applyToForm(saved)
+      toast.success(application ? 'Application updated' : 'Now tracking this application')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save application')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    try {
+      setIsSaving(true)
+      await removeApplication(opportunityId)
+      applyToForm(null)
+      toast.success('Stopped tracking this application')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove application')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="mt-6 bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <ClipboardList className="w-5 h-5 text-purple-600" />
+          My Application
+        </h2>
+        <Link href="/applications" className="text-sm text-purple-600 hover:text-purple-800">
+          View tracker →
+        </Link>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center text-sm text-gray-500">
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          Loading...
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            Only you can see your status, dates, and notes.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={status}
+                onValueChange={(value) => setStatus(value as ApplicationStatus)}
+                disabled={isSaving}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {APPLICATION_STATUS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {APPLICATION_STATUS_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="applied_at">Applied on</Label>
+              <Input
+                id="applied_at"
+                type="date"
+                value={appliedAt}
+                onChange={(event) => setAppliedAt(event.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="next_step_at">Next step (OA / interview)</Label>
+              <Input
+                id="next_step_at"
+                type="date"
+                value={nextStepAt}
+                onChange={(event) => setNextStepAt(event.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="application_notes">Notes</Label>
+            <textarea
+              id="application_notes"
+              className="min-h-[80px] w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-purple-600 focus-visible:ring-offset-2"
+              placeholder="Recruiter contacts, referral, interview prep..."
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {application ? 'Update Application' : 'Track Application'}
+            </Button>
+            {application && (
+              <Button variant="outline" onClick={handleRemove} disabled={isSaving}>
+                Stop Tracking
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -67,6 +67,18 @@ export default function Navbar() {
                 >
                   Dashboard
                 </Link>
+                <Link 
+                  href="/saved" 
+                  className="text-gray-700 hover:text-purple-600 font-medium transition-colors duration-200"
+                >
+                  My List
+                </Link>
+                <Link 
+                  href="/applications" 
+                  className="text-gray-700 hover:text-purple-600 font-medium transition-colors duration-200"
+                >
+                  Applications
+                </Link>
                 {isAdmin && (
                   <Link
                     href="/admin"
@@ -121,6 +133,20 @@ export default function Navbar() {
                 >
                   Dashboard
                 </Link>
+                <Link
+                  href="/saved"
+                  className="block px-4 py-2 text-gray-700 hover:text-purple-600 hover:bg-purple-50 rounded-lg font-medium transition-colors duration-200"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  My List
+                </Link>
+                <Link
+                  href="/applications"
+                  className="block px-4 py-2 text-gray-700 hover:text-purple-600 hover:bg-purple-50 rounded-lg font-medium transition-colors duration-200"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  Applications
+                </Link>
                 {isAdmin && (
                   <Link
                     href="/admin"
@@ -1,8 +1,10 @@
 'use client'
 
+import { useState } from 'react'
 import { format } from 'date-fns'
-import { Calendar, MapPin, Briefcase, Building2, ArrowRight } from 'lucide-react'
+import { Calendar, MapPin, Briefcase, Building2, ArrowRight, Bookmark } from 'lucide-react'
 import Link from 'next/link'
+import toast from 'react-hot-toast'
 import { Button } from '@/components/ui/button'
 
 interface OpportunityCardProps {
@@ -14,7 +16,10 @@ interface OpportunityCardProps {
     opportunity_type: 'internship' | 'full_time' | 'research' | 'fellowship' | 'scholarship'
     location: string | null
     deadline: string | null
+    search_snippet?: string | null
   }
+  readonly isSaved?: boolean
+  readonly onToggleSave?: (opportunityId: string) => Promise<boolean>
 }
 
 const typeColors = {
@@ -33,12 +38,52 @@ const typeLabels = {
   scholarship: 'Scholarship',
 }
 
-export default function OpportunityCard({ opportunity }: Readonly<OpportunityCardProps>) {
+// Search snippets mark matched terms with <mark></mark>; render them as text, never as HTML
+const renderSnippet = (snippet: string) =>
+  snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) => {
+    const match = part.match(/^<mark>(.*)<\/mark>$/)
+    return match ? (
+      <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">{match[1]}</mark>
+    ) : (
+      part
+    )
+  })
+
+export default function OpportunityCard({ opportunity, isSaved = false, onToggleSave }: Readonly<OpportunityCardProps>) {
+  const [isToggling, setIsToggling] = useState(false)
+
+  const handleToggleSave = async () => {
+    if (!onToggleSave || isToggling) return
+    try {
+      setIsToggling(true)
+      const saved = await onToggleSave(opportunity.id)
+      toast.success(saved ? 'Saved to My List' : 'Removed from My List')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update My List')
+    } finally {
+      setIsToggling(false)
+    }
+  }
+
   return (
     <div className="bg-white rounded-lg shadow-md hover:shadow-xl transition-all duration-200 p-6 border border-gray-200 hover:border-purple-300">
-      {/* Company Logo/Icon */}
-      <div className="flex items-center justify-center w-16 h-16 bg-gradient-to-br from-purple-100 to-blue-100 rounded-lg mb-4">
-        <Building2 className="w-8 h-8 text-purple-600" />
+      {/* Company Logo/Icon and Save Toggle */}
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex items-center justify-center w-16 h-16 bg-gradient-to-br from-purple-100 to-blue-100 rounded-lg">
+          <Building2 className="w-8 h-8 text-purple-600" />
+        </div>
+        {onToggleSave && (
+          <Button
+            onClick={handleToggleSave}
+            disabled={isToggling}
+            size="icon"
+            variant="ghost"
+            title={isSaved ? 'Remove from My List' : 'Save to My List'}
+            aria-pressed={isSaved}
+          >
+            <Bookmark className={`w-5 h-5 ${isSaved ? 'fill-purple-600 text-purple-600' : 'text-gray-500'}`} />
+          </Button>
+        )}
       </div>
 
       {/* Company Name */}
@@ -51,6 +96,13 @@ export default function OpportunityCard({ opportunity }: Readonly<OpportunityCar
         {opportunity.job_title}
       </h4>
 
+      {/* Search Snippet */}
+      {opportunity.search_snippet && (
+        <p className="text-sm text-gray-600 mb-3 line-clamp-3">
+          {renderSnippet(opportunity.search_snippet)}
+        </p>
+      )}
+
       {/* Type Badge */}
       <div className="flex items-center mb-2">
         <Briefcase className="w-4 h-4 mr-2 flex-shrink-0 text-gray-600" />
@@ -6,8 +6,12 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { useRouter } from "next/navigation"
 import toast from "react-hot-toast"
 import { useEffect, useState } from "react"
-import { Loader2 } from "lucide-react"
+import { Bookmark, History, Loader2, RefreshCw } from "lucide-react"
 import EditOpportunityModal from "@/components/admin/EditOpportunityModal"
+import RevisionHistory from "@/components/admin/RevisionHistory"
+import ReparseDialog from "@/components/admin/ReparseDialog"
+import ApplicationTracker from "@/components/applications/ApplicationTracker"
+import { setOpportunitySaved } from "@/hooks/useSavedOpportunities"
 
 interface OpportunityDetailsProps {
   opportunity: Opportunity
@@ -25,11 +29,51 @@ export default function OpportunityDetails({
   const [isDeleting, setIsDeleting] = useState(false)
   const [editModalOpen, setEditModalOpen] = useState(false)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [isSaved, setIsSaved] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [reparseOpen, setReparseOpen] = useState(false)
 
   useEffect(() => {
     setCurrentOpportunity(opportunity)
   }, [opportunity])
 
+  useEffect(() => {
+    let isMounted = true
+
+    const fetchSavedStatus = async () => {
+      try {
+        const response = await fetch(`/api/opportunities/${opportunity.id}/save`)
+        if (!response.ok) return
+        const data = await response.json()
+        if (isMounted) {
+          setIsSaved(Boolean(data.saved))
+        }
+      } catch {
+        // Leave the toggle unsaved if the status can't be loaded
+      }
+    }
+
+    fetchSavedStatus()
+
+    return () => {
+      isMounted = false
+    }
+  }, [opportunity.id])
+
+  const handleToggleSave = async () => {
+    try {
+      setIsSaving(true)
+      const saved = await setOpportunitySaved(currentOpportunity.id, !isSaved)
+      setIsSaved(saved)
+      toast.success(saved ? 'Saved to My List' : 'Removed from My List')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update My List')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
   // Check if deadline is within 7 days
   const isDeadlineApproaching = () => {
     if (!currentOpportunity.deadline) return false
@@ -120,6 +164,22 @@ export default function OpportunityDetails({
     <>
       {/* Details Card */}
       <div className="bg-white rounded-lg shadow-md p-8 space-y-6">
+        {/* Moderation Status Banner */}
+        {currentOpportunity.status === 'pending_review' && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            <p className="font-semibold">Awaiting review</p>
+            <p>This submission is only visible to you and admins until it is approved.</p>
+          </div>
+        )}
+        {currentOpportunity.status === 'rejected' && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+            <p className="font-semibold">Submission rejected</p>
+            {currentOpportunity.rejection_reason && (
+              <p>Reason: {currentOpportunity.rejection_reason}</p>
+            )}
+          </div>
+        )}
+
         {/* Header Section */}
         <div>
           {/* Top row with company name and action icons */}
@@ -128,6 +188,18 @@ export default function OpportunityDetails({
 
             {/* Icon buttons */}
             <div className="flex gap-2">
+              {/* Save Button */}
+              <Button
+                onClick={handleToggleSave}
+                disabled={isSaving}
+                size="icon"
+                variant="outline"
+                title={isSaved ? "Remove from My List" : "Save to My List"}
+                aria-pressed={isSaved}
+              >
+                <Bookmark className={`w-5 h-5 ${isSaved ? "fill-purple-600 text-purple-600" : ""}`} />
+              </Button>
+
               {/* Share Button */}
               <Button
                 onClick={handleShare}
@@ -259,6 +331,9 @@ export default function OpportunityDetails({
         )}
       </div>
 
+      {/* Application Tracker */}
+      <ApplicationTracker opportunityId={currentOpportunity.id} />
+
       {/* Admin Actions */}
       {isAdmin && (
         <div className="mt-6 pt-6 border-t border-gray-200">
@@ -287,8 +362,43 @@ export default function OpportunityDetails({
               Delete
             </Button>
           </div>
+
+          <div className="mt-4">
+            <Button
+              onClick={() => setShowHistory((prev) => !prev)}
+              variant="ghost"
+              className="text-gray-600 hover:text-gray-900"
+            >
+              <History className="w-4 h-4 mr-2" />
+              {showHistory ? 'Hide history' : 'Show history'}
+            </Button>
+            <Button
+              onClick={() => setReparseOpen(true)}
+              variant="ghost"
+              className="text-gray-600 hover:text-gray-900"
+            >
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Re-parse
+            </Button>
+            {showHistory && (
+              <div className="mt-3">
+                <RevisionHistory
+                  opportunityId={currentOpportunity.id}
+                  onReverted={handleOpportunityRefresh}
+                />
+              </div>
+            )}
+          </div>
         </div>
       )}
+      {reparseOpen && (
+        <ReparseDialog
+          open={reparseOpen}
+          onOpenChange={setReparseOpen}
+          opportunityId={currentOpportunity.id}
+          onApplied={handleOpportunityRefresh}
+        />
+      )}
       {editModalOpen && (
         <EditOpportunityModal
           open={editModalOpen}
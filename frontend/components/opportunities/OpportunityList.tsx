@@ -1,6 +1,7 @@
 'use client'
 
 import { Opportunity } from '@/types'
+import { Button } from '@/components/ui/button'
 import OpportunityCard from './OpportunityCard'
 import { useOpportunities } from '@/hooks/useOpportunities'
 
@@ -15,7 +16,7 @@ export default function OpportunityList({
   status = 'active',
   sort = 'deadline-asc'
 }: OpportunityListProps) {
-  const { opportunities, loading, error } = useOpportunities({
+  const { opportunities, loading, loadingMore, error, pagination, fetchMore } = useOpportunities({
     types,
     status,
     sort,
@@ -96,10 +97,20 @@ export default function OpportunityList({
 
   // Success state - display opportunities in a grid
   return (
-    <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-      {opportunities.map((opportunity) => (
-        <OpportunityCard key={opportunity.id} opportunity={opportunity} />
-      ))}
+    <div>
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {opportunities.map((opportunity) => (
+          <OpportunityCard key={opportunity.id} opportunity={opportunity} />
+        ))}
+      </div>
+
+      {pagination?.hasMore && (
+        <div className="flex justify-center mt-8">
+          <Button variant="outline" onClick={() => fetchMore()} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load More'}
+          </Button>
+        </div>
+      )}
     </div>
   )
 }
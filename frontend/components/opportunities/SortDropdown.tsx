@@ -14,21 +14,26 @@ export type SortOption =
   | 'deadline-desc' 
   | 'recent' 
   | 'company-asc'
+  | 'relevance'
 
 interface SortDropdownProps {
   readonly selectedSort: SortOption
   readonly onSortChange: (sort: SortOption) => void
+  // Relevance is only offered while a search query is active
+  readonly showRelevance?: boolean
 }
 
 const sortOptions = [
+  { value: 'relevance', label: 'Best Match' },
   { value: 'deadline-asc', label: 'Deadline: Closest First' },
   { value: 'deadline-desc', label: 'Deadline: Farthest First' },
   { value: 'recent', label: 'Recently Added' },
   { value: 'company-asc', label: 'Company Name (A-Z)' },
 ] as const
 
-export default function SortDropdown({ selectedSort, onSortChange }: Readonly<SortDropdownProps>) {
-  const currentSortLabel = sortOptions.find(opt => opt.value === selectedSort)?.label
+export default function SortDropdown({ selectedSort, onSortChange, showRelevance = false }: Readonly<SortDropdownProps>) {
+  const visibleOptions = sortOptions.filter(opt => opt.value !== 'relevance' || showRelevance)
+  const currentSortLabel = visibleOptions.find(opt => opt.value === selectedSort)?.label
 
   return (
     <div className="flex items-center gap-2">
@@ -39,7 +44,7 @@ export default function SortDropdown({ selectedSort, onSortChange }: Readonly<So
           <SelectValue>{currentSortLabel}</SelectValue>
         </SelectTrigger>
         <SelectContent>
-          {sortOptions.map((option) => (
+          {visibleOptions.map((option) => (
             <SelectItem key={option.value} value={option.value}>
               {option.label}
             </SelectItem>
@@ -1,11 +1,11 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import toast from 'react-hot-toast'
 import confetti from 'canvas-confetti'
-import { Loader2, Sparkles, Info } from 'lucide-react'
+import { Loader2, Info, Copy, ExternalLink, CheckCircle2, Circle, AlertTriangle } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -27,6 +27,36 @@ import {
 import { submitOpportunitySchema, SubmitOpportunityFormData } from '@/lib/validations/opportunity'
 import { OPPORTUNITY_TYPES } from '@/lib/constants'
 
+interface PossibleDuplicate {
+  id: string
+  company_name: string
+  job_title: string
+  location: string | null
+  url: string
+  score: number
+}
+
+// A short field the parser wasn't sure about, for the submitter to confirm or correct
+interface UncertainField {
+  field: 'job_title' | 'company_name' | 'deadline' | 'location'
+  value: string | null
+  confidence: number | null
+  snippet: string | null // Text the value was read from; null when it couldn't be found in the posting
+}
+
+type SubmissionStep = 'scraping' | 'parsing' | 'saving'
+
+interface SubmissionJob {
+  id: string
+  status: 'pending' | 'running' | 'needs_confirmation' | 'completed' | 'failed'
+  step: SubmissionStep
+  attempts: number
+  max_attempts: number
+  last_error: string | null
+  result: any
+  error: any
+}
+
 interface SubmitModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -41,6 +71,21 @@ const opportunityTypeLabels: Record<string, string> = {
   scholarship: 'Scholarship',
 }
 
+const uncertainFieldLabels: Record<UncertainField['field'], string> = {
+  job_title: 'Job title',
+  company_name: 'Company',
+  deadline: 'Application deadline',
+  location: 'Location',
+}
+
+const submissionSteps: { id: SubmissionStep; label: string }[] = [
+  { id: 'scraping', label: 'Fetching the posting' },
+  { id: 'parsing', label: 'Extracting details with AI' },
+  { id: 'saving', label: 'Saving' },
+]
+
+const POLL_INTERVAL_MS = 2000
+
 // Check if URL is from a restricted site
 const RESTRICTED_SITES = ['linkedin.com', 'facebook.com', 'fb.com', 'twitter.com', 'x.com', 'instagram.com']
 
@@ -58,6 +103,13 @@ export default function SubmitModal({ open, onOpenChange, onSuccess }: SubmitMod
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [manualContent, setManualContent] = useState('')
   const [requiresManual, setRequiresManual] = useState(false)
+  const [possibleDuplicates, setPossibleDuplicates] = useState<PossibleDuplicate[]>([])
+  // Low-confidence fields and the submitter's answers (empty clears the field)
+  const [uncertainFields, setUncertainFields] = useState<UncertainField[]>([])
+  const [fieldAnswers, setFieldAnswers] = useState<Record<string, string>>({})
+  // Queued submission being processed in the background
+  const [job, setJob] = useState<SubmissionJob | null>(null)
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   const {
     register,
@@ -87,6 +139,128 @@ export default function SubmitModal({ open, onOpenChange, onSuccess }: SubmitMod
     }
   }, [url])
 
+  // Duplicate warnings and field checks only apply to the URL they were found for
+  useEffect(() => {
+    setPossibleDuplicates([])
+    setUncertainFields([])
+    setJob((current) => (current?.status === 'needs_confirmation' ? null : current))
+  }, [url])
+
+  const stopPolling = () => {
+    if (pollTimerRef.current) {
+      clearTimeout(pollTimerRef.current)
+      pollTimerRef.current = null
+    }
+  }
+
+  // Stop polling when the modal unmounts
+  useEffect(() => stopPolling, [])
+
+  const handleSubmitted = (result: any) => {
+    // Log parsed fields for debugging
+    if (result?.metadata?.parsedFields) {
+      console.log('📊 Parsed Fields:', result.metadata.parsedFields)
+      console.log('📏 Scraped Content Length:', result.metadata.scrapedContentLength, 'chars')
+    }
+
+    // 🎉 Success! Trigger confetti
+    confetti({
+      particleCount: 100,
+      spread: 70,
+      origin: { y: 0.6 },
+      colors: ['#9333ea', '#a855f7', '#c084fc', '#e9d5ff'],
+    })
+
+    // Show thank you toast (pending submissions go to the admin review queue first)
+    const successMessage = result?.metadata?.requiresReview
+      ? '🎉 Thank you for contributing! Your opportunity will appear once an admin approves it.'
+      : '🎉 Thank you for contributing! Your opportunity has been submitted successfully!'
+    toast.success(successMessage, {
+      duration: result?.metadata?.requiresReview ? 3000 : 1000,
+      style: {
+        background: '#9333ea',
+        color: '#fff',
+        fontWeight: '500',
+      },
+    })
+    
+    reset()
+    setManualContent('')
+    setRequiresManual(false)
+    setPossibleDuplicates([])
+    setUncertainFields([])
+    setJob(null)
+    
+    setTimeout(() => {
+      onOpenChange(false)
+      if (onSuccess) {
+        onSuccess()
+      }
+    }, 1500)
+  }
+
+  // Shared by the submit response and failed jobs (same error body shape)
+  const handleSubmissionError = (result: any, status?: number) => {
+    // Check if manual content is required
+    if (result?.requiresManual) {
+      setRequiresManual(true)
+      const errorMsg = result.message || result.error || 'This site requires manual content paste'
+      toast.error(errorMsg, { duration: 5000 })
+      return
+    }
+
+    if (status === 400 && result?.details) {
+      const errorMessages = result.details.map((d: any) => d.message).join(', ')
+      toast.error(errorMessages || result.message || result.error || 'Validation failed')
+      return
+    }
+    toast.error(result?.message || result?.error || 'Failed to submit opportunity')
+  }
+
+  const pollJob = async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/submissions/${jobId}`, { cache: 'no-store' })
+      const payload = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(payload.error || 'Failed to check submission status')
+      }
+
+      const current: SubmissionJob = payload.data
+      setJob(current)
+
+      if (current.status === 'completed') {
+        setIsSubmitting(false)
+        handleSubmitted(current.result)
+        return
+      }
+
+      if (current.status === 'failed') {
+        setIsSubmitting(false)
+        setJob(null)
+        handleSubmissionError(current.error)
+        return
+      }
+
+      // Likely the same posting under another URL, or details the parser wasn't sure about;
+      // let the submitter decide
+      if (current.status === 'needs_confirmation') {
+        setIsSubmitting(false)
+        setPossibleDuplicates(current.result?.duplicates || [])
+        const fields: UncertainField[] = current.result?.low_confidence_fields || []
+        setUncertainFields(fields)
+        setFieldAnswers(Object.fromEntries(fields.map((item) => [item.field, item.value ?? ''])))
+        toast(current.result?.message || 'This opportunity may already be listed', { icon: '⚠️', duration: 5000 })
+        return
+      }
+
+      pollTimerRef.current = setTimeout(() => pollJob(jobId), POLL_INTERVAL_MS)
+    } catch (error) {
+      setIsSubmitting(false)
+      setJob(null)
+      toast.error(error instanceof Error ? error.message : 'Failed to check submission status')
+    }
+  }
+
   const onSubmit = async (data: SubmitOpportunityFormData) => {
     // Validate manual content if required
     if (requiresManual && manualContent.trim().length < 50) {
@@ -96,6 +270,29 @@ export default function SubmitModal({ open, onOpenChange, onSuccess }: SubmitMod
 
     setIsSubmitting(true)
     try {
+      // Submitter has seen the possible duplicates and/or checked the uncertain fields
+      if (job?.status === 'needs_confirmation' && (possibleDuplicates.length > 0 || uncertainFields.length > 0)) {
+        const response = await fetch(`/api/submissions/${job.id}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            ...(possibleDuplicates.length > 0 ? { confirm_duplicate: true } : {}),
+            ...(uncertainFields.length > 0 ? { confirmed_fields: fieldAnswers } : {}),
+          }),
+        })
+        const result = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(result.message || result.error || 'Failed to submit opportunity')
+        }
+        setPossibleDuplicates([])
+        setUncertainFields([])
+        setJob({ ...job, status: 'pending', step: 'saving', attempts: 0 })
+        pollJob(job.id)
+        return
+      }
+
       // Include manual content if provided
       const requestBody: any = { ...data }
       if (requiresManual && manualContent.trim().length >= 50) {
@@ -112,75 +309,43 @@ export default function SubmitModal({ open, onOpenChange, onSuccess }: SubmitMod
 
       const result = await response.json()
 
-      // Log parsed fields for debugging
-      if (result.metadata?.parsedFields) {
-        console.log('📊 Parsed Fields:', result.metadata.parsedFields)
-        console.log('📏 Scraped Content Length:', result.metadata.scrapedContentLength, 'chars')
-      }
-
       if (!response.ok) {
-        // Check if manual content is required
-        if (result.requiresManual) {
-          setRequiresManual(true)
-          const errorMsg = result.message || result.error || 'This site requires manual content paste'
-          toast.error(errorMsg, { duration: 5000 })
-          setIsSubmitting(false)
-          return
-        }
-
-        if (response.status === 400 && result.details) {
-          const errorMessages = result.details.map((d: any) => d.message).join(', ')
-          throw new Error(errorMessages || result.message || result.error || 'Validation failed')
-        }
-        throw new Error(result.message || result.error || 'Failed to submit opportunity')
+        handleSubmissionError(result, response.status)
+        setIsSubmitting(false)
+        return
       }
 
-      // 🎉 Success! Trigger confetti
-      confetti({
-        particleCount: 100,
-        spread: 70,
-        origin: { y: 0.6 },
-        colors: ['#9333ea', '#a855f7', '#c084fc', '#e9d5ff'],
-      })
-
-      // Show thank you toast
-      toast.success('🎉 Thank you for contributing! Your opportunity has been submitted successfully!', {
-        duration: 1000,
-        style: {
-          background: '#9333ea',
-          color: '#fff',
-          fontWeight: '500',
-        },
-      })
-      
-      reset()
-      setManualContent('')
-      setRequiresManual(false)
-      
-      setTimeout(() => {
-        onOpenChange(false)
-        if (onSuccess) {
-          onSuccess()
-        }
-      }, 1500)
-
+      // Scraping and parsing run in the background; follow the job until it finishes
+      setJob(result.data)
+      pollJob(result.jobId)
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to submit opportunity'
       toast.error(errorMessage)
-    } finally {
       setIsSubmitting(false)
     }
   }
 
   const handleClose = () => {
-    if (!isSubmitting) {
-      reset()
-      setManualContent('')
-      setRequiresManual(false)
-      onOpenChange(false)
+    // A queued submission keeps going on the server; just stop following it
+    if (job && (job.status === 'pending' || job.status === 'running')) {
+      toast('Still working on your submission in the background', { icon: '⏳' })
+    } else if (isSubmitting) {
+      return
     }
+    stopPolling()
+    setIsSubmitting(false)
+    setJob(null)
+    reset()
+    setManualContent('')
+    setRequiresManual(false)
+    setPossibleDuplicates([])
+    setUncertainFields([])
+    onOpenChange(false)
   }
 
+  const jobInProgress = !!job && (job.status === 'pending' || job.status === 'running')
+  const activeStepIndex = job ? submissionSteps.findIndex((step) => step.id === job.step) : -1
+
   return (
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px]">
@@ -287,18 +452,116 @@ export default function SubmitModal({ open, onOpenChange, onSuccess }: SubmitMod
             )}
           </div>
 
-          {/* Loading State Indicator */}
-          {isSubmitting && (
-            <div className="flex items-center justify-center gap-2 p-4 bg-purple-50 rounded-lg border border-purple-200">
-              <Loader2 className="h-5 w-5 animate-spin text-purple-600" />
-              <div className="flex items-center gap-2">
-                <Sparkles className="h-4 w-4 text-purple-600" />
-                <span className="text-sm font-medium text-purple-900">
-                  Parsing with AI...
-                </span>
+          {/* Possible Duplicates */}
+          {possibleDuplicates.length > 0 && (
+            <div className="space-y-2 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <div className="flex items-start gap-2">
+                <Copy className="h-5 w-5 text-amber-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="text-sm font-semibold text-amber-900">Already listed?</p>
+                  <p className="text-sm text-amber-700">
+                    These look like the same posting. If yours is a different role, submit anyway and an admin will check.
+                  </p>
+                </div>
               </div>
-              <p className="text-xs text-purple-700 mt-1">
-                This may take 5-10 seconds
+              <ul className="space-y-2">
+                {possibleDuplicates.map((duplicate) => (
+                  <li key={duplicate.id} className="flex items-center justify-between gap-2 rounded-md bg-white px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">
+                        {duplicate.company_name} · {duplicate.job_title}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {duplicate.location ? `${duplicate.location} · ` : ''}
+                        {Math.round(duplicate.score * 100)}% match
+                      </p>
+                    </div>
+                    <a
+                      href={`/opportunities/${duplicate.id}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex-shrink-0 text-purple-600 hover:text-purple-800"
+                      title="Open existing opportunity"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Fields the parser wasn't sure about */}
+          {uncertainFields.length > 0 && (
+            <div className="space-y-3 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+              <div className="flex items-start gap-2">
+                <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <p className="text-sm font-semibold text-amber-900">Please check these details</p>
+                  <p className="text-sm text-amber-700">
+                    We weren&apos;t sure we read these correctly. Fix anything that&apos;s wrong, or clear a field if the posting doesn&apos;t say.
+                  </p>
+                </div>
+              </div>
+              {uncertainFields.map((item) => (
+                <div key={item.field} className="space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label htmlFor={`confirm-${item.field}`} className="text-amber-900">
+                      {uncertainFieldLabels[item.field]}
+                    </Label>
+                    {item.confidence !== null && (
+                      <span className="text-xs text-amber-700">
+                        {Math.round(item.confidence * 100)}% sure
+                      </span>
+                    )}
+                  </div>
+                  <Input
+                    id={`confirm-${item.field}`}
+                    type={item.field === 'deadline' ? 'date' : 'text'}
+                    value={fieldAnswers[item.field] ?? ''}
+                    onChange={(e) => setFieldAnswers((prev) => ({ ...prev, [item.field]: e.target.value }))}
+                    disabled={isSubmitting}
+                    className="border-amber-300 bg-white"
+                  />
+                  <p className="text-xs text-amber-700">
+                    {item.snippet
+                      ? <>From the posting: <q className="italic">{item.snippet}</q></>
+                      : 'Not found word for word in the posting'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Background job progress */}
+          {jobInProgress && job && (
+            <div className="space-y-2 p-4 bg-purple-50 rounded-lg border border-purple-200">
+              <ul className="space-y-2">
+                {submissionSteps.map((step, index) => {
+                  const done = index < activeStepIndex
+                  const active = index === activeStepIndex
+                  return (
+                    <li key={step.id} className="flex items-center gap-2 text-sm">
+                      {done ? (
+                        <CheckCircle2 className="h-4 w-4 text-purple-600" />
+                      ) : active && job.status === 'running' ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-purple-600" />
+                      ) : (
+                        <Circle className={`h-4 w-4 ${active ? 'text-purple-600' : 'text-purple-300'}`} />
+                      )}
+                      <span className={done || active ? 'font-medium text-purple-900' : 'text-purple-400'}>
+                        {step.label}
+                      </span>
+                    </li>
+                  )
+                })}
+              </ul>
+              <p className="text-xs text-purple-700">
+                {job.status === 'pending' && job.last_error
+                  ? `Hit a snag (${job.last_error}). Retrying, attempt ${job.attempts + 1} of ${job.max_attempts}...`
+                  : job.status === 'pending'
+                  ? 'Queued, starting shortly...'
+                  : 'This usually takes under a minute. You can close this window; we\'ll keep going.'}
               </p>
             </div>
           )}
@@ -308,9 +571,9 @@ export default function SubmitModal({ open, onOpenChange, onSuccess }: SubmitMod
               type="button"
               variant="outline"
               onClick={handleClose}
-              disabled={isSubmitting}
+              disabled={isSubmitting && !jobInProgress}
             >
-              Cancel
+              {jobInProgress ? 'Close' : 'Cancel'}
             </Button>
             <Button
               type="submit"
@@ -322,6 +585,10 @@ export default function SubmitModal({ open, onOpenChange, onSuccess }: SubmitMod
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Submitting...
                 </>
+              ) : possibleDuplicates.length > 0 ? (
+                'Submit Anyway'
+              ) : uncertainFields.length > 0 ? (
+                'Confirm & Submit'
               ) : (
                 'Submit'
               )}
@@ -0,0 +1,414 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import toast from 'react-hot-toast'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import {
+  ALERT_FREQUENCIES,
+  ALERT_FREQUENCY_LABELS,
+  MAJORS,
+  OPPORTUNITY_TYPES,
+  ROLE_TYPES,
+  type AlertFrequency,
+  type OpportunityType,
+} from '@/lib/constants'
+import { Database } from '@/lib/supabase/types'
+import { BellRing, Loader2, Pencil, Plus, Search, Trash2 } from 'lucide-react'
+
+type SavedSearchAlert = Database['public']['Tables']['saved_search_alerts']['Row']
+
+interface AlertForm {
+  name: string
+  search: string
+  opportunity_types: string[]
+  majors: string[]
+  roles: string[]
+  frequency: AlertFrequency
+}
+
+interface SavedSearchAlertsProps {
+  // Alerts are kept but not sent while email notifications are off
+  readonly emailNotificationsEnabled: boolean
+}
+
+const typeLabels: Record<OpportunityType, string> = {
+  internship: 'Internship',
+  full_time: 'Full-time',
+  research: 'Research',
+  fellowship: 'Fellowship',
+  scholarship: 'Scholarship',
+}
+
+const frequencyDescriptions: Record<AlertFrequency, string> = {
+  instant: 'As soon as a match is posted',
+  daily: 'One email a day with new matches',
+  weekly: 'One email a week with new matches',
+}
+
+const emptyForm: AlertForm = {
+  name: '',
+  search: '',
+  opportunity_types: [],
+  majors: [],
+  roles: [],
+  frequency: 'daily',
+}
+
+const toggle = (items: string[], item: string) =>
+  items.includes(item) ? items.filter(i => i !== item) : [...items, item]
+
+function describeAlert(alert: SavedSearchAlert) {
+  const parts: string[] = []
+  if (alert.search) parts.push(`"${alert.search}"`)
+  if (alert.opportunity_types.length > 0) {
+    parts.push(alert.opportunity_types.map(type => typeLabels[type as OpportunityType] || type).join(', '))
+  }
+  if (alert.majors.length > 0) parts.push(alert.majors.join(', '))
+  if (alert.roles.length > 0) parts.push(alert.roles.join(', '))
+  return parts.length > 0 ? parts.join(' · ') : 'All new opportunities'
+}
+
+/**
+ * Saved-search alerts: named filter + search combinations emailed instantly, daily or weekly
+ */
+export default function SavedSearchAlerts({ emailNotificationsEnabled }: Readonly<SavedSearchAlertsProps>) {
+  const [alerts, setAlerts] = useState<SavedSearchAlert[]>([])
+  const [limit, setLimit] = useState(10)
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<AlertForm>(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isMounted = true
+
+    async function fetchAlerts() {
+      try {
+        const response = await fetch('/api/notifications/alerts')
+        const result = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load alerts')
+        }
+        if (!isMounted) return
+        setAlerts(result.data || [])
+        setLimit(result.limit || 10)
+      } catch (error) {
+        if (!isMounted) return
+        toast.error(error instanceof Error ? error.message : 'Failed to load alerts')
+      } finally {
+        if (isMounted) {
+          setLoading(false)
+        }
+      }
+    }
+
+    fetchAlerts()
+
+    return () => {
+      isMounted = false
+    }
+  }, [])
+
+  const openCreate = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+    setDialogOpen(true)
+  }
+
+  const openEdit = (alert: SavedSearchAlert) => {
+    setEditingId(alert.id)
+    setForm({
+      name: alert.name,
+      search: alert.search || '',
+      opportunity_types: alert.opportunity_types,
+      majors: alert.majors,
+      roles: alert.roles,
+      frequency: alert.frequency as AlertFrequency,
+    })
+    setDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('Give the alert a name')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const response = await fetch(
+        editingId ? `/api/notifications/alerts/${editingId}` : '/api/notifications/alerts',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...form, search: form.search.trim() || null }),
+        }
+      )
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to save alert')
+      }
+
+      setAlerts(prev =>
+        editingId
+          ? prev.map(alert => (alert.id === editingId ? result.data : alert))
+          : [result.data, ...prev]
+      )
+      setDialogOpen(false)
+      toast.success(result.message || 'Alert saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save alert')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateAlert = async (alert: SavedSearchAlert, updates: Partial<Pick<SavedSearchAlert, 'enabled' | 'frequency'>>) => {
+    try {
+      setBusyId(alert.id)
+      const response = await fetch(`/api/notifications/alerts/${alert.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update alert')
+      }
+      setAlerts(prev => prev.map(item => (item.id === alert.id ? result.data : item)))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update alert')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const deleteAlert = async (alert: SavedSearchAlert) => {
+    if (!window.confirm(`Delete the alert "${alert.name}"?`)) return
+
+    try {
+      setBusyId(alert.id)
+      const response = await fetch(`/api/notifications/alerts/${alert.id}`, { method: 'DELETE' })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete alert')
+      }
+      setAlerts(prev => prev.filter(item => item.id !== alert.id))
+      toast.success('Alert deleted')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete alert')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const renderChips = (
+    label: string,
+    options: readonly string[],
+    selected: string[],
+    onChange: (items: string[]) => void,
+    optionLabel: (option: string) => string = option => option
+  ) => (
+    <div className="space-y-2">
+      <Label>
+        {label} {selected.length > 0 ? `(${selected.length})` : <span className="font-normal text-gray-500">(any)</span>}
+      </Label>
+      <div className="flex flex-wrap gap-2">
+        {options.map(option => (
+          <Button
+            key={option}
+            type="button"
+            variant={selected.includes(option) ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onChange(toggle(selected, option))}
+            aria-pressed={selected.includes(option)}
+            className={selected.includes(option) ? 'shadow-md' : 'hover:border-purple-300'}
+          >
+            {optionLabel(option)}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className={`p-4 border border-gray-200 rounded-lg ${!emailNotificationsEnabled ? 'opacity-50' : ''}`}>
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex-1">
+          <h3 className="text-base font-semibold text-gray-900 mb-1">
+            Saved Search Alerts
+          </h3>
+          <p className="text-sm text-gray-600">
+            Get an email when a new opportunity matches your filters and search
+          </p>
+        </div>
+        <Button
+          size="sm"
+          onClick={openCreate}
+          disabled={loading || alerts.length >= limit}
+          title={alerts.length >= limit ? `You can keep up to ${limit} alerts` : undefined}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          New Alert
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center gap-2 py-6 text-gray-500">
+          <Loader2 className="w-5 h-5 animate-spin text-purple-600" />
+          <span>Loading alerts...</span>
+        </div>
+      ) : alerts.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 py-6 text-center text-sm text-gray-500">
+          <BellRing className="w-6 h-6 text-gray-400" />
+          <p>No alerts yet. Save a search to hear about new matches.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {alerts.map(alert => (
+            <li key={alert.id} className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center sm:justify-between">
+              <div className={`min-w-0 flex-1 ${!alert.enabled ? 'opacity-60' : ''}`}>
+                <p className="font-medium text-gray-900 truncate">
+                  {alert.name}
+                  {!alert.enabled && <span className="ml-2 text-xs font-normal text-gray-500">(paused)</span>}
+                </p>
+                <p className="text-sm text-gray-600 break-words">{describeAlert(alert)}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  aria-label={`How often to send ${alert.name}`}
+                  value={alert.frequency}
+                  onChange={(e) => updateAlert(alert, { frequency: e.target.value })}
+                  disabled={busyId === alert.id}
+                  className="h-9 rounded-md border border-gray-300 bg-white px-2 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  {ALERT_FREQUENCIES.map(frequency => (
+                    <option key={frequency} value={frequency}>
+                      {ALERT_FREQUENCY_LABELS[frequency]}
+                    </option>
+                  ))}
+                </select>
+                <label className="relative inline-flex items-center cursor-pointer" title={alert.enabled ? 'Pause alert' : 'Resume alert'}>
+                  <input
+                    type="checkbox"
+                    aria-label={`${alert.enabled ? 'Pause' : 'Resume'} ${alert.name}`}
+                    checked={alert.enabled}
+                    onChange={(e) => updateAlert(alert, { enabled: e.target.checked })}
+                    disabled={busyId === alert.id}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-purple-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-purple-600 peer-disabled:opacity-50"></div>
+                </label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openEdit(alert)}
+                  disabled={busyId === alert.id}
+                  aria-label={`Edit ${alert.name}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteAlert(alert)}
+                  disabled={busyId === alert.id}
+                  aria-label={`Delete ${alert.name}`}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-[95vw] max-h-[90vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Alert' : 'New Alert'}</DialogTitle>
+            <DialogDescription>
+              Leave a filter empty to match anything. The search works like the dashboard search box.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-5 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="alert-name">Name</Label>
+              <Input
+                id="alert-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. ML internships"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="alert-search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                <Input
+                  id="alert-search"
+                  value={form.search}
+                  onChange={(e) => setForm({ ...form, search: e.target.value })}
+                  placeholder='e.g. "machine learning" -unpaid'
+                  maxLength={200}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+
+            {renderChips(
+              'Types',
+              OPPORTUNITY_TYPES,
+              form.opportunity_types,
+              items => setForm({ ...form, opportunity_types: items }),
+              type => typeLabels[type as OpportunityType]
+            )}
+            {renderChips('Majors', MAJORS, form.majors, items => setForm({ ...form, majors: items }))}
+            {renderChips('Roles', ROLE_TYPES, form.roles, items => setForm({ ...form, roles: items }))}
+
+            <div className="space-y-2">
+              <Label>Send me</Label>
+              <div className="space-y-2">
+                {ALERT_FREQUENCIES.map(frequency => (
+                  <label key={frequency} className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="alert-frequency"
+                      value={frequency}
+                      checked={form.frequency === frequency}
+                      onChange={() => setForm({ ...form, frequency })}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-medium">{ALERT_FREQUENCY_LABELS[frequency]}</span>
+                      <span className="text-gray-500"> — {frequencyDescriptions[frequency]}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editingId ? 'Save Changes' : 'Create Alert'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
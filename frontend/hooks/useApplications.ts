@@ -0,0 +1,142 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { Database } from "@/lib/supabase/types"
+import type { ApplicationStatus } from "@/lib/constants"
+import { getApplicationStats, type ApplicationStats } from "@/lib/applications"
+import type { ApplicationFormData } from "@/lib/validations/application"
+
+type ApplicationRow = Database["public"]["Tables"]["applications"]["Row"]
+type OpportunityRow = Database["public"]["Tables"]["opportunities"]["Row"]
+
+export type Application = ApplicationRow
+export type TrackedApplication = ApplicationRow & {
+  opportunities: Pick<
+    OpportunityRow,
+    'id' | 'company_name' | 'job_title' | 'opportunity_type' | 'location' | 'deadline' | 'url' | 'status'
+  >
+}
+
+interface UseApplicationsOptions {
+  autoFetch?: boolean
+}
+
+interface UseApplicationsReturn {
+  applications: TrackedApplication[]
+  stats: ApplicationStats
+  loading: boolean
+  error: string | null
+  moveApplication: (opportunityId: string, status: ApplicationStatus) => Promise<void>
+  refetch: () => Promise<void>
+}
+
+/**
+ * Create or update the current user's application for an opportunity
+ */
+export async function saveApplication(
+  opportunityId: string,
+  data: ApplicationFormData
+): Promise<Application> {
+  const response = await fetch(`/api/opportunities/${opportunityId}/application`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  })
+
+  const result = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error('Unauthorized. Please log in.')
+    }
+    throw new Error(result.details?.[0]?.message || result.error || 'Failed to save application')
+  }
+
+  return result.data
+}
+
+/**
+ * Stop tracking an opportunity
+ */
+export async function removeApplication(opportunityId: string): Promise<void> {
+  const response = await fetch(`/api/opportunities/${opportunityId}/application`, {
+    method: 'DELETE',
+  })
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || 'Failed to remove application')
+  }
+}
+
+export function useApplications(options: UseApplicationsOptions = {}): UseApplicationsReturn {
+  const { autoFetch = true } = options
+
+  const [applications, setApplications] = useState<TrackedApplication[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchApplications = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/applications')
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          throw new Error('Unauthorized. Please log in.')
+        }
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Failed to fetch applications: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      setApplications(data.data || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch applications'
+      setError(errorMessage)
+      setApplications([])
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Optimistic move between board columns; refetches on failure
+  const moveApplication = useCallback(async (opportunityId: string, status: ApplicationStatus) => {
+    setApplications(prev => prev.map(application =>
+      application.opportunity_id === opportunityId ? { ...application, status } : application
+    ))
+
+    try {
+      const updated = await saveApplication(opportunityId, { status })
+      setApplications(prev => prev.map(application =>
+        application.opportunity_id === opportunityId ? { ...application, ...updated } : application
+      ))
+    } catch (err) {
+      await fetchApplications()
+      throw err
+    }
+  }, [fetchApplications])
+
+  // Recomputed locally so stats follow optimistic board moves
+  const stats = useMemo(
+    () => getApplicationStats(applications.map(application => application.status)),
+    [applications]
+  )
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchApplications()
+    }
+  }, [autoFetch, fetchApplications])
+
+  return {
+    applications,
+    stats,
+    loading,
+    error,
+    moveApplication,
+    refetch: fetchApplications
+  }
+}
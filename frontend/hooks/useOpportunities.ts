@@ -6,13 +6,18 @@ import type { Major, RoleType } from "@/lib/constants"
 
 type OpportunityType = 'internship' | 'full_time' | 'research' | 'fellowship' | 'scholarship'
 type OpportunityStatus = 'active' | 'expired'
-type SortOption = 'deadline-asc' | 'deadline-desc' | 'recent' | 'company-asc'
+type SortOption = 'deadline-asc' | 'deadline-desc' | 'recent' | 'company-asc' | 'relevance'
 
 interface UseOpportunitiesOptions {
   types?: OpportunityType[]
   majors?: Major[]
   roles?: RoleType[]
+  location?: string
+  remote?: boolean
+  deadlineBefore?: string // YYYY-MM-DD, inclusive
+  deadlineAfter?: string // YYYY-MM-DD, inclusive
   status?: OpportunityStatus
+  search?: string
   sort?: SortOption
   limit?: number
   offset?: number
@@ -20,7 +25,7 @@ interface UseOpportunitiesOptions {
 }
 
 interface PaginationInfo {
-  total: number
+  total: number | null // Only counted on the first page; kept while loading more
   limit: number
   offset: number
   hasMore: boolean
@@ -29,6 +34,7 @@ interface PaginationInfo {
 interface UseOpportunitiesReturn {
   opportunities: Opportunity[]
   loading: boolean
+  loadingMore: boolean
   error: string | null
   pagination: PaginationInfo | null
   refetch: () => Promise<void>
@@ -40,7 +46,12 @@ export function useOpportunities(options: UseOpportunitiesOptions = {}): UseOppo
     types = [],
     majors = [],
     roles = [],
+    location = '',
+    remote,
+    deadlineBefore,
+    deadlineAfter,
     status = 'active',
+    search = '',
     sort = 'deadline-asc',
     limit = 20,
     offset = 0,
@@ -49,13 +60,16 @@ export function useOpportunities(options: UseOpportunitiesOptions = {}): UseOppo
 
   const [opportunities, setOpportunities] = useState<Opportunity[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [pagination, setPagination] = useState<PaginationInfo | null>(null)
-  const [currentOffset, setCurrentOffset] = useState(offset)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
 
-  const fetchOpportunities = useCallback(async (fetchOffset: number = 0, append: boolean = false) => {
+  const fetchOpportunities = useCallback(async (cursor: string | null = null, append: boolean = false) => {
+    // Appending keeps the current cards on screen instead of the full loading state
+    const setBusy = append ? setLoadingMore : setLoading
     try {
-      setLoading(true)
+      setBusy(true)
       setError(null)
 
       // Build query parameters
@@ -69,14 +83,33 @@ export function useOpportunities(options: UseOpportunitiesOptions = {}): UseOppo
       if (roles.length > 0) {
         params.append('roles', roles.join(','))
       }
+      if (location.trim()) {
+        params.append('location', location.trim())
+      }
+      if (remote !== undefined) {
+        params.append('remote', String(remote))
+      }
+      if (deadlineBefore) {
+        params.append('deadline_before', deadlineBefore)
+      }
+      if (deadlineAfter) {
+        params.append('deadline_after', deadlineAfter)
+      }
       if (status) {
         params.append('status', status)
       }
+      if (search.trim()) {
+        params.append('search', search.trim())
+      }
       if (sort) {
         params.append('sort', sort)
       }
       params.append('limit', limit.toString())
-      params.append('offset', fetchOffset.toString())
+      if (cursor) {
+        params.append('cursor', cursor)
+      } else {
+        params.append('offset', offset.toString())
+      }
 
       const response = await fetch(`/api/opportunities?${params.toString()}`)
 
@@ -85,7 +118,7 @@ export function useOpportunities(options: UseOpportunitiesOptions = {}): UseOppo
           throw new Error('Unauthorized. Please log in.')
         }
         const errorData = await response.json().catch(() => ({}))
-        throw new Error(errorData.error || `Failed to fetch opportunities: ${response.statusText}`)
+        throw new Error(errorData.details?.[0]?.message || errorData.error || `Failed to fetch opportunities: ${response.statusText}`)
       }
 
       const data = await response.json()
@@ -96,8 +129,13 @@ export function useOpportunities(options: UseOpportunitiesOptions = {}): UseOppo
         setOpportunities(data.data || [])
       }
 
-      setPagination(data.pagination || null)
-      setCurrentOffset(fetchOffset)
+      setPagination(prev => {
+        if (!data.pagination) return null
+        return append && prev
+          ? { ...data.pagination, total: data.pagination.total ?? prev.total }
+          : data.pagination
+      })
+      setNextCursor(data.nextCursor ?? null)
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch opportunities'
       setError(errorMessage)
@@ -105,29 +143,31 @@ export function useOpportunities(options: UseOpportunitiesOptions = {}): UseOppo
         setOpportunities([])
       }
     } finally {
-      setLoading(false)
+      setBusy(false)
     }
-  }, [types, majors, roles, status, sort, limit])
+  }, [types, majors, roles, location, remote, deadlineBefore, deadlineAfter, status, search, sort, limit, offset])
 
   const refetch = useCallback(async () => {
-    await fetchOpportunities(0, false)
+    await fetchOpportunities(null, false)
   }, [fetchOpportunities])
 
+  // Keyset pagination: continues after the last loaded card even if new ones were inserted
   const fetchMore = useCallback(async () => {
-    if (pagination?.hasMore && !loading) {
-      await fetchOpportunities(currentOffset + limit, true)
+    if (nextCursor && !loading && !loadingMore) {
+      await fetchOpportunities(nextCursor, true)
     }
-  }, [fetchOpportunities, pagination, loading, currentOffset, limit])
+  }, [fetchOpportunities, nextCursor, loading, loadingMore])
 
   useEffect(() => {
     if (autoFetch) {
-      fetchOpportunities(0, false)
+      fetchOpportunities(null, false)
     }
   }, [autoFetch, fetchOpportunities])
 
   return {
     opportunities,
     loading,
+    loadingMore,
     error,
     pagination,
     refetch,
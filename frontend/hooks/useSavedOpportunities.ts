@@ -0,0 +1,130 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Opportunity } from "@/types"
+
+export type SavedOpportunity = Opportunity & { saved_at: string | null }
+
+interface UseSavedOpportunitiesOptions {
+  autoFetch?: boolean
+}
+
+interface UseSavedOpportunitiesReturn {
+  savedOpportunities: SavedOpportunity[]
+  savedIds: Set<string>
+  loading: boolean
+  error: string | null
+  isSaved: (opportunityId: string) => boolean
+  toggleSave: (opportunityId: string) => Promise<boolean>
+  refetch: () => Promise<void>
+}
+
+/**
+ * Save or unsave a single opportunity for the current user
+ *
+ * @returns The new saved state
+ */
+export async function setOpportunitySaved(opportunityId: string, saved: boolean): Promise<boolean> {
+  const response = await fetch(`/api/opportunities/${opportunityId}/save`, {
+    method: saved ? 'POST' : 'DELETE',
+  })
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error('Unauthorized. Please log in.')
+    }
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || (saved ? 'Failed to save opportunity' : 'Failed to remove saved opportunity'))
+  }
+
+  const data = await response.json()
+  return Boolean(data.saved)
+}
+
+export function useSavedOpportunities(options: UseSavedOpportunitiesOptions = {}): UseSavedOpportunitiesReturn {
+  const { autoFetch = true } = options
+
+  const [savedOpportunities, setSavedOpportunities] = useState<SavedOpportunity[]>([])
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSaved = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/opportunities/saved')
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          throw new Error('Unauthorized. Please log in.')
+        }
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Failed to fetch saved opportunities: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      const saved: SavedOpportunity[] = data.data || []
+
+      setSavedOpportunities(saved)
+      setSavedIds(new Set(saved.map(opportunity => opportunity.id)))
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch saved opportunities'
+      setError(errorMessage)
+      setSavedOpportunities([])
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const isSaved = useCallback((opportunityId: string) => savedIds.has(opportunityId), [savedIds])
+
+  // Optimistic toggle; rolls back and rethrows if the request fails
+  const toggleSave = useCallback(async (opportunityId: string) => {
+    const nextSaved = !savedIds.has(opportunityId)
+
+    const applySaved = (saved: boolean) => {
+      setSavedIds(prev => {
+        const next = new Set(prev)
+        if (saved) {
+          next.add(opportunityId)
+        } else {
+          next.delete(opportunityId)
+        }
+        return next
+      })
+      if (!saved) {
+        setSavedOpportunities(prev => prev.filter(opportunity => opportunity.id !== opportunityId))
+      }
+    }
+
+    applySaved(nextSaved)
+    try {
+      return await setOpportunitySaved(opportunityId, nextSaved)
+    } catch (err) {
+      applySaved(!nextSaved)
+      if (nextSaved === false) {
+        // Restore the removed card
+        await fetchSaved()
+      }
+      throw err
+    }
+  }, [savedIds, fetchSaved])
+
+  useEffect(() => {
+    if (autoFetch) {
+      fetchSaved()
+    }
+  }, [autoFetch, fetchSaved])
+
+  return {
+    savedOpportunities,
+    savedIds,
+    loading,
+    error,
+    isSaved,
+    toggleSave,
+    refetch: fetchSaved
+  }
+}
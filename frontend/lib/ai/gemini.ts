@@ -1,54 +1,40 @@
 import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "@google/generative-ai"
+import {
+  ParserError,
+  RateLimitError,
+  assertParsableContent,
+  buildPrompt,
+  parseAndValidateResponse,
+  sleep,
+  type JobParser,
+  type ParsedJobData,
+  type ParseOptions,
+} from "./shared"
 
 const apiKey = process.env.GEMINI_API_KEY || ""
 
 export const genAI = apiKey ? new GoogleGenerativeAI(apiKey) : null
 
-/**
- * Parsed job posting data structure
- */
-export interface ParsedJobData {
-  company_name: string | null
-  job_title: string | null
-  opportunity_type: 'internship' | 'full_time' | 'research' | 'fellowship' | 'scholarship' | null
-  role_type: string | null
-  relevant_majors: string[] | null
-  deadline: string | null // YYYY-MM-DD format
-  requirements: string | null
-  location: string | null
-  description: string | null
-}
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-2.5-flash"
 
-/**
- * Options for parsing job postings
- */
-export interface ParseOptions {
-  timeout?: number // Timeout in milliseconds (default: 30000)
-  maxRetries?: number // Max retries on rate limit (default: 3)
-  retryDelay?: number // Delay between retries in ms (default: 1000)
-}
+// Re-exported so existing imports from '@/lib/ai/gemini' keep working
+export type { ParsedJobData, ParseOptions } from "./shared"
+export { RateLimitError } from "./shared"
 
 /**
- * Custom error types for better error handling
+ * Gemini-specific API error
  */
-export class GeminiAPIError extends Error {
+export class GeminiAPIError extends ParserError {
   constructor(
     message: string,
-    public code?: string,
-    public statusCode?: number
+    code?: string,
+    statusCode?: number
   ) {
-    super(message)
+    super(message, code, statusCode)
     this.name = 'GeminiAPIError'
   }
 }
 
-export class RateLimitError extends GeminiAPIError {
-  constructor(message: string = 'Rate limit exceeded. Please try again later.') {
-    super(message, 'RATE_LIMIT_EXCEEDED', 429)
-    this.name = 'RateLimitError'
-  }
-}
-
 /**
  * Parse job posting from URL (Primary Method)
  * 
@@ -74,7 +60,7 @@ export async function parseJobPostingFromUrl(
 
   // Use Gemini 1.5 Flash (fast and reliable)
   const model = genAI.getGenerativeModel({
-    model: "gemini-2.5-flash",
+    model: GEMINI_MODEL,
     safetySettings: [
       {
         category: HarmCategory.HARM_CATEGORY_HARASSMENT,
@@ -150,12 +136,7 @@ export async function parseJobPostingFromText(
     throw new GeminiAPIError("Gemini API key not configured", "API_KEY_MISSING")
   }
 
-  if (!content || content.trim().length < 50) {
-    throw new GeminiAPIError(
-      "Content is too short or empty. Please provide at least 50 characters.",
-      "INVALID_CONTENT"
-    )
-  }
+  assertParsableContent(content)
 
   const {
     timeout = 30000,
@@ -164,7 +145,7 @@ export async function parseJobPostingFromText(
   } = options
 
   const model = genAI.getGenerativeModel({
-    model: "gemini-2.5-flash",
+    model: GEMINI_MODEL,
     safetySettings: [
       {
         category: HarmCategory.HARM_CATEGORY_HARASSMENT,
@@ -192,7 +173,7 @@ export async function parseJobPostingFromText(
       const response = await result.response
       const text = response.text()
 
-      return parseAndValidateResponse(text)
+      return parseAndValidateResponse(text, content)
     } catch (error: any) {
       lastError = error
 
@@ -233,174 +214,11 @@ export async function parseJobPosting(
 }
 
 /**
- * Build optimized prompt for job posting extraction
- */
-function buildPrompt(content: string): string {
-  return `You are a job posting parser. Extract structured information from the following job posting and return ONLY a valid JSON object.
-
-Job Posting:
-${content}
-
-Extract the following fields and return as JSON:
-{
-  "company_name": "string or null",
-  "job_title": "string or null",
-  "opportunity_type": "internship|full_time|research|fellowship|scholarship|null",
-  "role_type": "string or null",
-  "relevant_majors": ["array of strings"] or null,
-  "deadline": "YYYY-MM-DD or null",
-  "requirements": "string or null",
-  "location": "string or null",
-  "description": "string or null"
-}
-
-Instructions:
-1. company_name: Extract the company or organization name. Look in page title, headers, or URL if not explicitly stated.
-2. job_title: Extract the job/position title. Look for titles like "Software Engineer", "Intern", "Research Assistant", etc.
-3. opportunity_type: Classify as one of: internship, full_time, research, fellowship, or scholarship
-   - Use "internship" for summer internships, co-ops, intern positions, "intern" keywords
-   - Use "full_time" for full-time jobs, permanent positions, "full-time" keywords
-   - Use "research" for research positions, research assistantships, "research" keywords
-   - Use "fellowship" for fellowship programs
-   - Use "scholarship" for scholarships, grants
-4. role_type: Extract the role category (e.g., "Software Engineering", "Product Management", "Data Science", "Marketing", etc.) from job title or description
-5. relevant_majors: Extract list of relevant academic majors or fields of study. Look for mentions of degrees, majors, or fields
-6. deadline: Extract application deadline in YYYY-MM-DD format. Parse dates like "December 15, 2025" as "2025-12-15". Look for "deadline", "apply by", "closing date" keywords
-7. requirements: Extract ALL key requirements including education, experience, skills, qualifications. Combine all requirement sections into one comprehensive string. Include preferred qualifications if available.
-8. location: Extract job location (city, state, country, or "Remote"). Look for location mentions, "based in", "located in", or remote indicators
-9. description: Extract a comprehensive job description. Include what the role involves, responsibilities, and what the company is looking for. If full description isn't available, create a brief summary based on available information.
-
-Rules:
-- Return ONLY valid JSON, no markdown, no code blocks, no explanations
-- Be AGGRESSIVE in extracting information - look for any clues in the content
-- If information is partially available, extract what you can find
-- For requirements: Combine all requirement sections, qualifications, and preferred qualifications into one string
-- For description: Provide a comprehensive description (3-5 sentences) if possible, or at least 2 sentences
-- Use null ONLY if absolutely no information can be found for a field
-- For dates, always use YYYY-MM-DD format
-- For relevant_majors, return an array even if only one major is found
-- Be thorough and extract as much information as possible
-
-Return the JSON now:`
-}
-
-/**
- * Parse and validate AI response
- */
-function parseAndValidateResponse(text: string): ParsedJobData {
-  try {
-    // Remove markdown code blocks if present
-    let cleanText = text.trim()
-    cleanText = cleanText.replace(/```json\n?/g, '')
-    cleanText = cleanText.replace(/```\n?/g, '')
-    cleanText = cleanText.trim()
-
-    // Find JSON object in response
-    const jsonMatch = cleanText.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      throw new Error("No JSON object found in AI response")
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]) as ParsedJobData
-
-    // Validate and normalize data
-    const validated: ParsedJobData = {
-      company_name: normalizeString(parsed.company_name),
-      job_title: normalizeString(parsed.job_title),
-      opportunity_type: normalizeOpportunityType(parsed.opportunity_type),
-      role_type: normalizeString(parsed.role_type),
-      relevant_majors: normalizeArray(parsed.relevant_majors),
-      deadline: normalizeDate(parsed.deadline),
-      requirements: normalizeString(parsed.requirements),
-      location: normalizeString(parsed.location),
-      description: normalizeString(parsed.description),
-    }
-
-    return validated
-  } catch (error: any) {
-    throw new GeminiAPIError(
-      `Failed to parse AI response: ${error.message}`,
-      'INVALID_RESPONSE'
-    )
-  }
-}
-
-/**
- * Normalize string fields
- */
-function normalizeString(value: any): string | null {
-  if (!value || typeof value !== 'string') return null
-  const trimmed = value.trim()
-  return trimmed.length > 0 ? trimmed : null
-}
-
-/**
- * Normalize array fields
- */
-function normalizeArray(value: any): string[] | null {
-  if (!value) return null
-  if (Array.isArray(value)) {
-    const filtered = value
-      .filter(item => typeof item === 'string' && item.trim().length > 0)
-      .map(item => item.trim())
-    return filtered.length > 0 ? filtered : null
-  }
-  return null
-}
-
-/**
- * Normalize opportunity type
- */
-function normalizeOpportunityType(value: any): ParsedJobData['opportunity_type'] {
-  if (!value || typeof value !== 'string') return null
-  
-  const normalized = value.toLowerCase().trim()
-  const validTypes = ['internship', 'full_time', 'research', 'fellowship', 'scholarship']
-  
-  if (validTypes.includes(normalized)) {
-    return normalized as ParsedJobData['opportunity_type']
-  }
-  
-  return null
-}
-
-/**
- * Normalize date to YYYY-MM-DD format
- */
-function normalizeDate(value: any): string | null {
-  if (!value || typeof value !== 'string') return null
-  
-  const trimmed = value.trim()
-  
-  // Check if already in YYYY-MM-DD format
-  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
-    // Validate it's a real date
-    const date = new Date(trimmed)
-    if (!isNaN(date.getTime())) {
-      return trimmed
-    }
-  }
-  
-  // Try to parse other date formats
-  try {
-    const date = new Date(trimmed)
-    if (!isNaN(date.getTime())) {
-      const year = date.getFullYear()
-      const month = String(date.getMonth() + 1).padStart(2, '0')
-      const day = String(date.getDate()).padStart(2, '0')
-      return `${year}-${month}-${day}`
-    }
-  } catch {
-    // Parsing failed
-  }
-  
-  return null
-}
-
-/**
- * Sleep helper for retry delays
+ * Gemini provider for the JobParser interface
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
+export const geminiParser: JobParser = {
+  name: 'gemini',
+  model: GEMINI_MODEL,
+  parseFromText: parseJobPostingFromText,
+  parseFromUrl: parseJobPostingFromUrl,
 }
-
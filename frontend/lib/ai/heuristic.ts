@@ -0,0 +1,347 @@
+import {
+  assertParsableContent,
+  normalizeParsedJobData,
+  PARSED_JOB_FIELDS,
+  type JobParser,
+  type ParsedFieldEvidence,
+  type ParsedJobData,
+  type ParsedJobField,
+  type ParseOptions,
+} from "./shared"
+
+/**
+ * Deterministic, rule-based parser provider
+ *
+ * No network calls and no API key: useful for offline/on-prem installs and
+ * for running the submit pipeline in tests. Results are less complete than
+ * an LLM, but the same input always produces the same output.
+ */
+
+const TITLE_KEYWORDS = /\b(intern(ship)?|co-?op|engineer|developer|analyst|manager|scientist|designer|fellow(ship)?|researcher|research assistant|assistant|associate|specialist|coordinator|scholarship|consultant)\b/i
+
+const SECTION_HEADINGS = /^(about( the)? (role|job|position|company|us)|job description|description|overview|responsibilities|what you('|’)ll do|requirements|qualifications|minimum qualifications|basic qualifications|preferred qualifications|what you('|’)ll need|who you are|skills|benefits|perks|compensation|how to apply)\s*:?$/i
+
+const REQUIREMENT_HEADINGS = /^(requirements|qualifications|minimum qualifications|basic qualifications|preferred qualifications|what you('|’)ll need|who you are|skills)\s*:?$/i
+
+const DESCRIPTION_HEADINGS = /^(about( the)? (role|job|position)|job description|description|overview|responsibilities|what you('|’)ll do)\s*:?$/i
+
+// Ordered: the first matching rule wins
+const OPPORTUNITY_TYPE_RULES: Array<[RegExp, NonNullable<ParsedJobData['opportunity_type']>]> = [
+  [/\bscholarships?\b/i, 'scholarship'],
+  [/\bfellowships?\b|\bfellows?\b/i, 'fellowship'],
+  [/\bintern(ship)?s?\b|\bco-?op\b/i, 'internship'],
+  [/\bresearch (assistant|associate|position|lab|scientist)\b|\bresearch\b/i, 'research'],
+  [/\bfull[- ]time\b|\bpermanent\b|\bnew grad(uate)?\b/i, 'full_time'],
+]
+
+const ROLE_TYPE_RULES: Array<[RegExp, string]> = [
+  [/\bdata scien|\bmachine learning\b|\bdata analy|\bml engineer/i, 'Data Science'],
+  [/\bproduct manag/i, 'Product Management'],
+  [/\bux\b|\bui\/ux\b|\buser experience\b|\bdesigner\b/i, 'UX Design'],
+  [/\bsoftware\b|\bdeveloper\b|\bfront[- ]?end\b|\bback[- ]?end\b|\bfull[- ]?stack\b|\bengineer(ing)?\b/i, 'Software Engineering'],
+  [/\bfinanc|\baccounting\b|\binvestment\b/i, 'Finance'],
+  [/\bmarketing\b|\bbrand\b|\bgrowth\b/i, 'Marketing'],
+]
+
+const KNOWN_MAJORS = [
+  'Computer Science',
+  'Computer Engineering',
+  'Software Engineering',
+  'Electrical Engineering',
+  'Mechanical Engineering',
+  'Civil Engineering',
+  'Chemical Engineering',
+  'Data Science',
+  'Information Systems',
+  'Information Technology',
+  'Mathematics',
+  'Statistics',
+  'Physics',
+  'Chemistry',
+  'Biology',
+  'Economics',
+  'Business Administration',
+  'Business',
+  'Finance',
+  'Accounting',
+  'Marketing',
+  'Psychology',
+]
+
+// How far each rule-based extraction can be trusted; a labeled or keyword
+// line (e.g. "Apply by: ...") is stronger than a guess from the first lines
+const HEURISTIC_CONFIDENCE: Record<ParsedJobField, number> = {
+  company_name: 0.5,
+  job_title: 0.6,
+  opportunity_type: 0.6,
+  role_type: 0.5,
+  relevant_majors: 0.7,
+  deadline: 0.8,
+  requirements: 0.7,
+  location: 0.6,
+  description: 0.5,
+}
+
+const LABELED_LINE = /^[a-z][a-z ]{1,25}:\s*\S/i
+const LABELED_CONFIDENCE = 0.85
+
+const MONTH_DATE = /\b(jan(uary)?|feb(ruary)?|mar(ch)?|apr(il)?|may|jun(e)?|jul(y)?|aug(ust)?|sep(t(ember)?)?|oct(ober)?|nov(ember)?|dec(ember)?)\.?\s+\d{1,2}(st|nd|rd|th)?,?\s+\d{4}\b/i
+const ISO_DATE = /\b\d{4}-\d{2}-\d{2}\b/
+const SLASH_DATE = /\b\d{1,2}\/\d{1,2}\/\d{4}\b/
+const DEADLINE_KEYWORDS = /\b(deadline|apply by|applications? (close|due)|closing date|due date|submit by|closes)\b/i
+
+/**
+ * Split content into trimmed, non-empty lines
+ */
+function toLines(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+}
+
+/**
+ * Find a "Label: value" line and return the value
+ */
+function getLabeledValue(lines: string[], labels: string[]): string | null {
+  const pattern = new RegExp(`^(${labels.join('|')})\\s*[:\\-–]\\s*(.+)$`, 'i')
+  for (const line of lines) {
+    const match = line.match(pattern)
+    if (match?.[2]) {
+      return match[2].trim()
+    }
+  }
+  return null
+}
+
+/**
+ * Collect the lines that follow any heading matching `heading`
+ * until the next section heading
+ */
+function getSections(lines: string[], heading: RegExp): string[] {
+  const collected: string[] = []
+  let inSection = false
+
+  for (const line of lines) {
+    if (heading.test(line)) {
+      inSection = true
+      continue
+    }
+    if (inSection && SECTION_HEADINGS.test(line)) {
+      inSection = false
+      continue
+    }
+    if (inSection) {
+      collected.push(line.replace(/^[-•*·]\s*/, ''))
+    }
+  }
+
+  return collected
+}
+
+/**
+ * Find the first date-like substring in a line
+ */
+function findDate(text: string): string | null {
+  const match = text.match(MONTH_DATE) || text.match(ISO_DATE) || text.match(SLASH_DATE)
+  return match ? match[0].replace(/(\d)(st|nd|rd|th)/i, '$1') : null
+}
+
+function extractJobTitle(lines: string[]): string | null {
+  const labeled = getLabeledValue(lines, ['job title', 'title', 'position', 'role'])
+  if (labeled) return labeled
+
+  const candidate = lines.slice(0, 10).find(line => line.length <= 100 && TITLE_KEYWORDS.test(line))
+  if (candidate) {
+    // "Software Engineer Intern - Summer 2025 | Acme" -> "Software Engineer Intern - Summer 2025"
+    return candidate.split(/\s+[|·]\s+/)[0].trim()
+  }
+
+  if (lines[0] && lines[0].length <= 100) {
+    return lines[0]
+  }
+
+  // Single-paragraph postings: "We are hiring a Data Analyst at Acme"
+  const hiring = lines.join(' ').match(/\b(?:hiring|seeking|looking for)\s+(?:an?\s+)?([A-Z][\w/&\- ]{2,60}?)(?=\s+(?:at|to|for|in|who|with)\b|[.,])/)
+  return hiring ? hiring[1].trim() : null
+}
+
+function extractCompanyName(lines: string[], content: string): string | null {
+  const labeled = getLabeledValue(lines, ['company', 'company name', 'organization', 'employer'])
+  if (labeled) return labeled
+
+  const name = '([A-Z][\\w&\\-]*(?:\\s+[A-Z][\\w&\\-]*){0,3})'
+  const patterns = [
+    new RegExp(`\\bAbout\\s+${name}`),
+    new RegExp(`\\b(?:at|join)\\s+${name}`),
+  ]
+  for (const pattern of patterns) {
+    const match = content.match(pattern)
+    if (match?.[1] && !/^(the|us|our)$/i.test(match[1])) {
+      return match[1].trim()
+    }
+  }
+
+  const corporate = lines.find(line =>
+    line.length <= 80 && /\b(Inc|LLC|Ltd|Corp|Corporation|Company|University|Labs|Foundation)\b\.?/.test(line)
+  )
+  return corporate || null
+}
+
+function extractOpportunityType(title: string | null, content: string): ParsedJobData['opportunity_type'] {
+  for (const source of [title || '', content]) {
+    for (const [pattern, type] of OPPORTUNITY_TYPE_RULES) {
+      if (pattern.test(source)) {
+        return type
+      }
+    }
+  }
+  return null
+}
+
+function extractRoleType(title: string | null, content: string): string | null {
+  for (const source of [title || '', content]) {
+    for (const [pattern, role] of ROLE_TYPE_RULES) {
+      if (pattern.test(source)) {
+        return role
+      }
+    }
+  }
+  return null
+}
+
+function extractMajors(content: string): string[] {
+  const found: string[] = []
+  for (const major of KNOWN_MAJORS) {
+    const pattern = new RegExp(`\\b${major.replace(/\s+/g, '\\s+')}\\b`, 'i')
+    // "Business" is implied by "Business Administration"
+    if (pattern.test(content) && !found.some(existing => existing.startsWith(major))) {
+      found.push(major)
+    }
+  }
+  return found
+}
+
+/**
+ * Find the first deadline-keyword line that contains a date
+ */
+function findDeadlineLine(lines: string[]): string | null {
+  return lines.find(line => DEADLINE_KEYWORDS.test(line) && findDate(line) !== null) ?? null
+}
+
+function extractDeadline(lines: string[]): string | null {
+  const line = findDeadlineLine(lines)
+  return line ? findDate(line) : null
+}
+
+function extractLocation(lines: string[], content: string): string | null {
+  const labeled = getLabeledValue(lines, ['location', 'locations', 'office', 'based in', 'work location'])
+  if (labeled) return labeled
+
+  const cityState = content.match(/\b([A-Z][a-zA-Z.]+(?:\s[A-Z][a-zA-Z.]+)*,\s?[A-Z]{2})\b/)
+  if (cityState) return cityState[1]
+
+  if (/\bremote\b/i.test(content)) return 'Remote'
+
+  return null
+}
+
+function extractRequirements(lines: string[]): string | null {
+  const section = getSections(lines, REQUIREMENT_HEADINGS)
+  return section.length > 0 ? section.join('\n') : null
+}
+
+function extractDescription(lines: string[], content: string): string | null {
+  const section = getSections(lines, DESCRIPTION_HEADINGS)
+  if (section.length > 0) {
+    return section.join('\n').slice(0, 2000)
+  }
+
+  // Fall back to the first few sentences of prose
+  const prose = lines
+    .filter(line => line.length > 60 && !/^[^:]{1,30}:/.test(line))
+    .join(' ')
+  const sentences = (prose || content).match(/[^.!?]+[.!?]+/g) || []
+  const summary = sentences.slice(0, 3).map(sentence => sentence.trim()).join(' ')
+  return summary.length > 0 ? summary.slice(0, 2000) : null
+}
+
+/**
+ * Per-field evidence for a rule-based parse: the line each value was found on
+ */
+function buildEvidence(lines: string[], data: ParsedJobData): ParsedFieldEvidence {
+  const evidence: ParsedFieldEvidence = {}
+
+  for (const field of PARSED_JOB_FIELDS) {
+    const value = data[field]
+    if (value === null) continue
+
+    let snippet: string | null = null
+    if (field === 'deadline') {
+      snippet = findDeadlineLine(lines)
+    } else if (field === 'relevant_majors' || typeof value === 'string') {
+      // Multi-line sections are matched on their first line
+      const needle = (Array.isArray(value) ? value[0] : value.split('\n')[0]).toLowerCase()
+      snippet = lines.find(line => line.toLowerCase().includes(needle)) ?? null
+    }
+
+    // "Company: Acme" states the value outright
+    const labeled = !!snippet && LABELED_LINE.test(snippet)
+    evidence[field] = {
+      confidence: labeled ? Math.max(HEURISTIC_CONFIDENCE[field], LABELED_CONFIDENCE) : HEURISTIC_CONFIDENCE[field],
+      snippet: snippet ? snippet.slice(0, 300) : null,
+    }
+  }
+
+  return evidence
+}
+
+/**
+ * Extract job posting fields with keyword and pattern rules
+ *
+ * @param content - Job posting text content
+ * @returns Parsed job data
+ */
+export function extractJobDataHeuristically(content: string): ParsedJobData {
+  const lines = toLines(content)
+  const jobTitle = extractJobTitle(lines)
+  const majors = extractMajors(content)
+
+  const data = normalizeParsedJobData({
+    company_name: extractCompanyName(lines, content),
+    job_title: jobTitle,
+    opportunity_type: extractOpportunityType(jobTitle, content),
+    role_type: extractRoleType(jobTitle, content),
+    relevant_majors: majors.length > 0 ? majors : null,
+    deadline: extractDeadline(lines),
+    requirements: extractRequirements(lines),
+    location: extractLocation(lines, content),
+    description: extractDescription(lines, content),
+  })
+
+  return { ...data, evidence: buildEvidence(lines, data) }
+}
+
+/**
+ * Parse job posting text without calling an AI model
+ *
+ * @param content - Job posting text content
+ * @param _options - Accepted for interface compatibility (unused)
+ * @returns Parsed job data
+ */
+export async function parseJobPostingHeuristically(
+  content: string,
+  _options: ParseOptions = {}
+): Promise<ParsedJobData> {
+  assertParsableContent(content)
+  return extractJobDataHeuristically(content)
+}
+
+/**
+ * Heuristic provider for the JobParser interface
+ */
+export const heuristicParser: JobParser = {
+  name: 'heuristic',
+  model: null,
+  parseFromText: parseJobPostingHeuristically,
+}
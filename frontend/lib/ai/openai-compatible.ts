@@ -0,0 +1,156 @@
+import {
+  ParserError,
+  RateLimitError,
+  assertParsableContent,
+  buildPrompt,
+  parseAndValidateResponse,
+  sleep,
+  type JobParser,
+  type ParsedJobData,
+  type ParseOptions,
+} from "./shared"
+
+/**
+ * OpenAI-compatible chat completions provider
+ *
+ * Works with OpenAI and any server exposing `/v1/chat/completions`
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...).
+ *
+ * Env:
+ * - OPENAI_BASE_URL: API base URL (default: https://api.openai.com/v1)
+ * - OPENAI_API_KEY: Bearer token (optional for local servers)
+ * - OPENAI_MODEL: Model name (default: gpt-4o-mini)
+ */
+const baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "")
+const apiKey = process.env.OPENAI_API_KEY || ""
+
+export const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o-mini"
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null
+    }
+  }>
+  error?: {
+    message?: string
+  }
+}
+
+/**
+ * Send one chat completion request and return the message text
+ */
+async function requestCompletion(prompt: string, timeout: number): Promise<string> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeout)
+
+  try {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    }
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: OPENAI_MODEL,
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0,
+      }),
+      signal: controller.signal,
+    })
+
+    if (response.status === 429) {
+      throw new RateLimitError()
+    }
+
+    const payload = (await response.json().catch(() => ({}))) as ChatCompletionResponse
+
+    if (!response.ok) {
+      throw new ParserError(
+        `OpenAI-compatible API error: ${payload.error?.message || response.statusText}`,
+        "API_ERROR",
+        response.status
+      )
+    }
+
+    const text = payload.choices?.[0]?.message?.content
+    if (!text) {
+      throw new ParserError("Empty response from OpenAI-compatible API", "INVALID_RESPONSE")
+    }
+
+    return text
+  } catch (error: any) {
+    if (error?.name === "AbortError") {
+      throw new ParserError(`Request timed out after ${timeout}ms`, "TIMEOUT")
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Parse job posting text with an OpenAI-compatible model
+ *
+ * @param content - Job posting text content
+ * @param options - Parse options
+ * @returns Parsed job data
+ */
+export async function parseJobPostingWithOpenAI(
+  content: string,
+  options: ParseOptions = {}
+): Promise<ParsedJobData> {
+  assertParsableContent(content)
+
+  const {
+    timeout = 30000,
+    maxRetries = 3,
+    retryDelay = 1000
+  } = options
+
+  const prompt = buildPrompt(content)
+
+  let lastError: Error | null = null
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      const text = await requestCompletion(prompt, timeout)
+      return parseAndValidateResponse(text, content)
+    } catch (error: any) {
+      lastError = error
+
+      if (error instanceof RateLimitError) {
+        if (attempt < maxRetries) {
+          console.warn(`Rate limit hit, retrying in ${retryDelay}ms... (attempt ${attempt}/${maxRetries})`)
+          await sleep(retryDelay * attempt)
+          continue
+        }
+        throw error
+      }
+
+      if (error instanceof ParserError && error.code === "TIMEOUT") {
+        throw error
+      }
+
+      break
+    }
+  }
+
+  throw new ParserError(
+    `Failed to parse job posting from text: ${lastError?.message || "Unknown error"}`,
+    "PARSE_FAILED"
+  )
+}
+
+/**
+ * OpenAI-compatible provider for the JobParser interface
+ */
+export const openAICompatibleParser: JobParser = {
+  name: "openai",
+  model: OPENAI_MODEL,
+  parseFromText: parseJobPostingWithOpenAI,
+}
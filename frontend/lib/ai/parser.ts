@@ -0,0 +1,60 @@
+import { geminiParser, genAI } from "./gemini"
+import { openAICompatibleParser } from "./openai-compatible"
+import { heuristicParser } from "./heuristic"
+import { ParserError, type JobParser, type ParserProviderName } from "./shared"
+
+export type {
+  JobParser,
+  ParserProviderName,
+  ParsedJobData,
+  ParsedJobField,
+  ParsedFieldEvidence,
+  FieldEvidence,
+  ParseOptions,
+} from "./shared"
+export {
+  ParserError,
+  RateLimitError,
+  PARSED_JOB_FIELDS,
+  LOW_CONFIDENCE_THRESHOLD,
+  getLowConfidenceFields,
+} from "./shared"
+
+const providers: Record<ParserProviderName, JobParser> = {
+  gemini: geminiParser,
+  openai: openAICompatibleParser,
+  heuristic: heuristicParser,
+}
+
+/**
+ * Resolve which parser provider to use
+ *
+ * Reads AI_PARSER_PROVIDER (gemini | openai | heuristic). When unset, Gemini
+ * is used if GEMINI_API_KEY is configured, otherwise the heuristic parser.
+ */
+export function getParserProviderName(): ParserProviderName {
+  const configured = process.env.AI_PARSER_PROVIDER?.trim().toLowerCase()
+
+  if (!configured) {
+    return genAI ? 'gemini' : 'heuristic'
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(providers, configured)) {
+    throw new ParserError(
+      `Unknown AI_PARSER_PROVIDER "${configured}". Use one of: ${Object.keys(providers).join(', ')}`,
+      'INVALID_PROVIDER'
+    )
+  }
+
+  return configured as ParserProviderName
+}
+
+/**
+ * Get the job parser for the configured (or requested) provider
+ *
+ * @param name - Optional provider override
+ * @returns JobParser implementation
+ */
+export function getJobParser(name?: ParserProviderName): JobParser {
+  return providers[name ?? getParserProviderName()]
+}
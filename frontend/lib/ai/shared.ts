@@ -0,0 +1,372 @@
+/**
+ * Shared types and helpers for job posting parser providers
+ */
+
+/**
+ * Parsed job posting data structure
+ */
+export interface ParsedJobData {
+  company_name: string | null
+  job_title: string | null
+  opportunity_type: 'internship' | 'full_time' | 'research' | 'fellowship' | 'scholarship' | null
+  role_type: string | null
+  relevant_majors: string[] | null
+  deadline: string | null // YYYY-MM-DD format
+  requirements: string | null
+  location: string | null
+  description: string | null
+  evidence?: ParsedFieldEvidence // Per-field confidence and supporting text (fields with a value only)
+}
+
+export type ParsedJobField = Exclude<keyof ParsedJobData, 'evidence'>
+
+export const PARSED_JOB_FIELDS: ParsedJobField[] = [
+  'company_name',
+  'job_title',
+  'opportunity_type',
+  'role_type',
+  'relevant_majors',
+  'deadline',
+  'requirements',
+  'location',
+  'description',
+]
+
+/**
+ * How sure the parser is about one field, and the posting text it was read from
+ */
+export interface FieldEvidence {
+  confidence: number // 0-1
+  snippet: string | null // Quoted from the posting; null when the value was inferred
+}
+
+export type ParsedFieldEvidence = Partial<Record<ParsedJobField, FieldEvidence>>
+
+// Fields below this confidence are shown to the submitter (or an admin) to confirm
+export const LOW_CONFIDENCE_THRESHOLD = 0.6
+
+// Confidence ceiling when the model gave no supporting text
+const NO_SNIPPET_CONFIDENCE = 0.5
+
+// Confidence ceiling when the quoted text isn't in the posting (likely made up)
+const UNVERIFIED_SNIPPET_CONFIDENCE = 0.3
+
+const MAX_SNIPPET_LENGTH = 300
+
+/**
+ * Options for parsing job postings
+ */
+export interface ParseOptions {
+  timeout?: number // Timeout in milliseconds (default: 30000)
+  maxRetries?: number // Max retries on rate limit (default: 3)
+  retryDelay?: number // Delay between retries in ms (default: 1000)
+}
+
+/**
+ * Available parser providers (selected with AI_PARSER_PROVIDER)
+ */
+export type ParserProviderName = 'gemini' | 'openai' | 'heuristic'
+
+/**
+ * A job posting parser implementation
+ */
+export interface JobParser {
+  name: ParserProviderName
+  model: string | null
+  parseFromText(content: string, options?: ParseOptions): Promise<ParsedJobData>
+  // Only providers that can fetch pages themselves implement URL parsing
+  parseFromUrl?(url: string, options?: ParseOptions): Promise<ParsedJobData>
+}
+
+/**
+ * Custom error types for better error handling
+ */
+export class ParserError extends Error {
+  constructor(
+    message: string,
+    public code?: string,
+    public statusCode?: number
+  ) {
+    super(message)
+    this.name = 'ParserError'
+  }
+}
+
+export class RateLimitError extends ParserError {
+  constructor(message: string = 'Rate limit exceeded. Please try again later.') {
+    super(message, 'RATE_LIMIT_EXCEEDED', 429)
+    this.name = 'RateLimitError'
+  }
+}
+
+export const MIN_CONTENT_LENGTH = 50
+
+/**
+ * Reject content that is too short to parse
+ */
+export function assertParsableContent(content: string): void {
+  if (!content || content.trim().length < MIN_CONTENT_LENGTH) {
+    throw new ParserError(
+      `Content is too short or empty. Please provide at least ${MIN_CONTENT_LENGTH} characters.`,
+      'INVALID_CONTENT'
+    )
+  }
+}
+
+/**
+ * Build optimized prompt for job posting extraction
+ */
+export function buildPrompt(content: string): string {
+  return `You are a job posting parser. Extract structured information from the following job posting and return ONLY a valid JSON object.
+
+Job Posting:
+${content}
+
+Extract the following fields and return as JSON:
+{
+  "company_name": "string or null",
+  "job_title": "string or null",
+  "opportunity_type": "internship|full_time|research|fellowship|scholarship|null",
+  "role_type": "string or null",
+  "relevant_majors": ["array of strings"] or null,
+  "deadline": "YYYY-MM-DD or null",
+  "requirements": "string or null",
+  "location": "string or null",
+  "description": "string or null",
+  "evidence": {
+    "<field name>": { "confidence": 0.0-1.0, "snippet": "text copied from the posting or null" }
+  }
+}
+
+Instructions:
+1. company_name: Extract the company or organization name. Look in page title, headers, or URL if not explicitly stated.
+2. job_title: Extract the job/position title. Look for titles like "Software Engineer", "Intern", "Research Assistant", etc.
+3. opportunity_type: Classify as one of: internship, full_time, research, fellowship, or scholarship
+   - Use "internship" for summer internships, co-ops, intern positions, "intern" keywords
+   - Use "full_time" for full-time jobs, permanent positions, "full-time" keywords
+   - Use "research" for research positions, research assistantships, "research" keywords
+   - Use "fellowship" for fellowship programs
+   - Use "scholarship" for scholarships, grants
+4. role_type: Extract the role category (e.g., "Software Engineering", "Product Management", "Data Science", "Marketing", etc.) from job title or description
+5. relevant_majors: Extract list of relevant academic majors or fields of study. Look for mentions of degrees, majors, or fields
+6. deadline: Extract application deadline in YYYY-MM-DD format. Parse dates like "December 15, 2025" as "2025-12-15". Look for "deadline", "apply by", "closing date" keywords
+7. requirements: Extract ALL key requirements including education, experience, skills, qualifications. Combine all requirement sections into one comprehensive string. Include preferred qualifications if available.
+8. location: Extract job location (city, state, country, or "Remote"). Look for location mentions, "based in", "located in", or remote indicators
+9. description: Extract a comprehensive job description. Include what the role involves, responsibilities, and what the company is looking for. If full description isn't available, create a brief summary based on available information.
+10. evidence: For every field you return a value for, add an entry with:
+   - confidence: 0.9 or higher when the posting states it outright, 0.5-0.8 when you inferred it from context, below 0.5 when it is a guess
+   - snippet: the shortest passage (under 200 characters) copied word for word from the posting that supports the value, or null if there is none
+
+Rules:
+- Return ONLY valid JSON, no markdown, no code blocks, no explanations
+- Be AGGRESSIVE in extracting information - look for any clues in the content
+- If information is partially available, extract what you can find
+- For requirements: Combine all requirement sections, qualifications, and preferred qualifications into one string
+- For description: Provide a comprehensive description (3-5 sentences) if possible, or at least 2 sentences
+- Use null ONLY if absolutely no information can be found for a field
+- For dates, always use YYYY-MM-DD format
+- Never guess a deadline: use null unless the posting states when applications close (a posting date or start date is not a deadline)
+- Snippets must be exact quotes from the posting; never paraphrase them
+- For relevant_majors, return an array even if only one major is found
+- Be thorough and extract as much information as possible
+
+Return the JSON now:`
+}
+
+/**
+ * Parse and validate AI response
+ *
+ * @param text - Raw model output
+ * @param content - The posting text the model was given, used to check its snippets
+ */
+export function parseAndValidateResponse(text: string, content?: string): ParsedJobData {
+  try {
+    // Remove markdown code blocks if present
+    let cleanText = text.trim()
+    cleanText = cleanText.replace(/```json\n?/g, '')
+    cleanText = cleanText.replace(/```\n?/g, '')
+    cleanText = cleanText.trim()
+
+    // Find JSON object in response
+    const jsonMatch = cleanText.match(/\{[\s\S]*\}/)
+    if (!jsonMatch) {
+      throw new Error("No JSON object found in AI response")
+    }
+
+    const parsed = JSON.parse(jsonMatch[0])
+    const data = normalizeParsedJobData(parsed)
+
+    return { ...data, evidence: normalizeEvidence(parsed.evidence, data, content) }
+  } catch (error: any) {
+    throw new ParserError(
+      `Failed to parse AI response: ${error.message}`,
+      'INVALID_RESPONSE'
+    )
+  }
+}
+
+/**
+ * Validate and normalize every field of a parsed result
+ */
+export function normalizeParsedJobData(parsed: Partial<Record<keyof ParsedJobData, any>>): ParsedJobData {
+  return {
+    company_name: normalizeString(parsed.company_name),
+    job_title: normalizeString(parsed.job_title),
+    opportunity_type: normalizeOpportunityType(parsed.opportunity_type),
+    role_type: normalizeString(parsed.role_type),
+    relevant_majors: normalizeArray(parsed.relevant_majors),
+    deadline: normalizeDate(parsed.deadline),
+    requirements: normalizeString(parsed.requirements),
+    location: normalizeString(parsed.location),
+    description: normalizeString(parsed.description),
+  }
+}
+
+/**
+ * Validate the model's per-field evidence against the parsed values
+ *
+ * Only fields with a value keep an entry. Snippets are checked against the
+ * posting text when it is available: a quote that isn't there is dropped
+ * and the field's confidence capped, so a made-up deadline shows up as low
+ * confidence instead of passing as fact.
+ *
+ * @param raw - The `evidence` object from the model response
+ * @param data - Normalized parsed fields
+ * @param content - Posting text the model was given (omit when it parsed a URL)
+ */
+export function normalizeEvidence(raw: any, data: ParsedJobData, content?: string): ParsedFieldEvidence {
+  const evidence: ParsedFieldEvidence = {}
+  const haystack = content ? normalizeForMatch(content) : null
+
+  for (const field of PARSED_JOB_FIELDS) {
+    if (data[field] === null) continue
+
+    const item = raw && typeof raw === 'object' ? raw[field] : null
+    const rated = Number(item?.confidence)
+    let confidence = Number.isFinite(rated) ? Math.min(Math.max(rated, 0), 1) : NO_SNIPPET_CONFIDENCE
+    let snippet = normalizeString(item?.snippet)?.slice(0, MAX_SNIPPET_LENGTH) ?? null
+
+    if (snippet && haystack && !snippetInContent(snippet, haystack)) {
+      snippet = null
+      confidence = Math.min(confidence, UNVERIFIED_SNIPPET_CONFIDENCE)
+    } else if (!snippet) {
+      confidence = Math.min(confidence, NO_SNIPPET_CONFIDENCE)
+    }
+
+    evidence[field] = { confidence: Math.round(confidence * 100) / 100, snippet }
+  }
+
+  return evidence
+}
+
+/**
+ * Fields that have a value but fall below LOW_CONFIDENCE_THRESHOLD
+ *
+ * Results parsed before evidence was recorded have none, so nothing is flagged.
+ */
+export function getLowConfidenceFields(data: ParsedJobData): ParsedJobField[] {
+  return PARSED_JOB_FIELDS.filter(field => {
+    const confidence = data.evidence?.[field]?.confidence
+    return data[field] !== null && confidence !== undefined && confidence < LOW_CONFIDENCE_THRESHOLD
+  })
+}
+
+function normalizeForMatch(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Whether a quoted snippet appears in the posting (ignoring case and
+ * whitespace; "..." between parts of a quote is allowed)
+ */
+function snippetInContent(snippet: string, haystack: string): boolean {
+  const parts = normalizeForMatch(snippet)
+    .split(/\s*(?:\.\.\.|…)\s*/)
+    .map(part => part.replace(/^["']|["']$/g, '').trim())
+    .filter(part => part.length > 0)
+  return parts.length > 0 && parts.every(part => haystack.includes(part))
+}
+
+/**
+ * Normalize string fields
+ */
+export function normalizeString(value: any): string | null {
+  if (!value || typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+/**
+ * Normalize array fields
+ */
+export function normalizeArray(value: any): string[] | null {
+  if (!value) return null
+  if (Array.isArray(value)) {
+    const filtered = value
+      .filter(item => typeof item === 'string' && item.trim().length > 0)
+      .map(item => item.trim())
+    return filtered.length > 0 ? filtered : null
+  }
+  return null
+}
+
+/**
+ * Normalize opportunity type
+ */
+export function normalizeOpportunityType(value: any): ParsedJobData['opportunity_type'] {
+  if (!value || typeof value !== 'string') return null
+
+  const normalized = value.toLowerCase().trim()
+  const validTypes = ['internship', 'full_time', 'research', 'fellowship', 'scholarship']
+
+  if (validTypes.includes(normalized)) {
+    return normalized as ParsedJobData['opportunity_type']
+  }
+
+  return null
+}
+
+/**
+ * Normalize date to YYYY-MM-DD format
+ */
+export function normalizeDate(value: any): string | null {
+  if (!value || typeof value !== 'string') return null
+
+  const trimmed = value.trim()
+
+  // Check if already in YYYY-MM-DD format
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    // Validate it's a real date
+    const date = new Date(trimmed)
+    if (!isNaN(date.getTime())) {
+      return trimmed
+    }
+  }
+
+  // Try to parse other date formats
+  try {
+    const date = new Date(trimmed)
+    if (!isNaN(date.getTime())) {
+      const year = date.getFullYear()
+      const month = String(date.getMonth() + 1).padStart(2, '0')
+      const day = String(date.getDate()).padStart(2, '0')
+      return `${year}-${month}-${day}`
+    }
+  } catch {
+    // Parsing failed
+  }
+
+  return null
+}
+
+/**
+ * Sleep helper for retry delays
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
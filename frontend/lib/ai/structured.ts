@@ -0,0 +1,82 @@
+import {
+  getMissingStructuredFields,
+  DEFAULT_MIN_CONFIDENCE,
+  type StructuredExtractionResult,
+  type StructuredJobField,
+} from "@/backend/services/structured-data-extractor"
+import { normalizeParsedJobData, type ParsedFieldEvidence, type ParsedJobData } from "./shared"
+
+/**
+ * Merge schema.org/meta structured data with parser output
+ *
+ * Confidently extracted structured fields win; everything else comes from
+ * the fallback (an AI or heuristic parse of the page text). Each field's
+ * evidence comes from whichever source supplied it.
+ */
+
+export interface StructuredMergeResult {
+  data: ParsedJobData
+  structuredFields: StructuredJobField[] // Fields taken from structured data
+  fallbackFields: StructuredJobField[] // Fields taken from the parser
+}
+
+/**
+ * Merge structured data with a fallback parse
+ *
+ * @param structured - Structured extraction result from the scraper
+ * @param fallback - Parsed job data used for missing/low-confidence fields
+ * @param minConfidence - Minimum confidence to trust a structured field
+ * @returns Merged data and which source each field came from
+ */
+export function mergeStructuredData(
+  structured: StructuredExtractionResult,
+  fallback: ParsedJobData | null,
+  minConfidence: number = DEFAULT_MIN_CONFIDENCE
+): StructuredMergeResult {
+  const missing = getMissingStructuredFields(structured, minConfidence)
+  const merged: Partial<Record<keyof ParsedJobData, any>> = {}
+  const evidence: ParsedFieldEvidence = {}
+  const structuredFields: StructuredJobField[] = []
+  const fallbackFields: StructuredJobField[] = []
+
+  // Schema.org/meta values are machine-authored, so there is no quote to show
+  const takeStructured = (field: StructuredJobField) => {
+    merged[field] = structured.data[field]
+    if (structured.data[field] !== null) {
+      structuredFields.push(field)
+      evidence[field] = { confidence: structured.confidence[field] ?? 0, snippet: null }
+    }
+  }
+
+  for (const field of Object.keys(structured.data) as StructuredJobField[]) {
+    if (!missing.includes(field)) {
+      takeStructured(field)
+      continue
+    }
+
+    // Prefer the parser, but keep a low-confidence structured value over nothing
+    const fallbackValue = fallback?.[field] ?? null
+    if (fallbackValue !== null) {
+      merged[field] = fallbackValue
+      fallbackFields.push(field)
+      const fallbackEvidence = fallback?.evidence?.[field]
+      if (fallbackEvidence) {
+        evidence[field] = fallbackEvidence
+      }
+    } else {
+      takeStructured(field)
+    }
+  }
+
+  const data = normalizeParsedJobData(merged)
+  // Drop evidence for values normalization threw away
+  for (const field of Object.keys(evidence) as StructuredJobField[]) {
+    if (data[field] === null) delete evidence[field]
+  }
+
+  return {
+    data: { ...data, evidence },
+    structuredFields,
+    fallbackFields,
+  }
+}
@@ -0,0 +1,41 @@
+import type { ApplicationStatus } from "@/lib/constants"
+
+export interface ApplicationStats {
+  tracked: number
+  interested: number
+  applied: number // Applications sent (anything past "interested")
+  responses: number // Heard back: OA, interview, offer, or rejection
+  interviews: number // Reached OA/interview stage or beyond
+  offers: number
+  rejected: number
+  responseRate: number // 0-100, share of sent applications that got a response
+}
+
+const SENT_STATUSES: ApplicationStatus[] = ["applied", "oa", "interviewing", "offer", "rejected"]
+const RESPONSE_STATUSES: ApplicationStatus[] = ["oa", "interviewing", "offer", "rejected"]
+const INTERVIEW_STATUSES: ApplicationStatus[] = ["oa", "interviewing", "offer"]
+
+/**
+ * Aggregate application tracker stats for a user
+ *
+ * @param statuses - Current status of each tracked application
+ * @returns Counts and response rate
+ */
+export function getApplicationStats(statuses: ApplicationStatus[]): ApplicationStats {
+  const count = (included: ApplicationStatus[]) =>
+    statuses.filter((status) => included.includes(status)).length
+
+  const applied = count(SENT_STATUSES)
+  const responses = count(RESPONSE_STATUSES)
+
+  return {
+    tracked: statuses.length,
+    interested: count(["interested"]),
+    applied,
+    responses,
+    interviews: count(INTERVIEW_STATUSES),
+    offers: count(["offer"]),
+    rejected: count(["rejected"]),
+    responseRate: applied > 0 ? Math.round((responses / applied) * 100) : 0,
+  }
+}
@@ -15,10 +15,39 @@ export const USER_ROLES = ["student", "admin"] as const
 export type UserRole = typeof USER_ROLES[number]
 
 // Opportunity status
-export const OPPORTUNITY_STATUS = ["active", "expired"] as const
+export const OPPORTUNITY_STATUS = [
+  "active",
+  "expired",
+  "pending_review",
+  "rejected",
+] as const
 
 export type OpportunityStatus = typeof OPPORTUNITY_STATUS[number]
 
+// Statuses visible to everyone (pending and rejected are submitter/admin only)
+export const PUBLIC_OPPORTUNITY_STATUS = ["active", "expired"] as const
+
+// Application tracker pipeline (in board column order)
+export const APPLICATION_STATUS = [
+  "interested",
+  "applied",
+  "oa",
+  "interviewing",
+  "offer",
+  "rejected",
+] as const
+
+export type ApplicationStatus = typeof APPLICATION_STATUS[number]
+
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  interested: "Interested",
+  applied: "Applied",
+  oa: "Online Assessment",
+  interviewing: "Interviewing",
+  offer: "Offer",
+  rejected: "Rejected",
+}
+
 // Role types (for job roles)
 export const ROLE_TYPES = [
   "Software Engineering",
@@ -45,3 +74,14 @@ export const MAJORS = [
 ] as const
 
 export type Major = typeof MAJORS[number]
+
+// Saved-search alert delivery
+export const ALERT_FREQUENCIES = ["instant", "daily", "weekly"] as const
+
+export type AlertFrequency = typeof ALERT_FREQUENCIES[number]
+
+export const ALERT_FREQUENCY_LABELS: Record<AlertFrequency, string> = {
+  instant: "Instant",
+  daily: "Daily",
+  weekly: "Weekly",
+}
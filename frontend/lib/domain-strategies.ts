@@ -0,0 +1,100 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  defaultDomainStrategies,
+  getDomainCandidates,
+  getStrategyDomain,
+  pickStrategy,
+  type DomainStrategy,
+  type DomainStrategyStore,
+  type ScrapeMethod,
+  type ScrapeOutcome,
+} from "@/backend/services/domain-strategy"
+import { createServiceClient } from "@/lib/supabase/service"
+import type { Database } from "@/lib/supabase/types"
+
+export type DomainStrategyRow = Database["public"]["Tables"]["domain_strategies"]["Row"]
+
+export const SCRAPE_METHODS: ScrapeMethod[] = ['cheerio', 'puppeteer', 'playwright']
+
+export function toDomainStrategy(row: DomainStrategyRow): DomainStrategy {
+  return {
+    domain: row.domain,
+    preferredMethod: row.preferred_method as ScrapeMethod | null,
+    requiresManual: row.requires_manual,
+    pinned: row.pinned,
+    successCount: row.success_count,
+    failureCount: row.failure_count,
+    lastMethod: row.last_method as ScrapeMethod | null,
+    avgContentLength: row.avg_content_length,
+    avgDurationMs: row.avg_duration_ms,
+    lastSuccessAt: row.last_success_at,
+    lastFailureAt: row.last_failure_at,
+    lastError: row.last_error,
+    notes: row.notes,
+  }
+}
+
+/**
+ * Postgres-backed domain strategy registry (the `domain_strategies` table)
+ *
+ * Needs a client that bypasses RLS to record outcomes; only admins can edit the table directly.
+ */
+export class SupabaseDomainStrategyStore implements DomainStrategyStore {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  async get(hostname: string): Promise<DomainStrategy | null> {
+    const candidates = getDomainCandidates(hostname)
+    const { data, error } = await this.supabase
+      .from('domain_strategies')
+      .select('*')
+      .in('domain', candidates)
+
+    if (error) {
+      console.warn('[DomainStrategies] Lookup failed:', error.message)
+      return null
+    }
+
+    const byDomain = new Map((data || []).map((row) => [row.domain, toDomainStrategy(row)]))
+    return pickStrategy(
+      candidates
+        .map((candidate) => byDomain.get(candidate))
+        .filter((entry): entry is DomainStrategy => !!entry)
+    )
+  }
+
+  async recordOutcome(hostname: string, outcome: ScrapeOutcome): Promise<void> {
+    const { error } = await this.supabase.rpc('record_scrape_outcome', {
+      p_domain: getStrategyDomain(hostname),
+      p_success: outcome.success,
+      p_method: outcome.method,
+      p_content_length: outcome.contentLength,
+      p_duration_ms: Math.round(outcome.durationMs),
+      p_error: outcome.error?.slice(0, 500),
+    })
+
+    if (error) {
+      console.warn('[DomainStrategies] Record failed:', error.message)
+    }
+  }
+}
+
+let sharedStore: DomainStrategyStore | null = null
+
+/**
+ * Domain strategy registry for server-side scraping
+ *
+ * Uses the Postgres table when SUPABASE_SERVICE_ROLE_KEY is set, and the
+ * per-instance in-memory registry (seed strategies only) otherwise.
+ */
+export function getDomainStrategyStore(): DomainStrategyStore {
+  if (sharedStore) {
+    return sharedStore
+  }
+
+  const serviceClient = createServiceClient()
+  sharedStore = serviceClient
+    ? new SupabaseDomainStrategyStore(serviceClient)
+    : defaultDomainStrategies
+
+  return sharedStore
+}
@@ -0,0 +1,224 @@
+import { createClient } from "@/lib/supabase/server"
+import type { Database } from "@/lib/supabase/types"
+
+type OpportunityRow = Database["public"]["Tables"]["opportunities"]["Row"]
+
+export type DuplicateMatch = Pick<
+  OpportunityRow,
+  'id' | 'company_name' | 'job_title' | 'location' | 'url' | 'status' | 'deadline'
+> & {
+  score: number // 0-1
+  reasons: string[]
+}
+
+interface PostingFields {
+  company_name: string
+  job_title: string
+  location: string | null
+}
+
+// Scores at or above this are shown to the submitter and queued for admins
+export const LIKELY_DUPLICATE_SCORE = 0.8
+
+// Below this the companies are treated as different, whatever the title says
+const MIN_COMPANY_SIMILARITY = 0.85
+
+const MAX_CANDIDATES = 50
+
+const COMPANY_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co',
+  'company', 'plc', 'gmbh', 'group', 'holdings', 'the',
+])
+
+// Common variants in job titles that mean the same thing
+const TITLE_SYNONYMS: Record<string, string> = {
+  sr: 'senior',
+  jr: 'junior',
+  swe: 'software engineer',
+  sde: 'software engineer',
+  eng: 'engineer',
+  engineering: 'engineer',
+  dev: 'developer',
+  development: 'developer',
+  internship: 'intern',
+  interns: 'intern',
+  mgr: 'manager',
+  pm: 'product manager',
+  ml: 'machine learning',
+  ai: 'artificial intelligence',
+}
+
+const tokenize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean)
+
+export function normalizeCompanyName(name: string): string {
+  return tokenize(name)
+    .filter(token => !COMPANY_SUFFIXES.has(token))
+    .join(' ')
+}
+
+export function normalizeJobTitle(title: string): string {
+  return tokenize(title)
+    .map(token => TITLE_SYNONYMS[token] ?? token)
+    .join(' ')
+}
+
+function normalizeLocation(location: string): string {
+  const tokens = tokenize(location)
+  return tokens.some(token => token === 'remote' || token === 'anywhere')
+    ? 'remote'
+    : tokens.join(' ')
+}
+
+// Dice coefficient over word sets
+function tokenSimilarity(a: string, b: string): number {
+  const aTokens = new Set(a.split(' ').filter(Boolean))
+  const bTokens = new Set(b.split(' ').filter(Boolean))
+  if (aTokens.size === 0 || bTokens.size === 0) return 0
+  const shared = Array.from(aTokens).filter(token => bTokens.has(token)).length
+  return (2 * shared) / (aTokens.size + bTokens.size)
+}
+
+// Dice coefficient over character bigrams (tolerates typos and spacing)
+function bigramSimilarity(a: string, b: string): number {
+  const compactA = a.replace(/ /g, '')
+  const compactB = b.replace(/ /g, '')
+  if (compactA === compactB) return 1
+  if (compactA.length < 2 || compactB.length < 2) return 0
+
+  const bigrams = new Map<string, number>()
+  for (let i = 0; i < compactA.length - 1; i++) {
+    const bigram = compactA.slice(i, i + 2)
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1)
+  }
+
+  let shared = 0
+  for (let i = 0; i < compactB.length - 1; i++) {
+    const bigram = compactB.slice(i, i + 2)
+    const count = bigrams.get(bigram) ?? 0
+    if (count > 0) {
+      bigrams.set(bigram, count - 1)
+      shared++
+    }
+  }
+
+  return (2 * shared) / (compactA.length + compactB.length - 2)
+}
+
+/**
+ * Score how likely two postings are the same role
+ *
+ * Company has to match closely; title carries most of the weight after that.
+ * Location only counts when both postings have one.
+ *
+ * @returns Score from 0 to 1 and human-readable reasons
+ */
+export function scoreDuplicate(
+  posting: PostingFields,
+  existing: PostingFields
+): { score: number; reasons: string[] } {
+  const company = bigramSimilarity(
+    normalizeCompanyName(posting.company_name),
+    normalizeCompanyName(existing.company_name)
+  )
+  if (company < MIN_COMPANY_SIMILARITY) {
+    return { score: 0, reasons: [] }
+  }
+
+  const titleA = normalizeJobTitle(posting.job_title)
+  const titleB = normalizeJobTitle(existing.job_title)
+  const title = Math.max(tokenSimilarity(titleA, titleB), bigramSimilarity(titleA, titleB))
+
+  const reasons = [company === 1 ? 'Same company' : 'Similar company name']
+  reasons.push(title === 1 ? 'Same title' : `Similar title (${Math.round(title * 100)}%)`)
+
+  if (!posting.location || !existing.location) {
+    return { score: 0.4 * company + 0.6 * title, reasons }
+  }
+
+  const location = tokenSimilarity(normalizeLocation(posting.location), normalizeLocation(existing.location))
+  if (location >= 0.5) {
+    reasons.push(location === 1 ? 'Same location' : 'Overlapping location')
+  }
+
+  return { score: 0.35 * company + 0.5 * title + 0.15 * location, reasons }
+}
+
+/**
+ * Find existing opportunities that look like the same posting
+ *
+ * Active rows always count. Pending rows are unpublished, so they only count
+ * when the caller says whose it may see: matches can be shown to the
+ * submitter, and workers run with the service role, which bypasses RLS.
+ *
+ * @param supabase - Server Supabase client
+ * @param posting - Parsed fields of the new posting
+ * @param options.excludeId - Opportunity to leave out (e.g. the posting itself)
+ * @param options.pending - 'all' for admin-only flows, or a user id to include that user's own pending submissions
+ * @returns Matches at or above LIKELY_DUPLICATE_SCORE, best first
+ */
+export async function findDuplicateCandidates(
+  supabase: ReturnType<typeof createClient>,
+  posting: PostingFields,
+  options: { excludeId?: string; pending?: 'all' | { submittedBy: string } } = {}
+): Promise<DuplicateMatch[]> {
+  // Narrow by the longest word of the company name, then score in memory
+  const companyToken = normalizeCompanyName(posting.company_name)
+    .split(' ')
+    .sort((a, b) => b.length - a.length)[0]
+
+  if (!companyToken) return []
+
+  let query = supabase
+    .from('opportunities')
+    .select('id, company_name, job_title, location, url, status, deadline')
+    .ilike('company_name', `%${companyToken}%`)
+    .order('created_at', { ascending: false })
+    .limit(MAX_CANDIDATES)
+
+  if (options.pending === 'all') {
+    query = query.in('status', ['active', 'pending_review'])
+  } else if (options.pending) {
+    query = query.or(`status.eq.active,and(status.eq.pending_review,submitted_by.eq.${options.pending.submittedBy})`)
+  } else {
+    query = query.eq('status', 'active')
+  }
+
+  if (options.excludeId) {
+    query = query.neq('id', options.excludeId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Duplicate lookup failed:', error)
+    return []
+  }
+
+  return (data || [])
+    .map(candidate => ({ ...candidate, ...scoreDuplicate(posting, candidate) }))
+    .filter(candidate => candidate.score >= LIKELY_DUPLICATE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5)
+}
+
+/**
+ * PostgREST `or` filter matching a URL against url, canonical_url, and alias_urls
+ *
+ * @param url - URL as submitted
+ * @param canonicalUrl - Canonical form of the URL
+ */
+export function urlMatchFilter(url: string, canonicalUrl: string): string {
+  const quote = (value: string) => `"${value.replace(/[\\"]/g, match => `\\${match}`)}"`
+  const urls = Array.from(new Set([url, canonicalUrl])).map(quote).join(',')
+  return [
+    `url.in.(${urls})`,
+    `canonical_url.eq.${quote(canonicalUrl)}`,
+    `alias_urls.ov.{${urls}}`,
+  ].join(',')
+}
@@ -1,48 +1,105 @@
+import { randomUUID } from 'crypto'
 import { createClient } from '@/lib/supabase/server'
-import { sendEmail, generateDailyDigestEmail, generateDeadlineReminderEmail, generatePlainTextEmail, type Opportunity } from './service'
+import { createServiceClient } from '@/lib/supabase/service'
+import type { Database } from '@/lib/supabase/types'
+import {
+  sendEmail,
+  generateDailyDigestEmail,
+  generateDeadlineReminderEmail,
+  generatePlainTextEmail,
+  generateSubmissionRejectedEmail,
+  generateSubmissionRejectedText,
+  generateSearchAlertEmail,
+  generateSearchAlertText,
+  type EmailType,
+  type Opportunity,
+} from './service'
+import { getUnsubscribeHeaders } from './unsubscribe'
+import { getSuppression } from './suppressions'
+
+export type EmailQueueStatus = 'pending' | 'processing' | 'sent' | 'dead' | 'suppressed'
+
+// A claimed row left in processing this long is assumed abandoned and claimed again
+const EMAIL_LOCK_MINUTES = 10
+
+// First retry waits this long; each later one waits three times longer
+const BASE_RETRY_MINUTES = 5
+const MAX_RETRY_MINUTES = 6 * 60
+
+/**
+ * Minutes to wait before retrying an email that has failed `attempts` times
+ * (5, 15, 45, 135, then capped at 6 hours)
+ */
+export function getRetryDelayMinutes(attempts: number): number {
+  return Math.min(BASE_RETRY_MINUTES * Math.pow(3, Math.max(attempts - 1, 0)), MAX_RETRY_MINUTES)
+}
 
-// Process pending emails from the queue
+/**
+ * Send due emails from the queue
+ *
+ * Rows are claimed through the claim_email_queue RPC, which locks and marks
+ * them processing in one statement, so overlapping cron runs never pick up
+ * the same email. Every update afterwards is scoped to this run's lock.
+ * Failed sends go back to pending with exponential backoff until the row's
+ * max_attempts, then become dead for an admin to requeue. Emails to an
+ * address that hard-bounced or complained (email_suppressions) are skipped;
+ * if that can't be checked, the email waits without using up an attempt.
+ * Without SUPABASE_SERVICE_ROLE_KEY nothing is claimed or sent.
+ */
 export async function processEmailQueue(batchSize: number = 10): Promise<{
   processed: number
   succeeded: number
   failed: number
+  dead: number
+  suppressed: number
 }> {
   let processed = 0
   let succeeded = 0
   let failed = 0
+  let dead = 0
+  let suppressed = 0
 
   try {
     const supabase = createClient()
-    
-    // Fetch pending emails scheduled for now or earlier
-    const { data: queueItems, error: fetchError } = await supabase
-      .from('email_queue')
-      .select('*')
-      .eq('status', 'pending')
-      .lte('scheduled_for', new Date().toISOString())
-      .order('created_at', { ascending: true })
-      .limit(batchSize)
-
-    if (fetchError) {
-      console.error('Error fetching email queue:', fetchError)
-      return { processed, succeeded, failed }
+    const workerId = randomUUID()
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+    // Suppressions are only readable by admins and the service role; without
+    // the key nothing could be checked, so leave every email pending
+    const suppressionClient = createServiceClient()
+    if (!suppressionClient) {
+      console.error('Email queue held: SUPABASE_SERVICE_ROLE_KEY is not configured, so suppressions cannot be checked')
+      return { processed, succeeded, failed, dead, suppressed }
+    }
+
+    const { data: queueItems, error: claimError } = await supabase.rpc('claim_email_queue', {
+      p_batch_size: batchSize,
+      p_worker: workerId,
+      p_lock_minutes: EMAIL_LOCK_MINUTES,
+    })
+
+    if (claimError) {
+      console.error('Error claiming email queue:', claimError)
+      return { processed, succeeded, failed, dead, suppressed }
     }
 
     if (!queueItems || queueItems.length === 0) {
-      return { processed, succeeded, failed }
+      return { processed, succeeded, failed, dead, suppressed }
     }
 
-    // Process each email
     for (const item of queueItems) {
       processed++
 
-      try {
-        // Mark as processing
-        await supabase
+      // Only touch the row while this run still holds its claim
+      const release = (update: Database['public']['Tables']['email_queue']['Update']) =>
+        supabase
           .from('email_queue')
-          .update({ status: 'processing' })
+          .update({ ...update, locked_at: null, locked_by: null })
           .eq('id', item.id)
+          .eq('locked_by', workerId)
 
+      let sendError: string
+      try {
         // Get user details
         const { data: user, error: userError } = await supabase
           .from('users')
@@ -57,34 +114,52 @@ export async function processEmailQueue(batchSize: number = 10): Promise<{
         // Check if user has notifications enabled
         if (!user.email_notifications_enabled) {
           // Mark as sent (skipped) and continue
-          await supabase
-            .from('email_queue')
-            .update({
-              status: 'sent',
-              processed_at: new Date().toISOString(),
-            })
-            .eq('id', item.id)
+          await release({ status: 'sent', processed_at: new Date().toISOString() })
           succeeded++
           continue
         }
 
+        // Don't mail addresses that hard-bounced or reported spam
+        const suppression = await getSuppression(suppressionClient, user.email).catch(error => {
+          console.error(`Error checking suppressions for email queue item ${item.id}:`, error)
+          return 'unknown' as const
+        })
+        if (suppression === 'unknown') {
+          // Not knowing isn't a failed send: try again later without using up an attempt
+          await release({
+            status: 'pending',
+            attempts: item.attempts - 1,
+            error_message: 'Could not check email suppressions',
+            next_attempt_at: new Date(Date.now() + BASE_RETRY_MINUTES * 60 * 1000).toISOString(),
+          })
+          failed++
+          continue
+        }
+        if (suppression) {
+          await release({
+            status: 'suppressed',
+            error_message: `Address suppressed after a ${suppression.reason} (${suppression.event_type})`,
+            processed_at: new Date().toISOString(),
+          })
+          suppressed++
+          continue
+        }
+
         // Send email
         const result = await sendEmail(
           user.email,
           item.subject,
           item.html_content,
-          item.text_content || undefined
+          item.text_content || undefined,
+          getUnsubscribeHeaders(appUrl, item.user_id, item.email_type)
         )
 
         if (result.success) {
-          // Mark as sent
-          await supabase
-            .from('email_queue')
-            .update({
-              status: 'sent',
-              processed_at: new Date().toISOString(),
-            })
-            .eq('id', item.id)
+          await release({
+            status: 'sent',
+            error_message: null,
+            processed_at: new Date().toISOString(),
+          })
 
           // Log the email
           await supabase.from('email_logs').insert({
@@ -97,64 +172,45 @@ export async function processEmailQueue(batchSize: number = 10): Promise<{
           })
 
           succeeded++
-        } else {
-          // Handle failure
-          const retryCount = (item.retry_count || 0) + 1
-          const maxRetries = item.max_retries || 3
-
-          if (retryCount >= maxRetries) {
-            // Mark as failed after max retries
-            await supabase
-              .from('email_queue')
-              .update({
-                status: 'failed',
-                error_message: result.error || 'Max retries exceeded',
-                processed_at: new Date().toISOString(),
-              })
-              .eq('id', item.id)
-            failed++
-          } else {
-            // Retry later (exponential backoff: 5min, 15min, 45min)
-            const backoffMinutes = Math.pow(3, retryCount) * 5
-            const retryAt = new Date()
-            retryAt.setMinutes(retryAt.getMinutes() + backoffMinutes)
-
-            await supabase
-              .from('email_queue')
-              .update({
-                status: 'pending',
-                retry_count: retryCount,
-                scheduled_for: retryAt.toISOString(),
-              })
-              .eq('id', item.id)
-          }
+          continue
         }
+
+        sendError = result.error || 'Unknown error'
       } catch (error) {
         console.error(`Error processing email queue item ${item.id}:`, error)
-        failed++
+        sendError = error instanceof Error ? error.message : 'Unknown error'
+      }
 
-        // Mark as failed
-        await supabase
-          .from('email_queue')
-          .update({
-            status: 'failed',
-            error_message: error instanceof Error ? error.message : 'Unknown error',
-            processed_at: new Date().toISOString(),
-          })
-          .eq('id', item.id)
+      failed++
+
+      // attempts was already counted when the row was claimed
+      if (item.attempts >= item.max_attempts) {
+        await release({
+          status: 'dead',
+          error_message: sendError,
+          processed_at: new Date().toISOString(),
+        })
+        dead++
+      } else {
+        const retryAt = new Date(Date.now() + getRetryDelayMinutes(item.attempts) * 60 * 1000)
+        await release({
+          status: 'pending',
+          error_message: sendError,
+          next_attempt_at: retryAt.toISOString(),
+        })
       }
     }
   } catch (error) {
     console.error('Error processing email queue:', error)
   }
 
-  return { processed, succeeded, failed }
+  return { processed, succeeded, failed, dead, suppressed }
 }
 
 // Add email to queue
 export async function queueEmail(
   userId: string,
-  emailType: 'daily_digest' | 'deadline_reminder',
+  emailType: EmailType,
   subject: string,
   htmlContent: string,
   textContent?: string,
@@ -173,6 +229,7 @@ export async function queueEmail(
         html_content: htmlContent,
         text_content: textContent,
         scheduled_for: scheduledDate.toISOString(),
+        next_attempt_at: scheduledDate.toISOString(),
         status: 'pending',
       })
       .select('id')
@@ -219,8 +276,8 @@ export async function queueDailyDigest(
     }
 
     // Generate email content
-    const htmlContent = generateDailyDigestEmail(user.name || 'User', opportunities, appUrl)
-    const textContent = generatePlainTextEmail('daily_digest', user.name || 'User', opportunities, appUrl)
+    const htmlContent = generateDailyDigestEmail(user.name || 'User', opportunities, appUrl, userId)
+    const textContent = generatePlainTextEmail('daily_digest', user.name || 'User', opportunities, appUrl, userId)
     const subject = `Your Daily Opportunities Digest - ${opportunities.length} New ${opportunities.length === 1 ? 'Opportunity' : 'Opportunities'}`
 
     // Queue the email
@@ -260,8 +317,8 @@ export async function queueDeadlineReminder(
     }
 
     // Generate email content
-    const htmlContent = generateDeadlineReminderEmail(user.name || 'User', opportunities, appUrl)
-    const textContent = generatePlainTextEmail('deadline_reminder', user.name || 'User', opportunities, appUrl)
+    const htmlContent = generateDeadlineReminderEmail(user.name || 'User', opportunities, appUrl, userId)
+    const textContent = generatePlainTextEmail('deadline_reminder', user.name || 'User', opportunities, appUrl, userId)
     const subject = `⏰ Deadline Reminder - ${opportunities.length} ${opportunities.length === 1 ? 'Opportunity' : 'Opportunities'} Ending Soon`
 
     // Queue the email
@@ -275,3 +332,91 @@ export async function queueDeadlineReminder(
   }
 }
 
+
+// Queue rejection notice for a submitter
+export async function queueSubmissionRejected(
+  userId: string,
+  opportunity: Pick<Opportunity, 'company_name' | 'job_title' | 'url'>,
+  reason: string,
+  appUrl: string
+): Promise<{ success: boolean; queueId?: string; error?: string }> {
+  try {
+    const supabase = createClient()
+
+    // Get user details
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('name')
+      .eq('id', userId)
+      .single<{ name: string }>()
+
+    if (userError || !user) {
+      return { success: false, error: 'User not found' }
+    }
+
+    // Generate email content
+    const htmlContent = generateSubmissionRejectedEmail(user.name || 'User', opportunity, reason, appUrl)
+    const textContent = generateSubmissionRejectedText(user.name || 'User', opportunity, reason, appUrl)
+    const subject = `Your submission for ${opportunity.company_name} was not approved`
+
+    // Queue the email
+    return await queueEmail(userId, 'submission_rejected', subject, htmlContent, textContent)
+  } catch (error) {
+    console.error('Error queueing submission rejected email:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+// Queue new matches for one of a user's saved-search alerts
+export async function queueSearchAlert(
+  userId: string,
+  alertName: string,
+  opportunities: Opportunity[],
+  appUrl: string
+): Promise<{ success: boolean; queueId?: string; error?: string }> {
+  try {
+    const supabase = createClient()
+
+    // Get user details
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('name')
+      .eq('id', userId)
+      .single<{ name: string }>()
+
+    if (userError || !user) {
+      return { success: false, error: 'User not found' }
+    }
+
+    // Generate email content
+    const htmlContent = generateSearchAlertEmail(user.name || 'User', alertName, opportunities, appUrl)
+    const textContent = generateSearchAlertText(user.name || 'User', alertName, opportunities, appUrl)
+    const subject = opportunities.length === 1
+      ? `New match for "${alertName}": ${opportunities[0].job_title} at ${opportunities[0].company_name}`
+      : `${opportunities.length} new matches for "${alertName}"`
+
+    // Queue the email
+    return await queueEmail(userId, 'search_alert', subject, htmlContent, textContent)
+  } catch (error) {
+    console.error('Error queueing search alert:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+// Row update that sends a dead email through the queue again with a fresh set of attempts
+export function requeueEmailUpdate(): Database['public']['Tables']['email_queue']['Update'] {
+  return {
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: new Date().toISOString(),
+    locked_at: null,
+    locked_by: null,
+    processed_at: null,
+  }
+}
@@ -1,10 +1,8 @@
-import { Resend } from 'resend'
-
-// Initialize Resend
-const resend = new Resend(process.env.RESEND_API_KEY)
+import { getEmailTransportName, getEmailTransport, type EmailTransportName } from './transports'
+import { getUnsubscribeUrl } from './unsubscribe'
 
 // Type definitions
-export type EmailType = 'daily_digest' | 'deadline_reminder'
+export type EmailType = 'daily_digest' | 'deadline_reminder' | 'submission_rejected' | 'search_alert'
 
 export interface Opportunity {
   id: string
@@ -15,6 +13,7 @@ export interface Opportunity {
   location: string | null
   description: string | null
   url: string
+  saved?: boolean // On the recipient's saved list
 }
 
 export interface EmailQueueItem {
@@ -207,14 +206,16 @@ function escapeHtml(text: string): string {
 }
 
 // Generate daily digest email HTML
+// With a userId the footer gets a signed one-click unsubscribe link (see ./unsubscribe)
 export function generateDailyDigestEmail(
   userName: string,
   opportunities: Opportunity[],
-  appUrl: string
+  appUrl: string,
+  userId?: string
 ): string {
   const date = formatDate(new Date())
   const managePreferencesUrl = `${appUrl}/settings?section=notifications`
-  const unsubscribeUrl = `${appUrl}/unsubscribe?token=PLACEHOLDER`
+  const unsubscribeUrl = (userId && getUnsubscribeUrl(appUrl, userId, 'daily_digest')) || managePreferencesUrl
   const viewAllUrl = `${appUrl}/dashboard`
 
   // Group opportunities by type
@@ -383,18 +384,36 @@ export function generateDailyDigestEmail(
 }
 
 // Generate deadline reminder email HTML
+// With a userId the footer gets a signed one-click unsubscribe link (see ./unsubscribe)
 export function generateDeadlineReminderEmail(
   userName: string,
   opportunities: Opportunity[],
-  appUrl: string
+  appUrl: string,
+  userId?: string
 ): string {
   const managePreferencesUrl = `${appUrl}/settings?section=notifications`
-  const unsubscribeUrl = `${appUrl}/unsubscribe?token=PLACEHOLDER`
+  const unsubscribeUrl = (userId && getUnsubscribeUrl(appUrl, userId, 'deadline_reminder')) || managePreferencesUrl
   const viewAllUrl = `${appUrl}/dashboard`
 
-  // Generate opportunities HTML
+  // Generate opportunities HTML (saved opportunities come first, under their own heading)
+  const savedOpportunities = opportunities.filter((opp) => opp.saved)
+  const otherOpportunities = opportunities.filter((opp) => !opp.saved)
+  const sectionHeading = (label: string) => `
+              <p style="margin: 16px 0 8px 0; padding: 0; color: #111827; font-size: 14px; font-weight: 700;">
+                ${label}
+              </p>`
+
   let opportunitiesHtml = ''
-  opportunities.forEach((opp) => {
+  if (savedOpportunities.length > 0) {
+    opportunitiesHtml += sectionHeading('🔖 From your saved list')
+    savedOpportunities.forEach((opp) => {
+      opportunitiesHtml += generateOpportunityCard(opp, appUrl)
+    })
+    if (otherOpportunities.length > 0) {
+      opportunitiesHtml += sectionHeading('More opportunities closing soon')
+    }
+  }
+  otherOpportunities.forEach((opp) => {
     opportunitiesHtml += generateOpportunityCard(opp, appUrl)
   })
 
@@ -503,12 +522,276 @@ export function generateDeadlineReminderEmail(
   return template
 }
 
+// Generate submission rejected email HTML
+export function generateSubmissionRejectedEmail(
+  userName: string,
+  opportunity: Pick<Opportunity, 'company_name' | 'job_title' | 'url'>,
+  reason: string,
+  appUrl: string
+): string {
+  const managePreferencesUrl = `${appUrl}/settings?section=notifications`
+  const viewAllUrl = `${appUrl}/dashboard`
+
+  const template = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Submission Update</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #F9FAFB;">
+  <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: #F9FAFB;">
+    <tr>
+      <td align="center" style="padding: 10px 5px;">
+        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 98%; width: 100%; background-color: #FFFFFF; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <tr>
+            <td style="background: linear-gradient(135deg, #9333EA 0%, #A855F7 50%, #C084FC 100%); padding: 24px 20px; text-align: center;">
+              <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
+                <tr>
+                  <td align="center" style="padding-bottom: 8px;">
+                    <img src="${appUrl}/GDG%20Logo.png" alt="GDG Logo" width="120" height="auto" style="display: block; margin: 0 auto; max-width: 120px;" />
+                  </td>
+                </tr>
+                <tr>
+                  <td align="center">
+                    <h1 style="margin: 0; color: #FFFFFF; font-size: 22px; font-weight: 700; line-height: 1.3;">
+                      Submission Update
+                    </h1>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 16px 14px;">
+              <p style="margin: 0 0 10px 0; padding: 0; color: #111827; font-size: 15px; line-height: 1.5;">
+                Hi ${escapeHtml(userName)},
+              </p>
+              <p style="margin: 0 0 16px 0; padding: 0; color: #374151; font-size: 14px; line-height: 1.5;">
+                Thanks for sharing an opportunity with the community. After review, an admin decided not to publish
+                <strong>${escapeHtml(opportunity.job_title)}</strong> at <strong>${escapeHtml(opportunity.company_name)}</strong>.
+              </p>
+              <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="margin-bottom: 16px; background-color: #F9FAFB; border-left: 4px solid #9333EA; border-radius: 4px;">
+                <tr>
+                  <td style="padding: 12px 14px;">
+                    <p style="margin: 0 0 4px 0; padding: 0; color: #6B7280; font-size: 12px; font-weight: 600; text-transform: uppercase;">
+                      Reason
+                    </p>
+                    <p style="margin: 0; padding: 0; color: #111827; font-size: 14px; line-height: 1.5;">
+                      ${escapeHtml(reason)}
+                    </p>
+                  </td>
+                </tr>
+              </table>
+              <p style="margin: 0 0 16px 0; padding: 0; color: #374151; font-size: 14px; line-height: 1.5;">
+                Submitted link: <a href="${escapeHtml(opportunity.url)}" style="color: #9333EA; text-decoration: none; word-break: break-all;">${escapeHtml(opportunity.url)}</a>
+              </p>
+              <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="margin-top: 16px;">
+                <tr>
+                  <td>
+                    <a href="${viewAllUrl}" style="display: inline-block; padding: 12px 24px; background: linear-gradient(135deg, #9333EA 0%, #A855F7 100%); color: #FFFFFF; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 15px; box-shadow: 0 4px 6px rgba(147, 51, 234, 0.3);">
+                      Back to Opportunities
+                    </a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+          <tr>
+            <td style="background-color: #F9FAFB; padding: 16px 14px; text-align: center; border-top: 1px solid #E5E7EB;">
+              <p style="margin: 0 0 6px 0; padding: 0; color: #111827; font-size: 15px; font-weight: 600;">
+                GDG Opportunities Hub
+              </p>
+              <p style="margin: 0 0 12px 0; padding: 0; color: #6B7280; font-size: 13px; line-height: 1.5;">
+                Connecting students with opportunities
+              </p>
+              <p style="margin: 0; padding: 0; color: #9CA3AF; font-size: 11px; line-height: 1.5;">
+                <a href="${managePreferencesUrl}" style="color: #9333EA; text-decoration: none;">Manage Preferences</a>
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `
+
+  return template
+}
+
+// Generate submission rejected plain text version
+export function generateSubmissionRejectedText(
+  userName: string,
+  opportunity: Pick<Opportunity, 'company_name' | 'job_title' | 'url'>,
+  reason: string,
+  appUrl: string
+): string {
+  let text = `GDG Opportunities Hub - Submission Update\n\n`
+  text += `Hi ${userName},\n\n`
+  text += `Thanks for sharing an opportunity with the community. After review, an admin decided not to publish ${opportunity.job_title} at ${opportunity.company_name}.\n\n`
+  text += `Reason: ${reason}\n\n`
+  text += `Submitted link: ${opportunity.url}\n\n`
+  text += `View all opportunities: ${appUrl}/dashboard\n\n`
+  text += `Manage preferences: ${appUrl}/settings?section=notifications\n`
+
+  return text
+}
+
+// Generate saved-search alert email HTML
+export function generateSearchAlertEmail(
+  userName: string,
+  alertName: string,
+  opportunities: Opportunity[],
+  appUrl: string
+): string {
+  const managePreferencesUrl = `${appUrl}/settings?section=notifications`
+  const viewAllUrl = `${appUrl}/dashboard`
+  const opportunitiesHtml = opportunities
+    .map((opp) => generateOpportunityCard(opp, appUrl))
+    .join('')
+
+  const template = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>New Matches for ${escapeHtml(alertName)}</title>
+  <style>
+    @media only screen and (max-width: 600px) {
+      .desktop-layout {
+        display: none !important;
+      }
+      .mobile-layout {
+        display: table !important;
+      }
+      .mobile-hide {
+        display: none !important;
+      }
+    }
+    @media only screen and (min-width: 601px) {
+      .mobile-layout {
+        display: none !important;
+      }
+      .desktop-layout {
+        display: table !important;
+      }
+    }
+  </style>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #F9FAFB;">
+  <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="background-color: #F9FAFB;">
+    <tr>
+      <td align="center" style="padding: 10px 5px;">
+        <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="max-width: 98%; width: 100%; background-color: #FFFFFF; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+          <tr>
+            <td style="background: linear-gradient(135deg, #9333EA 0%, #7C3AED 50%, #3B82F6 100%); padding: 24px 20px; text-align: center;">
+              <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%">
+                <tr>
+                  <td align="center" style="padding-bottom: 8px;">
+                    <img src="${appUrl}/GDG%20Logo.png" alt="GDG Logo" width="120" height="auto" style="display: block; margin: 0 auto; max-width: 120px;" />
+                  </td>
+                </tr>
+                <tr>
+                  <td align="center">
+                    <h1 style="margin: 0; color: #FFFFFF; font-size: 22px; font-weight: 700; line-height: 1.3;">
+                      Saved Search Alert
+                    </h1>
+                  </td>
+                </tr>
+                <tr>
+                  <td align="center" style="padding-top: 6px;">
+                    <p style="margin: 0; color: #FFFFFF; font-size: 15px; opacity: 0.95;">
+                      ${escapeHtml(alertName)}
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 16px 14px;">
+              <p style="margin: 0 0 10px 0; padding: 0; color: #111827; font-size: 15px; line-height: 1.5;">
+                Hi ${escapeHtml(userName)},
+              </p>
+              <p style="margin: 0 0 16px 0; padding: 0; color: #374151; font-size: 14px; line-height: 1.5;">
+                ${opportunities.length === 1 ? 'A new opportunity matches' : `${opportunities.length} new opportunities match`} your saved search <strong>${escapeHtml(alertName)}</strong>.
+              </p>
+              ${opportunitiesHtml}
+              <table role="presentation" cellspacing="0" cellpadding="0" border="0" width="100%" style="margin-top: 16px;">
+                <tr>
+                  <td>
+                    <a href="${viewAllUrl}" style="display: inline-block; padding: 12px 24px; background: linear-gradient(135deg, #9333EA 0%, #3B82F6 100%); color: #FFFFFF; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 15px; box-shadow: 0 4px 6px rgba(147, 51, 234, 0.3);">
+                      View All Opportunities
+                    </a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+          <tr>
+            <td style="background-color: #F9FAFB; padding: 16px 14px; text-align: center; border-top: 1px solid #E5E7EB;">
+              <p style="margin: 0 0 6px 0; padding: 0; color: #111827; font-size: 15px; font-weight: 600;">
+                GDG Opportunities Hub
+              </p>
+              <p style="margin: 0 0 12px 0; padding: 0; color: #6B7280; font-size: 13px; line-height: 1.5;">
+                Connecting students with opportunities
+              </p>
+              <p style="margin: 0; padding: 0; color: #9CA3AF; font-size: 11px; line-height: 1.5;">
+                <a href="${managePreferencesUrl}" style="color: #9333EA; text-decoration: none;">Manage Alerts</a>
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `
+
+  return template
+}
+
+// Generate saved-search alert plain text version
+export function generateSearchAlertText(
+  userName: string,
+  alertName: string,
+  opportunities: Opportunity[],
+  appUrl: string
+): string {
+  let text = `GDG Opportunities Hub - Saved Search Alert\n\n`
+  text += `Hi ${userName},\n\n`
+  text += `New opportunities matching your saved search "${alertName}":\n\n`
+
+  opportunities.forEach((opp, index) => {
+    text += `${index + 1}. ${opp.company_name} - ${opp.job_title}\n`
+    text += `   Type: ${typeLabels[opp.opportunity_type]}\n`
+    if (opp.deadline) {
+      text += `   Deadline: ${formatDeadline(opp.deadline)}\n`
+    }
+    if (opp.location) {
+      text += `   Location: ${opp.location}\n`
+    }
+    text += `   View: ${appUrl}/opportunities/${opp.id}\n\n`
+  })
+
+  text += `View all opportunities: ${appUrl}/dashboard\n\n`
+  text += `Manage alerts: ${appUrl}/settings?section=notifications\n`
+
+  return text
+}
+
 // Generate plain text version
 export function generatePlainTextEmail(
   emailType: EmailType,
   userName: string,
   opportunities: Opportunity[],
-  appUrl: string
+  appUrl: string,
+  userId?: string
 ): string {
   const date = formatDate(new Date())
   const viewAllUrl = `${appUrl}/dashboard`
@@ -526,7 +809,7 @@ export function generatePlainTextEmail(
   }
 
   opportunities.forEach((opp, index) => {
-    text += `${index + 1}. ${opp.company_name} - ${opp.job_title}\n`
+    text += `${index + 1}. ${opp.saved ? '[Saved] ' : ''}${opp.company_name} - ${opp.job_title}\n`
     text += `   Type: ${typeLabels[opp.opportunity_type]}\n`
     if (opp.deadline) {
       text += `   Deadline: ${formatDeadline(opp.deadline)}\n`
@@ -540,43 +823,49 @@ export function generatePlainTextEmail(
   text += `View all opportunities: ${viewAllUrl}\n\n`
   text += `Manage preferences: ${appUrl}/settings?section=notifications\n`
 
+  const unsubscribeUrl = userId && (emailType === 'daily_digest' || emailType === 'deadline_reminder')
+    ? getUnsubscribeUrl(appUrl, userId, emailType)
+    : null
+  if (unsubscribeUrl) {
+    text += `Unsubscribe: ${unsubscribeUrl}\n`
+  }
+
   return text
 }
 
-// Send email using Resend
+// Send email through the configured transport (see ./transports)
+// headers carries extras such as List-Unsubscribe (see getUnsubscribeHeaders)
 export async function sendEmail(
   to: string,
   subject: string,
   html: string,
-  text?: string
-): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  text?: string,
+  headers?: Record<string, string>
+): Promise<{ success: boolean; messageId?: string; error?: string; transport?: EmailTransportName }> {
+  let transport: EmailTransportName | undefined
+
   try {
-    if (!process.env.RESEND_API_KEY) {
-      throw new Error('RESEND_API_KEY is not set')
-    }
+    transport = getEmailTransportName()
 
     const fromEmail = process.env.RESEND_FROM_EMAIL || 'noreply@yourdomain.com'
     const fromName = process.env.RESEND_FROM_NAME || 'GDG Opportunities Hub'
 
-    const { data, error } = await resend.emails.send({
+    const result = await getEmailTransport(transport).send({
       from: `${fromName} <${fromEmail}>`,
-      to: [to],
+      to,
       subject,
       html,
       text: text || generatePlainTextFromHtml(html),
+      headers,
     })
 
-    if (error) {
-      console.error('Resend error:', error)
-      return { success: false, error: error.message }
-    }
-
-    return { success: true, messageId: data?.id }
+    return { ...result, transport }
   } catch (error) {
     console.error('Error sending email:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
+      transport,
     }
   }
 }
@@ -0,0 +1,306 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { createClient } from '@/lib/supabase/server'
+import type { Json } from '@/lib/supabase/types'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+/**
+ * Bounce and complaint suppressions
+ *
+ * The mail provider's webhook reports hard bounces and spam complaints;
+ * each one suppresses the address so processEmailQueue stops sending to it.
+ *
+ * Providers:
+ * - resend: Resend webhooks (signed by Svix). Env: RESEND_WEBHOOK_SECRET ("whsec_...")
+ * - smtp: Any SMTP provider or relay that can POST a normalized event
+ *   `{ id?, type: "bounce" | "complaint", email, bounce_type?: "hard" | "soft", message_id?, reason? }`
+ *   with `X-Webhook-Timestamp` (unix seconds) and `X-Webhook-Signature: sha256=<hex>`,
+ *   the HMAC-SHA256 of `${timestamp}.${body}`. Env: EMAIL_WEBHOOK_SECRET
+ */
+
+export type EmailWebhookProvider = 'resend' | 'smtp'
+
+export const EMAIL_WEBHOOK_PROVIDERS: EmailWebhookProvider[] = ['resend', 'smtp']
+
+export type SuppressionReason = 'bounce' | 'complaint'
+
+export interface SuppressionEvent {
+  provider: EmailWebhookProvider
+  reason: SuppressionReason
+  email: string
+  eventId: string | null
+  eventType: string
+  messageId: string | null
+  details: string | null
+  payload: Json
+}
+
+// Signed events older (or further in the future) than this are rejected as replays
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60
+
+export class EmailWebhookError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message)
+    this.name = 'EmailWebhookError'
+  }
+}
+
+export function isEmailWebhookProvider(provider: string): provider is EmailWebhookProvider {
+  return (EMAIL_WEBHOOK_PROVIDERS as string[]).includes(provider)
+}
+
+export function normalizeEmailAddress(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// Addresses may contain _ and %, which ilike would treat as wildcards
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`)
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'utf8')
+  const right = Buffer.from(b, 'utf8')
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+function checkTimestamp(timestamp: string | null, now: Date) {
+  const seconds = Number(timestamp)
+  if (!timestamp || !Number.isFinite(seconds)) {
+    throw new EmailWebhookError('Missing or invalid webhook timestamp', 401)
+  }
+  if (Math.abs(now.getTime() / 1000 - seconds) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new EmailWebhookError('Webhook timestamp is outside the allowed window', 401)
+  }
+}
+
+function getSecret(provider: EmailWebhookProvider): string {
+  const secret = provider === 'resend'
+    ? process.env.RESEND_WEBHOOK_SECRET
+    : process.env.EMAIL_WEBHOOK_SECRET
+  if (!secret) {
+    throw new EmailWebhookError(`Webhook secret for ${provider} is not configured`, 503)
+  }
+  return secret
+}
+
+/**
+ * Check the Svix signature Resend puts on its webhooks
+ *
+ * `svix-signature` holds one or more space-separated "v1,<base64>" values,
+ * each the HMAC-SHA256 of `${svix-id}.${svix-timestamp}.${body}` keyed with
+ * the base64 part of the "whsec_" secret.
+ */
+export function verifyResendSignature(
+  rawBody: string,
+  headers: Headers,
+  secret: string,
+  now: Date = new Date()
+) {
+  const id = headers.get('svix-id')
+  const timestamp = headers.get('svix-timestamp')
+  const signatures = headers.get('svix-signature')
+  if (!id || !signatures) {
+    throw new EmailWebhookError('Missing webhook signature headers', 401)
+  }
+  checkTimestamp(timestamp, now)
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64')
+  const expected = createHmac('sha256', key).update(`${id}.${timestamp}.${rawBody}`).digest('base64')
+
+  const matched = signatures
+    .split(' ')
+    .some(entry => {
+      const [version, signature] = entry.split(',')
+      return version === 'v1' && !!signature && safeEqual(signature, expected)
+    })
+  if (!matched) {
+    throw new EmailWebhookError('Invalid webhook signature', 401)
+  }
+}
+
+/**
+ * Check the signature on a normalized SMTP-provider event
+ */
+export function verifySmtpSignature(
+  rawBody: string,
+  headers: Headers,
+  secret: string,
+  now: Date = new Date()
+) {
+  const timestamp = headers.get('x-webhook-timestamp')
+  const signature = headers.get('x-webhook-signature')
+  if (!signature) {
+    throw new EmailWebhookError('Missing webhook signature headers', 401)
+  }
+  checkTimestamp(timestamp, now)
+
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex')
+  if (!safeEqual(signature.replace(/^sha256=/, ''), expected)) {
+    throw new EmailWebhookError('Invalid webhook signature', 401)
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : {}
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+/**
+ * Suppressions from a Resend event (one per recipient)
+ *
+ * Only `email.bounced` (permanent or undetermined, not transient) and
+ * `email.complained` suppress; every other event type is ignored.
+ */
+export function parseResendEvent(body: unknown, eventId: string | null): SuppressionEvent[] {
+  const event = asRecord(body)
+  const eventType = asString(event.type) || ''
+  const data = asRecord(event.data)
+
+  let reason: SuppressionReason
+  let details: string | null
+  if (eventType === 'email.bounced') {
+    const bounce = asRecord(data.bounce)
+    if (bounce.type === 'Transient') return []
+    reason = 'bounce'
+    details = [asString(bounce.type), asString(bounce.subType), asString(bounce.message)]
+      .filter(Boolean)
+      .join(' - ') || null
+  } else if (eventType === 'email.complained') {
+    reason = 'complaint'
+    details = 'Marked as spam by the recipient'
+  } else {
+    return []
+  }
+
+  const recipients = Array.isArray(data.to) ? data.to : [data.to]
+  return recipients
+    .map(asString)
+    .filter((email): email is string => !!email)
+    .map(email => ({
+      provider: 'resend' as const,
+      reason,
+      email: normalizeEmailAddress(email),
+      eventId,
+      eventType,
+      messageId: asString(data.email_id),
+      details,
+      payload: body as Json,
+    }))
+}
+
+/**
+ * Suppression from a normalized SMTP-provider event (soft bounces are ignored)
+ */
+export function parseSmtpEvent(body: unknown): SuppressionEvent[] {
+  const event = asRecord(body)
+  const type = asString(event.type)
+  const email = asString(event.email)
+
+  if (!email || (type !== 'bounce' && type !== 'complaint')) return []
+  if (type === 'bounce' && event.bounce_type === 'soft') return []
+
+  return [{
+    provider: 'smtp',
+    reason: type,
+    email: normalizeEmailAddress(email),
+    eventId: asString(event.id),
+    eventType: type === 'bounce' ? `bounce.${asString(event.bounce_type) || 'hard'}` : 'complaint',
+    messageId: asString(event.message_id),
+    details: asString(event.reason),
+    payload: body as Json,
+  }]
+}
+
+/**
+ * Verify a webhook request and turn it into suppressions
+ *
+ * @throws EmailWebhookError with the HTTP status to answer with
+ */
+export function parseEmailWebhook(
+  provider: EmailWebhookProvider,
+  rawBody: string,
+  headers: Headers,
+  now: Date = new Date()
+): SuppressionEvent[] {
+  const secret = getSecret(provider)
+  if (provider === 'resend') {
+    verifyResendSignature(rawBody, headers, secret, now)
+  } else {
+    verifySmtpSignature(rawBody, headers, secret, now)
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(rawBody)
+  } catch {
+    throw new EmailWebhookError('Invalid JSON in request body', 400)
+  }
+
+  return provider === 'resend'
+    ? parseResendEvent(body, headers.get('svix-id'))
+    : parseSmtpEvent(body)
+}
+
+/**
+ * Suppress an address (the latest event replaces an earlier one) and mark
+ * the email it came from in email_logs
+ */
+export async function recordSuppression(supabase: SupabaseClient, event: SuppressionEvent) {
+  const { data: user } = await supabase
+    .from('users')
+    .select('id')
+    .ilike('email', escapeLikePattern(event.email))
+    .limit(1)
+    .maybeSingle()
+
+  const { error } = await supabase
+    .from('email_suppressions')
+    .upsert(
+      {
+        email: event.email,
+        user_id: user?.id ?? null,
+        reason: event.reason,
+        provider: event.provider,
+        event_id: event.eventId,
+        event_type: event.eventType,
+        message_id: event.messageId,
+        details: event.details,
+        payload: event.payload,
+      },
+      { onConflict: 'email' }
+    )
+
+  if (error) throw error
+
+  if (event.messageId) {
+    await supabase
+      .from('email_logs')
+      .update({ status: event.reason === 'bounce' ? 'bounced' : 'complained' })
+      .eq('resend_message_id', event.messageId)
+  }
+}
+
+/**
+ * The suppression for an address, if any
+ * @throws the lookup error, so callers hold off rather than mail an address that may be suppressed
+ */
+export async function getSuppression(
+  supabase: SupabaseClient,
+  email: string
+): Promise<{ reason: SuppressionReason; event_type: string } | null> {
+  const { data, error } = await supabase
+    .from('email_suppressions')
+    .select('reason, event_type')
+    .eq('email', normalizeEmailAddress(email))
+    .maybeSingle()
+
+  if (error) throw error
+  return data as { reason: SuppressionReason; event_type: string } | null
+}
@@ -0,0 +1,25 @@
+import { generateMessageId, type EmailMessage, type EmailSendResult, type EmailTransport } from './shared'
+
+/**
+ * Console transport: prints each email's headers and plain-text body instead
+ * of sending it. The default outside production when nothing else is configured.
+ */
+export const consoleTransport: EmailTransport = {
+  name: 'console',
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = generateMessageId(message.from)
+    const extraHeaders = Object.entries(message.headers || {}).map(([name, value]) => `${name}: ${value}\n`).join('')
+
+    console.log(
+      `[Email] ${messageId}\n` +
+      `From: ${message.from}\n` +
+      `To: ${message.to}\n` +
+      `Subject: ${message.subject}\n` +
+      extraHeaders +
+      `\n${message.text}\n`
+    )
+
+    return { success: true, messageId }
+  },
+}
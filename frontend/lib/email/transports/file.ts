@@ -0,0 +1,45 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import {
+  buildMimeMessage,
+  generateMessageId,
+  type EmailMessage,
+  type EmailSendResult,
+  type EmailTransport,
+} from './shared'
+
+/**
+ * File transport: writes each email to disk as an .eml file (open it in any
+ * mail client) instead of sending it. For local development and tests.
+ *
+ * Env:
+ * - EMAIL_FILE_DIR: Output directory (default: .emails in the working directory)
+ */
+export function getEmailFileDir(): string {
+  return path.resolve(process.env.EMAIL_FILE_DIR || '.emails')
+}
+
+export const fileTransport: EmailTransport = {
+  name: 'file',
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = generateMessageId(message.from)
+    const dir = getEmailFileDir()
+    // Sortable by send time; the recipient makes files easy to find
+    const recipient = message.to.replace(/[^a-z0-9@._-]+/gi, '_').slice(0, 80)
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}-${messageId.slice(1, 9)}.eml`
+
+    try {
+      await mkdir(dir, { recursive: true })
+      await writeFile(path.join(dir, fileName), buildMimeMessage(message, messageId), 'utf8')
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to write ${fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }
+    }
+
+    console.log(`[Email] Wrote ${path.join(dir, fileName)}`)
+    return { success: true, messageId }
+  },
+}
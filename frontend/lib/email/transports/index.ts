@@ -0,0 +1,53 @@
+import { resendTransport } from './resend'
+import { smtpTransport } from './smtp'
+import { fileTransport } from './file'
+import { consoleTransport } from './console'
+import { EmailTransportError, type EmailTransport, type EmailTransportName } from './shared'
+
+export type { EmailMessage, EmailSendResult, EmailTransport, EmailTransportName } from './shared'
+export { EmailTransportError, buildMimeMessage } from './shared'
+export { getEmailFileDir } from './file'
+
+const transports: Record<EmailTransportName, EmailTransport> = {
+  resend: resendTransport,
+  smtp: smtpTransport,
+  file: fileTransport,
+  console: consoleTransport,
+}
+
+/**
+ * Resolve which email transport to use
+ *
+ * Reads EMAIL_TRANSPORT (resend | smtp | file | console). When unset, Resend
+ * is used if RESEND_API_KEY is configured, then SMTP if SMTP_HOST is. With
+ * neither, development prints emails to the console while production keeps
+ * Resend, so a missing key fails loudly instead of dropping mail.
+ */
+export function getEmailTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT?.trim().toLowerCase()
+
+  if (!configured) {
+    if (process.env.RESEND_API_KEY) return 'resend'
+    if (process.env.SMTP_HOST) return 'smtp'
+    return process.env.NODE_ENV === 'production' ? 'resend' : 'console'
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(transports, configured)) {
+    throw new EmailTransportError(
+      `Unknown EMAIL_TRANSPORT "${configured}". Use one of: ${Object.keys(transports).join(', ')}`,
+      'INVALID_TRANSPORT'
+    )
+  }
+
+  return configured as EmailTransportName
+}
+
+/**
+ * Get the email transport for the configured (or requested) name
+ *
+ * @param name - Optional transport override
+ * @returns EmailTransport implementation
+ */
+export function getEmailTransport(name?: EmailTransportName): EmailTransport {
+  return transports[name ?? getEmailTransportName()]
+}
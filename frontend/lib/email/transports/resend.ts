@@ -0,0 +1,45 @@
+import { Resend } from 'resend'
+import type { EmailMessage, EmailSendResult, EmailTransport } from './shared'
+
+/**
+ * Resend API transport
+ *
+ * Env:
+ * - RESEND_API_KEY: API key (required)
+ */
+let client: Resend | null = null
+
+// Created on first send: the Resend constructor throws when the key is missing
+function getClient(): Resend | null {
+  if (!client && process.env.RESEND_API_KEY) {
+    client = new Resend(process.env.RESEND_API_KEY)
+  }
+  return client
+}
+
+export const resendTransport: EmailTransport = {
+  name: 'resend',
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const resend = getClient()
+    if (!resend) {
+      return { success: false, error: 'RESEND_API_KEY is not set' }
+    }
+
+    const { data, error } = await resend.emails.send({
+      from: message.from,
+      to: [message.to],
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+      headers: message.headers,
+    })
+
+    if (error) {
+      console.error('Resend error:', error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, messageId: data?.id }
+  },
+}
@@ -0,0 +1,124 @@
+import { randomUUID } from 'crypto'
+
+/**
+ * Shared types and helpers for email transports
+ */
+
+/**
+ * Available email transports (selected with EMAIL_TRANSPORT)
+ */
+export type EmailTransportName = 'resend' | 'smtp' | 'file' | 'console'
+
+/**
+ * One outgoing email, ready to hand to a transport
+ */
+export interface EmailMessage {
+  from: string // "Name <address>" or a bare address
+  to: string
+  subject: string
+  html: string
+  text: string
+  headers?: Record<string, string> // Extra headers (e.g. List-Unsubscribe)
+}
+
+export interface EmailSendResult {
+  success: boolean
+  messageId?: string
+  error?: string
+}
+
+/**
+ * An email transport implementation
+ */
+export interface EmailTransport {
+  name: EmailTransportName
+  send(message: EmailMessage): Promise<EmailSendResult>
+}
+
+/**
+ * Transport misconfiguration or a delivery failure the transport reported
+ */
+export class EmailTransportError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: string
+  ) {
+    super(message)
+    this.name = 'EmailTransportError'
+  }
+}
+
+const MIME_LINE_LENGTH = 76
+
+/**
+ * The bare address from "Name <address>"
+ */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/)
+  return (match ? match[1] : value).trim()
+}
+
+/**
+ * A Message-ID for emails we build ourselves (SMTP and file transports)
+ */
+export function generateMessageId(from: string): string {
+  const domain = extractAddress(from).split('@')[1] || 'localhost'
+  return `<${randomUUID()}@${domain}>`
+}
+
+// RFC 2047 encoded-word for header values that aren't plain ASCII
+function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+// "Name <address>" with the display name encoded when needed
+function encodeAddress(value: string): string {
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/)
+  if (!match || !match[1]) return value.trim()
+  return `${encodeHeaderValue(match[1].replace(/^"|"$/g, ''))} <${match[2]}>`
+}
+
+function base64Body(content: string): string {
+  const encoded = Buffer.from(content, 'utf8').toString('base64')
+  return encoded.match(new RegExp(`.{1,${MIME_LINE_LENGTH}}`, 'g'))?.join('\r\n') ?? ''
+}
+
+/**
+ * Build an RFC 5322 message (multipart/alternative, text then HTML)
+ *
+ * Used as the SMTP DATA payload and as the contents of .eml files.
+ *
+ * @param message - The email to encode
+ * @param messageId - Message-ID header value, including the angle brackets
+ */
+export function buildMimeMessage(message: EmailMessage, messageId: string): string {
+  const boundary = `----=_Part_${randomUUID().replace(/-/g, '')}`
+  const headers: Record<string, string> = {
+    From: encodeAddress(message.from),
+    To: encodeAddress(message.to),
+    Subject: encodeHeaderValue(message.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': messageId,
+    'MIME-Version': '1.0',
+    ...message.headers,
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+  }
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
@@ -0,0 +1,100 @@
+import nodemailer from 'nodemailer'
+import {
+  EmailTransportError,
+  buildMimeMessage,
+  extractAddress,
+  generateMessageId,
+  type EmailMessage,
+  type EmailSendResult,
+  type EmailTransport,
+} from './shared'
+
+/**
+ * SMTP transport
+ *
+ * Sends through nodemailer to any mail server or relay, including a local
+ * MailHog or Mailpit (SMTP_HOST=localhost, SMTP_PORT=1025, no auth). The
+ * message is the same MIME document the file transport writes.
+ *
+ * Env:
+ * - SMTP_HOST: Server hostname (required)
+ * - SMTP_PORT: Port (default: 465 when SMTP_SECURE=true, otherwise 587)
+ * - SMTP_SECURE: "true" for implicit TLS (port 465); otherwise STARTTLS is used when offered
+ * - SMTP_USER / SMTP_PASSWORD: Credentials (optional for local servers). With a
+ *   user set, the server must offer TLS or the send fails before credentials are sent
+ * - SMTP_ALLOW_INSECURE_AUTH: "true" to authenticate without TLS (local test servers only)
+ * - SMTP_TIMEOUT_MS: Connection, greeting and socket timeout (default: 15000)
+ */
+interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user: string
+  password: string
+  allowInsecureAuth: boolean
+  timeout: number
+}
+
+function getSmtpConfig(): SmtpConfig {
+  const host = process.env.SMTP_HOST?.trim()
+  if (!host) {
+    throw new EmailTransportError('SMTP_HOST is not set', 'SMTP_CONFIG')
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true'
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587'), 10),
+    secure,
+    user: process.env.SMTP_USER || '',
+    password: process.env.SMTP_PASSWORD || '',
+    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+    timeout: parseInt(process.env.SMTP_TIMEOUT_MS || '15000', 10),
+  }
+}
+
+function createSmtpTransporter(config: SmtpConfig) {
+  return nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    // Credentials never go over plaintext: without implicit TLS, STARTTLS is required
+    requireTLS: !!config.user && !config.allowInsecureAuth,
+    connectionTimeout: config.timeout,
+    greetingTimeout: config.timeout,
+    socketTimeout: config.timeout,
+  })
+}
+
+export const smtpTransport: EmailTransport = {
+  name: 'smtp',
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    try {
+      const config = getSmtpConfig()
+      const messageId = generateMessageId(message.from)
+      const transporter = createSmtpTransporter(config)
+
+      try {
+        await transporter.sendMail({
+          envelope: {
+            from: extractAddress(message.from),
+            to: extractAddress(message.to),
+          },
+          raw: buildMimeMessage(message, messageId),
+        })
+      } finally {
+        transporter.close()
+      }
+
+      return { success: true, messageId }
+    } catch (error) {
+      console.error('SMTP error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }
+    }
+  },
+}
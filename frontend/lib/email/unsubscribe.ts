@@ -0,0 +1,129 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * One-click unsubscribe tokens
+ *
+ * A token names a user and one email type and expires after
+ * UNSUBSCRIBE_TOKEN_TTL_DAYS. It is signed with UNSUBSCRIBE_SECRET, so the
+ * public /api/notifications/unsubscribe route can act on it without a
+ * session. When the secret isn't set, emails link to the settings page and
+ * skip the List-Unsubscribe headers.
+ */
+
+// Email types a token can turn off, and the users column each one flips
+export const UNSUBSCRIBE_COLUMNS = {
+  daily_digest: 'daily_digest_enabled',
+  deadline_reminder: 'deadline_reminders_enabled',
+} as const
+
+export type UnsubscribableEmailType = keyof typeof UNSUBSCRIBE_COLUMNS
+
+export const UNSUBSCRIBE_LABELS: Record<UnsubscribableEmailType, string> = {
+  daily_digest: 'daily digest emails',
+  deadline_reminder: 'deadline reminder emails',
+}
+
+// Links stay valid this long after the email is generated (queued emails can wait for retries)
+const UNSUBSCRIBE_TOKEN_TTL_DAYS = 60
+
+export interface UnsubscribeTokenPayload {
+  userId: string
+  emailType: UnsubscribableEmailType
+  expiresAt: Date
+}
+
+export type UnsubscribeTokenResult =
+  | { valid: true; payload: UnsubscribeTokenPayload }
+  | { valid: false; reason: 'invalid' | 'expired' | 'not_configured' }
+
+function getSecret(): string | null {
+  return process.env.UNSUBSCRIBE_SECRET || null
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+export function isUnsubscribableEmailType(emailType: string): emailType is UnsubscribableEmailType {
+  return Object.prototype.hasOwnProperty.call(UNSUBSCRIBE_COLUMNS, emailType)
+}
+
+/**
+ * Signed token for one user and email type, or null when UNSUBSCRIBE_SECRET isn't set
+ */
+export function createUnsubscribeToken(
+  userId: string,
+  emailType: UnsubscribableEmailType,
+  now: Date = new Date()
+): string | null {
+  const secret = getSecret()
+  if (!secret) return null
+
+  const expiresAt = Math.floor(now.getTime() / 1000) + UNSUBSCRIBE_TOKEN_TTL_DAYS * 24 * 60 * 60
+  const payload = Buffer.from(`${userId}:${emailType}:${expiresAt}`, 'utf8').toString('base64url')
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * Check a token's signature and expiry
+ */
+export function verifyUnsubscribeToken(token: string, now: Date = new Date()): UnsubscribeTokenResult {
+  const secret = getSecret()
+  if (!secret) return { valid: false, reason: 'not_configured' }
+
+  const [payload, signature, ...rest] = token.split('.')
+  if (!payload || !signature || rest.length > 0) return { valid: false, reason: 'invalid' }
+
+  const expected = Buffer.from(sign(payload, secret), 'utf8')
+  const actual = Buffer.from(signature, 'utf8')
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: 'invalid' }
+  }
+
+  const [userId, emailType, expiresAt] = Buffer.from(payload, 'base64url').toString('utf8').split(':')
+  const expiresAtSeconds = parseInt(expiresAt, 10)
+  if (!userId || !isUnsubscribableEmailType(emailType) || !Number.isFinite(expiresAtSeconds)) {
+    return { valid: false, reason: 'invalid' }
+  }
+
+  if (expiresAtSeconds * 1000 < now.getTime()) {
+    return { valid: false, reason: 'expired' }
+  }
+
+  return {
+    valid: true,
+    payload: { userId, emailType, expiresAt: new Date(expiresAtSeconds * 1000) },
+  }
+}
+
+/**
+ * Unsubscribe page linked from the email footer, or null when tokens are off
+ */
+export function getUnsubscribeUrl(
+  appUrl: string,
+  userId: string,
+  emailType: UnsubscribableEmailType
+): string | null {
+  const token = createUnsubscribeToken(userId, emailType)
+  return token ? `${appUrl}/unsubscribe?token=${encodeURIComponent(token)}` : null
+}
+
+/**
+ * RFC 8058 one-click headers for an email, or undefined when the type can't
+ * be unsubscribed from or tokens are off
+ */
+export function getUnsubscribeHeaders(
+  appUrl: string,
+  userId: string,
+  emailType: string
+): Record<string, string> | undefined {
+  if (!isUnsubscribableEmailType(emailType)) return undefined
+
+  const token = createUnsubscribeToken(userId, emailType)
+  if (!token) return undefined
+
+  return {
+    'List-Unsubscribe': `<${appUrl}/api/notifications/unsubscribe?token=${encodeURIComponent(token)}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  }
+}
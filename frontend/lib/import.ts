@@ -0,0 +1,536 @@
+import { createClient } from "@/lib/supabase/server"
+import type { Database, Json } from "@/lib/supabase/types"
+import type { OpportunityType } from "@/lib/constants"
+import { canonicalizeUrl } from "@/backend/services/url-canonicalizer"
+import { scrapeAndParse, IngestError } from "@/lib/ingest"
+import { findDuplicateCandidates, urlMatchFilter } from "@/lib/duplicates"
+import { importRecordSchema, importUrlSchema } from "@/lib/validations/opportunity"
+import { matchOpportunityToAlerts } from "@/lib/search-alerts"
+
+type SupabaseClient = ReturnType<typeof createClient>
+type ImportJobRowInsert = Database["public"]["Tables"]["import_job_rows"]["Insert"]
+
+export type ImportSource = 'records' | 'urls'
+export type ImportRowStatus = 'pending' | 'processing' | 'created' | 'duplicate' | 'failed'
+
+export type ImportPayload =
+  | { source: 'records'; rows: Record<string, unknown>[] }
+  | { source: 'urls'; rows: string[] }
+
+export interface ImportRowOutcome {
+  status: 'created' | 'duplicate' | 'failed'
+  reason: string | null
+  opportunity_id: string | null
+}
+
+export type ImportCounts = Record<ImportRowStatus, number>
+
+export const MAX_IMPORT_ROWS = 500
+
+// Scrape/parse attempts per URL row before it is marked failed
+const MAX_ROW_ATTEMPTS = 3
+
+// Rows stuck in processing this long (e.g. the worker timed out) are retried
+// while they have attempts left
+const STALE_ROW_MINUTES = 15
+
+/**
+ * The uploaded file can't be read as an import
+ */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportFileError'
+  }
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, newlines inside quotes)
+ *
+ * @returns Rows of cells; blank lines are dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  row.push(cell)
+  rows.push(row)
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''))
+}
+
+const looksLikeUrl = (value: string) => /^https?:\/\//i.test(value.trim())
+
+/**
+ * Read an uploaded import file
+ *
+ * JSON: an array of records or URL strings, or `{ records }` / `{ urls }`.
+ * CSV: a header row naming opportunity columns (url, company_name, job_title,
+ * opportunity_type, ...), a single `url` column, or one URL per line.
+ *
+ * @throws ImportFileError when the file matches none of these shapes
+ */
+export function parseImportFile(fileName: string, text: string): ImportPayload {
+  const content = text.replace(/^\uFEFF/, '').trim()
+  if (!content) {
+    throw new ImportFileError('The file is empty')
+  }
+
+  if (fileName.toLowerCase().endsWith('.json') || /^[[{]/.test(content)) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(content)
+    } catch {
+      throw new ImportFileError('The file is not valid JSON')
+    }
+
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { records?: unknown; urls?: unknown })?.records ??
+        (parsed as { urls?: unknown })?.urls
+
+    if (!Array.isArray(list) || list.length === 0) {
+      throw new ImportFileError('Expected a JSON array of records or URLs')
+    }
+    if (list.every(item => typeof item === 'string')) {
+      return { source: 'urls', rows: list as string[] }
+    }
+    if (list.every(item => item && typeof item === 'object' && !Array.isArray(item))) {
+      return { source: 'records', rows: list as Record<string, unknown>[] }
+    }
+    throw new ImportFileError('JSON rows must all be records or all be URLs')
+  }
+
+  const rows = parseCsv(content)
+  const header = rows[0].map(name => name.trim().toLowerCase().replace(/\s+/g, '_'))
+
+  if (header.includes('company_name') || header.includes('job_title')) {
+    return {
+      source: 'records',
+      rows: rows.slice(1).map(cells =>
+        Object.fromEntries(header.map((name, index) => [name, cells[index] ?? '']))
+      ),
+    }
+  }
+
+  if (header.length === 1 && header[0] === 'url') {
+    return { source: 'urls', rows: rows.slice(1).map(cells => cells[0].trim()) }
+  }
+
+  if (rows.every(cells => looksLikeUrl(cells[0]))) {
+    return { source: 'urls', rows: rows.map(cells => cells[0].trim()) }
+  }
+
+  throw new ImportFileError(
+    'CSV needs a header row with url, company_name, job_title and opportunity_type columns, or one URL per line'
+  )
+}
+
+/**
+ * Count rows by status
+ */
+export function summarizeImportRows(rows: Array<{ status: string }>): ImportCounts {
+  const counts: ImportCounts = { pending: 0, processing: 0, created: 0, duplicate: 0, failed: 0 }
+  for (const row of rows) {
+    if (row.status in counts) {
+      counts[row.status as ImportRowStatus]++
+    }
+  }
+  return counts
+}
+
+const toCsvValue = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV of the rows that were not created (duplicates and failures) with reasons
+ */
+export function buildImportReport(
+  rows: Array<{ row_number: number; status: string; reason: string | null; input: Json }>
+): string {
+  const lines = [['row', 'status', 'reason', 'url', 'company_name', 'job_title']]
+
+  for (const row of rows) {
+    if (row.status !== 'failed' && row.status !== 'duplicate') continue
+    const input = (row.input && typeof row.input === 'object' && !Array.isArray(row.input)
+      ? row.input
+      : {}) as Record<string, Json | undefined>
+    lines.push([
+      String(row.row_number),
+      row.status,
+      row.reason ?? '',
+      String(input.url ?? ''),
+      String(input.company_name ?? ''),
+      String(input.job_title ?? ''),
+    ])
+  }
+
+  return lines.map(cells => cells.map(toCsvValue).join(',')).join('\r\n') + '\r\n'
+}
+
+interface ImportedOpportunity {
+  url: string
+  company_name: string
+  job_title: string
+  opportunity_type: OpportunityType
+  role_type: string | null
+  relevant_majors: string[]
+  deadline: string | null
+  requirements: string | null
+  location: string | null
+  description: string | null
+  ai_parsed_data: Json | null
+}
+
+/**
+ * Existing opportunity with the same URL (or canonical form), if any
+ */
+async function findUrlMatch(supabase: SupabaseClient, url: string) {
+  const { data } = await supabase
+    .from('opportunities')
+    .select('id, status')
+    .or(urlMatchFilter(url, canonicalizeUrl(url)))
+    .limit(1)
+
+  return data?.[0] ?? null
+}
+
+/**
+ * Save one imported opportunity as an active listing unless it already exists
+ *
+ * @param supabase - Server Supabase client
+ * @param opportunity - Opportunity fields
+ * @param createdBy - Admin running the import (recorded as the submitter)
+ */
+async function saveImportedOpportunity(
+  supabase: SupabaseClient,
+  opportunity: ImportedOpportunity,
+  createdBy: string
+): Promise<ImportRowOutcome> {
+  const urlMatch = await findUrlMatch(supabase, opportunity.url)
+  if (urlMatch) {
+    return {
+      status: 'duplicate',
+      reason: `Already listed at this URL (${urlMatch.status.replace('_', ' ')})`,
+      opportunity_id: urlMatch.id,
+    }
+  }
+
+  // Imports are admin-only, so pending submissions count too
+  const [likelyDuplicate] = await findDuplicateCandidates(supabase, opportunity, { pending: 'all' })
+  if (likelyDuplicate) {
+    return {
+      status: 'duplicate',
+      reason: `Looks like "${likelyDuplicate.job_title}" at ${likelyDuplicate.company_name} (${Math.round(likelyDuplicate.score * 100)}% match)`,
+      opportunity_id: likelyDuplicate.id,
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('opportunities')
+    .insert({
+      ...opportunity,
+      canonical_url: canonicalizeUrl(opportunity.url),
+      submitted_by: createdBy,
+      status: 'active',
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      return { status: 'duplicate', reason: 'Already listed at this URL', opportunity_id: null }
+    }
+    console.error('[Import] Database insert failed:', error)
+    return { status: 'failed', reason: `Database error: ${error.message}`, opportunity_id: null }
+  }
+
+  await matchOpportunityToAlerts(supabase, data)
+
+  return { status: 'created', reason: null, opportunity_id: data.id }
+}
+
+/**
+ * Validate and save full records, in file order
+ *
+ * @returns Row inserts for import_job_rows with each record's outcome
+ */
+export async function importRecords(
+  supabase: SupabaseClient,
+  jobId: string,
+  records: Record<string, unknown>[],
+  createdBy: string
+): Promise<ImportJobRowInsert[]> {
+  const rows: ImportJobRowInsert[] = []
+
+  for (const [index, record] of records.entries()) {
+    const validation = importRecordSchema.safeParse(record)
+    const outcome: ImportRowOutcome = validation.success
+      ? await saveImportedOpportunity(supabase, {
+          url: validation.data.url,
+          company_name: validation.data.company_name,
+          job_title: validation.data.job_title,
+          opportunity_type: validation.data.opportunity_type as OpportunityType,
+          role_type: validation.data.role_type ?? null,
+          relevant_majors: validation.data.relevant_majors ?? [],
+          deadline: validation.data.deadline ?? null,
+          requirements: validation.data.requirements ?? null,
+          location: validation.data.location ?? null,
+          description: validation.data.description ?? null,
+          ai_parsed_data: null,
+        }, createdBy)
+      : {
+          status: 'failed',
+          reason: validation.error.errors
+            .map(e => (e.path.length ? `${e.path.join('.')}: ${e.message}` : e.message))
+            .join('; '),
+          opportunity_id: null,
+        }
+
+    rows.push({
+      job_id: jobId,
+      row_number: index + 1,
+      input: record as Json,
+      ...outcome,
+      attempts: 1,
+      processed_at: new Date().toISOString(),
+    })
+  }
+
+  return rows
+}
+
+/**
+ * Scrape, parse, and save one URL row
+ *
+ * @returns The outcome, or null to put the row back in the queue (rate limited)
+ */
+async function importUrlRow(
+  supabase: SupabaseClient,
+  input: Json,
+  job: { created_by: string | null; opportunity_type: OpportunityType | null },
+  attempt: number
+): Promise<ImportRowOutcome | null> {
+  const rawUrl = input && typeof input === 'object' && !Array.isArray(input) ? input.url : null
+  const validation = importUrlSchema.safeParse(rawUrl)
+  if (!validation.success) {
+    return { status: 'failed', reason: validation.error.errors[0].message, opportunity_id: null }
+  }
+  const url = validation.data
+
+  if (!job.created_by) {
+    return { status: 'failed', reason: 'The admin who started this import no longer exists', opportunity_id: null }
+  }
+
+  // Skip the scrape entirely when the URL is already listed
+  const urlMatch = await findUrlMatch(supabase, url)
+  if (urlMatch) {
+    return {
+      status: 'duplicate',
+      reason: `Already listed at this URL (${urlMatch.status.replace('_', ' ')})`,
+      opportunity_id: urlMatch.id,
+    }
+  }
+
+  let ingest
+  try {
+    ingest = await scrapeAndParse(url, { logPrefix: '[Import]' })
+  } catch (error) {
+    if (error instanceof IngestError) {
+      if (error.status === 429 && attempt < MAX_ROW_ATTEMPTS) {
+        return null
+      }
+      return { status: 'failed', reason: error.message, opportunity_id: null }
+    }
+    throw error
+  }
+
+  const { parsedData } = ingest
+  return saveImportedOpportunity(supabase, {
+    url,
+    company_name: parsedData.company_name || 'Unknown Company',
+    job_title: parsedData.job_title || 'Position Not Specified',
+    opportunity_type: parsedData.opportunity_type || job.opportunity_type || 'internship',
+    role_type: parsedData.role_type,
+    relevant_majors: parsedData.relevant_majors || [],
+    deadline: parsedData.deadline,
+    requirements: parsedData.requirements,
+    location: parsedData.location,
+    description: parsedData.description,
+    ai_parsed_data: parsedData as unknown as Json,
+  }, job.created_by)
+}
+
+/**
+ * Work through pending URL rows, oldest import first
+ *
+ * Each row is claimed (pending → processing) before it is scraped so
+ * overlapping runs don't import it twice. Jobs are marked completed once no
+ * rows are left.
+ *
+ * @param supabase - Server Supabase client
+ * @param options.maxRows - Rows to process in this run
+ * @param options.timeBudgetMs - Stop picking up new rows after this long
+ */
+export async function processImportQueue(
+  supabase: SupabaseClient,
+  options: { maxRows?: number; timeBudgetMs?: number } = {}
+): Promise<{ processed: number; created: number; duplicate: number; failed: number; completedJobs: number }> {
+  const { maxRows = 10, timeBudgetMs = 45000 } = options
+  const result = { processed: 0, created: 0, duplicate: 0, failed: 0, completedJobs: 0 }
+  const startedAt = Date.now()
+
+  // Requeue rows whose worker died mid-scrape (the claim already used up an
+  // attempt); rows with no attempts left fail instead
+  const staleBefore = new Date(Date.now() - STALE_ROW_MINUTES * 60 * 1000).toISOString()
+  await supabase
+    .from('import_job_rows')
+    .update({ status: 'failed', reason: 'Timed out while importing', processed_at: new Date().toISOString() })
+    .eq('status', 'processing')
+    .lt('started_at', staleBefore)
+    .gte('attempts', MAX_ROW_ATTEMPTS)
+  await supabase
+    .from('import_job_rows')
+    .update({ status: 'pending' })
+    .eq('status', 'processing')
+    .lt('started_at', staleBefore)
+    .lt('attempts', MAX_ROW_ATTEMPTS)
+
+  while (result.processed < maxRows && Date.now() - startedAt < timeBudgetMs) {
+    const { data: job, error: jobError } = await supabase
+      .from('import_jobs')
+      .select('id, created_by, opportunity_type, status')
+      .eq('source', 'urls')
+      .in('status', ['pending', 'processing'])
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (jobError) {
+      console.error('[Import] Error fetching import jobs:', jobError)
+      break
+    }
+    if (!job) break
+
+    if (job.status === 'pending') {
+      await supabase
+        .from('import_jobs')
+        .update({ status: 'processing', started_at: new Date().toISOString() })
+        .eq('id', job.id)
+        .eq('status', 'pending')
+    }
+
+    const { data: row } = await supabase
+      .from('import_job_rows')
+      .select('id, input, attempts')
+      .eq('job_id', job.id)
+      .eq('status', 'pending')
+      .order('row_number', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (!row) {
+      const { count: inFlight } = await supabase
+        .from('import_job_rows')
+        .select('id', { count: 'exact', head: true })
+        .eq('job_id', job.id)
+        .eq('status', 'processing')
+
+      // Another run is finishing this job's last rows
+      if (inFlight) break
+
+      await supabase
+        .from('import_jobs')
+        .update({ status: 'completed', completed_at: new Date().toISOString() })
+        .eq('id', job.id)
+      result.completedJobs++
+      continue
+    }
+
+    if (row.attempts >= MAX_ROW_ATTEMPTS) {
+      const { data: exhausted } = await supabase
+        .from('import_job_rows')
+        .update({ status: 'failed', reason: 'Gave up after repeated attempts', processed_at: new Date().toISOString() })
+        .eq('id', row.id)
+        .eq('status', 'pending')
+        .select('id')
+        .maybeSingle()
+      if (exhausted) result.failed++
+      continue
+    }
+
+    const attempt = row.attempts + 1
+    const { data: claimed } = await supabase
+      .from('import_job_rows')
+      .update({ status: 'processing', started_at: new Date().toISOString(), attempts: attempt })
+      .eq('id', row.id)
+      .eq('status', 'pending')
+      .lt('attempts', MAX_ROW_ATTEMPTS)
+      .select('id')
+      .maybeSingle()
+
+    if (!claimed) continue
+
+    let outcome: ImportRowOutcome | null
+    try {
+      outcome = await importUrlRow(supabase, row.input, job, attempt)
+    } catch (error) {
+      console.error('[Import] Unexpected error processing row:', error)
+      outcome = attempt < MAX_ROW_ATTEMPTS
+        ? null
+        : { status: 'failed', reason: error instanceof Error ? error.message : 'Unknown error', opportunity_id: null }
+    }
+
+    result.processed++
+
+    // Rate limited (or a transient error): put the row back and leave the rest for the next run
+    if (!outcome) {
+      await supabase
+        .from('import_job_rows')
+        .update({ status: 'pending' })
+        .eq('id', row.id)
+      break
+    }
+
+    await supabase
+      .from('import_job_rows')
+      .update({ ...outcome, processed_at: new Date().toISOString() })
+      .eq('id', row.id)
+
+    result[outcome.status]++
+  }
+
+  return result
+}
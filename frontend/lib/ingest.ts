@@ -0,0 +1,225 @@
+import { smartScrape, type SmartScrapeResult } from "@/backend/services/smart-scraper"
+import {
+  isStructuredDataComplete,
+  type StructuredExtractionResult,
+} from "@/backend/services/structured-data-extractor"
+import {
+  getJobParser,
+  ParserError,
+  RateLimitError,
+  type JobParser,
+  type ParsedJobData,
+} from "@/lib/ai/parser"
+import { extractJobDataHeuristically } from "@/lib/ai/heuristic"
+import { mergeStructuredData, type StructuredMergeResult } from "@/lib/ai/structured"
+import { getScrapeCache } from "@/lib/scrape-cache"
+import { getDomainStrategyStore } from "@/lib/domain-strategies"
+
+// Parser failures worth another attempt later (everything else is permanent)
+const RETRYABLE_PARSER_CODES = new Set(['TIMEOUT', 'INVALID_RESPONSE', 'API_ERROR', 'PARSE_FAILED'])
+
+/**
+ * Page content from the scrape step (JSON-serializable so it can be stored between steps)
+ */
+export interface ScrapedPosting {
+  content: string
+  title?: string
+  method: SmartScrapeResult['method']
+  structuredData?: StructuredExtractionResult
+  metadata?: SmartScrapeResult['metadata']
+}
+
+export interface ParsedPosting {
+  parsedData: ParsedJobData
+  parser: JobParser
+  // True when schema.org/meta data covered the core fields and the AI was skipped
+  useStructuredOnly: boolean
+  structuredMerge: StructuredMergeResult | null
+}
+
+export interface IngestResult extends ParsedPosting {
+  scrapeResult: ScrapedPosting
+}
+
+/**
+ * Scraping or parsing failed; `body` and `status` are ready to return from an API route
+ */
+export class IngestError extends Error {
+  constructor(
+    message: string,
+    public stage: 'scrape' | 'parse',
+    public status: number,
+    public body: Record<string, unknown>,
+    public retryable: boolean = false
+  ) {
+    super(message)
+    this.name = 'IngestError'
+  }
+}
+
+export interface ScrapeOptions {
+  manualContent?: string
+  logPrefix?: string
+  bypassCache?: boolean
+}
+
+/**
+ * Scrape a posting URL (or use pasted content)
+ *
+ * Pages fetched within the scrape cache TTL are reused unless `bypassCache` is set.
+ *
+ * @param url - Posting URL
+ * @param options.manualContent - Pasted page content to use instead of scraping
+ * @param options.logPrefix - Prefix for log lines (e.g. "[Submit]")
+ * @param options.bypassCache - Re-fetch the page even if it's cached
+ * @throws IngestError when no content could be extracted
+ */
+export async function scrapePosting(
+  url: string,
+  options: ScrapeOptions = {}
+): Promise<ScrapedPosting> {
+  const { manualContent, logPrefix = '[Ingest]', bypassCache } = options
+
+  console.log(`${logPrefix} Scraping URL...`)
+  const scrapeResult = await smartScrape({
+    url,
+    manualContent,
+    timeout: 30000,
+    bypassCache,
+    cache: getScrapeCache(),
+    strategies: getDomainStrategyStore(),
+  })
+
+  if (!scrapeResult.success || !scrapeResult.content) {
+    console.error(`${logPrefix} Scraping failed:`, scrapeResult.error)
+    const message = scrapeResult.error || "Could not extract content from the provided URL"
+    throw new IngestError(
+      message,
+      'scrape',
+      400,
+      {
+        error: "Failed to scrape URL",
+        message,
+        requiresManual: scrapeResult.requiresManual,
+        metadata: scrapeResult.metadata
+      },
+      // Restricted sites, robots.txt blocks, internal URLs and pasted content won't do better on a second try
+      !manualContent &&
+        !scrapeResult.metadata?.isRestricted &&
+        !scrapeResult.metadata?.blockedByRobots &&
+        !scrapeResult.metadata?.blockedUrl
+    )
+  }
+
+  console.log(`${logPrefix} Scraping successful (${scrapeResult.content.length} chars, method: ${scrapeResult.method}${scrapeResult.metadata?.cached ? ', cached' : ''})`)
+
+  return {
+    content: scrapeResult.content,
+    title: scrapeResult.title,
+    method: scrapeResult.method,
+    structuredData: scrapeResult.structuredData,
+    metadata: scrapeResult.metadata,
+  }
+}
+
+/**
+ * Parse scraped content into opportunity fields
+ *
+ * Structured data is preferred when it covers the core fields; otherwise the
+ * configured parser provider fills in what it lacks.
+ *
+ * @param scraped - Output of scrapePosting
+ * @param options.logPrefix - Prefix for log lines
+ * @throws IngestError when the content can't be parsed
+ */
+export async function parsePosting(
+  scraped: ScrapedPosting,
+  options: { logPrefix?: string } = {}
+): Promise<ParsedPosting> {
+  const { logPrefix = '[Ingest]' } = options
+  const { content, structuredData } = scraped
+
+  // Prefer schema.org/meta structured data when it covers the core fields
+  const useStructuredOnly = !!structuredData && isStructuredDataComplete(structuredData)
+  let structuredMerge: StructuredMergeResult | null = null
+
+  if (structuredData?.hasJobPosting) {
+    console.log(`${logPrefix} Structured data found (fields: ${Object.keys(structuredData.sources).join(', ')})`)
+  }
+
+  // Parse with the configured parser provider (only for fields structured data lacks)
+  let parser: JobParser
+  try {
+    parser = getJobParser()
+  } catch (error) {
+    console.error(`${logPrefix} Parser provider misconfigured:`, error)
+    const message = error instanceof Error ? error.message : "Parser provider is not configured"
+    throw new IngestError(message, 'parse', 500, {
+      error: "AI parsing failed",
+      message
+    })
+  }
+
+  let parsedData: ParsedJobData
+  try {
+    if (useStructuredOnly && structuredData) {
+      // Core fields are covered; fill the rest deterministically instead of calling the AI
+      console.log(`${logPrefix} Structured data complete, skipping ${parser.name} provider`)
+      structuredMerge = mergeStructuredData(structuredData, extractJobDataHeuristically(content))
+      parsedData = structuredMerge.data
+    } else {
+      console.log(`${logPrefix} Parsing with ${parser.name} provider...`)
+      parsedData = await parser.parseFromText(content, {
+        timeout: 30000,
+        maxRetries: 3
+      })
+      console.log(`${logPrefix} AI parsing successful`)
+
+      if (structuredData) {
+        structuredMerge = mergeStructuredData(structuredData, parsedData)
+        parsedData = structuredMerge.data
+      }
+    }
+  } catch (error) {
+    console.error(`${logPrefix} AI parsing failed:`, error)
+
+    if (error instanceof RateLimitError) {
+      throw new IngestError(error.message, 'parse', 429, {
+        error: "Rate limit exceeded",
+        message: "Too many requests. Please try again in 60 seconds."
+      }, true)
+    }
+
+    if (error instanceof ParserError) {
+      throw new IngestError(error.message, 'parse', 500, {
+        error: "AI parsing failed",
+        message: error.message
+      }, RETRYABLE_PARSER_CODES.has(error.code ?? ''))
+    }
+
+    throw new IngestError("Failed to parse job posting with AI", 'parse', 500, {
+      error: "Parsing failed",
+      message: "Failed to parse job posting with AI"
+    }, true)
+  }
+
+  return { parsedData, parser, useStructuredOnly, structuredMerge }
+}
+
+/**
+ * Scrape a posting URL and parse it into opportunity fields in one go
+ *
+ * @param url - Posting URL
+ * @param options.manualContent - Pasted page content to use instead of scraping
+ * @param options.logPrefix - Prefix for log lines (e.g. "[Import]")
+ * @param options.bypassCache - Re-fetch the page even if it's cached
+ * @throws IngestError when the page can't be scraped or parsed
+ */
+export async function scrapeAndParse(
+  url: string,
+  options: ScrapeOptions = {}
+): Promise<IngestResult> {
+  const scrapeResult = await scrapePosting(url, options)
+  const parsed = await parsePosting(scrapeResult, { logPrefix: options.logPrefix })
+  return { ...parsed, scrapeResult }
+}
@@ -0,0 +1,44 @@
+/**
+ * Opaque keyset cursors for paginated lists
+ *
+ * A cursor records the sort it was issued for, the sort key of the last row
+ * on the page, and that row's id as a tie-breaker. Clients pass it back
+ * verbatim as `cursor` to get the next page.
+ */
+
+export interface ListCursor {
+  sort: string
+  key: string | number | null
+  id: string
+}
+
+/**
+ * Encode a cursor as a URL-safe string
+ *
+ * @param cursor - Sort, last sort key, and last id of the current page
+ * @returns Opaque base64url cursor
+ */
+export function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.key, cursor.id])).toString("base64url")
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ *
+ * @param value - Cursor string from the client
+ * @returns The cursor, or null if it is malformed
+ */
+export function decodeCursor(value: string): ListCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf8"))
+    if (!Array.isArray(decoded) || decoded.length !== 3) return null
+
+    const [sort, key, id] = decoded
+    if (typeof sort !== "string" || typeof id !== "string") return null
+    if (key !== null && typeof key !== "string" && typeof key !== "number") return null
+
+    return { sort, key, id }
+  } catch {
+    return null
+  }
+}
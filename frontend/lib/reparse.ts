@@ -0,0 +1,200 @@
+import { createClient } from "@/lib/supabase/server"
+import type { Database, Json } from "@/lib/supabase/types"
+import { PARSED_JOB_FIELDS, type ParsedJobData, type ParsedJobField } from "@/lib/ai/parser"
+import { scrapeAndParse, IngestError } from "@/lib/ingest"
+
+type SupabaseClient = ReturnType<typeof createClient>
+type OpportunityRow = Database["public"]["Tables"]["opportunities"]["Row"]
+type OpportunityUpdate = Database["public"]["Tables"]["opportunities"]["Update"]
+type ReparseUpdate = Database["public"]["Tables"]["opportunity_reparses"]["Update"]
+
+export type ReparseStatus = 'pending' | 'processing' | 'ready' | 'failed' | 'applied' | 'dismissed'
+
+// Scrape/parse attempts per queued re-parse before it is marked failed
+const MAX_REPARSE_ATTEMPTS = 3
+
+// Queued re-parses stuck in processing this long (e.g. the worker timed out) are retried
+const STALE_REPARSE_MINUTES = 15
+
+// Columns a diff needs from the opportunity
+export const REPARSE_OPPORTUNITY_FIELDS =
+  'id, url, company_name, job_title, opportunity_type, role_type, relevant_majors, deadline, requirements, location, description'
+
+export interface ReparseFieldDiff {
+  field: ParsedJobField
+  current: Json
+  proposed: Json
+  changed: boolean
+}
+
+/**
+ * Field-by-field comparison of a new parse with the stored row
+ *
+ * Fields the new parse left empty are never proposed as changes, so a
+ * weaker parse can't wipe values an admin filled in.
+ */
+export function diffParsedData(
+  row: Pick<OpportunityRow, ParsedJobField>,
+  parsed: ParsedJobData
+): ReparseFieldDiff[] {
+  return PARSED_JOB_FIELDS.map(field => {
+    const current = (row[field] ?? null) as Json
+    const proposed = (parsed[field] ?? null) as Json
+    const changed = proposed !== null && JSON.stringify(current) !== JSON.stringify(proposed)
+    return { field, current, proposed, changed }
+  })
+}
+
+/**
+ * The row update that applies the chosen fields of a parse
+ */
+export function reparseUpdate(
+  parsed: ParsedJobData,
+  fields: Array<ParsedJobField>
+): OpportunityUpdate {
+  const update: OpportunityUpdate = {}
+  for (const field of fields) {
+    const value = parsed[field]
+    if (value === null || value === undefined) continue
+    if (field === 'relevant_majors') {
+      update.relevant_majors = value as Json
+    } else {
+      Object.assign(update, { [field]: value })
+    }
+  }
+  return update
+}
+
+/**
+ * Re-run scrape → parse for an opportunity's URL
+ *
+ * Uses the cached page unless `refresh` is set.
+ *
+ * @throws IngestError when the page can't be scraped or parsed
+ */
+export async function runReparse(
+  row: Pick<OpportunityRow, 'url' | ParsedJobField>,
+  options: { refresh?: boolean; logPrefix?: string } = {}
+) {
+  const { refresh = false, logPrefix = '[Reparse]' } = options
+  const ingest = await scrapeAndParse(row.url, { bypassCache: refresh, logPrefix })
+  const diff = diffParsedData(row, ingest.parsedData)
+
+  return {
+    parsedData: ingest.parsedData,
+    parser: ingest.useStructuredOnly ? 'structured' : ingest.parser.name,
+    diff,
+    changedFields: diff.filter(item => item.changed).map(item => item.field),
+    scrapeMethod: ingest.scrapeResult.metadata?.scrapeMethod ?? ingest.scrapeResult.method,
+    cached: !!ingest.scrapeResult.metadata?.cached,
+  }
+}
+
+/**
+ * Work through queued re-parses, oldest first
+ *
+ * Each row is claimed (pending → processing) before it is scraped so
+ * overlapping runs don't parse it twice. Rate-limited rows go back in the
+ * queue and end the run, like the import queue.
+ *
+ * @param supabase - Server Supabase client
+ * @param options.maxRows - Re-parses to process in this run
+ * @param options.timeBudgetMs - Stop picking up new rows after this long
+ */
+export async function processReparseQueue(
+  supabase: SupabaseClient,
+  options: { maxRows?: number; timeBudgetMs?: number } = {}
+): Promise<{ processed: number; ready: number; failed: number }> {
+  const { maxRows = 10, timeBudgetMs = 45000 } = options
+  const result = { processed: 0, ready: 0, failed: 0 }
+  const startedAt = Date.now()
+
+  // Requeue rows whose worker died mid-parse
+  const staleBefore = new Date(Date.now() - STALE_REPARSE_MINUTES * 60 * 1000).toISOString()
+  await supabase
+    .from('opportunity_reparses')
+    .update({ status: 'pending' })
+    .eq('status', 'processing')
+    .lt('started_at', staleBefore)
+
+  while (result.processed < maxRows && Date.now() - startedAt < timeBudgetMs) {
+    const { data: row, error } = await supabase
+      .from('opportunity_reparses')
+      .select('id, opportunity_id, refresh, attempts')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Reparse] Error fetching queued re-parses:', error)
+      break
+    }
+    if (!row) break
+
+    const attempt = row.attempts + 1
+    const { data: claimed } = await supabase
+      .from('opportunity_reparses')
+      .update({ status: 'processing', started_at: new Date().toISOString(), attempts: attempt })
+      .eq('id', row.id)
+      .eq('status', 'pending')
+      .select('id')
+      .maybeSingle()
+
+    if (!claimed) continue
+
+    const { data: opportunity } = await supabase
+      .from('opportunities')
+      .select(REPARSE_OPPORTUNITY_FIELDS)
+      .eq('id', row.opportunity_id)
+      .maybeSingle()
+
+    let outcome: ReparseUpdate | null
+    if (!opportunity) {
+      outcome = { status: 'failed', error: 'Opportunity no longer exists' }
+    } else {
+      try {
+        const reparse = await runReparse(opportunity, { refresh: row.refresh })
+        outcome = {
+          status: 'ready',
+          parsed_data: reparse.parsedData as unknown as Json,
+          changed_fields: reparse.changedFields,
+          parser: reparse.parser,
+          error: null,
+        }
+      } catch (error) {
+        if (error instanceof IngestError) {
+          outcome = error.status === 429 && attempt < MAX_REPARSE_ATTEMPTS
+            ? null
+            : { status: 'failed', error: error.message }
+        } else {
+          console.error('[Reparse] Unexpected error processing re-parse:', error)
+          outcome = attempt < MAX_REPARSE_ATTEMPTS
+            ? null
+            : { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      }
+    }
+
+    result.processed++
+
+    // Rate limited (or a transient error): put the row back and leave the rest for the next run
+    if (!outcome) {
+      await supabase
+        .from('opportunity_reparses')
+        .update({ status: 'pending' })
+        .eq('id', row.id)
+      break
+    }
+
+    await supabase
+      .from('opportunity_reparses')
+      .update({ ...outcome, completed_at: new Date().toISOString() })
+      .eq('id', row.id)
+
+    if (outcome.status === 'ready') result.ready++
+    else result.failed++
+  }
+
+  return result
+}
@@ -0,0 +1,204 @@
+import { createClient } from "@/lib/supabase/server"
+import type { Database, Json } from "@/lib/supabase/types"
+import { checkPostingStatus, type PostingFields, type PostingStatus } from "@/backend/services/posting-status"
+import { hashContent } from "@/backend/services/scrape-cache"
+import { diffOpportunity, recordRevision } from "@/lib/revisions"
+
+type SupabaseClient = ReturnType<typeof createClient>
+type OpportunityUpdate = Database["public"]["Tables"]["opportunities"]["Update"]
+
+// How often each active posting is re-checked
+export const REVALIDATE_INTERVAL_HOURS =
+  parseInt(process.env.REVALIDATE_INTERVAL_HOURS || '', 10) || 72
+
+// Consecutive unreachable checks before a posting is flagged for an admin
+const MAX_CHECK_FAILURES = 3
+
+const CHECK_TIMEOUT_MS = 15000
+
+export interface RevalidationResult {
+  checked: number
+  open: number
+  expired: number
+  possiblyClosed: number
+  unknown: number
+  updated: number // Open postings whose deadline or requirements changed at the source
+  opportunities: Array<{ id: string; state: PostingStatus['state']; reason: string | null }>
+}
+
+interface CheckedRow {
+  id: string
+  url: string
+  last_checked_at: string | null
+  check_failures: number
+  possibly_closed: boolean
+  dismissed_closed_reason: string | null
+  status: Database["public"]["Tables"]["opportunities"]["Row"]["status"]
+  deadline: string | null
+  requirements: string | null
+  source_snapshot: Json | null
+}
+
+// What the last check read from the source; requirements are hashed, they can be long
+interface SourceSnapshot {
+  deadline: string | null
+  requirements_hash: string | null
+}
+
+function toSnapshot(posting: PostingFields): SourceSnapshot {
+  return {
+    deadline: posting.deadline,
+    requirements_hash: posting.requirements ? hashContent(posting.requirements) : null,
+  }
+}
+
+/**
+ * Fields to update when the source changed since the last check
+ *
+ * Compared with the previous snapshot rather than the row, so the AI's
+ * wording of the requirements doesn't count as a change. The first check
+ * only records the snapshot.
+ */
+function sourceChanges(row: CheckedRow, posting: PostingFields): OpportunityUpdate {
+  const previous = row.source_snapshot as SourceSnapshot | null
+  if (!previous) return {}
+
+  const next = toSnapshot(posting)
+  const changes: OpportunityUpdate = {}
+  if (posting.deadline && next.deadline !== previous.deadline) {
+    changes.deadline = posting.deadline
+  }
+  if (posting.requirements && next.requirements_hash !== previous.requirements_hash) {
+    changes.requirements = posting.requirements
+  }
+  return changes
+}
+
+/**
+ * Row update for one check result
+ *
+ * Closed postings are expired; possibly closed ones are flagged unless an
+ * admin already kept the posting open for the same signal. Postings that
+ * can't be reached are only flagged after MAX_CHECK_FAILURES checks in a row.
+ */
+function applyStatus(row: CheckedRow, status: PostingStatus): OpportunityUpdate {
+  const now = new Date().toISOString()
+
+  switch (status.state) {
+    case 'closed':
+      return {
+        status: 'expired' as const,
+        expired_at: now,
+        expired_reason: status.reason,
+        possibly_closed: false,
+        possibly_closed_reason: null,
+        check_failures: 0,
+      }
+    case 'possibly_closed':
+      if (status.reason === row.dismissed_closed_reason) {
+        return { check_failures: 0 }
+      }
+      return { possibly_closed: true, possibly_closed_reason: status.reason, check_failures: 0 }
+    case 'unknown': {
+      const failures = row.check_failures + 1
+      if (failures >= MAX_CHECK_FAILURES && !row.possibly_closed && row.dismissed_closed_reason !== 'unreachable') {
+        return { check_failures: failures, possibly_closed: true, possibly_closed_reason: 'unreachable' }
+      }
+      return { check_failures: failures }
+    }
+    default:
+      return {
+        check_failures: 0,
+        possibly_closed: false,
+        possibly_closed_reason: null,
+        dismissed_closed_reason: null,
+        ...(status.posting
+          ? {
+              ...sourceChanges(row, status.posting),
+              source_snapshot: toSnapshot(status.posting) as unknown as Json,
+            }
+          : {}),
+      }
+  }
+}
+
+/**
+ * Re-check active postings, least recently checked first
+ *
+ * Each run takes up to `batchSize` postings not checked in the last
+ * REVALIDATE_INTERVAL_HOURS, so the whole board is covered on a rolling
+ * schedule. Stops picking up postings once the time budget is spent.
+ */
+export async function revalidateOpportunities(
+  supabase: SupabaseClient,
+  options: { batchSize?: number; timeBudgetMs?: number } = {}
+): Promise<RevalidationResult> {
+  const { batchSize = 20, timeBudgetMs = 45000 } = options
+  const result: RevalidationResult = {
+    checked: 0,
+    open: 0,
+    expired: 0,
+    possiblyClosed: 0,
+    unknown: 0,
+    updated: 0,
+    opportunities: [],
+  }
+  const startedAt = Date.now()
+  const dueBefore = new Date(Date.now() - REVALIDATE_INTERVAL_HOURS * 60 * 60 * 1000).toISOString()
+
+  const { data: rows, error } = await supabase
+    .from('opportunities')
+    .select('id, url, last_checked_at, check_failures, possibly_closed, dismissed_closed_reason, status, deadline, requirements, source_snapshot')
+    .eq('status', 'active')
+    .or(`last_checked_at.is.null,last_checked_at.lt.${dueBefore}`)
+    .order('last_checked_at', { ascending: true, nullsFirst: true })
+    .limit(batchSize)
+
+  if (error) {
+    throw error
+  }
+
+  for (const row of rows || []) {
+    if (Date.now() - startedAt >= timeBudgetMs) break
+
+    // Claim the row so an overlapping run skips it
+    let claim = supabase
+      .from('opportunities')
+      .update({ last_checked_at: new Date().toISOString() })
+      .eq('id', row.id)
+      .eq('status', 'active')
+    claim = row.last_checked_at ? claim.eq('last_checked_at', row.last_checked_at) : claim.is('last_checked_at', null)
+    const { data: claimed } = await claim.select('id').maybeSingle()
+    if (!claimed) continue
+
+    const status = await checkPostingStatus(row.url, { timeout: CHECK_TIMEOUT_MS })
+    const update = applyStatus(row, status)
+
+    const { error: updateError } = await supabase
+      .from('opportunities')
+      .update(update)
+      .eq('id', row.id)
+      .eq('status', 'active')
+
+    if (updateError) {
+      console.error(`[Revalidate] Failed to record check for ${row.id}:`, updateError)
+      continue
+    }
+
+    // Deadline/requirements edits at the source (and expiries) show up in the opportunity's history
+    const diff = diffOpportunity(row, update)
+    if (diff.changedFields.length > 0) {
+      await recordRevision(supabase, row.id, diff, { source: 'revalidation' })
+      if (status.state === 'open') result.updated++
+    }
+
+    result.checked++
+    if (status.state === 'open') result.open++
+    else if (status.state === 'closed') result.expired++
+    else if (status.state === 'possibly_closed') result.possiblyClosed++
+    else result.unknown++
+    result.opportunities.push({ id: row.id, state: status.state, reason: status.reason })
+  }
+
+  return result
+}
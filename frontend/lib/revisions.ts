@@ -0,0 +1,155 @@
+import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import type { Database, Json } from "@/lib/supabase/types"
+
+type SupabaseClient = ReturnType<typeof createClient>
+type OpportunityRow = Database["public"]["Tables"]["opportunities"]["Row"]
+type OpportunityUpdate = Database["public"]["Tables"]["opportunities"]["Update"]
+type RevisionRow = Database["public"]["Tables"]["opportunity_revisions"]["Row"]
+
+export type RevisionSource = 'admin_edit' | 'review' | 'reparse' | 'revalidation' | 'revert'
+
+// Fields whose changes are recorded (and can be reverted)
+export const REVISION_FIELDS = [
+  'company_name',
+  'job_title',
+  'opportunity_type',
+  'role_type',
+  'relevant_majors',
+  'deadline',
+  'requirements',
+  'location',
+  'description',
+  'status',
+] as const
+
+export type RevisionField = typeof REVISION_FIELDS[number]
+
+export interface OpportunityDiff {
+  changedFields: RevisionField[]
+  before: Partial<Record<RevisionField, Json>>
+  after: Partial<Record<RevisionField, Json>>
+}
+
+/**
+ * The tracked fields an update would change on a row
+ */
+export function diffOpportunity(
+  current: Partial<OpportunityRow>,
+  update: OpportunityUpdate
+): OpportunityDiff {
+  const diff: OpportunityDiff = { changedFields: [], before: {}, after: {} }
+
+  for (const field of REVISION_FIELDS) {
+    if (!(field in update)) continue
+    const before = (current[field] ?? null) as Json
+    const after = (update[field] ?? null) as Json
+    if (JSON.stringify(before) === JSON.stringify(after)) continue
+
+    diff.changedFields.push(field)
+    diff.before[field] = before
+    diff.after[field] = after
+  }
+
+  return diff
+}
+
+/**
+ * Record a revision
+ *
+ * Automated changes (no changedBy) are written with the service role client,
+ * since only admins can insert revisions under RLS.
+ */
+export async function recordRevision(
+  supabase: SupabaseClient,
+  opportunityId: string,
+  diff: OpportunityDiff,
+  options: {
+    source: RevisionSource
+    changedBy?: string | null
+    revertedRevisionId?: string | null
+    aiParsedData?: Json | null
+  }
+): Promise<RevisionRow | null> {
+  if (diff.changedFields.length === 0) return null
+
+  const client = options.changedBy ? supabase : createServiceClient() ?? supabase
+  const { data, error } = await client
+    .from('opportunity_revisions')
+    .insert({
+      opportunity_id: opportunityId,
+      changed_by: options.changedBy ?? null,
+      source: options.source,
+      changed_fields: diff.changedFields,
+      before: diff.before,
+      after: diff.after,
+      reverted_revision_id: options.revertedRevisionId ?? null,
+      ai_parsed_data: options.aiParsedData ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // The edit itself went through; a missing history entry shouldn't fail it
+    console.error(`[Revisions] Failed to record revision for ${opportunityId}:`, error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Update an opportunity and record what changed
+ *
+ * @returns The updated row (null with the error if the update failed) and the
+ *   revision, which is null when nothing tracked changed
+ */
+export async function updateOpportunityWithRevision(
+  supabase: SupabaseClient,
+  opportunityId: string,
+  update: OpportunityUpdate,
+  options: {
+    source: RevisionSource
+    changedBy?: string | null
+    revertedRevisionId?: string | null
+    aiParsedData?: Json | null
+  }
+) {
+  const { data: current, error: fetchError } = await supabase
+    .from('opportunities')
+    .select('*')
+    .eq('id', opportunityId)
+    .single()
+
+  if (fetchError) {
+    return { data: null, error: fetchError, revision: null }
+  }
+
+  const { data, error } = await supabase
+    .from('opportunities')
+    .update(update)
+    .eq('id', opportunityId)
+    .select()
+    .single()
+
+  if (error) {
+    return { data: null, error, revision: null }
+  }
+
+  const revision = await recordRevision(supabase, opportunityId, diffOpportunity(current, update), options)
+  return { data, error: null, revision }
+}
+
+/**
+ * The update that puts a revision's changed fields back to their before values
+ */
+export function revertUpdate(revision: Pick<RevisionRow, 'changed_fields' | 'before'>): OpportunityUpdate {
+  const before = (revision.before ?? {}) as Record<string, Json>
+  const update: Record<string, Json> = {}
+  for (const field of revision.changed_fields) {
+    if ((REVISION_FIELDS as readonly string[]).includes(field)) {
+      update[field] = before[field] ?? null
+    }
+  }
+  return update as OpportunityUpdate
+}
@@ -0,0 +1,99 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import {
+  defaultScrapeCache,
+  getScrapeCacheKey,
+  type ScrapeCache,
+  type ScrapeCacheEntry,
+} from "@/backend/services/scrape-cache"
+import type { StructuredExtractionResult } from "@/backend/services/structured-data-extractor"
+import { createServiceClient } from "@/lib/supabase/service"
+import type { Database, Json } from "@/lib/supabase/types"
+
+type ScrapeCacheRow = Database["public"]["Tables"]["scrape_cache"]["Row"]
+
+/**
+ * Postgres-backed scrape cache (the `scrape_cache` table), shared by every server instance
+ *
+ * Needs a client that bypasses RLS for writes; users can't write to the table.
+ */
+export class SupabaseScrapeCache implements ScrapeCache {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  async get(url: string): Promise<ScrapeCacheEntry | null> {
+    const { data, error } = await this.supabase
+      .from('scrape_cache')
+      .select('*')
+      .eq('url', getScrapeCacheKey(url))
+      .maybeSingle<ScrapeCacheRow>()
+
+    if (error) {
+      console.warn('[ScrapeCache] Read failed:', error.message)
+      return null
+    }
+    if (!data) {
+      return null
+    }
+
+    return {
+      url: data.url,
+      content: data.content,
+      contentHash: data.content_hash,
+      title: data.title ?? undefined,
+      method: data.method as ScrapeCacheEntry['method'],
+      httpStatus: data.http_status ?? undefined,
+      structuredData: (data.structured_data as unknown as StructuredExtractionResult | null) ?? undefined,
+      fetchedAt: data.fetched_at,
+    }
+  }
+
+  async set(entry: ScrapeCacheEntry): Promise<void> {
+    const { error } = await this.supabase
+      .from('scrape_cache')
+      .upsert({
+        url: getScrapeCacheKey(entry.url),
+        content: entry.content,
+        content_hash: entry.contentHash,
+        title: entry.title ?? null,
+        method: entry.method,
+        http_status: entry.httpStatus ?? null,
+        structured_data: (entry.structuredData as unknown as Json) ?? null,
+        fetched_at: entry.fetchedAt,
+      })
+
+    if (error) {
+      console.warn('[ScrapeCache] Write failed:', error.message)
+    }
+  }
+
+  async delete(url: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('scrape_cache')
+      .delete()
+      .eq('url', getScrapeCacheKey(url))
+
+    if (error) {
+      console.warn('[ScrapeCache] Delete failed:', error.message)
+    }
+  }
+}
+
+let sharedCache: ScrapeCache | null = null
+
+/**
+ * Scrape cache for server-side scraping
+ *
+ * Uses the Postgres table when SUPABASE_SERVICE_ROLE_KEY is set, and the
+ * per-instance in-memory cache otherwise.
+ */
+export function getScrapeCache(): ScrapeCache {
+  if (sharedCache) {
+    return sharedCache
+  }
+
+  const serviceClient = createServiceClient()
+  sharedCache = serviceClient
+    ? new SupabaseScrapeCache(serviceClient)
+    : defaultScrapeCache
+
+  return sharedCache
+}
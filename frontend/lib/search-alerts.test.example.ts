@@ -0,0 +1,149 @@
+/**
+ * Saved-Search Alert Matching - Test Examples
+ *
+ * Checks for the pure matching helpers in search-alerts.ts. They need no
+ * database. Nothing runs them automatically; from frontend/, run:
+ *
+ *   npx tsx -e "require('./lib/search-alerts.test.example').runAllTests()"
+ */
+
+import {
+  parseSearchQuery,
+  matchesSearch,
+  matchesAlert,
+  isAlertDue,
+  type AlertCriteria,
+  type MatchableOpportunity,
+} from './search-alerts'
+import { check } from '@/backend/services/test-examples'
+
+const opportunity: MatchableOpportunity = {
+  company_name: 'Google',
+  job_title: 'Machine Learning Engineering Intern',
+  opportunity_type: 'internship',
+  role_type: 'Data Science',
+  relevant_majors: ['Computer Science', 'Mathematics'],
+  location: 'Mountain View, CA (Hybrid)',
+  description: 'Work on large-scale machine learning systems with the Brain team.',
+  requirements: 'Python, TensorFlow; pursuing a BS/MS in Computer Science',
+}
+
+const anyAlert: AlertCriteria = {
+  search: null,
+  opportunity_types: [],
+  majors: [],
+  roles: [],
+}
+
+/**
+ * Example 1: Parsing web-search syntax
+ */
+export async function testParseSearchQuery() {
+  return [
+    check('empty search has no clauses', parseSearchQuery('  '), []),
+    check('words are AND-ed', parseSearchQuery('machine learning'), [
+      { alternatives: ['machine'], negated: false },
+      { alternatives: ['learning'], negated: false },
+    ]),
+    check('quoted phrase stays together', parseSearchQuery('"machine learning" intern'), [
+      { alternatives: ['machine learning'], negated: false },
+      { alternatives: ['intern'], negated: false },
+    ]),
+    check('OR joins neighbouring terms', parseSearchQuery('research OR fellowship remote'), [
+      { alternatives: ['research', 'fellowship'], negated: false },
+      { alternatives: ['remote'], negated: false },
+    ]),
+    check('leading - excludes', parseSearchQuery('intern -unpaid -"on site"'), [
+      { alternatives: ['intern'], negated: false },
+      { alternatives: ['unpaid'], negated: true },
+      { alternatives: ['on site'], negated: true },
+    ]),
+    check('stop words and punctuation are dropped', parseSearchQuery('the C++ role at Google'), [
+      { alternatives: ['c'], negated: false },
+      { alternatives: ['role'], negated: false },
+      { alternatives: ['google'], negated: false },
+    ]),
+  ].every(Boolean)
+}
+
+/**
+ * Example 2: Matching the search term against the posting text
+ */
+export async function testMatchesSearch() {
+  return [
+    check('no search matches everything', matchesSearch(opportunity, null), true),
+    check('words match case-insensitively across fields', matchesSearch(opportunity, 'google TENSORFLOW'), true),
+    check('word prefixes match ("engineer" → "Engineering")', matchesSearch(opportunity, 'engineer'), true),
+    check('mid-word text does not match', matchesSearch(opportunity, 'earning'), false),
+    check('every AND-ed term is required', matchesSearch(opportunity, 'machine rust'), false),
+    check('any OR alternative is enough', matchesSearch(opportunity, 'rust OR python'), true),
+    check('phrase must appear in order', matchesSearch(opportunity, '"learning machine"'), false),
+    check('phrase in order matches', matchesSearch(opportunity, '"machine learning systems"'), true),
+    check('excluded term rejects the posting', matchesSearch(opportunity, 'intern -hybrid'), false),
+    check('excluded term that is absent is fine', matchesSearch(opportunity, 'intern -unpaid'), true),
+  ].every(Boolean)
+}
+
+/**
+ * Example 3: Matching the dashboard filters
+ */
+export async function testMatchesAlert() {
+  return [
+    check('empty alert matches', matchesAlert(opportunity, anyAlert), true),
+    check('type filter matches', matchesAlert(opportunity, { ...anyAlert, opportunity_types: ['internship', 'research'] }), true),
+    check('type filter rejects', matchesAlert(opportunity, { ...anyAlert, opportunity_types: ['full_time'] }), false),
+    check('any selected major matches', matchesAlert(opportunity, { ...anyAlert, majors: ['Finance', 'Mathematics'] }), true),
+    check('major filter rejects', matchesAlert(opportunity, { ...anyAlert, majors: ['Finance'] }), false),
+    check('major filter rejects postings without majors', matchesAlert({ ...opportunity, relevant_majors: null }, { ...anyAlert, majors: ['Finance'] }), false),
+    check('named role matches', matchesAlert(opportunity, { ...anyAlert, roles: ['Data Science'] }), true),
+    check('named role rejects', matchesAlert(opportunity, { ...anyAlert, roles: ['Finance'] }), false),
+    check('"Other" covers unlisted roles', matchesAlert({ ...opportunity, role_type: 'Hardware' }, { ...anyAlert, roles: ['Other'] }), true),
+    check('"Other" covers missing roles', matchesAlert({ ...opportunity, role_type: null }, { ...anyAlert, roles: ['Other'] }), true),
+    check('"Other" skips named roles', matchesAlert(opportunity, { ...anyAlert, roles: ['Other'] }), false),
+    check('filters and search combine', matchesAlert(opportunity, {
+      search: '"machine learning" -unpaid',
+      opportunity_types: ['internship'],
+      majors: ['Computer Science'],
+      roles: ['Data Science', 'Software Engineering'],
+    }), true),
+    check('search still applies after filters pass', matchesAlert(opportunity, { ...anyAlert, opportunity_types: ['internship'], search: 'finance' }), false),
+  ].every(Boolean)
+}
+
+/**
+ * Example 4: When daily and weekly alerts are due
+ */
+export async function testIsAlertDue() {
+  const now = new Date('2025-06-10T18:00:00Z')
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString()
+
+  return [
+    check('instant is always due', isAlertDue({ frequency: 'instant', last_sent_at: hoursAgo(0) }, now), true),
+    check('never sent is due', isAlertDue({ frequency: 'weekly', last_sent_at: null }, now), true),
+    check('daily sent 12h ago is not due', isAlertDue({ frequency: 'daily', last_sent_at: hoursAgo(12) }, now), false),
+    check('daily sent 23h ago is due (hourly cron slack)', isAlertDue({ frequency: 'daily', last_sent_at: hoursAgo(23) }, now), true),
+    check('weekly sent 3 days ago is not due', isAlertDue({ frequency: 'weekly', last_sent_at: hoursAgo(72) }, now), false),
+    check('weekly sent 7 days ago is due', isAlertDue({ frequency: 'weekly', last_sent_at: hoursAgo(168) }, now), true),
+  ].every(Boolean)
+}
+
+/**
+ * Run all tests
+ */
+export async function runAllTests() {
+  console.log('🧪 Running saved-search alert matching tests...\n')
+
+  const results = [
+    await testParseSearchQuery(),
+    await testMatchesSearch(),
+    await testMatchesAlert(),
+    await testIsAlertDue(),
+  ]
+
+  if (results.every(Boolean)) {
+    console.log('\n✅ All tests passed!')
+  } else {
+    console.error('\n❌ Some tests failed')
+  }
+  return results.every(Boolean)
+}
@@ -0,0 +1,344 @@
+import { createClient } from "@/lib/supabase/server"
+import { createServiceClient } from "@/lib/supabase/service"
+import type { Database } from "@/lib/supabase/types"
+import { ROLE_TYPES, type AlertFrequency } from "@/lib/constants"
+import { queueSearchAlert } from "@/lib/email/queue"
+import type { Opportunity as EmailOpportunity } from "@/lib/email/service"
+
+type SupabaseClient = ReturnType<typeof createClient>
+type OpportunityRow = Database["public"]["Tables"]["opportunities"]["Row"]
+
+export type SavedSearchAlertRow = Database["public"]["Tables"]["saved_search_alerts"]["Row"]
+
+// What an alert filters on (the dashboard filters plus the search box)
+export type AlertCriteria = Pick<SavedSearchAlertRow, 'search' | 'opportunity_types' | 'majors' | 'roles'>
+
+export type MatchableOpportunity = Pick<
+  OpportunityRow,
+  'company_name' | 'job_title' | 'opportunity_type' | 'role_type' | 'relevant_majors' | 'location' | 'description' | 'requirements'
+>
+
+const LOG_PREFIX = '[Search Alerts]'
+
+// Users can keep this many alerts
+export const MAX_ALERTS_PER_USER = 10
+
+// Most opportunities listed in one alert email
+const MAX_ALERT_OPPORTUNITIES = 50
+
+// How often daily and weekly alerts are sent. The cron runs hourly, so an
+// hour of slack keeps a daily alert from slipping an hour later every day.
+const ALERT_PERIOD_MS: Record<Exclude<AlertFrequency, 'instant'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+}
+const ALERT_PERIOD_SLACK_MS = 60 * 60 * 1000
+
+// Roles with their own filter chip; "Other" matches everything outside this list
+const NAMED_ROLE_TYPES: readonly string[] = ROLE_TYPES.filter(role => role !== 'Other')
+
+// Fields the search term is matched against (the ones in the full-text search vector)
+const SEARCH_FIELDS = ['company_name', 'job_title', 'role_type', 'location', 'description', 'requirements'] as const
+
+// Unquoted words the full-text search ignores
+const STOP_WORDS = new Set(['a', 'an', 'and', 'at', 'for', 'in', 'of', 'on', 'the', 'to', 'with'])
+
+const EMAIL_OPPORTUNITY_FIELDS = 'id, company_name, job_title, opportunity_type, deadline, location, description, url, status'
+
+/**
+ * One AND-ed part of a search: any alternative may match (OR), or none may
+ * when negated
+ */
+export interface SearchClause {
+  alternatives: string[]
+  negated: boolean
+}
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Parse a search in the dashboard's web-search syntax
+ *
+ * Words are AND-ed, "quoted phrases" match as a whole, OR joins the terms on
+ * either side, and a leading - excludes a term (e.g. `"data science" intern OR
+ * research -unpaid`).
+ */
+export function parseSearchQuery(query: string | null | undefined): SearchClause[] {
+  const clauses: SearchClause[] = []
+  if (!query) return clauses
+
+  let pendingOr = false
+  for (const match of query.matchAll(/(-?)"([^"]*)"?|(\S+)/g)) {
+    const [, quotedPrefix, quoted, word] = match
+
+    if (word !== undefined && word.toLowerCase() === 'or') {
+      pendingOr = clauses.length > 0
+      continue
+    }
+
+    const negated = word !== undefined ? word.length > 1 && word.startsWith('-') : quotedPrefix === '-'
+    const text = normalizeText(word !== undefined ? (negated ? word.slice(1) : word) : quoted)
+    if (!text || (word !== undefined && STOP_WORDS.has(text))) {
+      pendingOr = false
+      continue
+    }
+
+    const last = clauses[clauses.length - 1]
+    if (pendingOr && last && !last.negated && !negated) {
+      last.alternatives.push(text)
+    } else {
+      clauses.push({ alternatives: [text], negated })
+    }
+    pendingOr = false
+  }
+
+  return clauses
+}
+
+/**
+ * Whether an opportunity's text matches a search
+ *
+ * Terms match at the start of a word, so "engineer" finds "Engineering" the
+ * way the stemmed full-text search does. An empty search matches everything.
+ */
+export function matchesSearch(opportunity: MatchableOpportunity, query: string | null | undefined): boolean {
+  const clauses = parseSearchQuery(query)
+  if (clauses.length === 0) return true
+
+  const haystack = ` ${SEARCH_FIELDS.map(field => normalizeText(opportunity[field] || '')).join(' ')} `
+  const found = (term: string) => haystack.includes(` ${term}`)
+
+  return clauses.every(clause =>
+    clause.negated
+      ? !clause.alternatives.some(found)
+      : clause.alternatives.some(found)
+  )
+}
+
+/**
+ * Whether an opportunity matches an alert's filters and search
+ *
+ * Mirrors GET /api/opportunities: any selected type, any selected major in
+ * relevant_majors, and any selected role ("Other" covers unlisted or missing
+ * roles). An empty filter matches everything.
+ */
+export function matchesAlert(opportunity: MatchableOpportunity, alert: AlertCriteria): boolean {
+  if (alert.opportunity_types.length > 0 && !alert.opportunity_types.includes(opportunity.opportunity_type)) {
+    return false
+  }
+
+  if (alert.majors.length > 0) {
+    const majors = Array.isArray(opportunity.relevant_majors) ? opportunity.relevant_majors : []
+    if (!alert.majors.some(major => majors.includes(major))) {
+      return false
+    }
+  }
+
+  if (alert.roles.length > 0) {
+    const role = opportunity.role_type
+    const isOther = !role || !NAMED_ROLE_TYPES.includes(role)
+    const roleMatches = isOther ? alert.roles.includes('Other') : alert.roles.includes(role)
+    if (!roleMatches) {
+      return false
+    }
+  }
+
+  return matchesSearch(opportunity, alert.search)
+}
+
+/**
+ * Whether a batched alert is due to be sent (instant alerts always are)
+ */
+export function isAlertDue(
+  alert: Pick<SavedSearchAlertRow, 'frequency' | 'last_sent_at'>,
+  now: Date = new Date()
+): boolean {
+  const frequency = alert.frequency as AlertFrequency
+  if (frequency === 'instant' || !alert.last_sent_at) return true
+
+  const elapsed = now.getTime() - new Date(alert.last_sent_at).getTime()
+  return elapsed >= ALERT_PERIOD_MS[frequency] - ALERT_PERIOD_SLACK_MS
+}
+
+/**
+ * Match a newly active opportunity against every user's alerts
+ *
+ * Matches are recorded once per alert, so approving or importing the same
+ * opportunity again doesn't notify twice. Instant alerts are queued right
+ * away; daily and weekly ones wait for sendSearchAlertDigests. Never throws:
+ * a failed match shouldn't fail the submission that triggered it.
+ *
+ * @param supabase - Server Supabase client (the service role client is used when configured,
+ *   since alerts are private to their owners under RLS)
+ * @param opportunity - The opportunity that just went live
+ */
+export async function matchOpportunityToAlerts(
+  supabase: SupabaseClient,
+  opportunity: OpportunityRow
+): Promise<{ matched: number; queued: number }> {
+  if (opportunity.status !== 'active') {
+    return { matched: 0, queued: 0 }
+  }
+
+  try {
+    const client = createServiceClient() ?? supabase
+
+    const { data: alerts, error: alertsError } = await client
+      .from('saved_search_alerts')
+      .select('id, user_id, name, search, opportunity_types, majors, roles, frequency')
+      .eq('enabled', true)
+      .or(`opportunity_types.eq.{},opportunity_types.cs.{${opportunity.opportunity_type}}`)
+
+    if (alertsError) {
+      console.error(`${LOG_PREFIX} Failed to load alerts:`, alertsError)
+      return { matched: 0, queued: 0 }
+    }
+
+    // Submitters aren't alerted about their own postings
+    const matching = (alerts || []).filter(alert =>
+      alert.user_id !== opportunity.submitted_by && matchesAlert(opportunity, alert)
+    )
+    if (matching.length === 0) {
+      return { matched: 0, queued: 0 }
+    }
+
+    // Only rows that weren't already there come back
+    const { data: inserted, error: insertError } = await client
+      .from('saved_search_alert_matches')
+      .upsert(
+        matching.map(alert => ({ alert_id: alert.id, opportunity_id: opportunity.id })),
+        { onConflict: 'alert_id,opportunity_id', ignoreDuplicates: true }
+      )
+      .select('id, alert_id')
+
+    if (insertError) {
+      console.error(`${LOG_PREFIX} Failed to record matches for ${opportunity.id}:`, insertError)
+      return { matched: 0, queued: 0 }
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+    const alertsById = new Map(matching.map(alert => [alert.id, alert]))
+    let queued = 0
+
+    for (const match of inserted || []) {
+      const alert = alertsById.get(match.alert_id)
+      if (!alert || alert.frequency !== 'instant') continue
+
+      // Left unnotified on failure; the cron retries it
+      const result = await queueSearchAlert(alert.user_id, alert.name, [opportunity as EmailOpportunity], appUrl)
+      if (!result.success) {
+        console.error(`${LOG_PREFIX} Failed to queue alert ${alert.id}:`, result.error)
+        continue
+      }
+
+      const sentAt = new Date().toISOString()
+      await client.from('saved_search_alert_matches').update({ notified_at: sentAt }).eq('id', match.id)
+      await client.from('saved_search_alerts').update({ last_sent_at: sentAt }).eq('id', alert.id)
+      queued++
+    }
+
+    console.log(`${LOG_PREFIX} ${opportunity.id} matched ${inserted?.length ?? 0} alert(s), queued ${queued} instant email(s)`)
+    return { matched: inserted?.length ?? 0, queued }
+  } catch (error) {
+    console.error(`${LOG_PREFIX} Error matching ${opportunity.id}:`, error)
+    return { matched: 0, queued: 0 }
+  }
+}
+
+/**
+ * Email the unsent matches of every alert that is due
+ *
+ * Daily and weekly alerts go out once per period with everything matched
+ * since; instant alerts whose email couldn't be queued at match time are
+ * retried. Matches for opportunities that have since closed are dropped.
+ */
+export async function sendSearchAlertDigests(
+  supabase: SupabaseClient,
+  options: { appUrl: string; now?: Date; batchSize?: number }
+): Promise<{ alertsDue: number; queued: number; skipped: number }> {
+  const { appUrl, now = new Date(), batchSize = 100 } = options
+  const client = createServiceClient() ?? supabase
+  let queued = 0
+  let skipped = 0
+
+  // Alerts with something waiting to be sent
+  const { data: pending, error: pendingError } = await client
+    .from('saved_search_alert_matches')
+    .select('alert_id')
+    .is('notified_at', null)
+    .limit(batchSize * MAX_ALERT_OPPORTUNITIES)
+
+  if (pendingError) {
+    throw new Error(`Failed to fetch pending matches: ${pendingError.message}`)
+  }
+
+  const pendingAlertIds = Array.from(new Set((pending || []).map(row => row.alert_id)))
+  if (pendingAlertIds.length === 0) {
+    return { alertsDue: 0, queued, skipped }
+  }
+
+  const { data: alerts, error: alertsError } = await client
+    .from('saved_search_alerts')
+    .select('id, user_id, name, frequency, last_sent_at')
+    .in('id', pendingAlertIds.slice(0, batchSize))
+    .eq('enabled', true)
+
+  if (alertsError) {
+    throw new Error(`Failed to fetch alerts: ${alertsError.message}`)
+  }
+
+  const dueAlerts = (alerts || []).filter(alert => isAlertDue(alert, now))
+
+  for (const alert of dueAlerts) {
+    try {
+      const { data: matches, error: matchesError } = await client
+        .from('saved_search_alert_matches')
+        .select(`id, opportunities (${EMAIL_OPPORTUNITY_FIELDS})`)
+        .eq('alert_id', alert.id)
+        .is('notified_at', null)
+        .order('matched_at', { ascending: false })
+
+      if (matchesError) {
+        console.error(`${LOG_PREFIX} Failed to fetch matches for alert ${alert.id}:`, matchesError)
+        continue
+      }
+
+      const matchIds = (matches || []).map(match => match.id)
+      const opportunities = (matches || [])
+        .map(match => match.opportunities)
+        .filter((opportunity): opportunity is NonNullable<typeof opportunity> =>
+          !!opportunity && opportunity.status === 'active'
+        )
+        .slice(0, MAX_ALERT_OPPORTUNITIES)
+
+      const sentAt = now.toISOString()
+      if (opportunities.length > 0) {
+        const result = await queueSearchAlert(alert.user_id, alert.name, opportunities as EmailOpportunity[], appUrl)
+        if (!result.success) {
+          console.error(`${LOG_PREFIX} Failed to queue alert ${alert.id}:`, result.error)
+          continue
+        }
+        await client.from('saved_search_alerts').update({ last_sent_at: sentAt }).eq('id', alert.id)
+        queued++
+      } else {
+        skipped++
+      }
+
+      await client.from('saved_search_alert_matches').update({ notified_at: sentAt }).in('id', matchIds)
+    } catch (error) {
+      console.error(`${LOG_PREFIX} Error sending alert ${alert.id}:`, error)
+    }
+  }
+
+  return { alertsDue: dueAlerts.length, queued, skipped }
+}
@@ -0,0 +1,427 @@
+import { createClient } from "@/lib/supabase/server"
+import type { Database, Json } from "@/lib/supabase/types"
+import type { UserRole } from "@/lib/constants"
+import {
+  getLowConfidenceFields,
+  PARSED_JOB_FIELDS,
+  type ParsedJobData,
+  type ParserProviderName,
+} from "@/lib/ai/parser"
+import type { StructuredMergeResult } from "@/lib/ai/structured"
+import { canonicalizeUrl } from "@/backend/services/url-canonicalizer"
+import { scrapePosting, parsePosting, IngestError, type ScrapedPosting } from "@/lib/ingest"
+import { findDuplicateCandidates } from "@/lib/duplicates"
+import { matchOpportunityToAlerts } from "@/lib/search-alerts"
+
+type SupabaseClient = ReturnType<typeof createClient>
+type SubmissionJobRow = Database["public"]["Tables"]["submission_jobs"]["Row"]
+type SubmissionJobUpdate = Database["public"]["Tables"]["submission_jobs"]["Update"]
+
+export const SUBMISSION_STEPS = ["scraping", "parsing", "saving"] as const
+
+export type SubmissionStep = typeof SUBMISSION_STEPS[number]
+export type SubmissionJobStatus = 'pending' | 'running' | 'needs_confirmation' | 'completed' | 'failed'
+
+// Short fields a submitter can check at a glance when the parser wasn't sure;
+// long text (description, requirements) is left to admin review
+export const CONFIRMABLE_FIELDS = ['job_title', 'company_name', 'deadline', 'location'] as const
+
+export type ConfirmableField = typeof CONFIRMABLE_FIELDS[number]
+
+// Submitter's confirmed or corrected values (null clears the field)
+export type ConfirmedFields = Partial<Record<ConfirmableField, string | null>>
+
+// Columns the submitter can see (scraped page content stays server-side)
+export const SUBMISSION_JOB_FIELDS =
+  'id, url, status, step, attempts, max_attempts, next_attempt_at, last_error, result, error, opportunity_id, created_at, updated_at, completed_at'
+
+/**
+ * Output of the parsing step, stored on the job for the saving step
+ */
+interface StoredParseResult {
+  parsedData: ParsedJobData
+  parser: { provider: ParserProviderName | 'structured-data'; model: string | null }
+  aiParsed: boolean
+  useStructuredOnly: boolean
+  structuredMerge: StructuredMergeResult | null
+}
+
+// First retry after 30s, then 60s, 120s, ...
+const RETRY_BASE_DELAY_MS = 30 * 1000
+
+// Jobs claimed longer ago than this are assumed to have died with their worker
+const STALE_JOB_MINUTES = 10
+
+const LOG_PREFIX = '[Submission]'
+
+/**
+ * Persist progress on a job
+ */
+async function updateJob(supabase: SupabaseClient, jobId: string, update: SubmissionJobUpdate) {
+  const { error } = await supabase
+    .from('submission_jobs')
+    .update(update)
+    .eq('id', jobId)
+
+  if (error) {
+    console.error(`${LOG_PREFIX} Failed to update job ${jobId}:`, error)
+  }
+}
+
+/**
+ * Confirmable fields the parser returned with low confidence, with what it was based on
+ *
+ * A company name the submitter typed in is never asked about.
+ */
+function getUncertainFields(job: SubmissionJobRow, parsedData: ParsedJobData) {
+  return getLowConfidenceFields(parsedData)
+    .filter((field): field is ConfirmableField =>
+      (CONFIRMABLE_FIELDS as readonly string[]).includes(field) &&
+      !(field === 'company_name' && job.company_name)
+    )
+    .map(field => ({
+      field,
+      value: parsedData[field],
+      confidence: parsedData.evidence?.[field]?.confidence ?? null,
+      snippet: parsedData.evidence?.[field]?.snippet ?? null,
+    }))
+}
+
+/**
+ * Per-field summary for the submit response: whether each field was found,
+ * how confident the parser was and the text it was read from
+ */
+function describeParsedFields(parsedData: ParsedJobData) {
+  const lowConfidence = getLowConfidenceFields(parsedData)
+  return Object.fromEntries(PARSED_JOB_FIELDS.map(field => [field, {
+    found: parsedData[field] !== null,
+    confidence: parsedData.evidence?.[field]?.confidence ?? null,
+    snippet: parsedData.evidence?.[field]?.snippet ?? null,
+    low_confidence: lowConfidence.includes(field),
+  }]))
+}
+
+/**
+ * Insert the opportunity, or stop for confirmation when it looks like a
+ * duplicate or a short field (e.g. the deadline) was parsed with low confidence
+ *
+ * @returns The job update that finishes this job
+ */
+async function saveSubmission(
+  supabase: SupabaseClient,
+  job: SubmissionJobRow,
+  scraped: ScrapedPosting,
+  parse: StoredParseResult
+): Promise<SubmissionJobUpdate> {
+  const { parsedData } = parse
+
+  // Trusted submitters and admins skip the moderation queue (checked now, not when queued)
+  const { data: submitter } = await supabase
+    .from('users')
+    .select('role, is_trusted_submitter')
+    .eq('id', job.user_id)
+    .single<{ role: UserRole; is_trusted_submitter: boolean | null }>()
+
+  const skipReview = submitter?.role === 'admin' || submitter?.is_trusted_submitter === true
+
+  // Values the submitter confirmed or corrected win over the parse
+  const confirmed = job.confirmed_fields as ConfirmedFields | null
+  const fieldValue = (field: ConfirmableField) =>
+    confirmed && field in confirmed ? confirmed[field] ?? null : parsedData[field]
+
+  // Look for the same posting under a different URL
+  const postingFields = {
+    company_name: job.company_name || fieldValue('company_name') || 'Unknown Company',
+    job_title: fieldValue('job_title') || 'Position Not Specified',
+    location: fieldValue('location'),
+  }
+  // The submitter sees these matches, so other people's pending submissions stay out
+  const duplicates = await findDuplicateCandidates(supabase, postingFields, {
+    pending: { submittedBy: job.user_id },
+  })
+
+  const askAboutDuplicates = duplicates.length > 0 && !job.confirm_duplicate
+  const uncertainFields = confirmed ? [] : getUncertainFields(job, parsedData)
+
+  if (askAboutDuplicates || uncertainFields.length > 0) {
+    if (askAboutDuplicates) {
+      console.log(`${LOG_PREFIX} ${duplicates.length} likely duplicate(s) found, asking submitter to confirm`)
+    }
+    if (uncertainFields.length > 0) {
+      console.log(`${LOG_PREFIX} Low-confidence fields (${uncertainFields.map(item => item.field).join(', ')}), asking submitter to confirm`)
+    }
+    return {
+      status: 'needs_confirmation',
+      result: {
+        message: askAboutDuplicates
+          ? "This looks like an opportunity that's already listed. Submit anyway if it's a different role."
+          : "We weren't sure about some details. Please check them before submitting.",
+        duplicates: askAboutDuplicates
+          ? duplicates.map(({ id, company_name, job_title, location, url, deadline, score, reasons }) => ({
+              id, company_name, job_title, location, url, deadline, score, reasons
+            }))
+          : [],
+        low_confidence_fields: uncertainFields,
+      },
+    }
+  }
+
+  // Merge user-provided data with AI-parsed data (user data takes priority)
+  const finalData = {
+    url: job.url,
+    canonical_url: canonicalizeUrl(job.url),
+    company_name: postingFields.company_name,
+    job_title: postingFields.job_title,
+    opportunity_type: job.opportunity_type || parsedData.opportunity_type || 'internship',
+    role_type: parsedData.role_type,
+    relevant_majors: parsedData.relevant_majors || [],
+    deadline: fieldValue('deadline'),
+    requirements: parsedData.requirements,
+    location: postingFields.location,
+    description: parsedData.description,
+    submitted_by: job.user_id,
+    status: skipReview ? 'active' as const : 'pending_review' as const,
+    ai_parsed_data: parsedData as unknown as Json, // Store original AI response (with per-field evidence)
+  }
+
+  console.log(`${LOG_PREFIX} Saving to database...`)
+  const { data: opportunity, error: insertError } = await supabase
+    .from('opportunities')
+    .insert([finalData])
+    .select(`
+      *,
+      users!submitted_by (
+        name
+      )
+    `)
+    .single()
+
+  if (insertError) {
+    console.error(`${LOG_PREFIX} Database insert failed:`, insertError)
+
+    // Duplicate URL (submitted by someone else while this job was queued)
+    if (insertError.code === '23505') {
+      return {
+        status: 'failed',
+        last_error: insertError.message,
+        error: { error: "Duplicate opportunity", message: "This opportunity already exists" },
+      }
+    }
+
+    throw new Error(`Failed to save opportunity to database: ${insertError.message}`)
+  }
+
+  // Submitted anyway: queue the likely duplicates for admins to merge or dismiss
+  if (duplicates.length > 0) {
+    const { error: flagError } = await supabase
+      .from('duplicate_candidates')
+      .insert(duplicates.map(duplicate => ({
+        opportunity_id: opportunity.id,
+        duplicate_of: duplicate.id,
+        score: Number(duplicate.score.toFixed(3)),
+        reasons: duplicate.reasons,
+        flagged_by: job.user_id,
+      })))
+
+    if (flagError) {
+      console.error(`${LOG_PREFIX} Failed to record duplicate candidates:`, flagError)
+    }
+  }
+
+  // Published straight away: let saved-search alerts know (reviewed ones are matched on approval)
+  if (skipReview) {
+    await matchOpportunityToAlerts(supabase, opportunity)
+  }
+
+  console.log(`${LOG_PREFIX} Success! Opportunity ID: ${opportunity.id}`)
+
+  return {
+    status: 'completed',
+    opportunity_id: opportunity.id,
+    completed_at: new Date().toISOString(),
+    result: {
+      success: true,
+      message: skipReview
+        ? "Opportunity submitted successfully!"
+        : "Opportunity submitted! It will be visible once an admin reviews it.",
+      data: opportunity,
+      metadata: {
+        requiresReview: !skipReview,
+        possibleDuplicates: duplicates.length,
+        scrapeMethod: scraped.method,
+        aiParsed: parse.aiParsed,
+        parser: parse.parser,
+        structuredData: {
+          used: !!parse.structuredMerge && parse.structuredMerge.structuredFields.length > 0,
+          complete: parse.useStructuredOnly,
+          hasJobPosting: scraped.structuredData?.hasJobPosting ?? false,
+          fields: parse.structuredMerge?.structuredFields ?? [],
+          sources: scraped.structuredData?.sources ?? {},
+          confidence: scraped.structuredData?.confidence ?? {},
+        },
+        scrapedContentLength: scraped.content.length,
+        parsedFields: describeParsedFields(parsedData),
+        confirmedFields: confirmed ? Object.keys(confirmed) : [],
+      }
+    } as unknown as Json,
+  }
+}
+
+/**
+ * Run a claimed job from its current step to the end
+ *
+ * Each finished step is saved before the next starts, so a retry resumes
+ * where the last attempt failed instead of scraping again.
+ */
+async function runSubmissionJob(supabase: SupabaseClient, job: SubmissionJobRow): Promise<SubmissionJobStatus> {
+  let step = job.step as SubmissionStep
+  let scraped = job.scrape_result as unknown as ScrapedPosting | null
+  let parse = job.parse_result as unknown as StoredParseResult | null
+
+  try {
+    if (step === 'scraping' || !scraped) {
+      step = 'scraping'
+      scraped = await scrapePosting(job.url, {
+        manualContent: job.manual_content ?? undefined,
+        logPrefix: LOG_PREFIX,
+      })
+      step = 'parsing'
+      await updateJob(supabase, job.id, {
+        step,
+        attempts: 1,
+        last_error: null,
+        scrape_result: scraped as unknown as Json,
+      })
+    }
+
+    if (step === 'parsing' || !parse) {
+      step = 'parsing'
+      const parsed = await parsePosting(scraped, { logPrefix: LOG_PREFIX })
+      parse = {
+        parsedData: parsed.parsedData,
+        parser: parsed.useStructuredOnly
+          ? { provider: 'structured-data', model: null }
+          : { provider: parsed.parser.name, model: parsed.parser.model },
+        aiParsed: !parsed.useStructuredOnly && parsed.parser.name !== 'heuristic',
+        useStructuredOnly: parsed.useStructuredOnly,
+        structuredMerge: parsed.structuredMerge,
+      }
+      step = 'saving'
+      await updateJob(supabase, job.id, {
+        step,
+        attempts: 1,
+        last_error: null,
+        parse_result: parse as unknown as Json,
+      })
+    }
+
+    const outcome = await saveSubmission(supabase, job, scraped, parse)
+    await updateJob(supabase, job.id, { ...outcome, step: 'saving' })
+    return outcome.status as SubmissionJobStatus
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    const retryable = error instanceof IngestError ? error.retryable : true
+    const attempts = step === job.step ? job.attempts : 1
+
+    if (retryable && attempts < job.max_attempts) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)
+      console.log(`${LOG_PREFIX} Job ${job.id} failed at ${step} (attempt ${attempts}), retrying in ${delay / 1000}s`)
+      await updateJob(supabase, job.id, {
+        status: 'pending',
+        step,
+        attempts,
+        last_error: message,
+        next_attempt_at: new Date(Date.now() + delay).toISOString(),
+      })
+      return 'pending'
+    }
+
+    console.error(`${LOG_PREFIX} Job ${job.id} failed at ${step}:`, error)
+    await updateJob(supabase, job.id, {
+      status: 'failed',
+      step,
+      attempts,
+      last_error: message,
+      completed_at: new Date().toISOString(),
+      error: (error instanceof IngestError
+        ? error.body
+        : { error: "Submission failed", message }) as Json,
+    })
+    return 'failed'
+  }
+}
+
+/**
+ * Work through queued submission jobs that are due, oldest first
+ *
+ * Jobs are claimed (pending → running) before they run so overlapping
+ * runs don't process the same job twice.
+ *
+ * @param supabase - Server Supabase client
+ * @param options.maxJobs - Jobs to run in this batch
+ * @param options.timeBudgetMs - Stop claiming new jobs after this long
+ */
+export async function processSubmissionJobs(
+  supabase: SupabaseClient,
+  options: { maxJobs?: number; timeBudgetMs?: number } = {}
+): Promise<{ processed: number; completed: number; retrying: number; failed: number; needsConfirmation: number }> {
+  const { maxJobs = 5, timeBudgetMs = 45000 } = options
+  const result = { processed: 0, completed: 0, retrying: 0, failed: 0, needsConfirmation: 0 }
+  const startedAt = Date.now()
+
+  // Requeue jobs whose worker died mid-step (the claim already used up an attempt)
+  const staleBefore = new Date(Date.now() - STALE_JOB_MINUTES * 60 * 1000).toISOString()
+  await supabase
+    .from('submission_jobs')
+    .update({ status: 'pending', last_error: 'Worker timed out' })
+    .eq('status', 'running')
+    .lt('started_at', staleBefore)
+
+  while (result.processed < maxJobs && Date.now() - startedAt < timeBudgetMs) {
+    const { data: next, error: fetchError } = await supabase
+      .from('submission_jobs')
+      .select('id, attempts')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (fetchError) {
+      console.error(`${LOG_PREFIX} Error fetching submission jobs:`, fetchError)
+      break
+    }
+    if (!next) break
+
+    const { data: job } = await supabase
+      .from('submission_jobs')
+      .update({ status: 'running', started_at: new Date().toISOString(), attempts: next.attempts + 1 })
+      .eq('id', next.id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle()
+
+    // Another run claimed it first
+    if (!job) continue
+
+    result.processed++
+
+    if (job.attempts > job.max_attempts) {
+      await updateJob(supabase, job.id, {
+        status: 'failed',
+        completed_at: new Date().toISOString(),
+        error: { error: "Submission failed", message: job.last_error || "Too many attempts" },
+      })
+      result.failed++
+      continue
+    }
+
+    const status = await runSubmissionJob(supabase, job)
+    if (status === 'completed') result.completed++
+    else if (status === 'pending') result.retrying++
+    else if (status === 'failed') result.failed++
+    else if (status === 'needs_confirmation') result.needsConfirmation++
+  }
+
+  return result
+}
@@ -0,0 +1,16 @@
+import { createClient } from "@supabase/supabase-js"
+import { Database } from "./types"
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ""
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || ""
+
+// Service role client (bypasses RLS) for server-side bookkeeping; null when the key isn't configured
+export const createServiceClient = () => {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null
+  }
+
+  return createClient<Database>(supabaseUrl, supabaseServiceKey, {
+    auth: { persistSession: false },
+  })
+}
@@ -14,57 +14,546 @@ export type Database = {
   }
   public: {
     Tables: {
+      applications: {
+        Row: {
+          applied_at: string | null
+          created_at: string | null
+          id: string
+          next_step_at: string | null
+          notes: string | null
+          opportunity_id: string
+          status: Database["public"]["Enums"]["application_status"]
+          status_changed_at: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          applied_at?: string | null
+          created_at?: string | null
+          id?: string
+          next_step_at?: string | null
+          notes?: string | null
+          opportunity_id: string
+          status?: Database["public"]["Enums"]["application_status"]
+          status_changed_at?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          applied_at?: string | null
+          created_at?: string | null
+          id?: string
+          next_step_at?: string | null
+          notes?: string | null
+          opportunity_id?: string
+          status?: Database["public"]["Enums"]["application_status"]
+          status_changed_at?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "applications_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "applications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      domain_strategies: {
+        Row: {
+          avg_content_length: number | null
+          avg_duration_ms: number | null
+          created_at: string | null
+          domain: string
+          failure_count: number
+          last_error: string | null
+          last_failure_at: string | null
+          last_method: string | null
+          last_success_at: string | null
+          notes: string | null
+          pinned: boolean
+          preferred_method: string | null
+          requires_manual: boolean
+          success_count: number
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          avg_content_length?: number | null
+          avg_duration_ms?: number | null
+          created_at?: string | null
+          domain: string
+          failure_count?: number
+          last_error?: string | null
+          last_failure_at?: string | null
+          last_method?: string | null
+          last_success_at?: string | null
+          notes?: string | null
+          pinned?: boolean
+          preferred_method?: string | null
+          requires_manual?: boolean
+          success_count?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          avg_content_length?: number | null
+          avg_duration_ms?: number | null
+          created_at?: string | null
+          domain?: string
+          failure_count?: number
+          last_error?: string | null
+          last_failure_at?: string | null
+          last_method?: string | null
+          last_success_at?: string | null
+          notes?: string | null
+          pinned?: boolean
+          preferred_method?: string | null
+          requires_manual?: boolean
+          success_count?: number
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "domain_strategies_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      duplicate_candidates: {
+        Row: {
+          created_at: string | null
+          duplicate_of: string
+          flagged_by: string | null
+          id: string
+          opportunity_id: string
+          reasons: string[]
+          resolved_at: string | null
+          resolved_by: string | null
+          score: number
+          status: string
+        }
+        Insert: {
+          created_at?: string | null
+          duplicate_of: string
+          flagged_by?: string | null
+          id?: string
+          opportunity_id: string
+          reasons?: string[]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          score: number
+          status?: string
+        }
+        Update: {
+          created_at?: string | null
+          duplicate_of?: string
+          flagged_by?: string | null
+          id?: string
+          opportunity_id?: string
+          reasons?: string[]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          score?: number
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duplicate_candidates_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_candidates_flagged_by_fkey"
+            columns: ["flagged_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_candidates_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_candidates_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_logs: {
+        Row: {
+          email_type: string
+          id: string
+          opportunity_ids: Json | null
+          resend_message_id: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          user_id: string
+        }
+        Insert: {
+          email_type: string
+          id?: string
+          opportunity_ids?: Json | null
+          resend_message_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject: string
+          user_id: string
+        }
+        Update: {
+          email_type?: string
+          id?: string
+          opportunity_ids?: Json | null
+          resend_message_id?: string | null
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_logs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_queue: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          email_type: string
+          error_message: string | null
+          html_content: string
+          id: string
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          next_attempt_at: string
+          processed_at: string | null
+          scheduled_for: string
+          status: string
+          subject: string
+          text_content: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string | null
+          email_type: string
+          error_message?: string | null
+          html_content: string
+          id?: string
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          processed_at?: string | null
+          scheduled_for: string
+          status?: string
+          subject: string
+          text_content?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string | null
+          email_type?: string
+          error_message?: string | null
+          html_content?: string
+          id?: string
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          processed_at?: string | null
+          scheduled_for?: string
+          status?: string
+          subject?: string
+          text_content?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_queue_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_suppressions: {
+        Row: {
+          created_at: string | null
+          details: string | null
+          email: string
+          event_id: string | null
+          event_type: string
+          id: string
+          message_id: string | null
+          payload: Json
+          provider: string
+          reason: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          details?: string | null
+          email: string
+          event_id?: string | null
+          event_type: string
+          id?: string
+          message_id?: string | null
+          payload?: Json
+          provider: string
+          reason: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          details?: string | null
+          email?: string
+          event_id?: string | null
+          event_type?: string
+          id?: string
+          message_id?: string | null
+          payload?: Json
+          provider?: string
+          reason?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_suppressions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_job_rows: {
+        Row: {
+          attempts: number
+          id: string
+          input: Json
+          job_id: string
+          opportunity_id: string | null
+          processed_at: string | null
+          reason: string | null
+          row_number: number
+          started_at: string | null
+          status: string
+        }
+        Insert: {
+          attempts?: number
+          id?: string
+          input: Json
+          job_id: string
+          opportunity_id?: string | null
+          processed_at?: string | null
+          reason?: string | null
+          row_number: number
+          started_at?: string | null
+          status?: string
+        }
+        Update: {
+          attempts?: number
+          id?: string
+          input?: Json
+          job_id?: string
+          opportunity_id?: string | null
+          processed_at?: string | null
+          reason?: string | null
+          row_number?: number
+          started_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_job_rows_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_job_rows_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          created_by: string | null
+          file_name: string | null
+          id: string
+          opportunity_type: Database["public"]["Enums"]["opportunity_type"] | null
+          source: string
+          started_at: string | null
+          status: string
+          total_rows: number
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          file_name?: string | null
+          id?: string
+          opportunity_type?: Database["public"]["Enums"]["opportunity_type"] | null
+          source: string
+          started_at?: string | null
+          status?: string
+          total_rows?: number
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          file_name?: string | null
+          id?: string
+          opportunity_type?: Database["public"]["Enums"]["opportunity_type"] | null
+          source?: string
+          started_at?: string | null
+          status?: string
+          total_rows?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_jobs_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       opportunities: {
         Row: {
           ai_parsed_data: Json | null
+          alias_urls: string[]
+          canonical_url: string | null
+          check_failures: number
           company_name: string
           created_at: string | null
           deadline: string | null
           description: string | null
+          dismissed_closed_reason: string | null
           expired_at: string | null
+          expired_reason: string | null
           id: string
           job_title: string
+          last_checked_at: string | null
           location: string | null
           opportunity_type: Database["public"]["Enums"]["opportunity_type"]
+          possibly_closed: boolean
+          possibly_closed_reason: string | null
+          rejection_reason: string | null
           relevant_majors: Json | null
           requirements: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           role_type: string | null
+          search_vector: unknown
+          source_snapshot: Json | null
           status: Database["public"]["Enums"]["opportunity_status"]
           submitted_by: string
           url: string
         }
         Insert: {
           ai_parsed_data?: Json | null
+          alias_urls?: string[]
+          canonical_url?: string | null
+          check_failures?: number
           company_name: string
           created_at?: string | null
           deadline?: string | null
           description?: string | null
+          dismissed_closed_reason?: string | null
           expired_at?: string | null
+          expired_reason?: string | null
           id?: string
           job_title: string
+          last_checked_at?: string | null
           location?: string | null
           opportunity_type: Database["public"]["Enums"]["opportunity_type"]
+          possibly_closed?: boolean
+          possibly_closed_reason?: string | null
+          rejection_reason?: string | null
           relevant_majors?: Json | null
           requirements?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           role_type?: string | null
+          search_vector?: never
+          source_snapshot?: Json | null
           status?: Database["public"]["Enums"]["opportunity_status"]
           submitted_by: string
           url: string
         }
         Update: {
           ai_parsed_data?: Json | null
+          alias_urls?: string[]
+          canonical_url?: string | null
+          check_failures?: number
           company_name?: string
           created_at?: string | null
           deadline?: string | null
           description?: string | null
+          dismissed_closed_reason?: string | null
           expired_at?: string | null
+          expired_reason?: string | null
           id?: string
           job_title?: string
+          last_checked_at?: string | null
           location?: string | null
           opportunity_type?: Database["public"]["Enums"]["opportunity_type"]
+          possibly_closed?: boolean
+          possibly_closed_reason?: string | null
+          rejection_reason?: string | null
           relevant_majors?: Json | null
           requirements?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           role_type?: string | null
+          search_vector?: never
+          source_snapshot?: Json | null
           status?: Database["public"]["Enums"]["opportunity_status"]
           submitted_by?: string
           url?: string
@@ -77,6 +566,416 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "opportunities_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      opportunity_reparses: {
+        Row: {
+          applied_fields: string[]
+          attempts: number
+          batch_id: string | null
+          changed_fields: string[]
+          completed_at: string | null
+          created_at: string | null
+          error: string | null
+          id: string
+          opportunity_id: string
+          parsed_data: Json | null
+          parser: string | null
+          refresh: boolean
+          requested_by: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          started_at: string | null
+          status: string
+        }
+        Insert: {
+          applied_fields?: string[]
+          attempts?: number
+          batch_id?: string | null
+          changed_fields?: string[]
+          completed_at?: string | null
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          opportunity_id: string
+          parsed_data?: Json | null
+          parser?: string | null
+          refresh?: boolean
+          requested_by?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          started_at?: string | null
+          status?: string
+        }
+        Update: {
+          applied_fields?: string[]
+          attempts?: number
+          batch_id?: string | null
+          changed_fields?: string[]
+          completed_at?: string | null
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          opportunity_id?: string
+          parsed_data?: Json | null
+          parser?: string | null
+          refresh?: boolean
+          requested_by?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          started_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "opportunity_reparses_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "opportunity_reparses_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "opportunity_reparses_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      opportunity_revisions: {
+        Row: {
+          after: Json
+          ai_parsed_data: Json | null
+          before: Json
+          changed_by: string | null
+          changed_fields: string[]
+          created_at: string | null
+          id: string
+          opportunity_id: string
+          reverted_revision_id: string | null
+          source: string
+        }
+        Insert: {
+          after?: Json
+          ai_parsed_data?: Json | null
+          before?: Json
+          changed_by?: string | null
+          changed_fields: string[]
+          created_at?: string | null
+          id?: string
+          opportunity_id: string
+          reverted_revision_id?: string | null
+          source: string
+        }
+        Update: {
+          after?: Json
+          ai_parsed_data?: Json | null
+          before?: Json
+          changed_by?: string | null
+          changed_fields?: string[]
+          created_at?: string | null
+          id?: string
+          opportunity_id?: string
+          reverted_revision_id?: string | null
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "opportunity_revisions_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "opportunity_revisions_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "opportunity_revisions_reverted_revision_id_fkey"
+            columns: ["reverted_revision_id"]
+            isOneToOne: false
+            referencedRelation: "opportunity_revisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_opportunities: {
+        Row: {
+          created_at: string | null
+          id: string
+          opportunity_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          opportunity_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          opportunity_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_opportunities_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_opportunities_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_search_alert_matches: {
+        Row: {
+          alert_id: string
+          id: string
+          matched_at: string | null
+          notified_at: string | null
+          opportunity_id: string
+        }
+        Insert: {
+          alert_id: string
+          id?: string
+          matched_at?: string | null
+          notified_at?: string | null
+          opportunity_id: string
+        }
+        Update: {
+          alert_id?: string
+          id?: string
+          matched_at?: string | null
+          notified_at?: string | null
+          opportunity_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_search_alert_matches_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "saved_search_alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_search_alert_matches_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_search_alerts: {
+        Row: {
+          created_at: string | null
+          enabled: boolean
+          frequency: string
+          id: string
+          last_sent_at: string | null
+          majors: string[]
+          name: string
+          opportunity_types: string[]
+          roles: string[]
+          search: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          enabled?: boolean
+          frequency?: string
+          id?: string
+          last_sent_at?: string | null
+          majors?: string[]
+          name: string
+          opportunity_types?: string[]
+          roles?: string[]
+          search?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          enabled?: boolean
+          frequency?: string
+          id?: string
+          last_sent_at?: string | null
+          majors?: string[]
+          name?: string
+          opportunity_types?: string[]
+          roles?: string[]
+          search?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_search_alerts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scrape_cache: {
+        Row: {
+          content: string
+          content_hash: string
+          created_at: string | null
+          fetched_at: string
+          http_status: number | null
+          method: string
+          structured_data: Json | null
+          title: string | null
+          updated_at: string | null
+          url: string
+        }
+        Insert: {
+          content: string
+          content_hash: string
+          created_at?: string | null
+          fetched_at?: string
+          http_status?: number | null
+          method: string
+          structured_data?: Json | null
+          title?: string | null
+          updated_at?: string | null
+          url: string
+        }
+        Update: {
+          content?: string
+          content_hash?: string
+          created_at?: string | null
+          fetched_at?: string
+          http_status?: number | null
+          method?: string
+          structured_data?: Json | null
+          title?: string | null
+          updated_at?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
+      submission_jobs: {
+        Row: {
+          attempts: number
+          company_name: string | null
+          completed_at: string | null
+          confirm_duplicate: boolean
+          confirmed_fields: Json | null
+          created_at: string | null
+          error: Json | null
+          id: string
+          last_error: string | null
+          manual_content: string | null
+          max_attempts: number
+          next_attempt_at: string
+          opportunity_id: string | null
+          opportunity_type: Database["public"]["Enums"]["opportunity_type"]
+          parse_result: Json | null
+          result: Json | null
+          scrape_result: Json | null
+          started_at: string | null
+          status: string
+          step: string
+          updated_at: string | null
+          url: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          company_name?: string | null
+          completed_at?: string | null
+          confirm_duplicate?: boolean
+          confirmed_fields?: Json | null
+          created_at?: string | null
+          error?: Json | null
+          id?: string
+          last_error?: string | null
+          manual_content?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          opportunity_id?: string | null
+          opportunity_type: Database["public"]["Enums"]["opportunity_type"]
+          parse_result?: Json | null
+          result?: Json | null
+          scrape_result?: Json | null
+          started_at?: string | null
+          status?: string
+          step?: string
+          updated_at?: string | null
+          url: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          company_name?: string | null
+          completed_at?: string | null
+          confirm_duplicate?: boolean
+          confirmed_fields?: Json | null
+          created_at?: string | null
+          error?: Json | null
+          id?: string
+          last_error?: string | null
+          manual_content?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          opportunity_id?: string | null
+          opportunity_type?: Database["public"]["Enums"]["opportunity_type"]
+          parse_result?: Json | null
+          result?: Json | null
+          scrape_result?: Json | null
+          started_at?: string | null
+          status?: string
+          step?: string
+          updated_at?: string | null
+          url?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submission_jobs_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submission_jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
         ]
       }
       users: {
@@ -85,9 +984,15 @@ export type Database = {
           birthday: string | null
           country: string | null
           created_at: string | null
+          daily_digest_enabled: boolean | null
+          daily_digest_time: string | null
+          deadline_reminders_enabled: boolean | null
           email: string
+          email_notifications_enabled: boolean | null
           gender: string | null
           id: string
+          is_trusted_submitter: boolean | null
+          last_digest_sent_at: string | null
           major: string | null
           name: string
           region: string | null
@@ -100,9 +1005,15 @@ export type Database = {
           birthday?: string | null
           country?: string | null
           created_at?: string | null
+          daily_digest_enabled?: boolean | null
+          daily_digest_time?: string | null
+          deadline_reminders_enabled?: boolean | null
           email: string
+          email_notifications_enabled?: boolean | null
           gender?: string | null
           id?: string
+          is_trusted_submitter?: boolean | null
+          last_digest_sent_at?: string | null
           major?: string | null
           name: string
           region?: string | null
@@ -115,9 +1026,15 @@ export type Database = {
           birthday?: string | null
           country?: string | null
           created_at?: string | null
+          daily_digest_enabled?: boolean | null
+          daily_digest_time?: string | null
+          deadline_reminders_enabled?: boolean | null
           email?: string
+          email_notifications_enabled?: boolean | null
           gender?: string | null
           id?: string
+          is_trusted_submitter?: boolean | null
+          last_digest_sent_at?: string | null
           major?: string | null
           name?: string
           region?: string | null
@@ -132,10 +1049,83 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      claim_email_queue: {
+        Args: { p_batch_size?: number; p_lock_minutes?: number; p_worker?: string }
+        Returns: {
+          attempts: number
+          created_at: string | null
+          email_type: string
+          error_message: string | null
+          html_content: string
+          id: string
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          next_attempt_at: string
+          processed_at: string | null
+          scheduled_for: string
+          status: string
+          subject: string
+          text_content: string | null
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
+      confirm_submission_job: {
+        Args: { confirm_duplicate?: boolean; fields?: Json; job_id: string }
+        Returns: boolean
+      }
       delete_user: { Args: never; Returns: undefined }
+      merge_opportunities: {
+        Args: { keep_id: string; merge_id: string }
+        Returns: string
+      }
+      record_scrape_outcome: {
+        Args: {
+          p_content_length?: number
+          p_domain: string
+          p_duration_ms?: number
+          p_error?: string
+          p_method?: string
+          p_success: boolean
+        }
+        Returns: undefined
+      }
+      search_opportunities: {
+        Args: {
+          match_limit?: number
+          match_offset?: number
+          p_after_id?: string
+          p_after_rank?: number
+          p_deadline_after?: string
+          p_deadline_before?: string
+          p_ids?: string[]
+          p_location?: string
+          p_majors?: string[]
+          p_other_role_exclusions?: string[]
+          p_remote?: boolean
+          p_roles?: string[]
+          p_status?: string
+          p_types?: string[]
+          search_query: string
+        }
+        Returns: {
+          id: string
+          rank: number
+          snippet: string
+          total_count: number
+        }[]
+      }
     }
     Enums: {
-      opportunity_status: "active" | "expired"
+      application_status:
+        | "interested"
+        | "applied"
+        | "oa"
+        | "interviewing"
+        | "offer"
+        | "rejected"
+      opportunity_status: "active" | "expired" | "pending_review" | "rejected"
       opportunity_type:
         | "internship"
         | "full_time"
@@ -270,7 +1260,15 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      opportunity_status: ["active", "expired"],
+      application_status: [
+        "interested",
+        "applied",
+        "oa",
+        "interviewing",
+        "offer",
+        "rejected",
+      ],
+      opportunity_status: ["active", "expired", "pending_review", "rejected"],
       opportunity_type: [
         "internship",
         "full_time",
@@ -0,0 +1,62 @@
+import { z } from "zod"
+import {
+  ALERT_FREQUENCIES,
+  MAJORS,
+  OPPORTUNITY_TYPES,
+  ROLE_TYPES,
+} from "@/lib/constants"
+
+const asEnum = (values: readonly string[]) => values as unknown as [string, ...string[]]
+
+// Each filter list is a set: duplicates are dropped
+const filterList = (values: readonly string[], message: string) =>
+  z
+    .array(z.enum(asEnum(values), { errorMap: () => ({ message }) }))
+    .max(values.length)
+    .transform((items) => Array.from(new Set(items)))
+
+const alertFields = {
+  name: z
+    .string()
+    .trim()
+    .min(1, "Give the alert a name")
+    .max(100, "Keep the name under 100 characters"),
+  search: z
+    .string()
+    .trim()
+    .max(200, "Keep the search under 200 characters")
+    .nullable()
+    .transform((value) => value || null),
+  opportunity_types: filterList(OPPORTUNITY_TYPES, "Unknown opportunity type"),
+  majors: filterList(MAJORS, "Unknown major"),
+  roles: filterList(ROLE_TYPES, "Unknown role type"),
+  frequency: z.enum(asEnum(ALERT_FREQUENCIES), {
+    errorMap: () => ({ message: "Choose instant, daily or weekly" }),
+  }),
+  enabled: z.boolean(),
+}
+
+// POST /api/notifications/alerts
+export const savedSearchAlertSchema = z.object({
+  ...alertFields,
+  search: alertFields.search.optional().default(null),
+  opportunity_types: alertFields.opportunity_types.optional().default([]),
+  majors: alertFields.majors.optional().default([]),
+  roles: alertFields.roles.optional().default([]),
+  frequency: alertFields.frequency.optional().default("daily"),
+  enabled: alertFields.enabled.optional().default(true),
+})
+
+export type SavedSearchAlertFormData = z.infer<typeof savedSearchAlertSchema>
+
+// PATCH /api/notifications/alerts/[id]
+export const updateSavedSearchAlertSchema = z
+  .object(alertFields)
+  .partial()
+  .strict()
+  .refine((body) => Object.keys(body).length > 0, {
+    message: "Nothing to update",
+    path: ["name"],
+  })
+
+export type UpdateSavedSearchAlertFormData = z.infer<typeof updateSavedSearchAlertSchema>
@@ -0,0 +1,34 @@
+import { z } from "zod"
+import { APPLICATION_STATUS } from "@/lib/constants"
+
+const applicationStatusEnum = APPLICATION_STATUS as unknown as [
+  string,
+  ...string[],
+]
+
+const optionalDate = z
+  .string()
+  .refine(
+    (value) => {
+      const date = new Date(value)
+      return !Number.isNaN(date.getTime())
+    },
+    { message: "Enter a valid date" }
+  )
+  .nullable()
+  .optional()
+
+export const applicationSchema = z.object({
+  status: z.enum(applicationStatusEnum, {
+    errorMap: () => ({ message: "Select an application status" }),
+  }),
+  applied_at: optionalDate,
+  next_step_at: optionalDate,
+  notes: z
+    .string()
+    .max(5000, "Keep notes under 5000 characters")
+    .nullable()
+    .optional(),
+})
+
+export type ApplicationFormData = z.infer<typeof applicationSchema>
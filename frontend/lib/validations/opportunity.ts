@@ -1,5 +1,5 @@
 import { z } from "zod"
-import { OPPORTUNITY_TYPES } from "@/lib/constants"
+import { OPPORTUNITY_TYPES, ROLE_TYPES } from "@/lib/constants"
 
 export const submitOpportunitySchema = z.object({
   url: z
@@ -10,10 +10,61 @@ export const submitOpportunitySchema = z.object({
   opportunity_type: z.enum(OPPORTUNITY_TYPES as unknown as [string, ...string[]], {
     errorMap: () => ({ message: "Please select an opportunity type" }),
   }),
+  // Set when the submitter has seen the possible duplicates and submits anyway
+  confirm_duplicate: z.boolean().optional(),
 })
 
 export type SubmitOpportunityFormData = z.infer<typeof submitOpportunitySchema>
 
+// Date rolls 2025-02-31 over to March, so the parsed date must come back unchanged
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+  .refine((value) => {
+    const date = new Date(value)
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  }, {
+    message: "Enter a valid date",
+  })
+
+// Empty answers clear the field
+const confirmedText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .nullable()
+    .transform((value) => value || null)
+
+// Resume a submission waiting on the submitter (see lib/submissions.ts)
+export const confirmSubmissionSchema = z
+  .object({
+    // Submit anyway after seeing the likely duplicates
+    confirm_duplicate: z.literal(true).optional(),
+    // Confirmed or corrected values for the fields the parser wasn't sure about
+    confirmed_fields: z
+      .object({
+        job_title: confirmedText(200).optional(),
+        company_name: confirmedText(200).optional(),
+        location: confirmedText(200).optional(),
+        deadline: z
+          .union([
+            isoDate,
+            z.literal("").transform(() => null),
+            z.null(),
+          ])
+          .optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .refine((body) => body.confirm_duplicate || body.confirmed_fields, {
+    message: "Set confirm_duplicate to true or send confirmed_fields",
+    path: ["confirm_duplicate"],
+  })
+
+export type ConfirmSubmissionFormData = z.infer<typeof confirmSubmissionSchema>
+
 const opportunityTypeEnum = OPPORTUNITY_TYPES as unknown as [
   string,
   ...string[],
@@ -48,3 +99,193 @@ export const editOpportunitySchema = z.object({
 })
 
 export type EditOpportunityFormData = z.infer<typeof editOpportunitySchema>
+
+export const reviewDecisionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("approve"),
+    // Optional edits applied before approving (edit-then-approve)
+    updates: editOpportunitySchema.omit({ status: true }).partial().optional(),
+  }),
+  z.object({
+    action: z.literal("reject"),
+    reason: z
+      .string()
+      .trim()
+      .min(1, "A rejection reason is required")
+      .max(1000, "Keep the reason under 1000 characters"),
+  }),
+])
+
+export type ReviewDecisionFormData = z.infer<typeof reviewDecisionSchema>
+
+// Comma-separated query param; values end up inside PostgREST filter strings,
+// so only plain words, spaces, and a little punctuation are allowed
+const csvList = z
+  .string()
+  .transform((value) =>
+    value
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean)
+  )
+  .pipe(
+    z.array(
+      z
+        .string()
+        .max(100)
+        .regex(/^[\w &/.+-]+$/, "Contains unsupported characters")
+    )
+  )
+
+export const opportunityFiltersSchema = z
+  .object({
+    majors: csvList.optional(),
+    roles: csvList
+      .pipe(z.array(z.enum(ROLE_TYPES as unknown as [string, ...string[]])))
+      .optional(),
+    location: z.string().trim().max(100).optional(),
+    deadline_before: isoDate.optional(),
+    deadline_after: isoDate.optional(),
+    remote: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  })
+  .refine(
+    (filters) =>
+      !filters.deadline_before ||
+      !filters.deadline_after ||
+      filters.deadline_after <= filters.deadline_before,
+    {
+      message: "deadline_after must be on or before deadline_before",
+      path: ["deadline_after"],
+    }
+  )
+
+export type OpportunityFilters = z.infer<typeof opportunityFiltersSchema>
+
+export const duplicateDecisionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("merge"),
+    // Which side of the pair survives; the other is merged into it
+    keep: z.enum(["opportunity", "duplicate_of"], {
+      errorMap: () => ({ message: "Choose which opportunity to keep" }),
+    }),
+  }),
+  z.object({
+    action: z.literal("dismiss"),
+  }),
+])
+
+export type DuplicateDecisionFormData = z.infer<typeof duplicateDecisionSchema>
+
+// Admin answer to a "possibly closed" flag from the re-validation cron
+export const closedCheckDecisionSchema = z.object({
+  action: z.enum(["expire", "keep_open"], {
+    errorMap: () => ({ message: "Choose expire or keep_open" }),
+  }),
+})
+
+export type ClosedCheckDecisionFormData = z.infer<typeof closedCheckDecisionSchema>
+
+// Fields a re-parse can propose (the ParsedJobData keys)
+const reparseFieldEnum = [
+  "company_name",
+  "job_title",
+  "opportunity_type",
+  "role_type",
+  "relevant_majors",
+  "deadline",
+  "requirements",
+  "location",
+  "description",
+] as const
+
+export const reparseRequestSchema = z.object({
+  // Re-fetch the page instead of using the scrape cache
+  refresh: z.boolean().optional().default(false),
+})
+
+// Bulk re-parse over a filtered set (e.g. after a prompt change)
+export const bulkReparseSchema = z
+  .object({
+    ids: z.array(z.string().uuid("Invalid opportunity ID")).max(500).optional(),
+    status: z.enum(["active", "expired", "pending_review", "rejected"]).optional(),
+    opportunity_type: z.enum(opportunityTypeEnum).optional(),
+    company: z.string().trim().max(100).optional(),
+    created_after: isoDate.optional(),
+    created_before: isoDate.optional(),
+    refresh: z.boolean().optional().default(false),
+    limit: z.number().int().min(1).max(500).optional().default(100),
+  })
+  .refine(
+    (body) =>
+      !body.created_after ||
+      !body.created_before ||
+      body.created_after <= body.created_before,
+    {
+      message: "created_after must be on or before created_before",
+      path: ["created_after"],
+    }
+  )
+
+export type BulkReparseFormData = z.infer<typeof bulkReparseSchema>
+
+export const reparseDecisionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("apply"),
+    fields: z
+      .array(z.enum(reparseFieldEnum))
+      .min(1, "Choose at least one field to apply"),
+  }),
+  z.object({
+    action: z.literal("dismiss"),
+  }),
+])
+
+export type ReparseDecisionFormData = z.infer<typeof reparseDecisionSchema>
+
+// Blank CSV cells arrive as empty strings; treat them as missing
+const blankToUndefined = (value: unknown) =>
+  typeof value === "string" && value.trim() === "" ? undefined : value
+
+const optionalText = z.preprocess(blankToUndefined, z.string().trim().optional())
+
+// One opportunity from a CSV/JSON import file (relevant_majors may be "CS; Math" in CSV)
+export const importRecordSchema = z.object({
+  url: z.string().trim().url("Enter a valid URL"),
+  company_name: z.string().trim().min(1, "Company name is required"),
+  job_title: z.string().trim().min(1, "Job title is required"),
+  opportunity_type: z.preprocess(
+    (value) => (typeof value === "string" ? value.trim().toLowerCase() : value),
+    z.enum(opportunityTypeEnum, {
+      errorMap: () => ({ message: `Opportunity type must be one of: ${OPPORTUNITY_TYPES.join(", ")}` }),
+    })
+  ),
+  role_type: optionalText,
+  relevant_majors: z.preprocess(
+    (value) =>
+      typeof value === "string"
+        ? value.split(/[;|]/).map((item) => item.trim()).filter(Boolean)
+        : value ?? undefined,
+    z.array(z.string().trim().min(1)).optional()
+  ),
+  deadline: z.preprocess(blankToUndefined, isoDate.optional()),
+  requirements: optionalText,
+  location: optionalText,
+  description: optionalText,
+})
+
+export type ImportRecordData = z.infer<typeof importRecordSchema>
+
+export const importUrlSchema = z.string().trim().url("Enter a valid URL")
+
+// JSON body for POST /api/admin/import (files are sent as multipart form data instead)
+export const importRequestSchema = z
+  .object({
+    records: z.array(z.record(z.unknown())).optional(),
+    urls: z.array(z.string()).optional(),
+    // Used for URL rows whose posting doesn't say
+    opportunity_type: z.enum(opportunityTypeEnum).optional(),
+  })
+  .refine((body) => !!body.records !== !!body.urls, {
+    message: "Provide either records or urls",
+    path: ["records"],
+  })
@@ -12,6 +12,9 @@ type BaseOpportunity = Database["public"]["Tables"]["opportunities"]["Row"]
 export type Opportunity = Omit<BaseOpportunity, 'submitted_by'> & {
   submitted_by: string | { name: string } | null
   users?: { name: string } | null
+  // Present when the list was fetched with a search query
+  search_rank?: number
+  search_snippet?: string | null
 }
 
 // API Response types